@@ -11,7 +11,7 @@ async function globalSetup(config: FullConfig) {
     'TEST_USER_EMAIL',
     'TEST_USER_PASSWORD',
     'TEST_AUTH_TOKEN',
-    'VITE_MONGODB_URI',
+    'MONGODB_URI',
     'PG_HOST',
     'PG_PORT',
     'PG_DATABASE',
@@ -36,7 +36,7 @@ TEST_USER_PASSWORD=your_test_password
 TEST_AUTH_TOKEN=your_test_token
 
 # Database Connections
-VITE_MONGODB_URI=mongodb://localhost:27017/test_db
+MONGODB_URI=mongodb://localhost:27017/test_db
 PG_HOST=localhost
 PG_PORT=5432
 PG_DATABASE=test_db
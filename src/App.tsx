@@ -7,6 +7,7 @@ import MainLayout from './components/layout/main-layout';
 import Home from './pages/home';
 import Create from './pages/create';
 import Explore from './pages/explore';
+import { API_BASE_URL } from './config/client';
 
 const darkTheme = createTheme({
   palette: {
@@ -34,7 +35,7 @@ function App() {
   useEffect(() => {
     const checkAuthStatus = async () => {
       try {
-        const response = await fetch('http://localhost:3001/api/profile', {
+        const response = await fetch(`${API_BASE_URL}/api/profile`, {
           credentials: 'include'
         });
         if (response.ok) {
@@ -63,11 +64,11 @@ function App() {
             <Route path="/callback" element={<Explore />} />
             <Route 
               path="/login" 
-              element={<Navigate to="http://localhost:3001/api/auth/login" replace />} 
+              element={<Navigate to={`${API_BASE_URL}/api/auth/login`} replace />} 
             />
             <Route 
               path="/logout" 
-              element={<Navigate to="http://localhost:3001/api/auth/logout" replace />} 
+              element={<Navigate to={`${API_BASE_URL}/api/auth/logout`} replace />} 
             />
           </Route>
         </Routes>
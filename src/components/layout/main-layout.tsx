@@ -68,7 +68,7 @@ console.log('DEBUG - Main Layout - About to render MapContainer:', {
   placePOIMode={placePOIMode}
   setPlacePOIMode={setPlacePOIMode}
 />
-          <Outlet />
+          <Outlet context={{ mapRef }} />
         </div>
         <BottomTabs />
       </main>
@@ -0,0 +1,150 @@
+import { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  FormControlLabel,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText,
+  TextField,
+  Typography
+} from '@mui/material';
+import {
+  ContentCopy as ContentCopyIcon,
+  Delete as DeleteIcon
+} from '@mui/icons-material';
+import { apiTokenService } from '../../services/api-token-service';
+import { API_TOKEN_SCOPES, ApiTokenScope } from '@/types/database.types';
+import type { ApiTokenCreateResponse, ApiTokenResponse } from '@/types/api.types';
+
+const scopeLabels: Record<ApiTokenScope, string> = {
+  'routes:read': 'Read routes',
+  'routes:write': 'Upload routes',
+  'maps:read': 'Read maps',
+  'maps:write': 'Create and edit maps',
+  'photos:write': 'Upload photos'
+};
+
+/**
+ * Lists the user's API tokens in the profile drawer and lets them create and
+ * revoke tokens. A new token is shown once, right after it is created.
+ */
+const ApiTokensPanel = () => {
+  const [tokens, setTokens] = useState<ApiTokenResponse[]>([]);
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiTokenScope[]>(['routes:write']);
+  const [createdToken, setCreatedToken] = useState<ApiTokenCreateResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    apiTokenService.getTokens()
+      .then(setTokens)
+      .catch(() => setError('Failed to load API tokens'));
+  }, []);
+
+  const toggleScope = (scope: ApiTokenScope) => {
+    setScopes(prev => prev.includes(scope) ? prev.filter(s => s !== scope) : [...prev, scope]);
+  };
+
+  const handleCreate = async () => {
+    try {
+      setError(null);
+      const token = await apiTokenService.createToken({ name: name.trim(), scopes });
+      setCreatedToken(token);
+      setTokens(prev => [token, ...prev]);
+      setName('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create API token');
+    }
+  };
+
+  const handleRevoke = async (id: string) => {
+    try {
+      setError(null);
+      await apiTokenService.revokeToken(id);
+      setTokens(prev => prev.filter(token => token.id !== id));
+      if (createdToken?.id === id) setCreatedToken(null);
+    } catch {
+      setError('Failed to revoke API token');
+    }
+  };
+
+  return (
+    <Box sx={{ mt: 3 }}>
+      <Typography variant="subtitle2" sx={{ mb: 1 }}>
+        API Tokens
+      </Typography>
+      <Typography variant="caption" color="text.secondary" display="block">
+        For scripts, sent as an "Authorization: Bearer" header.
+      </Typography>
+
+      {error && <Alert severity="error" sx={{ mt: 1 }}>{error}</Alert>}
+
+      {createdToken && (
+        <Alert severity="success" sx={{ mt: 1, wordBreak: 'break-all' }} onClose={() => setCreatedToken(null)}>
+          Copy this token now, it will not be shown again:
+          <Box sx={{ display: 'flex', alignItems: 'center', fontFamily: 'monospace', mt: 0.5 }}>
+            {createdToken.token}
+            <IconButton size="small" onClick={() => navigator.clipboard.writeText(createdToken.token)}>
+              <ContentCopyIcon fontSize="small" />
+            </IconButton>
+          </Box>
+        </Alert>
+      )}
+
+      <TextField
+        fullWidth
+        label="Token name"
+        variant="outlined"
+        margin="normal"
+        size="small"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+      />
+      {API_TOKEN_SCOPES.map(scope => (
+        <FormControlLabel
+          key={scope}
+          label={<Typography variant="body2">{scopeLabels[scope]}</Typography>}
+          control={
+            <Checkbox size="small" checked={scopes.includes(scope)} onChange={() => toggleScope(scope)} />
+          }
+        />
+      ))}
+      <Button
+        fullWidth
+        variant="outlined"
+        sx={{ mt: 1 }}
+        disabled={!name.trim() || scopes.length === 0}
+        onClick={handleCreate}
+      >
+        Create token
+      </Button>
+
+      <List dense>
+        {tokens.map(token => (
+          <ListItem
+            key={token.id}
+            disableGutters
+            secondaryAction={
+              <IconButton edge="end" aria-label="Revoke token" onClick={() => handleRevoke(token.id)}>
+                <DeleteIcon fontSize="small" />
+              </IconButton>
+            }
+          >
+            <ListItemText
+              primary={`${token.name} (${token.prefix}…)`}
+              secondary={`${token.scopes.map(scope => scopeLabels[scope]).join(', ')} · ${
+                token.lastUsedAt ? `last used ${new Date(token.lastUsedAt).toLocaleDateString()}` : 'never used'
+              }`}
+            />
+          </ListItem>
+        ))}
+      </List>
+    </Box>
+  );
+};
+
+export default ApiTokensPanel;
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useMemo, useState } from 'react';
 import {
   ResponsiveContainer,
   AreaChart,
@@ -6,43 +6,182 @@ import {
   XAxis,
   YAxis,
   Tooltip,
-  CartesianGrid
+  CartesianGrid,
+  ReferenceArea,
+  ReferenceLine
 } from 'recharts';
+import { SURFACE_TYPES } from '@/types/gpx-types';
+import type { Climb, DistanceRange, ResupplyGap, RouteElevationProfile, SurfaceType } from '@/types/gpx-types';
+import { CLIMB_CATEGORY_COLORS, formatClimbCategory } from '@/utils/gpx/climbs';
+import { RESUPPLY_GAP_COLORS } from '@/utils/gpx/resupply';
+import { calculateRangeStats, findSampleIndexAtDistance } from '@/utils/gpx/profile';
+import { classifySurface, SURFACE_LABELS } from '@/utils/gpx/surface';
 
 interface ElevationPoint {
   distance: number;
   elevation: number;
   grade: number;
-  surface: string;
+  surface: SurfaceType;
 }
 
 interface ElevationProfileProps {
-  data: ElevationPoint[];
+  profile: RouteElevationProfile;
   visible: boolean;
+  onClimbClick?: (climb: Climb) => void;
+  // Distance in meters hovered or clicked on the map route, highlighted on the chart
+  highlightedDistance?: number | null;
+  // Called with the distance in meters under the pointer, or null when it leaves the chart
+  onHover?: (distance: number | null) => void;
+  selectedRange?: DistanceRange | null;
+  // Called with the range dragged across the chart, or null when the selection is cleared
+  onRangeSelect?: (range: DistanceRange | null) => void;
+  // Stretches without water or food that are too long, with distances along the profile
+  resupplyGaps?: ResupplyGap[];
 }
 
-const ElevationProfile = ({ data, visible }: ElevationProfileProps) => {
-  const getGradeColor = (grade: number) => {
-    if (grade >= 15) return "#000000"; // Black
-    if (grade >= 12) return "#800000"; // Maroon
-    if (grade >= 9) return "#FF0000";  // Red
-    if (grade >= 6) return "#FFA500";  // Orange
-    if (grade >= 3) return "#FFFF00";  // Yellow
-    return "#00FF00";                  // Green
-  };
+// Profile samples are in meters, the chart shows kilometers
+const toChartData = (profile: RouteElevationProfile): ElevationPoint[] =>
+  profile.samples.map(sample => ({
+    distance: Math.round(sample.distance / 10) / 100,
+    elevation: Math.round(sample.elevation),
+    grade: sample.grade,
+    surface: sample.surface
+  }));
+
+const getGradeColor = (grade: number) => {
+  if (grade >= 15) return "#000000"; // Black
+  if (grade >= 12) return "#800000"; // Maroon
+  if (grade >= 9) return "#FF0000";  // Red
+  if (grade >= 6) return "#FFA500";  // Orange
+  if (grade >= 3) return "#FFFF00";  // Yellow
+  return "#00FF00";                  // Green
+};
+
+// Details of a profile point, shown when hovering the chart or the map route
+const TooltipContent = ({ point }: { point: ElevationPoint }) => (
+  <>
+    <p className="text-sm">Distance: {point.distance}km</p>
+    <p className="text-sm">Elevation: {point.elevation}m</p>
+    <p className="text-sm flex items-center gap-1">
+      <span
+        className="inline-block w-2 h-2 rounded-full"
+        style={{ backgroundColor: getGradeColor(point.grade) }}
+      />
+      Grade: {point.grade}%
+    </p>
+    <p className="text-sm">Surface: {SURFACE_LABELS[classifySurface(point.surface)]}</p>
+  </>
+);
+
+// Recharts reports the x value under the pointer as activeLabel, in kilometers
+const getActiveDistance = (state: { activeLabel?: string | number } | null): number | null =>
+  state?.activeLabel === undefined ? null : Number(state.activeLabel);
+
+const ElevationProfile = ({
+  profile,
+  visible,
+  onClimbClick,
+  highlightedDistance = null,
+  onHover,
+  selectedRange = null,
+  onRangeSelect,
+  resupplyGaps = []
+}: ElevationProfileProps) => {
+  // Chart range being dragged, in kilometers
+  const [dragStart, setDragStart] = useState<number | null>(null);
+  const [dragEnd, setDragEnd] = useState<number | null>(null);
+
+  const data = useMemo(() => toChartData(profile), [profile]);
+  const rangeStats = useMemo(
+    () => selectedRange ? calculateRangeStats(profile.samples, selectedRange.start, selectedRange.end) : undefined,
+    [profile, selectedRange]
+  );
+  const highlighted = highlightedDistance === null
+    ? undefined
+    : data[findSampleIndexAtDistance(profile.samples, highlightedDistance)];
 
   if (!visible) return null;
 
+  const { stats } = profile;
+
+  const handleMouseMove = (state: { activeLabel?: string | number } | null) => {
+    const distance = getActiveDistance(state);
+    onHover?.(distance === null ? null : distance * 1000);
+    if (dragStart !== null && distance !== null) setDragEnd(distance);
+  };
+
+  const handleMouseLeave = () => {
+    onHover?.(null);
+    setDragStart(null);
+    setDragEnd(null);
+  };
+
+  const handleMouseUp = () => {
+    if (dragStart !== null) {
+      // A click without dragging clears the selection
+      onRangeSelect?.(dragEnd !== null && dragEnd !== dragStart
+        ? { start: Math.min(dragStart, dragEnd) * 1000, end: Math.max(dragStart, dragEnd) * 1000 }
+        : null);
+    }
+    setDragStart(null);
+    setDragEnd(null);
+  };
+
   return (
     <div className="absolute bottom-16 left-0 right-0 h-32 mx-4 bg-white rounded-t-lg shadow-lg">
-      <div className="p-2 border-b">
+      <div className="p-2 border-b flex justify-between">
         <span className="text-sm font-medium">Elevation Profile</span>
+        {rangeStats ? (
+          <span className="text-sm text-indigo-700">
+            {(rangeStats.startDistance / 1000).toFixed(1)}–{(rangeStats.endDistance / 1000).toFixed(1)}km:
+            {' '}{(rangeStats.distance / 1000).toFixed(1)}km
+            {' · '}↑ {rangeStats.ascent}m ↓ {rangeStats.descent}m
+            {' · '}avg {rangeStats.averageGrade}% max {rangeStats.maxGrade}%
+            {' · '}
+            <span
+              title={SURFACE_TYPES
+                .filter(type => rangeStats.surfaceDistances[type])
+                .map(type => `${SURFACE_LABELS[type]}: ${(rangeStats.surfaceDistances[type]! / 1000).toFixed(1)}km`)
+                .join('\n')}
+            >
+              {(rangeStats.unpavedDistance / 1000).toFixed(1)}km unpaved
+            </span>
+            <button
+              className="ml-2 text-gray-500 hover:text-gray-800"
+              onClick={() => onRangeSelect?.(null)}
+              title="Clear selection"
+            >
+              ✕
+            </button>
+          </span>
+        ) : (
+          <span className="text-sm text-gray-600">
+            {(stats.totalDistance / 1000).toFixed(1)}km
+            {' · '}↑ {stats.totalAscent}m ↓ {stats.totalDescent}m
+            {' · '}{Math.round(stats.minElevation)}–{Math.round(stats.maxElevation)}m
+            {' · '}max {stats.maxSustainedGrade}% sustained
+          </span>
+        )}
       </div>
-      <div className="h-[calc(100%-2.5rem)]">
+      <div className="relative h-[calc(100%-2.5rem)] select-none">
+        {/* Point hovered or clicked on the map route */}
+        {highlighted && (
+          <div className="absolute top-1 right-6 z-10 bg-white p-2 shadow rounded border pointer-events-none">
+            <TooltipContent point={highlighted} />
+          </div>
+        )}
         <ResponsiveContainer width="100%" height="100%">
           <AreaChart
             data={data}
             margin={{ top: 5, right: 20, left: 20, bottom: 5 }}
+            onMouseDown={(state) => {
+              const distance = getActiveDistance(state);
+              setDragStart(distance);
+              setDragEnd(distance);
+            }}
+            onMouseMove={handleMouseMove}
+            onMouseUp={handleMouseUp}
+            onMouseLeave={handleMouseLeave}
           >
             <defs>
               <linearGradient id="gradientFill" x1="0" y1="0" x2="0" y2="1">
@@ -53,8 +192,10 @@ const ElevationProfile = ({ data, visible }: ElevationProfileProps) => {
             <CartesianGrid strokeDasharray="3 3" />
             <XAxis 
               dataKey="distance" 
+              type="number"
+              domain={['dataMin', 'dataMax']}
               label={{ value: 'Distance (km)', position: 'bottom' }}
-              tickFormatter={(value) => `${value}km`}
+              tickFormatter={(value) => `${Math.round(value)}km`}
             />
             <YAxis
               label={{ 
@@ -66,19 +207,58 @@ const ElevationProfile = ({ data, visible }: ElevationProfileProps) => {
             <Tooltip
               content={({ active, payload }) => {
                 if (active && payload && payload.length) {
-                  const data = payload[0].payload as ElevationPoint;
                   return (
                     <div className="bg-white p-2 shadow rounded border">
-                      <p className="text-sm">Distance: {data.distance}km</p>
-                      <p className="text-sm">Elevation: {data.elevation}m</p>
-                      <p className="text-sm">Grade: {data.grade}%</p>
-                      <p className="text-sm">Surface: {data.surface}</p>
+                      <TooltipContent point={payload[0].payload as ElevationPoint} />
                     </div>
                   );
                 }
                 return null;
               }}
             />
+            {/* Shade each categorised climb, clicking a band zooms the map to it */}
+            {profile.climbs.map(climb => (
+              <ReferenceArea
+                key={climb.startDistance}
+                x1={climb.startDistance / 1000}
+                x2={climb.endDistance / 1000}
+                fill={CLIMB_CATEGORY_COLORS[climb.category]}
+                fillOpacity={0.25}
+                ifOverflow="hidden"
+                label={{ value: formatClimbCategory(climb), position: 'insideTop', fontSize: 10 }}
+                onClick={() => onClimbClick?.(climb)}
+                style={{ cursor: onClimbClick ? 'pointer' : undefined }}
+              />
+            ))}
+            {/* Outline each flagged resupply gap, labelled at the bottom so climb labels stay readable */}
+            {resupplyGaps.map(gap => (
+              <ReferenceArea
+                key={`${gap.kind}-${gap.startDistance}`}
+                x1={gap.startDistance / 1000}
+                x2={gap.endDistance / 1000}
+                fill={RESUPPLY_GAP_COLORS[gap.kind]}
+                fillOpacity={0.08}
+                stroke={RESUPPLY_GAP_COLORS[gap.kind]}
+                strokeDasharray="4 2"
+                ifOverflow="hidden"
+                label={{ value: `No ${gap.kind} ${(gap.distance / 1000).toFixed(0)} km`, position: 'insideBottom', fontSize: 10 }}
+              />
+            ))}
+            {selectedRange && (
+              <ReferenceArea
+                x1={selectedRange.start / 1000}
+                x2={selectedRange.end / 1000}
+                fill="#4F46E5"
+                fillOpacity={0.2}
+                ifOverflow="hidden"
+              />
+            )}
+            {dragStart !== null && dragEnd !== null && dragEnd !== dragStart && (
+              <ReferenceArea x1={dragStart} x2={dragEnd} fill="#4F46E5" fillOpacity={0.1} />
+            )}
+            {highlighted && (
+              <ReferenceLine x={highlighted.distance} stroke="#4F46E5" strokeWidth={2} />
+            )}
             <Area
               type="monotone"
               dataKey="elevation"
@@ -2,9 +2,8 @@ import React, { useRef, useState } from 'react';
 import { Button } from './button';
 import { Upload, Loader2 } from 'lucide-react';
 import { Alert } from '@/components/ui/alert';
-import { GpxService } from '@/services/gpx-service';
-import { GpxProcessor } from '@/services/gpx-processor';
-import { useRouteRendering } from '@/hooks';
+import { isSupportedRouteFile, SUPPORTED_ROUTE_EXTENSIONS } from '@/utils/gpx/registry';
+import { useGpxProcessing, useRouteRendering } from '@/hooks';
 import type { MapRef } from './map-container';
 
 interface GpxUploaderProps {
@@ -16,6 +15,7 @@ const GpxUploader: React.FC<GpxUploaderProps> = ({ mapRef }) => {
   const [isUploading, setIsUploading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const { addRouteToMap } = useRouteRendering(mapRef.current?.getMap() || null);
+  const { processGpxFile, status } = useGpxProcessing({ mapRef });
 
   const handleClick = () => {
     fileInputRef.current?.click();
@@ -32,29 +32,21 @@ const GpxUploader: React.FC<GpxUploaderProps> = ({ mapRef }) => {
       }
 
       // Validate file type
-      if (!file.name.toLowerCase().endsWith('.gpx')) {
-        throw new Error('Please select a GPX file');
+      if (!isSupportedRouteFile(file.name)) {
+        throw new Error(`Please select a ${SUPPORTED_ROUTE_EXTENSIONS.join(', ')} file`);
       }
 
       setIsUploading(true);
       setError(null);
 
-      // Step 1: Upload the file
-      const uploadResult = await GpxService.uploadGpxFile(file);
-      if (!uploadResult.success || !uploadResult.path) {
-        throw new Error(uploadResult.error || 'Failed to upload GPX file');
+      // Step 1: Upload the file and wait for the server to process it
+      const processedRoute = await processGpxFile(file);
+      if (!processedRoute) {
+        throw new Error('Failed to process GPX file');
       }
 
-      // Step 2: Process the file
-      const content = await file.text();
-      const processor = new GpxProcessor();
-      const processedRoute = await processor.processGpx(Buffer.from(content), file.name);
-
-      // Step 3: Add the processed route to the map
-      addRouteToMap({
-        ...processedRoute,
-        gpxFilePath: uploadResult.path
-      });
+      // Step 2: Add the processed route to the map
+      addRouteToMap(processedRoute);
 
       // Clear input for future uploads
       if (fileInputRef.current) {
@@ -73,7 +65,7 @@ const GpxUploader: React.FC<GpxUploaderProps> = ({ mapRef }) => {
       <input
         ref={fileInputRef}
         type="file"
-        accept=".gpx"
+        accept={SUPPORTED_ROUTE_EXTENSIONS.join(',')}
         onChange={handleFileChange}
         className="hidden"
       />
@@ -92,9 +84,13 @@ const GpxUploader: React.FC<GpxUploaderProps> = ({ mapRef }) => {
           )}
         </Button>
         
-        {error && (
+        {isUploading && status.isProcessing && (
+          <span className="text-xs text-white drop-shadow">{status.progress}%</span>
+        )}
+
+        {(error || status.error) && (
           <Alert variant="destructive" className="w-64">
-            {error}
+            {status.error || error}
           </Alert>
         )}
       </div>
@@ -20,12 +20,16 @@ import {
 } from '@mui/icons-material';
 import type { MapRef } from './map-container';
 import { mapService } from '../../services/map-service';
+import { getSavedPOIs, loadSavedMap } from './map/utils/saved-map/load-saved-map';
+import { usePOI } from './map/utils/poi/poi-state';
+import type { POI } from '@/types/note-types';
+import type { SurfaceType } from '@/types/gpx-types';
 
 interface LoadMapModalProps {
   open: boolean;
   onClose: () => void;
   mapRef: React.RefObject<MapRef>;
-  onLoadSuccess: () => void;
+  onLoadSuccess: (mapId: string) => void;
 }
 
 interface SavedMapData {
@@ -48,7 +52,7 @@ interface SavedMapData {
     features: Array<{
       type: "Feature";
       properties: {
-        surface: "paved" | "unpaved";
+        surface: SurfaceType | "paved" | "unpaved";  // Maps saved before the surface taxonomy use paved/unpaved
         segmentIndex: number;
       };
       geometry: {
@@ -66,6 +70,7 @@ interface SavedMapData {
       lon: number;
     };
   }>;
+  pois?: POI[];
   viewState: {
     center: [number, number];
     zoom: number;
@@ -79,6 +84,7 @@ const LoadMapModal = ({ open, onClose, mapRef, onLoadSuccess }: LoadMapModalProp
   const [loading, setLoading] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
   const [error, setError] = useState<string | null>(null);
+  const { setCurrentPOIs } = usePOI();
 
   useEffect(() => {
     const fetchMaps = async () => {
@@ -107,44 +113,10 @@ const LoadMapModal = ({ open, onClose, mapRef, onLoadSuccess }: LoadMapModalProp
       setLoading(true);
       setError(null);
   
-      // Clear existing routes first
-      mapRef.current.clearRoutes();
+      await loadSavedMap(mapRef.current, map);
+      setCurrentPOIs(getSavedPOIs(map));
   
-      // Load each route with its saved data
-      for (const route of map.routes) {
-        await mapRef.current.loadRoute(route, map.routeData, map.photos);
-      }
-  
-      // Add a small delay to ensure routes are fully processed
-      await new Promise(resolve => setTimeout(resolve, 100));
-  
-      // Calculate bounds from routeData
-      const coordinates = map.routeData.features.reduce((coords: number[][], feature) => {
-        if (feature.geometry.type === 'LineString') {
-          return [...coords, ...feature.geometry.coordinates];
-        }
-        return coords;
-      }, []);
-  
-      if (coordinates.length > 0) {
-        // Calculate bounds
-        const bounds = coordinates.reduce((bounds, coord) => {
-          return [
-            [Math.min(bounds[0][0], coord[0]), Math.min(bounds[0][1], coord[1])],
-            [Math.max(bounds[1][0], coord[0]), Math.max(bounds[1][1], coord[1])]
-          ];
-        }, [[coordinates[0][0], coordinates[0][1]], [coordinates[0][0], coordinates[0][1]]]);
-  
-        // Use fitBounds instead of setViewState
-        if (mapRef.current) {
-          mapRef.current.getMap()?.fitBounds(bounds, {
-            padding: 50,
-            duration: 1000
-          });
-        }
-      }
-  
-      onLoadSuccess();
+      onLoadSuccess(map._id);
       onClose();
     } catch (err) {
       console.error('Error loading map:', err);
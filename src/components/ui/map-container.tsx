@@ -6,9 +6,11 @@ import React, {
   useRef,
   useCallback,
   forwardRef,
+  useMemo,
   useState
 } from 'react';
 import SurfaceLegend from './surface-legend';
+import ElevationProfile from './elevation-profile';
 import mapboxgl from 'mapbox-gl';      // Main mapping library
 import { CircularProgress, Box, Typography } from '@mui/material';  // UI components
 import 'mapbox-gl/dist/mapbox-gl.css';
@@ -37,10 +39,21 @@ import { createRoot } from 'react-dom/client';
 import { POIProvider } from './map/utils/poi/poi-state';
 import { PlaceManager } from "./map/components/poi/place-poi/PlaceManager";
 import { POIManager } from './map/components/poi/POIManager';
+import { ClimbMarkers } from './map/components/climbs/ClimbMarkers';
+import { zoomToClimb } from './map/utils/climbs/climb-markers';
+import { roadSurfaceExpression } from './map/utils/surfaces/surface-layers';
+import { applySurfaceOverrides, classifySurface, routeDataLength, SURFACE_COLORS, SurfaceRange } from '@/utils/gpx/surface';
+import { ProfileMapSync } from './map/components/profile/ProfileMapSync';
+import { addStageLayers, removeStageLayers, setStageSections } from './map/utils/stages/stage-layers';
+import { addResupplyLayers, removeResupplyLayers, setResupplyGapLines } from './map/utils/resupply/resupply-layers';
+import type { DistanceRange, ProcessingStatus, ResupplyGap, RouteProcessingStage, RouteStage } from '@/types/gpx-types';
 import { addPOIMarkerToMap } from './map/utils/poi/poi-markers';
 import { POI, POICategory, InfrastructurePOIType } from '@/types/note-types';
 import type { Map as MapboxMap, Marker } from 'mapbox-gl';
 import { usePOI } from './map/utils/poi/poi-state';
+import { waypointsToPOIs } from './map/utils/poi/poi-waypoints';
+import { clientConfig } from '@/config/client';
+import { getRoadsTileUrl } from '@/config/client-config';
 
 
 // --------------------------------------------
@@ -95,13 +108,30 @@ interface MapRef {
     bearing: number;
   }) => void;
   clearRoutes: () => void;
+  // Adds a route built in the browser, e.g. one drawn with the route builder, as uploads are added
+  addRoute: (route: ProcessedRoute) => void;
+  // Shows stretches of the active route with a surface set by hand, replacing any shown before
+  setSurfaceOverrides: (overrides: SurfaceRange[]) => void;
+  // Shows the stages of a multi-day route as coloured sections of the active route, replacing any shown before
+  setStages: (stages: RouteStage[]) => void;
+  // Flags stretches of the active route without water or food on the map and elevation profile
+  setResupplyGaps: (gaps: ResupplyGap[]) => void;
   loadRoute: (route: {
     id: string;
     name: string;
     color: string;
     isVisible: boolean;
     gpxData: string;
-  }) => Promise<void>;
+    gpxFilePath?: string;
+  }, routeData?: FeatureCollection, savedPhotos?: Array<{
+    id: string;
+    url: string;
+    caption?: string;
+    location: {
+      lat: number;
+      lon: number;
+    };
+  }>) => Promise<void>;
   addPOI: (poiData: {
     name: string;
     description?: string;
@@ -157,9 +187,16 @@ const getDistancePoints = (
 // Loading Overlay UI Component
 // Shows progress during GPX processing
 // --------------------------------------------
-const LoadingOverlay = ({ mapRef }: { mapRef: React.RefObject<MapRef> }) => {
-  const { status: processingStatus } = useGpxProcessing({ mapRef });
-  
+const PROCESSING_STAGE_LABELS: Record<RouteProcessingStage, string> = {
+  queued: 'Waiting to start',
+  parsing: 'Reading route file',
+  surfaces: 'Detecting surfaces',
+  elevation: 'Calculating elevation',
+  saving: 'Saving route',
+  done: 'Done'
+};
+
+const LoadingOverlay = ({ processingStatus }: { processingStatus: ProcessingStatus }) => {
   if (!processingStatus.isProcessing) return null;
 
   return (
@@ -178,11 +215,12 @@ const LoadingOverlay = ({ mapRef }: { mapRef: React.RefObject<MapRef> }) => {
         zIndex: 1000
       }}
     >
-      <CircularProgress size={60} sx={{ mb: 2 }} />
+      <CircularProgress variant="determinate" value={processingStatus.progress} size={60} sx={{ mb: 2 }} />
       <Typography variant="h6" color="white" gutterBottom>
         Processing GPX file...
       </Typography>
       <Typography color="white">
+        {processingStatus.stage && `${PROCESSING_STAGE_LABELS[processingStatus.stage]} · `}
         {processingStatus.progress}% complete
       </Typography>
       {processingStatus.error && (
@@ -217,7 +255,7 @@ const MapContainer = forwardRef<MapRef, MapContainerProps>(({ placePOIMode, setP
 
 
   // Then hooks
-  const { isPlacingPOI, setIsPlacingPOI } = usePOI();
+  const { isPlacingPOI, setIsPlacingPOI, setPendingPOIs } = usePOI();
   const { processGpxFile, status: processingStatus } = useGpxProcessing({ mapRef: ref });
   const { routes, activeRoute, addRouteToMap, removeRoute, clearRoutes } = useRouteRendering(map.current);
 
@@ -234,6 +272,65 @@ const MapContainer = forwardRef<MapRef, MapContainerProps>(({ placePOIMode, setP
   const [tempMarker, setTempMarker] = useState<mapboxgl.Marker | null>(null);
   const [poiModalOpen, setPoiModalOpen] = useState(false);
   const [currentPOIs, setCurrentPOIs] = useState<POI[]>([]);
+  // Point hovered on the elevation chart or the map route, and the range dragged on the chart
+  const [profileHover, setProfileHover] = useState<{ distance: number; source: 'chart' | 'map' } | null>(null);
+  const [profileRange, setProfileRange] = useState<DistanceRange | null>(null);
+  const [surfaceOverrides, setSurfaceOverrides] = useState<SurfaceRange[]>([]);
+  const [stages, setStages] = useState<RouteStage[]>([]);
+  const [resupplyGaps, setResupplyGaps] = useState<ResupplyGap[]>([]);
+
+  // Clear the profile hover and selection when another route becomes active
+  useEffect(() => {
+    setProfileHover(null);
+    setProfileRange(null);
+  }, [activeRoute?.id]);
+
+  // Redraw the active route with its surface overrides; the route keeps its detected surfaces
+  useEffect(() => {
+    if (!map.current || !activeRoute?.geojson) return;
+
+    const source = map.current.getSource(`route-${activeRoute.id}`) as mapboxgl.GeoJSONSource | undefined;
+    source?.setData(applySurfaceOverrides(activeRoute.geojson, surfaceOverrides));
+  }, [activeRoute, surfaceOverrides]);
+
+  // Redraw the stage sections under the active route, whose route data the stages are measured along
+  useEffect(() => {
+    const mapInstance = map.current;
+    if (!mapInstance) return;
+
+    removeStageLayers(mapInstance);
+    if (!activeRoute?.geojson || stages.length === 0) return;
+
+    addStageLayers(mapInstance, `route-layer-${activeRoute.id}-white-stroke`);
+    setStageSections(mapInstance, activeRoute.geojson, stages);
+  }, [activeRoute, stages]);
+
+  // Redraw the flagged resupply gaps beside the active route
+  useEffect(() => {
+    const mapInstance = map.current;
+    if (!mapInstance) return;
+
+    removeResupplyLayers(mapInstance);
+    if (!activeRoute?.geojson || resupplyGaps.length === 0) return;
+
+    addResupplyLayers(mapInstance);
+    setResupplyGapLines(mapInstance, activeRoute.geojson, resupplyGaps);
+  }, [activeRoute, resupplyGaps]);
+
+  // Gaps are measured along the route data and the profile along the recorded points, so they are scaled onto the profile
+  const profileResupplyGaps = useMemo(() => {
+    const samples = activeRoute?.elevationProfile?.samples ?? [];
+    const routeLength = activeRoute?.geojson ? routeDataLength(activeRoute.geojson) : 0;
+    if (samples.length < 2 || routeLength === 0) return [];
+
+    const scale = samples[samples.length - 1].distance / routeLength;
+    return resupplyGaps.map(gap => ({
+      ...gap,
+      startDistance: gap.startDistance * scale,
+      endDistance: gap.endDistance * scale,
+      distance: gap.distance * scale
+    }));
+  }, [activeRoute, resupplyGaps]);
 
   // ------------------------------------------------------------------
   // isReady => Checks if map and all layers are fully loaded
@@ -544,7 +641,7 @@ const mapData = {
     features: routeData.features.map(f => ({
       ...f,
       properties: {
-        surface: f.properties?.surface || 'unpaved',
+        surface: classifySurface(f.properties?.surface),
         segmentIndex: f.properties?.segmentIndex || 0
       }
     }))
@@ -588,6 +685,11 @@ React.useImperativeHandle(
         const route = await processGpxFile(file);
         if (route) {
           addRouteToMap(route);
+
+          // Offer GPX waypoints as POIs, they are only added once reviewed
+          if (route.waypoints?.length) {
+            setPendingPOIs(waypointsToPOIs(route.waypoints, { createdBy: 'user' }));
+          }
           return route;
         }
         throw new Error('Failed to process GPX file');
@@ -615,6 +717,7 @@ React.useImperativeHandle(
     
     // Route management
     getCurrentRoutes: () => routes,
+    addRoute: addRouteToMap,
     
     // Photo management
     getCurrentPhotos: () => {
@@ -658,6 +761,9 @@ React.useImperativeHandle(
     // Clear functionality
     clearRoutes: () => {
       clearRoutes();
+      setSurfaceOverrides([]);
+      setStages([]);
+      setResupplyGaps([]);
       document.querySelectorAll('.photo-marker, .photo-marker-container').forEach(el => el.remove());
       document.querySelectorAll('.photo-modal-container').forEach(el => el.remove());
       document.querySelectorAll('.poi-marker-container').forEach(el => el.remove());
@@ -665,6 +771,10 @@ React.useImperativeHandle(
       setCurrentPOIs([]);
     },
     
+    setSurfaceOverrides,
+    setStages,
+    setResupplyGaps,
+
     // Load route functionality
     loadRoute: async (route, routeData?: FeatureCollection, savedPhotos?: Array<{
       id: string;
@@ -801,6 +911,7 @@ React.useImperativeHandle(
     isReady, 
     processGpxFile, 
     addRouteToMap,
+    setPendingPOIs,
     routes,
     activeRoute,
     clearRoutes,
@@ -831,15 +942,9 @@ React.useImperativeHandle(
       setStreetsLayersLoaded(false);
     }
 
-    const mapboxToken = import.meta.env.VITE_MAPBOX_TOKEN;
-    if (!mapboxToken) {
-      console.error('[MapInit] Mapbox token not found');
-      return;
-    }
-
     try {
       console.log("[MapInit] Setting access token");
-      mapboxgl.accessToken = mapboxToken;
+      mapboxgl.accessToken = clientConfig.mapboxToken;
     console.log("[MapInit] Creating new map instance");
 
     const newMap = new mapboxgl.Map({
@@ -879,7 +984,7 @@ React.useImperativeHandle(
         try {
           // Add MapTiler vector tile source containing road data
           console.log("[MapInit] Adding roads source");
-          const tileUrl = 'https://api.maptiler.com/tiles/5dd3666f-1ce4-4df6-9146-eda62a200bcb/{z}/{x}/{y}.pbf?key=DFSAZFJXzvprKbxHrHXv';
+          const tileUrl = getRoadsTileUrl(clientConfig);
           
           newMap.addSource('australia-roads', {
             type: 'vector',
@@ -901,15 +1006,7 @@ React.useImperativeHandle(
             },
             paint: {
               'line-opacity': 1,
-              'line-color': [
-                'match',
-                ['get', 'surface'],
-                ['paved', 'asphalt', 'concrete', 'compacted', 'sealed', 'bitumen', 'tar'],
-                '#4A90E2',
-                ['unpaved', 'gravel', 'fine', 'fine_gravel', 'dirt', 'earth'],
-                '#D35400',
-                '#888888'
-              ],
+              'line-color': roadSurfaceExpression(SURFACE_COLORS),
               'line-width': 2
             }
           });
@@ -973,7 +1070,7 @@ React.useImperativeHandle(
         currentInterval = newInterval;
         
         // Remove only distance markers
-        const distanceMarkers = document.querySelectorAll('.mapboxgl-marker:not(.photo-marker):not(.photo-marker-container)');
+        const distanceMarkers = document.querySelectorAll('.mapboxgl-marker:not(.photo-marker):not(.photo-marker-container):not(.climb-marker)');
         distanceMarkers.forEach(marker => marker.remove());
         
         // Get current route data
@@ -1058,7 +1155,7 @@ React.useImperativeHandle(
         />
       )}
       <div ref={mapContainer} className="w-full h-full" />
-      <LoadingOverlay mapRef={ref} />
+      <LoadingOverlay processingStatus={processingStatus} />
       {activeRoute?.segments && (
         <SurfaceLegend 
           surfaces={activeRoute.segments.map(s => ({
@@ -1067,6 +1164,36 @@ React.useImperativeHandle(
           }))} 
         />
       )}
+      {activeRoute?.elevationProfile && (
+        <ElevationProfile
+          profile={activeRoute.elevationProfile}
+          visible={activeRoute.elevationProfile.samples.length > 1}
+          onClimbClick={(climb) => {
+            if (map.current && activeRoute.elevationProfile) {
+              zoomToClimb(map.current, activeRoute.elevationProfile.samples, climb);
+            }
+          }}
+          highlightedDistance={profileHover?.source === 'map' ? profileHover.distance : null}
+          onHover={(distance) => setProfileHover(distance === null ? null : { distance, source: 'chart' })}
+          selectedRange={profileRange}
+          onRangeSelect={setProfileRange}
+          resupplyGaps={profileResupplyGaps}
+        />
+      )}
+      {isMapReady && (
+        <ClimbMarkers map={map.current} profile={activeRoute?.elevationProfile} />
+      )}
+      {isMapReady && (
+        <ProfileMapSync
+          map={map.current}
+          // The white stroke under the route is wider, making the line easier to hover
+          routeLayerId={activeRoute ? `route-layer-${activeRoute.id}-white-stroke` : undefined}
+          profile={activeRoute?.elevationProfile}
+          hoveredDistance={profileHover?.distance ?? null}
+          selectedRange={profileRange}
+          onRouteHover={(distance) => setProfileHover(distance === null ? null : { distance, source: 'map' })}
+        />
+      )}
       {activeRoute?.surfaces && (
         <SurfaceLegend 
           surfaces={activeRoute.surfaces.map(s => ({
@@ -0,0 +1,28 @@
+import React, { useEffect } from 'react';
+import type { Map as MapboxMap, Marker } from 'mapbox-gl';
+import type { RouteElevationProfile } from '@/types/gpx-types';
+import { createClimbMarker } from '../../utils/climbs/climb-markers';
+
+interface ClimbMarkersProps {
+  map: MapboxMap | null;
+  profile?: RouteElevationProfile;
+}
+
+// Shows a clickable marker at the foot of each categorised climb
+export const ClimbMarkers: React.FC<ClimbMarkersProps> = ({ map, profile }) => {
+  useEffect(() => {
+    if (!map || !profile) return;
+
+    const markers = profile.climbs
+      .map(climb => createClimbMarker(map, profile.samples, climb))
+      .filter((marker): marker is Marker => marker !== null);
+
+    return () => {
+      markers.forEach(marker => marker.remove());
+    };
+  }, [map, profile]);
+
+  return null;
+};
+
+export default ClimbMarkers;
@@ -3,6 +3,7 @@ import mapboxgl from 'mapbox-gl';
 import { usePOI } from '../../utils/poi/poi-state';
 import { POIModal } from './POIModal';
 import { POIDrawer } from './POIDrawer';
+import { WaypointReviewDialog } from './WaypointReviewDialog';
 import { createPOIMarker } from '../../utils/poi/poi-markers';
 
 interface POIManagerProps {
@@ -24,7 +25,10 @@ export const POIManager: React.FC<POIManagerProps> = ({ map, placePOIMode }) =>
     setSelectedPOI,
     setIsDrawerOpen,
     setCurrentPOIs,
-    updatePOIPosition
+    updatePOIPosition,
+    pendingPOIs,
+    acceptPendingPOIs,
+    discardPendingPOIs
   } = usePOI();
 
   // Keep track of active markers
@@ -206,6 +210,11 @@ export const POIManager: React.FC<POIManagerProps> = ({ map, placePOIMode }) =>
               setCurrentPOIs(prev => prev.filter(p => p.id !== poiId));
             }}
           />
+          <WaypointReviewDialog
+            pois={pendingPOIs}
+            onAccept={acceptPendingPOIs}
+            onDiscard={discardPendingPOIs}
+          />
         </>
       )}
     </>
@@ -0,0 +1,139 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  Checkbox,
+  Select,
+  MenuItem,
+  List,
+  ListItem
+} from '@mui/material';
+import { POI, POIType, POIIcons } from '@/types/note-types';
+import { getPOICategory } from '../../utils/poi/poi-waypoints';
+
+interface WaypointReviewDialogProps {
+  pois: POI[];
+  onAccept: (pois: POI[]) => void;
+  onDiscard: () => void;
+}
+
+// Lets the user choose which imported waypoints become POIs and correct their type
+export const WaypointReviewDialog: React.FC<WaypointReviewDialogProps> = ({
+  pois,
+  onAccept,
+  onDiscard
+}) => {
+  const [reviewed, setReviewed] = useState<POI[]>(pois);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
+  // Reset the review whenever a new batch of waypoints arrives
+  useEffect(() => {
+    setReviewed(pois);
+    setSelectedIds(new Set(pois.map(poi => poi.id)));
+  }, [pois]);
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const handleTypeChange = (id: string, type: POIType) => {
+    setReviewed(prev => prev.map(poi =>
+      poi.id === id
+        ? { ...poi, type, category: getPOICategory(type), updatedAt: new Date() }
+        : poi
+    ));
+  };
+
+  const allSelected = selectedIds.size === reviewed.length;
+
+  return (
+    <Dialog
+      open={pois.length > 0}
+      onClose={onDiscard}
+      maxWidth="sm"
+      fullWidth
+    >
+      <DialogTitle>
+        <Typography>Import {pois.length} waypoint{pois.length === 1 ? '' : 's'} as points of interest</Typography>
+      </DialogTitle>
+      <DialogContent>
+        <Box display="flex" alignItems="center" mb={1}>
+          <Checkbox
+            checked={allSelected}
+            indeterminate={selectedIds.size > 0 && !allSelected}
+            onChange={() => setSelectedIds(allSelected ? new Set() : new Set(reviewed.map(poi => poi.id)))}
+          />
+          <Typography variant="body2">Select all</Typography>
+        </Box>
+        <List dense>
+          {reviewed.map(poi => (
+            <ListItem key={poi.id} disableGutters sx={{ gap: 1 }}>
+              <Checkbox
+                checked={selectedIds.has(poi.id)}
+                onChange={() => toggleSelected(poi.id)}
+              />
+              <Box flex={1} minWidth={0}>
+                <Typography variant="body2" noWrap>{poi.name}</Typography>
+                {poi.description && (
+                  <Typography variant="caption" color="text.secondary" noWrap component="div">
+                    {poi.description}
+                  </Typography>
+                )}
+              </Box>
+              <Select
+                size="small"
+                value={poi.type}
+                onChange={(e) => handleTypeChange(poi.id, e.target.value as POIType)}
+                sx={{ minWidth: 180 }}
+              >
+                {(Object.keys(POIIcons) as POIType[]).map(type => (
+                  <MenuItem key={type} value={type}>
+                    <Box display="flex" alignItems="center" gap={1}>
+                      <span className="material-icons" style={{ color: '#e17055', fontSize: '20px' }}>
+                        {POIIcons[type]}
+                      </span>
+                      {type}
+                    </Box>
+                  </MenuItem>
+                ))}
+              </Select>
+            </ListItem>
+          ))}
+        </List>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onDiscard}>
+          Discard
+        </Button>
+        <Button
+          variant="contained"
+          disabled={selectedIds.size === 0}
+          onClick={() => onAccept(reviewed.filter(poi => selectedIds.has(poi.id)))}
+          sx={{
+            bgcolor: '#e17055',
+            '&:hover': {
+              bgcolor: '#d65d43'
+            }
+          }}
+        >
+          Import {selectedIds.size} Point{selectedIds.size === 1 ? '' : 's'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default WaypointReviewDialog;
@@ -0,0 +1,96 @@
+import React, { useEffect, useRef } from 'react';
+import type { Map as MapboxMap, MapMouseEvent } from 'mapbox-gl';
+import type { DistanceRange, RouteElevationProfile } from '@/types/gpx-types';
+import { findNearestSampleIndex } from '@/utils/gpx/profile';
+import {
+  addProfileLayers,
+  removeProfileLayers,
+  setProfileHover,
+  setProfileSelection
+} from '../../utils/profile/profile-layers';
+
+interface ProfileMapSyncProps {
+  map: MapboxMap | null;
+  routeLayerId?: string;
+  profile?: RouteElevationProfile;
+  hoveredDistance: number | null;
+  selectedRange: DistanceRange | null;
+  // Called with the distance along the route under the pointer, or null when it leaves the route
+  onRouteHover: (distance: number | null) => void;
+}
+
+// Links the elevation chart to the map: draws the hovered point and selected range on the
+// route, and reports where the route line is hovered or clicked
+export const ProfileMapSync: React.FC<ProfileMapSyncProps> = ({
+  map,
+  routeLayerId,
+  profile,
+  hoveredDistance,
+  selectedRange,
+  onRouteHover
+}) => {
+  // Keeps the map listeners stable while the callback changes between renders
+  const onRouteHoverRef = useRef(onRouteHover);
+  onRouteHoverRef.current = onRouteHover;
+  // A clicked point stays highlighted after the pointer leaves the route
+  const pinnedDistance = useRef<number | null>(null);
+
+  useEffect(() => {
+    if (!map) return;
+
+    addProfileLayers(map);
+    return () => {
+      if (map.getStyle()) removeProfileLayers(map);
+    };
+  }, [map]);
+
+  useEffect(() => {
+    if (!map || !profile) return;
+    setProfileHover(map, profile.samples, hoveredDistance);
+  }, [map, profile, hoveredDistance]);
+
+  useEffect(() => {
+    if (!map || !profile) return;
+    setProfileSelection(map, profile.samples, selectedRange);
+  }, [map, profile, selectedRange]);
+
+  useEffect(() => {
+    if (!map || !profile || !routeLayerId) return;
+    pinnedDistance.current = null;
+
+    const distanceAt = (e: MapMouseEvent) => {
+      const index = findNearestSampleIndex(profile.samples, e.lngLat.lng, e.lngLat.lat);
+      return index === -1 ? null : profile.samples[index].distance;
+    };
+
+    const handleMouseMove = (e: MapMouseEvent) => {
+      map.getCanvas().style.cursor = 'pointer';
+      onRouteHoverRef.current(distanceAt(e));
+    };
+
+    const handleMouseLeave = () => {
+      map.getCanvas().style.cursor = '';
+      onRouteHoverRef.current(pinnedDistance.current);
+    };
+
+    const handleClick = (e: MapMouseEvent) => {
+      const distance = distanceAt(e);
+      pinnedDistance.current = pinnedDistance.current === distance ? null : distance;
+      onRouteHoverRef.current(distance);
+    };
+
+    map.on('mousemove', routeLayerId, handleMouseMove);
+    map.on('mouseleave', routeLayerId, handleMouseLeave);
+    map.on('click', routeLayerId, handleClick);
+
+    return () => {
+      map.off('mousemove', routeLayerId, handleMouseMove);
+      map.off('mouseleave', routeLayerId, handleMouseLeave);
+      map.off('click', routeLayerId, handleClick);
+    };
+  }, [map, profile, routeLayerId]);
+
+  return null;
+};
+
+export default ProfileMapSync;
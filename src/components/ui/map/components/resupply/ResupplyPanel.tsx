@@ -0,0 +1,156 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText,
+  Paper,
+  TextField,
+  Typography
+} from '@mui/material';
+import { Close as CloseIcon } from '@mui/icons-material';
+import type { MapRef } from '../../../map-container';
+import {
+  analyzeResupply,
+  DEFAULT_MAX_RESUPPLY_GAPS,
+  DEFAULT_RESUPPLY_CORRIDOR_METERS,
+  RESUPPLY_GAP_COLORS
+} from '@/utils/gpx/resupply';
+import { RESUPPLY_KINDS } from '@/types/gpx-types';
+import type { ResupplyGap, ResupplyKind } from '@/types/gpx-types';
+import type { POI } from '@/types/note-types';
+
+const formatKm = (meters: number) => `${(meters / 1000).toFixed(1)} km`;
+
+const KIND_LABELS: Record<ResupplyKind, string> = {
+  water: 'Water',
+  food: 'Food'
+};
+
+interface ResupplyPanelProps {
+  mapRef: React.RefObject<MapRef>;
+  pois: POI[];
+  onClose: () => void;
+}
+
+// Shows where riders can get water and food along the active route and flags the gaps longer than they can carry for
+export const ResupplyPanel: React.FC<ResupplyPanelProps> = ({ mapRef, pois, onClose }) => {
+  const [corridor, setCorridor] = useState(String(DEFAULT_RESUPPLY_CORRIDOR_METERS));
+  const [maxGapKm, setMaxGapKm] = useState<Record<ResupplyKind, string>>({
+    water: String(DEFAULT_MAX_RESUPPLY_GAPS.water / 1000),
+    food: String(DEFAULT_MAX_RESUPPLY_GAPS.food / 1000)
+  });
+
+  const analysis = useMemo(() => {
+    const routeData = mapRef.current?.getRouteData();
+    if (!routeData?.features.length) return null;
+
+    const gapLimit = (kind: ResupplyKind) => Number(maxGapKm[kind]) > 0 ? Number(maxGapKm[kind]) * 1000 : undefined;
+    return analyzeResupply(routeData, pois, {
+      corridor: corridor !== '' && Number(corridor) >= 0 ? Number(corridor) : undefined,
+      maxGaps: { water: gapLimit('water'), food: gapLimit('food') }
+    });
+  }, [mapRef, pois, corridor, maxGapKm]);
+
+  const flagged = useMemo(() => analysis?.gaps.filter(gap => gap.exceedsLimit) ?? [], [analysis]);
+
+  useEffect(() => {
+    mapRef.current?.setResupplyGaps(flagged);
+  }, [mapRef, flagged]);
+
+  // The flags belong to the panel, so they go when it closes
+  useEffect(() => () => mapRef.current?.setResupplyGaps([]), [mapRef]);
+
+  const poiName = (poiId: string | undefined, fallback: string) =>
+    analysis?.points.find(point => point.poiId === poiId)?.name ?? fallback;
+
+  const describeGap = (gap: ResupplyGap) =>
+    `${poiName(gap.startPoiId, 'Start')} → ${poiName(gap.endPoiId, 'Finish')}, from ${formatKm(gap.startDistance)}`;
+
+  return (
+    <Paper sx={{ position: 'fixed', top: 16, right: 16, width: 360, maxHeight: '80vh', overflow: 'auto', p: 2, zIndex: 2 }}>
+      <Box display="flex" alignItems="center" justifyContent="space-between">
+        <Typography variant="subtitle2">Water &amp; Food</Typography>
+        <IconButton size="small" aria-label="Close resupply analysis" onClick={onClose}>
+          <CloseIcon fontSize="small" />
+        </IconButton>
+      </Box>
+
+      <Box display="flex" gap={1} mt={1}>
+        <TextField
+          size="small"
+          type="number"
+          label="Corridor (m)"
+          value={corridor}
+          inputProps={{ min: 0, max: 10000 }}
+          onChange={(e) => setCorridor(e.target.value)}
+        />
+        {RESUPPLY_KINDS.map(kind => (
+          <TextField
+            key={kind}
+            size="small"
+            type="number"
+            label={`Max ${kind} gap (km)`}
+            value={maxGapKm[kind]}
+            inputProps={{ min: 1 }}
+            onChange={(e) => setMaxGapKm({ ...maxGapKm, [kind]: e.target.value })}
+          />
+        ))}
+      </Box>
+
+      {!analysis ? (
+        <Typography variant="body2" color="text.secondary" mt={1}>
+          Add a route to find the gaps between water and food.
+        </Typography>
+      ) : (
+        <>
+          {RESUPPLY_KINDS.map(kind => {
+            const longest = analysis.gaps.find(gap => gap.kind === kind);
+            return longest && (
+              <Alert
+                key={kind}
+                severity={longest.exceedsLimit ? 'warning' : 'success'}
+                sx={{ mt: 1, borderLeft: 4, borderLeftColor: RESUPPLY_GAP_COLORS[kind] }}
+              >
+                Longest without {kind}: {formatKm(longest.distance)}
+                <Typography variant="caption" display="block">{describeGap(longest)}</Typography>
+              </Alert>
+            );
+          })}
+
+          {flagged.length > 0 && (
+            <>
+              <Typography variant="caption" color="text.secondary" display="block" mt={1}>
+                Gaps longer than the limits
+              </Typography>
+              <List dense>
+                {flagged.map(gap => (
+                  <ListItem key={`${gap.kind}-${gap.startDistance}`} disableGutters>
+                    <ListItemText primary={`${KIND_LABELS[gap.kind]}: ${formatKm(gap.distance)}`} secondary={describeGap(gap)} />
+                  </ListItem>
+                ))}
+              </List>
+            </>
+          )}
+
+          <Typography variant="caption" color="text.secondary" display="block" mt={1}>
+            {analysis.points.length} resupply points within {analysis.corridor} m of the route
+          </Typography>
+          <List dense>
+            {analysis.points.map(point => (
+              <ListItem key={point.poiId} disableGutters>
+                <ListItemText
+                  primary={`${formatKm(point.distance)} · ${point.name}`}
+                  secondary={`${point.type}, ${point.kinds.map(kind => KIND_LABELS[kind]).join(' & ')}${
+                    point.detour > 0 ? `, ${Math.round(point.detour)} m detour` : ''}`}
+                />
+              </ListItem>
+            ))}
+          </List>
+        </>
+      )}
+    </Paper>
+  );
+};
@@ -0,0 +1,260 @@
+import React, { useEffect, useRef, useState } from 'react';
+import mapboxgl, { type MapLayerMouseEvent, type MapMouseEvent } from 'mapbox-gl';
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  FormControlLabel,
+  IconButton,
+  LinearProgress,
+  Paper,
+  TextField,
+  Typography
+} from '@mui/material';
+import { Close as CloseIcon } from '@mui/icons-material';
+import type { MapRef } from '../../../map-container';
+import { GpxService } from '@/services/gpx-service';
+import { renameGpx } from '@/utils/gpx/export';
+import { locateOnRouteData } from '@/utils/gpx/surface';
+import type { RouteBuildResponse, RoutingPreferences } from '@/types/api.types';
+import {
+  addRouteBuilderLayers,
+  removeRouteBuilderLayers,
+  ROUTE_BUILDER_LINE_LAYER_ID,
+  setRouteBuilderLine
+} from '../../utils/route-builder/route-builder-layers';
+
+const WAYPOINT_COLORS = { start: '#27ae60', via: '#4F46E5', end: '#c0392b' };
+
+// Waypoints are routed once they have stopped changing for this long, so quick edits send one request
+const BUILD_DELAY_MS = 400;
+
+const formatKm = (meters: number) => `${(meters / 1000).toFixed(2)} km`;
+
+const waypointColor = (index: number, count: number) =>
+  index === 0 ? WAYPOINT_COLORS.start : index === count - 1 ? WAYPOINT_COLORS.end : WAYPOINT_COLORS.via;
+
+interface RouteBuilderProps {
+  mapRef: React.RefObject<MapRef>;
+  onClose: () => void;
+}
+
+// Draw route mode: waypoints clicked on the map are routed over the road network as they change
+export const RouteBuilder: React.FC<RouteBuilderProps> = ({ mapRef, onClose }) => {
+  const [waypoints, setWaypoints] = useState<[number, number][]>([]);
+  const [preferences, setPreferences] = useState<RoutingPreferences>({ preferGravel: true, avoidSealedHighways: true });
+  const [name, setName] = useState('');
+  const [result, setResult] = useState<RouteBuildResponse | null>(null);
+  const [isRouting, setIsRouting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Waypoints move faster than the server answers, only the latest request is shown
+  const latestRequest = useRef(0);
+
+  useEffect(() => {
+    const map = mapRef.current?.getMap();
+    if (!map) return;
+
+    addRouteBuilderLayers(map);
+    return () => removeRouteBuilderLayers(map);
+  }, [mapRef]);
+
+  useEffect(() => {
+    const request = ++latestRequest.current;
+    if (waypoints.length < 2) {
+      setResult(null);
+      setIsRouting(false);
+      return;
+    }
+
+    setIsRouting(true);
+    const timeout = setTimeout(() => {
+      GpxService.buildRoute({ waypoints, preferences }).then(response => {
+        if (request !== latestRequest.current) return;
+        setIsRouting(false);
+        setError(response.success ? null : response.error || 'Failed to build route');
+        if (response.success && response.result) setResult(response.result);
+      });
+    }, BUILD_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [waypoints, preferences]);
+
+  useEffect(() => {
+    const map = mapRef.current?.getMap();
+    if (map) setRouteBuilderLine(map, result?.route.geojson);
+  }, [mapRef, result]);
+
+  // A click on the map adds a waypoint at the end; clicks on markers and on the line are theirs
+  useEffect(() => {
+    const map = mapRef.current?.getMap();
+    if (!map) return;
+
+    const handleClick = (event: MapMouseEvent) => {
+      if ((event.originalEvent.target as HTMLElement).closest('.mapboxgl-marker')) return;
+      if (map.queryRenderedFeatures(event.point, { layers: [ROUTE_BUILDER_LINE_LAYER_ID] }).length > 0) return;
+      setWaypoints(current => [...current, [event.lngLat.lng, event.lngLat.lat]]);
+    };
+
+    map.getCanvas().style.cursor = 'crosshair';
+    map.on('click', handleClick);
+    return () => {
+      map.off('click', handleClick);
+      map.getCanvas().style.cursor = '';
+    };
+  }, [mapRef]);
+
+  // Waypoints can be dragged to move them, or right-clicked to remove them
+  useEffect(() => {
+    const map = mapRef.current?.getMap();
+    if (!map) return;
+
+    const markers = waypoints.map((position, index) => {
+      const marker = new mapboxgl.Marker({ draggable: true, scale: 0.7, color: waypointColor(index, waypoints.length) })
+        .setLngLat(position)
+        .addTo(map);
+
+      marker.on('dragend', () => {
+        const { lng, lat } = marker.getLngLat();
+        setWaypoints(current => current.map((point, i) => (i === index ? [lng, lat] : point)));
+      });
+      marker.getElement().addEventListener('contextmenu', (event) => {
+        event.preventDefault();
+        setWaypoints(current => current.filter((_, i) => i !== index));
+      });
+      return marker;
+    });
+
+    return () => markers.forEach(marker => marker.remove());
+  }, [mapRef, waypoints]);
+
+  // Dragging the line adds a via point where it is dropped, in the leg the drag started on
+  useEffect(() => {
+    const map = mapRef.current?.getMap();
+    const geojson = result?.route.geojson;
+    if (!map || !result || !geojson) return;
+
+    let viaMarker: mapboxgl.Marker | null = null;
+    let legIndex = 0;
+
+    const handleMove = (event: MapMouseEvent) => {
+      viaMarker?.setLngLat(event.lngLat);
+    };
+
+    const handleUp = (event: MapMouseEvent) => {
+      map.off('mousemove', handleMove);
+      viaMarker?.remove();
+      viaMarker = null;
+      const via: [number, number] = [event.lngLat.lng, event.lngLat.lat];
+      setWaypoints(current => [...current.slice(0, legIndex), via, ...current.slice(legIndex)]);
+    };
+
+    const handleDown = (event: MapLayerMouseEvent) => {
+      // Keeps the map from panning while the line is dragged
+      event.preventDefault();
+
+      const located = locateOnRouteData(geojson, [event.lngLat.lng, event.lngLat.lat]);
+      const distances = result.waypointDistances;
+      const next = distances.findIndex(distance => distance > (located?.distance ?? 0));
+      legIndex = next === -1 ? distances.length - 1 : next;
+
+      viaMarker = new mapboxgl.Marker({ scale: 0.7, color: WAYPOINT_COLORS.via }).setLngLat(event.lngLat).addTo(map);
+      map.on('mousemove', handleMove);
+      map.once('mouseup', handleUp);
+    };
+
+    const showGrab = () => { map.getCanvas().style.cursor = 'move'; };
+    const showCrosshair = () => { map.getCanvas().style.cursor = 'crosshair'; };
+
+    map.on('mousedown', ROUTE_BUILDER_LINE_LAYER_ID, handleDown);
+    map.on('mouseenter', ROUTE_BUILDER_LINE_LAYER_ID, showGrab);
+    map.on('mouseleave', ROUTE_BUILDER_LINE_LAYER_ID, showCrosshair);
+    return () => {
+      map.off('mousedown', ROUTE_BUILDER_LINE_LAYER_ID, handleDown);
+      map.off('mouseenter', ROUTE_BUILDER_LINE_LAYER_ID, showGrab);
+      map.off('mouseleave', ROUTE_BUILDER_LINE_LAYER_ID, showCrosshair);
+      map.off('mousemove', handleMove);
+      map.off('mouseup', handleUp);
+      viaMarker?.remove();
+    };
+  }, [mapRef, result]);
+
+  // The name goes into the route's GPX too, so it is kept when the map is loaded again
+  const handleAdd = () => {
+    if (!result) return;
+
+    const { route } = result;
+    const routeName = name.trim();
+    mapRef.current?.addRoute(routeName
+      ? { ...route, name: routeName, gpxData: renameGpx(route.gpxData, routeName) }
+      : route);
+    onClose();
+  };
+
+  const distance = result ? result.waypointDistances[result.waypointDistances.length - 1] : 0;
+
+  return (
+    <Paper sx={{ position: 'fixed', top: 16, right: 16, width: 320, p: 2, zIndex: 2 }}>
+      <Box display="flex" alignItems="center" justifyContent="space-between">
+        <Typography variant="subtitle2">Draw Route</Typography>
+        <IconButton size="small" aria-label="Close route builder" onClick={onClose}>
+          <CloseIcon fontSize="small" />
+        </IconButton>
+      </Box>
+      <Typography variant="caption" color="text.secondary" display="block">
+        Click the map to add waypoints. Drag a waypoint to move it or right-click to remove it,
+        and drag the line to add a via point.
+      </Typography>
+
+      <FormControlLabel
+        label="Prefer gravel"
+        control={
+          <Checkbox
+            size="small"
+            checked={Boolean(preferences.preferGravel)}
+            onChange={(e) => setPreferences(current => ({ ...current, preferGravel: e.target.checked }))}
+          />
+        }
+      />
+      <FormControlLabel
+        label="Avoid sealed highways"
+        control={
+          <Checkbox
+            size="small"
+            checked={Boolean(preferences.avoidSealedHighways)}
+            onChange={(e) => setPreferences(current => ({ ...current, avoidSealedHighways: e.target.checked }))}
+          />
+        }
+      />
+
+      {isRouting && <LinearProgress sx={{ my: 1 }} />}
+      {error && <Alert severity="error" sx={{ mt: 1 }}>{error}</Alert>}
+      {result && (
+        <Typography variant="body2" sx={{ mt: 1 }}>
+          {formatKm(distance)} through {waypoints.length} waypoints
+        </Typography>
+      )}
+
+      <TextField
+        fullWidth
+        size="small"
+        label="Route name"
+        margin="normal"
+        value={name}
+        inputProps={{ maxLength: 200 }}
+        onChange={(e) => setName(e.target.value)}
+      />
+
+      <Box display="flex" gap={1} justifyContent="flex-end">
+        <Button size="small" disabled={waypoints.length === 0} onClick={() => setWaypoints(current => current.slice(0, -1))}>
+          Undo
+        </Button>
+        <Button size="small" disabled={waypoints.length === 0} onClick={() => setWaypoints([])}>
+          Clear
+        </Button>
+        <Button size="small" variant="contained" disabled={!result || isRouting} onClick={handleAdd}>
+          Add to map
+        </Button>
+      </Box>
+    </Paper>
+  );
+};
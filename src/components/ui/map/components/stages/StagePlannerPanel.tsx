@@ -0,0 +1,245 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  FormControlLabel,
+  IconButton,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography
+} from '@mui/material';
+import { Close as CloseIcon, Delete as DeleteIcon, Download as DownloadIcon } from '@mui/icons-material';
+import type { MapRef } from '../../../map-container';
+import { mapService } from '@/services/map-service';
+import { locateOnRouteData, routeDataLength } from '@/utils/gpx/surface';
+import { isAccommodation, MAX_STAGE_POI_OFFSET_METERS, stageEndsEvery } from '@/utils/gpx/stages';
+import { stageColor } from '../../utils/stages/stage-layers';
+import type { RouteStage } from '@/types/gpx-types';
+import type { StageSplit } from '@/types/api.types';
+import type { POI } from '@/types/note-types';
+
+const formatKm = (meters: number) => `${(meters / 1000).toFixed(1)} km`;
+
+const formatDuration = (seconds: number) => {
+  const minutes = Math.round(seconds / 60);
+  return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, '0')}m`;
+};
+
+// Turns the planned stages back into the splits that made them, so one split can be added or removed;
+// names the server gave by default are left out so they follow the stage numbers
+const splitsOf = (stages: RouteStage[], pois: POI[]): StageSplit[] =>
+  stages.slice(0, -1).map(stage => {
+    const poi = stage.endPoiId ? pois.find(candidate => candidate.id === stage.endPoiId) : undefined;
+    const split: StageSplit = poi ? { poiId: poi.id } : { distance: stage.endDistance };
+    return stage.name === (poi?.name ?? `Stage ${stage.number}`) ? split : { ...split, name: stage.name };
+  });
+
+const downloadBlob = ({ blob, fileName }: { blob: Blob; fileName: string }) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+interface StagePlannerPanelProps {
+  mapRef: React.RefObject<MapRef>;
+  mapId: string;
+  pois: POI[];
+  onClose: () => void;
+}
+
+// Lets the owner of a saved map divide its route into daily stages at set distances or at accommodation POIs
+export const StagePlannerPanel: React.FC<StagePlannerPanelProps> = ({ mapRef, mapId, pois, onClose }) => {
+  const [stages, setStages] = useState<RouteStage[]>([]);
+  const [stageKm, setStageKm] = useState('80');
+  const [splitKm, setSplitKm] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const showStages = (next: RouteStage[]) => {
+    setStages(next);
+    mapRef.current?.setStages(next);
+  };
+
+  useEffect(() => {
+    mapService.getStages(mapId)
+      .then(loaded => {
+        setStages(loaded);
+        mapRef.current?.setStages(loaded);
+      })
+      .catch(() => setError('Failed to load stages'));
+  }, [mapRef, mapId]);
+
+  // Accommodation in route order, with how far along the route and how far from it each one is
+  const accommodation = useMemo(() => {
+    const routeData = mapRef.current?.getRouteData();
+    if (!routeData) return [];
+
+    return pois
+      .filter(isAccommodation)
+      .map(poi => ({ poi, located: locateOnRouteData(routeData, [poi.location.lon, poi.location.lat]) }))
+      .sort((a, b) => (a.located?.distance ?? Infinity) - (b.located?.distance ?? Infinity));
+  }, [mapRef, pois]);
+
+  const splits = splitsOf(stages, pois);
+
+  const plan = async (next: StageSplit[]) => {
+    try {
+      setError(null);
+      showStages(await mapService.planStages(mapId, { splits: next }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to plan stages');
+    }
+  };
+
+  const handleSplitEvery = () => {
+    const routeData = mapRef.current?.getRouteData();
+    const km = Number(stageKm);
+    if (!routeData || !(km > 0)) return;
+
+    plan(stageEndsEvery(routeDataLength(routeData), km * 1000).map(({ distance }) => ({ distance })));
+  };
+
+  const handleAddSplit = () => {
+    const km = Number(splitKm);
+    if (!(km > 0)) return;
+
+    setSplitKm('');
+    plan([...splits, { distance: km * 1000 }]);
+  };
+
+  const handleToggleAccommodation = (poiId: string, checked: boolean) => {
+    plan(checked ? [...splits, { poiId }] : splits.filter(split => split.poiId !== poiId));
+  };
+
+  const handleExport = async (stageNumber: number) => {
+    try {
+      setError(null);
+      downloadBlob(await mapService.exportStageGpx(mapId, stageNumber));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export stage');
+    }
+  };
+
+  const handleExportAll = async () => {
+    for (const stage of stages) {
+      await handleExport(stage.number);
+    }
+  };
+
+  return (
+    <Paper sx={{ position: 'fixed', top: 16, right: 16, width: 480, maxHeight: '80vh', overflow: 'auto', p: 2, zIndex: 2 }}>
+      <Box display="flex" alignItems="center" justifyContent="space-between">
+        <Typography variant="subtitle2">Stages</Typography>
+        <IconButton size="small" aria-label="Close stage planner" onClick={onClose}>
+          <CloseIcon fontSize="small" />
+        </IconButton>
+      </Box>
+
+      {error && <Alert severity="error" sx={{ mt: 1 }}>{error}</Alert>}
+
+      <Box display="flex" alignItems="center" gap={1} mt={1}>
+        <TextField
+          size="small"
+          type="number"
+          label="Split every (km)"
+          value={stageKm}
+          inputProps={{ min: 1 }}
+          onChange={(e) => setStageKm(e.target.value)}
+        />
+        <Button size="small" onClick={handleSplitEvery}>Split</Button>
+        <TextField
+          size="small"
+          type="number"
+          label="Add split at (km)"
+          value={splitKm}
+          inputProps={{ min: 0 }}
+          onChange={(e) => setSplitKm(e.target.value)}
+        />
+        <Button size="small" onClick={handleAddSplit}>Add</Button>
+      </Box>
+
+      {accommodation.length > 0 && (
+        <Box mt={1}>
+          <Typography variant="caption" color="text.secondary" display="block">
+            End a stage at accommodation
+          </Typography>
+          {accommodation.map(({ poi, located }) => (
+            <FormControlLabel
+              key={poi.id}
+              sx={{ display: 'flex' }}
+              disabled={!located || located.offset > MAX_STAGE_POI_OFFSET_METERS}
+              label={located ? `${poi.name} (${formatKm(located.distance)})` : poi.name}
+              control={
+                <Checkbox
+                  size="small"
+                  checked={splits.some(split => split.poiId === poi.id)}
+                  onChange={(e) => handleToggleAccommodation(poi.id, e.target.checked)}
+                />
+              }
+            />
+          ))}
+        </Box>
+      )}
+
+      {stages.length > 0 && (
+        <>
+          <Table size="small" sx={{ mt: 1 }}>
+            <TableHead>
+              <TableRow>
+                <TableCell>Stage</TableCell>
+                <TableCell align="right">Distance</TableCell>
+                <TableCell align="right">Ascent</TableCell>
+                <TableCell align="right">Unpaved</TableCell>
+                <TableCell align="right">Riding</TableCell>
+                <TableCell />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {stages.map((stage, index) => (
+                <TableRow key={stage.number}>
+                  <TableCell sx={{ borderLeft: 4, borderLeftColor: stageColor(stage.number) }}>
+                    {stage.number}. {stage.name}
+                  </TableCell>
+                  <TableCell align="right">{formatKm(stage.distance)}</TableCell>
+                  <TableCell align="right">{Math.round(stage.ascent)} m</TableCell>
+                  <TableCell align="right">
+                    {stage.distance > 0 ? Math.round(stage.unpavedDistance / stage.distance * 100) : 0}%
+                  </TableCell>
+                  <TableCell align="right">{formatDuration(stage.ridingTime)}</TableCell>
+                  <TableCell padding="none" sx={{ whiteSpace: 'nowrap' }}>
+                    <IconButton size="small" aria-label={`Download stage ${stage.number} GPX`} onClick={() => handleExport(stage.number)}>
+                      <DownloadIcon fontSize="small" />
+                    </IconButton>
+                    {index < stages.length - 1 && (
+                      <IconButton
+                        size="small"
+                        aria-label={`Join stage ${stage.number} to the next`}
+                        onClick={() => plan(splits.filter((_, splitIndex) => splitIndex !== index))}
+                      >
+                        <DeleteIcon fontSize="small" />
+                      </IconButton>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          <Box display="flex" justifyContent="space-between" mt={1}>
+            <Button size="small" onClick={() => plan([])}>Remove stages</Button>
+            <Button size="small" startIcon={<DownloadIcon />} onClick={handleExportAll}>Export all</Button>
+          </Box>
+        </>
+      )}
+    </Paper>
+  );
+};
@@ -0,0 +1,229 @@
+import React, { useEffect, useState } from 'react';
+import type { MapMouseEvent } from 'mapbox-gl';
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText,
+  MenuItem,
+  Paper,
+  TextField,
+  Typography
+} from '@mui/material';
+import { Close as CloseIcon, Delete as DeleteIcon } from '@mui/icons-material';
+import type { MapRef } from '../../../map-container';
+import { mapService } from '@/services/map-service';
+import { locateOnRouteData, SURFACE_LABELS } from '@/utils/gpx/surface';
+import { SURFACE_TYPES, SurfaceType } from '@/types/gpx-types';
+import type { SurfaceOverride, SurfaceOverrideAuditEntry } from '@/types/api.types';
+
+// Clicks further than this from the route are ignored
+const MAX_CLICK_OFFSET_METERS = 50;
+
+const formatKm = (meters: number) => `${(meters / 1000).toFixed(2)} km`;
+
+interface SurfaceOverrideEditorProps {
+  mapRef: React.RefObject<MapRef>;
+  mapId: string;
+  onClose: () => void;
+}
+
+// Lets the owner of a saved map pick a stretch of the route with two clicks and set its surface by hand
+export const SurfaceOverrideEditor: React.FC<SurfaceOverrideEditorProps> = ({ mapRef, mapId, onClose }) => {
+  const [overrides, setOverrides] = useState<SurfaceOverride[]>([]);
+  const [history, setHistory] = useState<SurfaceOverrideAuditEntry[] | null>(null);
+  const [startDistance, setStartDistance] = useState<number | null>(null);
+  const [range, setRange] = useState<{ startDistance: number; endDistance: number } | null>(null);
+  const [surface, setSurface] = useState<SurfaceType>('loose_gravel');
+  const [note, setNote] = useState('');
+  const [suggestCorrection, setSuggestCorrection] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const showOverrides = (next: SurfaceOverride[]) => {
+    setOverrides(next);
+    mapRef.current?.setSurfaceOverrides(next);
+  };
+
+  useEffect(() => {
+    mapService.getSurfaceOverrides(mapId)
+      .then(loaded => {
+        setOverrides(loaded);
+        mapRef.current?.setSurfaceOverrides(loaded);
+      })
+      .catch(() => setError('Failed to load surface overrides'));
+    setHistory(null);
+  }, [mapRef, mapId]);
+
+  // The first click on the route sets where the stretch starts, the second where it ends
+  useEffect(() => {
+    const map = mapRef.current?.getMap();
+    if (!map || range) return;
+
+    const handleClick = (event: MapMouseEvent) => {
+      const located = locateOnRouteData(mapRef.current!.getRouteData(), [event.lngLat.lng, event.lngLat.lat]);
+      if (!located || located.offset > MAX_CLICK_OFFSET_METERS) return;
+
+      if (startDistance === null) {
+        setStartDistance(located.distance);
+        return;
+      }
+      if (located.distance !== startDistance) {
+        setRange({
+          startDistance: Math.min(startDistance, located.distance),
+          endDistance: Math.max(startDistance, located.distance)
+        });
+      }
+    };
+
+    map.getCanvas().style.cursor = 'crosshair';
+    map.on('click', handleClick);
+    return () => {
+      map.off('click', handleClick);
+      map.getCanvas().style.cursor = '';
+    };
+  }, [mapRef, range, startDistance]);
+
+  const resetSelection = () => {
+    setStartDistance(null);
+    setRange(null);
+    setNote('');
+    setSuggestCorrection(false);
+  };
+
+  const handleSave = async () => {
+    if (!range) return;
+    try {
+      setError(null);
+      const { override } = await mapService.createSurfaceOverride(mapId, {
+        ...range,
+        surface,
+        ...(note.trim() && { note: note.trim() }),
+        suggestCorrection
+      });
+      showOverrides([...overrides, override]);
+      setHistory(null);
+      resetSelection();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save surface override');
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      setError(null);
+      await mapService.deleteSurfaceOverride(mapId, id);
+      showOverrides(overrides.filter(override => override.id !== id));
+      setHistory(null);
+    } catch {
+      setError('Failed to delete surface override');
+    }
+  };
+
+  const handleShowHistory = async () => {
+    try {
+      setHistory(await mapService.getSurfaceOverrideHistory(mapId));
+    } catch {
+      setError('Failed to load surface override history');
+    }
+  };
+
+  return (
+    <>
+      <Paper sx={{ position: 'fixed', top: 16, right: 16, width: 320, maxHeight: '70vh', overflow: 'auto', p: 2, zIndex: 2 }}>
+        <Box display="flex" alignItems="center" justifyContent="space-between">
+          <Typography variant="subtitle2">Edit Surfaces</Typography>
+          <IconButton size="small" aria-label="Close surface editor" onClick={onClose}>
+            <CloseIcon fontSize="small" />
+          </IconButton>
+        </Box>
+        <Typography variant="caption" color="text.secondary" display="block">
+          {startDistance === null
+            ? 'Click the route where the stretch starts.'
+            : `Starts at ${formatKm(startDistance)}. Click the route where it ends.`}
+        </Typography>
+
+        {error && <Alert severity="error" sx={{ mt: 1 }}>{error}</Alert>}
+
+        <List dense>
+          {overrides.map(override => (
+            <ListItem
+              key={override.id}
+              disableGutters
+              secondaryAction={
+                <IconButton edge="end" aria-label="Delete surface override" onClick={() => handleDelete(override.id)}>
+                  <DeleteIcon fontSize="small" />
+                </IconButton>
+              }
+            >
+              <ListItemText
+                primary={`${SURFACE_LABELS[override.surface]}: ${formatKm(override.startDistance)} – ${formatKm(override.endDistance)}`}
+                secondary={override.note}
+              />
+            </ListItem>
+          ))}
+        </List>
+
+        {history ? (
+          <List dense>
+            {history.map((entry, index) => (
+              <ListItem key={index} disableGutters>
+                <ListItemText
+                  primary={`${entry.action === 'added' ? 'Added' : 'Removed'} ${SURFACE_LABELS[entry.override.surface]}, ${
+                    formatKm(entry.override.startDistance)} – ${formatKm(entry.override.endDistance)}`}
+                  secondary={`${entry.changedBy} · ${new Date(entry.changedAt).toLocaleString()}`}
+                />
+              </ListItem>
+            ))}
+          </List>
+        ) : (
+          <Button size="small" onClick={handleShowHistory}>Show history</Button>
+        )}
+      </Paper>
+
+      <Dialog open={range !== null} onClose={resetSelection} maxWidth="xs" fullWidth>
+        <DialogTitle>
+          Set surface from {range && formatKm(range.startDistance)} to {range && formatKm(range.endDistance)}
+        </DialogTitle>
+        <DialogContent>
+          <TextField
+            select
+            fullWidth
+            label="Surface"
+            margin="normal"
+            value={surface}
+            onChange={(e) => setSurface(e.target.value as SurfaceType)}
+          >
+            {SURFACE_TYPES.map(type => (
+              <MenuItem key={type} value={type}>{SURFACE_LABELS[type]}</MenuItem>
+            ))}
+          </TextField>
+          <TextField
+            fullWidth
+            label="Note"
+            margin="normal"
+            value={note}
+            inputProps={{ maxLength: 500 }}
+            onChange={(e) => setNote(e.target.value)}
+          />
+          <FormControlLabel
+            label="Suggest this correction to the map editors"
+            control={<Checkbox checked={suggestCorrection} onChange={(e) => setSuggestCorrection(e.target.checked)} />}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={resetSelection}>Cancel</Button>
+          <Button variant="contained" onClick={handleSave}>Save</Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+};
@@ -0,0 +1,56 @@
+import mapboxgl from 'mapbox-gl';
+import type { Climb, ElevationSample } from '@/types/gpx-types';
+import { CLIMB_CATEGORY_COLORS, formatClimbCategory } from '@/utils/gpx/climbs';
+
+// Fits the map to the stretch of route covered by a climb
+export const zoomToClimb = (map: mapboxgl.Map, samples: ElevationSample[], climb: Climb) => {
+  const points = samples.filter(sample =>
+    sample.distance >= climb.startDistance && sample.distance <= climb.endDistance
+  );
+  if (points.length === 0) return;
+
+  const bounds = points.reduce(
+    (b, point) => b.extend([point.lon, point.lat]),
+    new mapboxgl.LngLatBounds([points[0].lon, points[0].lat], [points[0].lon, points[0].lat])
+  );
+
+  map.fitBounds(bounds, {
+    padding: 80,
+    duration: 1000
+  });
+};
+
+export const createClimbMarker = (
+  map: mapboxgl.Map,
+  samples: ElevationSample[],
+  climb: Climb
+): mapboxgl.Marker | null => {
+  const start = samples.find(sample => sample.distance >= climb.startDistance);
+  if (!start) return null;
+
+  // climb-marker keeps the marker when distance markers are rebuilt on zoom
+  const el = document.createElement('div');
+  el.className = 'climb-marker';
+  el.style.backgroundColor = CLIMB_CATEGORY_COLORS[climb.category];
+  el.style.color = climb.category === '4' || climb.category === '3' ? '#1f2937' : '#ffffff';
+  el.style.padding = '2px 6px';
+  el.style.borderRadius = '3px';
+  el.style.boxShadow = '0 1px 2px rgba(0,0,0,0.5)';
+  el.style.fontSize = '11px';
+  el.style.fontWeight = '600';
+  el.style.cursor = 'pointer';
+  el.textContent = `⛰ ${formatClimbCategory(climb)}`;
+  el.title = `${(climb.length / 1000).toFixed(1)}km at ${climb.averageGrade}% (+${climb.gain}m, max ${climb.maxGrade}%)`;
+
+  el.addEventListener('click', (e) => {
+    e.stopPropagation();
+    zoomToClimb(map, samples, climb);
+  });
+
+  return new mapboxgl.Marker({
+    element: el,
+    anchor: 'bottom'
+  })
+    .setLngLat([start.lon, start.lat])
+    .addTo(map);
+};
@@ -0,0 +1,62 @@
+import {
+  DEFAULT_WAYPOINT_SYMBOLS,
+  FALLBACK_WAYPOINT_POI,
+  getWaypointPOIMapping,
+  waypointsToPOIs
+} from '../poi-waypoints';
+import {
+  POICategory,
+  InfrastructurePOIType,
+  ServicesPOIType,
+  AccommodationPOIType
+} from '@/types/note-types';
+
+describe('getWaypointPOIMapping', () => {
+  it('should map known symbols regardless of case', () => {
+    expect(getWaypointPOIMapping({ lat: 0, lon: 0, sym: 'Drinking Water' })).toEqual({
+      category: POICategory.Infrastructure,
+      type: InfrastructurePOIType.WaterPoint
+    });
+  });
+
+  it('should fall back to the waypoint type when the symbol is unknown', () => {
+    expect(getWaypointPOIMapping({ lat: 0, lon: 0, sym: 'Flag, Blue', type: 'Campground' })).toEqual({
+      category: POICategory.Accommodation,
+      type: AccommodationPOIType.Campground
+    });
+  });
+
+  it('should use the fallback for unknown waypoints', () => {
+    expect(getWaypointPOIMapping({ lat: 0, lon: 0, sym: 'Flag, Blue' })).toBe(FALLBACK_WAYPOINT_POI);
+  });
+
+  it('should accept a custom symbol table', () => {
+    const table = {
+      ...DEFAULT_WAYPOINT_SYMBOLS,
+      'flag, blue': { category: POICategory.Services, type: ServicesPOIType.Cafe }
+    };
+
+    expect(getWaypointPOIMapping({ lat: 0, lon: 0, sym: 'Flag, Blue' }, table).type).toBe(ServicesPOIType.Cafe);
+  });
+});
+
+describe('waypointsToPOIs', () => {
+  it('should create POIs with location, name and description', () => {
+    const pois = waypointsToPOIs([
+      { lat: -42, lon: 147, name: 'Bakery', desc: 'Open 7am', sym: 'Restaurant' },
+      { lat: -42.1, lon: 147.1 }
+    ], { createdBy: 'user' });
+
+    expect(pois).toHaveLength(2);
+    expect(pois[0]).toMatchObject({
+      name: 'Bakery',
+      description: 'Open 7am',
+      category: POICategory.Services,
+      type: ServicesPOIType.Restaurant,
+      location: { lat: -42, lon: 147 },
+      createdBy: 'user'
+    });
+    expect(pois[1].name).toBe('Waypoint 2');
+    expect(pois[0].id).not.toBe(pois[1].id);
+  });
+});
@@ -17,6 +17,7 @@ interface POIContextState {
   tempMarker: Marker | null;
   selectedPOI: POI | null;
   isDrawerOpen: boolean;
+  pendingPOIs: POI[];
   setCurrentPOIs: (pois: POI[]) => void;
   addPOI: (poi: POI) => void;
   removePOI: (id: string) => void;
@@ -27,6 +28,9 @@ interface POIContextState {
   setSelectedPOI: (poi: POI | null) => void;
   setIsDrawerOpen: (open: boolean) => void;
   clearPOIs: () => void;
+  setPendingPOIs: (pois: POI[]) => void;
+  acceptPendingPOIs: (pois: POI[]) => void;
+  discardPendingPOIs: () => void;
 }
 
 // Create context
@@ -40,6 +44,8 @@ export const POIProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const [tempMarker, setTempMarker] = useState<Marker | null>(null);
   const [selectedPOI, setSelectedPOI] = useState<POI | null>(null);
   const [isDrawerOpen, setIsDrawerOpen] = useState(false);
+  // Imported POIs (e.g. GPX waypoints) waiting for the user to review them
+  const [pendingPOIs, setPendingPOIs] = useState<POI[]>([]);
 
   const addPOI = useCallback((poi: POI) => {
     setCurrentPOIs(prev => [...prev, poi]);
@@ -67,6 +73,15 @@ export const POIProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   }, [tempMarker]);
 
+  const acceptPendingPOIs = useCallback((pois: POI[]) => {
+    setCurrentPOIs(prev => [...prev, ...pois]);
+    setPendingPOIs([]);
+  }, []);
+
+  const discardPendingPOIs = useCallback(() => {
+    setPendingPOIs([]);
+  }, []);
+
   const value = {
     currentPOIs,
     isPlacingPOI,
@@ -74,6 +89,7 @@ export const POIProvider: React.FC<{ children: React.ReactNode }> = ({ children
     tempMarker,
     selectedPOI,
     isDrawerOpen,
+    pendingPOIs,
     setCurrentPOIs,
     addPOI,
     removePOI,
@@ -83,7 +99,10 @@ export const POIProvider: React.FC<{ children: React.ReactNode }> = ({ children
     setTempMarker,
     setSelectedPOI,
     setIsDrawerOpen,
-    clearPOIs
+    clearPOIs,
+    setPendingPOIs,
+    acceptPendingPOIs,
+    discardPendingPOIs
   };
 
   return <POIContext.Provider value={value}>{children}</POIContext.Provider>;
@@ -0,0 +1,145 @@
+import { GpxWaypoint } from '@/types/gpx-types';
+import {
+  POI,
+  POIType,
+  POICategory,
+  InfrastructurePOIType,
+  ServicesPOIType,
+  AccommodationPOIType,
+  NaturalFeaturesPOIType,
+  InformationPOIType
+} from '@/types/note-types';
+
+export interface WaypointPOIMapping {
+  category: POICategory;
+  type: POIType;
+}
+
+// Keys are lower-case GPX <sym> or <type> values
+export type WaypointSymbolTable = Record<string, WaypointPOIMapping>;
+
+const infrastructure = (type: InfrastructurePOIType): WaypointPOIMapping => ({ category: POICategory.Infrastructure, type });
+const services = (type: ServicesPOIType): WaypointPOIMapping => ({ category: POICategory.Services, type });
+const accommodation = (type: AccommodationPOIType): WaypointPOIMapping => ({ category: POICategory.Accommodation, type });
+const natural = (type: NaturalFeaturesPOIType): WaypointPOIMapping => ({ category: POICategory.NaturalFeatures, type });
+const information = (type: InformationPOIType): WaypointPOIMapping => ({ category: POICategory.Information, type });
+
+// Default mapping of Garmin/Wahoo and common planner symbols onto POI types.
+// Extend it by spreading into a new table: { ...DEFAULT_WAYPOINT_SYMBOLS, 'my symbol': ... }
+export const DEFAULT_WAYPOINT_SYMBOLS: WaypointSymbolTable = {
+  // Infrastructure
+  'drinking water': infrastructure(InfrastructurePOIType.WaterPoint),
+  'water': infrastructure(InfrastructurePOIType.WaterPoint),
+  'water source': infrastructure(InfrastructurePOIType.WaterPoint),
+  'restroom': infrastructure(InfrastructurePOIType.PublicToilet),
+  'toilet': infrastructure(InfrastructurePOIType.PublicToilet),
+  'shower': infrastructure(InfrastructurePOIType.PublicShower),
+  'bike shop': infrastructure(InfrastructurePOIType.BikeShop),
+  'bicycle': infrastructure(InfrastructurePOIType.BikeShop),
+  'repair': infrastructure(InfrastructurePOIType.BikeRepairStation),
+  'shelter': infrastructure(InfrastructurePOIType.Shelter),
+  'parking area': infrastructure(InfrastructurePOIType.Parking),
+  'parking': infrastructure(InfrastructurePOIType.Parking),
+  'scenic area': infrastructure(InfrastructurePOIType.Viewpoint),
+  'rv park': infrastructure(InfrastructurePOIType.CaravanPark),
+
+  // Services
+  'cafe': services(ServicesPOIType.Cafe),
+  'coffee': services(ServicesPOIType.Cafe),
+  'restaurant': services(ServicesPOIType.Restaurant),
+  'fast food': services(ServicesPOIType.Restaurant),
+  'food': services(ServicesPOIType.Restaurant),
+  'bar': services(ServicesPOIType.PubBar),
+  'pub': services(ServicesPOIType.PubBar),
+  'shopping center': services(ServicesPOIType.Supermarket),
+  'supermarket': services(ServicesPOIType.Supermarket),
+  'grocery': services(ServicesPOIType.Supermarket),
+  'convenience store': services(ServicesPOIType.GeneralStore),
+  'store': services(ServicesPOIType.GeneralStore),
+  'post office': services(ServicesPOIType.PostOffice),
+  'medical facility': services(ServicesPOIType.MedicalCenter),
+  'hospital': services(ServicesPOIType.MedicalCenter),
+  'pharmacy': services(ServicesPOIType.Pharmacy),
+  'gas station': services(ServicesPOIType.FuelStation),
+  'fuel': services(ServicesPOIType.FuelStation),
+
+  // Accommodation
+  'campground': accommodation(AccommodationPOIType.Campground),
+  'campsite': accommodation(AccommodationPOIType.Campground),
+  'camping': accommodation(AccommodationPOIType.Campground),
+  'lodging': accommodation(AccommodationPOIType.HotelMotel),
+  'hotel': accommodation(AccommodationPOIType.HotelMotel),
+  'motel': accommodation(AccommodationPOIType.HotelMotel),
+  'hostel': accommodation(AccommodationPOIType.Hostel),
+  'hut': accommodation(AccommodationPOIType.HutShelter),
+
+  // Natural features
+  'summit': natural(NaturalFeaturesPOIType.Lookout),
+  'overlook': natural(NaturalFeaturesPOIType.Lookout),
+  'beach': natural(NaturalFeaturesPOIType.Beach),
+  'waterfall': natural(NaturalFeaturesPOIType.Waterfall),
+  'cave': natural(NaturalFeaturesPOIType.Cave),
+  'crossing': natural(NaturalFeaturesPOIType.RiverCrossing),
+  'ford': natural(NaturalFeaturesPOIType.RiverCrossing),
+  'hot spring': natural(NaturalFeaturesPOIType.HotSpring),
+
+  // Information
+  'information': information(InformationPOIType.InformationBoard),
+  'visitor center': information(InformationPOIType.VisitorCenter),
+  'trail head': information(InformationPOIType.TrailHead),
+  'park': information(InformationPOIType.ParkEntry),
+  'museum': information(InformationPOIType.HistoricalSite),
+  'danger area': information(InformationPOIType.Warning),
+  'skull and crossbones': information(InformationPOIType.Warning)
+};
+
+// Used when neither the symbol nor the type of a waypoint is known
+export const FALLBACK_WAYPOINT_POI: WaypointPOIMapping = infrastructure(InfrastructurePOIType.Other);
+
+// Returns the category a POI type belongs to
+export const getPOICategory = (type: POIType): POICategory => {
+  if (Object.values(ServicesPOIType).includes(type as ServicesPOIType)) return POICategory.Services;
+  if (Object.values(AccommodationPOIType).includes(type as AccommodationPOIType)) return POICategory.Accommodation;
+  if (Object.values(NaturalFeaturesPOIType).includes(type as NaturalFeaturesPOIType)) return POICategory.NaturalFeatures;
+  if (Object.values(InformationPOIType).includes(type as InformationPOIType)) return POICategory.Information;
+  return POICategory.Infrastructure;
+};
+
+// Looks up a waypoint's <sym>, then its <type>, in the symbol table
+export const getWaypointPOIMapping = (
+  waypoint: GpxWaypoint,
+  symbolTable: WaypointSymbolTable = DEFAULT_WAYPOINT_SYMBOLS
+): WaypointPOIMapping => {
+  for (const key of [waypoint.sym, waypoint.type]) {
+    const mapping = key ? symbolTable[key.trim().toLowerCase()] : undefined;
+    if (mapping) return mapping;
+  }
+  return FALLBACK_WAYPOINT_POI;
+};
+
+// Converts GPX waypoints into POIs, ready to be reviewed before they are added to the map
+export const waypointsToPOIs = (
+  waypoints: GpxWaypoint[],
+  options: { createdBy: string; symbolTable?: WaypointSymbolTable }
+): POI[] => {
+  const now = new Date();
+
+  return waypoints.map((waypoint, index) => {
+    const { category, type } = getWaypointPOIMapping(waypoint, options.symbolTable);
+
+    return {
+      id: `poi-${now.getTime()}-${index}`,
+      category,
+      type,
+      name: waypoint.name || waypoint.sym || `Waypoint ${index + 1}`,
+      description: waypoint.desc,
+      location: {
+        lat: waypoint.lat,
+        lon: waypoint.lon
+      },
+      createdAt: now,
+      updatedAt: now,
+      createdBy: options.createdBy
+    };
+  });
+};
@@ -0,0 +1,91 @@
+import type { Map as MapboxMap, GeoJSONSource } from 'mapbox-gl';
+import type { DistanceRange, ElevationSample } from '@/types/gpx-types';
+import { findSampleIndexAtDistance, getSamplesInRange } from '@/utils/gpx/profile';
+
+const HOVER_SOURCE_ID = 'profile-hover';
+const HOVER_LAYER_ID = 'profile-hover-point';
+const SELECTION_SOURCE_ID = 'profile-selection';
+const SELECTION_LAYER_ID = 'profile-selection-line';
+
+const EMPTY_COLLECTION: GeoJSON.FeatureCollection = { type: 'FeatureCollection', features: [] };
+
+// Adds the sources and layers for the hovered point and selected range, drawn above the route
+export const addProfileLayers = (map: MapboxMap) => {
+  if (!map.getSource(SELECTION_SOURCE_ID)) {
+    map.addSource(SELECTION_SOURCE_ID, { type: 'geojson', data: EMPTY_COLLECTION });
+    map.addLayer({
+      id: SELECTION_LAYER_ID,
+      type: 'line',
+      source: SELECTION_SOURCE_ID,
+      layout: {
+        'line-join': 'round',
+        'line-cap': 'round'
+      },
+      paint: {
+        'line-color': '#4F46E5',
+        'line-width': 7,
+        'line-opacity': 0.6
+      }
+    });
+  }
+
+  if (!map.getSource(HOVER_SOURCE_ID)) {
+    map.addSource(HOVER_SOURCE_ID, { type: 'geojson', data: EMPTY_COLLECTION });
+    map.addLayer({
+      id: HOVER_LAYER_ID,
+      type: 'circle',
+      source: HOVER_SOURCE_ID,
+      paint: {
+        'circle-radius': 6,
+        'circle-color': '#4F46E5',
+        'circle-stroke-width': 2,
+        'circle-stroke-color': '#FFFFFF'
+      }
+    });
+  }
+};
+
+export const removeProfileLayers = (map: MapboxMap) => {
+  [HOVER_LAYER_ID, SELECTION_LAYER_ID].forEach(layerId => {
+    if (map.getLayer(layerId)) map.removeLayer(layerId);
+  });
+  [HOVER_SOURCE_ID, SELECTION_SOURCE_ID].forEach(sourceId => {
+    if (map.getSource(sourceId)) map.removeSource(sourceId);
+  });
+};
+
+// Moves the hover point to the sample closest to a distance along the route, or hides it
+export const setProfileHover = (map: MapboxMap, samples: ElevationSample[], distance: number | null) => {
+  const source = map.getSource(HOVER_SOURCE_ID) as GeoJSONSource | undefined;
+  if (!source) return;
+  // Routes added after the profile layers would otherwise be drawn on top
+  map.moveLayer(HOVER_LAYER_ID);
+
+  const sample = distance === null ? undefined : samples[findSampleIndexAtDistance(samples, distance)];
+  source.setData(sample ? {
+    type: 'Feature',
+    properties: {},
+    geometry: { type: 'Point', coordinates: [sample.lon, sample.lat] }
+  } : EMPTY_COLLECTION);
+};
+
+// Highlights the stretch of route covered by a distance range, or clears the highlight
+export const setProfileSelection = (map: MapboxMap, samples: ElevationSample[], range: DistanceRange | null) => {
+  const source = map.getSource(SELECTION_SOURCE_ID) as GeoJSONSource | undefined;
+  if (!source) return;
+  map.moveLayer(SELECTION_LAYER_ID, map.getLayer(HOVER_LAYER_ID) ? HOVER_LAYER_ID : undefined);
+
+  // Gaps between lines add no distance, so a repeated distance marks where a new line starts
+  const lines: number[][][] = [];
+  const points = range ? getSamplesInRange(samples, range.start, range.end) : [];
+  points.forEach((point, i) => {
+    if (i === 0 || point.distance === points[i - 1].distance) lines.push([]);
+    lines[lines.length - 1].push([point.lon, point.lat]);
+  });
+
+  source.setData({
+    type: 'Feature',
+    properties: {},
+    geometry: { type: 'MultiLineString', coordinates: lines.filter(line => line.length > 1) }
+  });
+};
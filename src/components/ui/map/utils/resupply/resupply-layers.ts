@@ -0,0 +1,53 @@
+import type { Map as MapboxMap, GeoJSONSource } from 'mapbox-gl';
+import type { FeatureCollection } from 'geojson';
+import type { ResupplyGap } from '@/types/gpx-types';
+import { RESUPPLY_GAP_COLORS } from '@/utils/gpx/resupply';
+import { sliceRouteData } from '@/utils/gpx/surface';
+
+const SOURCE_ID = 'resupply-gaps';
+const LINE_LAYER_ID = 'resupply-gaps-line';
+
+const EMPTY_COLLECTION: GeoJSON.FeatureCollection = { type: 'FeatureCollection', features: [] };
+
+// Adds the source and layer for flagged resupply gaps, drawn as dashed lines beside the route:
+// water gaps on one side and food gaps on the other, so both show where they overlap
+export const addResupplyLayers = (map: MapboxMap) => {
+  if (map.getSource(SOURCE_ID)) return;
+
+  map.addSource(SOURCE_ID, { type: 'geojson', data: EMPTY_COLLECTION });
+  map.addLayer({
+    id: LINE_LAYER_ID,
+    type: 'line',
+    source: SOURCE_ID,
+    layout: {
+      'line-join': 'round'
+    },
+    paint: {
+      'line-color': ['get', 'color'],
+      'line-width': 4,
+      'line-offset': ['match', ['get', 'kind'], 'water', -7, 7],
+      'line-dasharray': [2, 1]
+    }
+  });
+};
+
+export const removeResupplyLayers = (map: MapboxMap) => {
+  if (map.getLayer(LINE_LAYER_ID)) map.removeLayer(LINE_LAYER_ID);
+  if (map.getSource(SOURCE_ID)) map.removeSource(SOURCE_ID);
+};
+
+// Shows each gap as the stretch of route it covers, replacing any shown before
+export const setResupplyGapLines = (map: MapboxMap, routeData: FeatureCollection, gaps: ResupplyGap[]) => {
+  const features = gaps.flatMap((gap): GeoJSON.Feature[] => {
+    const coordinates = sliceRouteData(routeData, gap.startDistance, gap.endDistance);
+    if (coordinates.length < 2) return [];
+
+    return [{
+      type: 'Feature',
+      properties: { kind: gap.kind, color: RESUPPLY_GAP_COLORS[gap.kind] },
+      geometry: { type: 'LineString', coordinates }
+    }];
+  });
+
+  (map.getSource(SOURCE_ID) as GeoJSONSource | undefined)?.setData({ type: 'FeatureCollection', features });
+};
@@ -0,0 +1,55 @@
+import type { Map as MapboxMap, GeoJSONSource } from 'mapbox-gl';
+import { SURFACE_COLORS } from '@/utils/gpx/surface';
+import { surfaceMatchExpression } from '../surfaces/surface-layers';
+
+const SOURCE_ID = 'route-builder';
+const CASING_LAYER_ID = 'route-builder-casing';
+export const ROUTE_BUILDER_LINE_LAYER_ID = 'route-builder-line';
+
+const EMPTY_COLLECTION: GeoJSON.FeatureCollection = { type: 'FeatureCollection', features: [] };
+
+// Adds the source and layers for the route being drawn, coloured by surface on a wide casing that is easy to grab
+export const addRouteBuilderLayers = (map: MapboxMap) => {
+  if (map.getSource(SOURCE_ID)) return;
+
+  map.addSource(SOURCE_ID, { type: 'geojson', data: EMPTY_COLLECTION });
+  map.addLayer({
+    id: CASING_LAYER_ID,
+    type: 'line',
+    source: SOURCE_ID,
+    layout: {
+      'line-join': 'round',
+      'line-cap': 'round'
+    },
+    paint: {
+      'line-color': '#FFFFFF',
+      'line-width': 9,
+      'line-opacity': 0.8
+    }
+  });
+  map.addLayer({
+    id: ROUTE_BUILDER_LINE_LAYER_ID,
+    type: 'line',
+    source: SOURCE_ID,
+    layout: {
+      'line-join': 'round',
+      'line-cap': 'round'
+    },
+    paint: {
+      'line-color': surfaceMatchExpression(SURFACE_COLORS),
+      'line-width': 5
+    }
+  });
+};
+
+export const removeRouteBuilderLayers = (map: MapboxMap) => {
+  [ROUTE_BUILDER_LINE_LAYER_ID, CASING_LAYER_ID].forEach(layerId => {
+    if (map.getLayer(layerId)) map.removeLayer(layerId);
+  });
+  if (map.getSource(SOURCE_ID)) map.removeSource(SOURCE_ID);
+};
+
+// Shows the route as last built, or nothing
+export const setRouteBuilderLine = (map: MapboxMap, geojson: GeoJSON.FeatureCollection | undefined) => {
+  (map.getSource(SOURCE_ID) as GeoJSONSource | undefined)?.setData(geojson ?? EMPTY_COLLECTION);
+};
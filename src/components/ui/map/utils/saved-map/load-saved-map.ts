@@ -0,0 +1,79 @@
+import type { FeatureCollection } from 'geojson';
+import type { LngLatBoundsLike } from 'mapbox-gl';
+import type { MapRef } from '../../../map-container';
+import type { POI } from '@/types/note-types';
+import type { RouteStage } from '@/types/gpx-types';
+import type { SurfaceRange } from '@/utils/gpx/surface';
+
+/**
+ * The parts of a saved map document needed to show it on the map.
+ */
+export interface LoadableMap {
+  routes: Array<{
+    id: string;
+    name: string;
+    color: string;
+    isVisible: boolean;
+    gpxData: string;
+    gpxFilePath?: string;
+  }>;
+  routeData?: FeatureCollection;
+  photos?: Array<{
+    id: string;
+    url: string;
+    caption?: string;
+    location: {
+      lat: number;
+      lon: number;
+    };
+  }>;
+  pois?: POI[];
+  surfaceOverrides?: SurfaceRange[];
+  stages?: RouteStage[];
+}
+
+// Returns a saved map's POIs with their timestamps converted back from JSON strings
+export const getSavedPOIs = (map: LoadableMap): POI[] =>
+  (map.pois ?? []).map(poi => ({
+    ...poi,
+    createdAt: new Date(poi.createdAt),
+    updatedAt: new Date(poi.updatedAt)
+  }));
+
+// Replaces the routes on the map with a saved map's routes and fits the view to them
+export const loadSavedMap = async (mapRef: MapRef, map: LoadableMap) => {
+  // Clear existing routes first
+  mapRef.clearRoutes();
+
+  // Load each route with its saved data
+  for (const route of map.routes) {
+    await mapRef.loadRoute(route, map.routeData, map.photos);
+  }
+  mapRef.setSurfaceOverrides(map.surfaceOverrides ?? []);
+  mapRef.setStages(map.stages ?? []);
+
+  // Add a small delay to ensure routes are fully processed
+  await new Promise(resolve => setTimeout(resolve, 100));
+
+  // Calculate bounds from routeData
+  const coordinates = (map.routeData?.features ?? []).reduce((coords: number[][], feature) => {
+    if (feature.geometry.type === 'LineString') {
+      return [...coords, ...feature.geometry.coordinates];
+    }
+    return coords;
+  }, []);
+
+  if (coordinates.length > 0) {
+    const bounds = coordinates.reduce((bounds, coord) => {
+      return [
+        [Math.min(bounds[0][0], coord[0]), Math.min(bounds[0][1], coord[1])],
+        [Math.max(bounds[1][0], coord[0]), Math.max(bounds[1][1], coord[1])]
+      ];
+    }, [[coordinates[0][0], coordinates[0][1]], [coordinates[0][0], coordinates[0][1]]]);
+
+    mapRef.getMap()?.fitBounds(bounds as LngLatBoundsLike, {
+      padding: 50,
+      duration: 1000
+    });
+  }
+};
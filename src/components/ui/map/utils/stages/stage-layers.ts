@@ -0,0 +1,77 @@
+import type { Map as MapboxMap, GeoJSONSource } from 'mapbox-gl';
+import type { FeatureCollection } from 'geojson';
+import type { RouteStage } from '@/types/gpx-types';
+import { sliceRouteData } from '@/utils/gpx/surface';
+
+const SOURCE_ID = 'route-stages';
+const SECTION_LAYER_ID = 'route-stages-section';
+const END_LAYER_ID = 'route-stages-end';
+
+// Neighbouring stages get different colours; routes with more stages than colours start again
+export const STAGE_COLORS = ['#E11D48', '#2563EB', '#16A34A', '#D97706', '#7C3AED', '#0891B2', '#DB2777', '#65A30D'];
+
+export const stageColor = (stageNumber: number) => STAGE_COLORS[(stageNumber - 1) % STAGE_COLORS.length];
+
+const EMPTY_COLLECTION: GeoJSON.FeatureCollection = { type: 'FeatureCollection', features: [] };
+
+// Adds the source and layers for the stages, drawn as wide translucent sections under a route's layers
+export const addStageLayers = (map: MapboxMap, beforeId?: string) => {
+  if (map.getSource(SOURCE_ID)) return;
+
+  const before = beforeId && map.getLayer(beforeId) ? beforeId : undefined;
+  map.addSource(SOURCE_ID, { type: 'geojson', data: EMPTY_COLLECTION });
+  map.addLayer({
+    id: SECTION_LAYER_ID,
+    type: 'line',
+    source: SOURCE_ID,
+    filter: ['==', ['geometry-type'], 'LineString'],
+    layout: {
+      'line-join': 'round',
+      'line-cap': 'round'
+    },
+    paint: {
+      'line-color': ['get', 'color'],
+      'line-width': 12,
+      'line-opacity': 0.45
+    }
+  }, before);
+  map.addLayer({
+    id: END_LAYER_ID,
+    type: 'circle',
+    source: SOURCE_ID,
+    filter: ['==', ['geometry-type'], 'Point'],
+    paint: {
+      'circle-radius': 6,
+      'circle-color': ['get', 'color'],
+      'circle-stroke-width': 2,
+      'circle-stroke-color': '#FFFFFF'
+    }
+  });
+};
+
+export const removeStageLayers = (map: MapboxMap) => {
+  [END_LAYER_ID, SECTION_LAYER_ID].forEach(layerId => {
+    if (map.getLayer(layerId)) map.removeLayer(layerId);
+  });
+  if (map.getSource(SOURCE_ID)) map.removeSource(SOURCE_ID);
+};
+
+// Shows each stage as a section of the route in its own colour, with a point where every stage but the last ends
+export const setStageSections = (map: MapboxMap, routeData: FeatureCollection, stages: RouteStage[]) => {
+  const features = stages.flatMap((stage, index): GeoJSON.Feature[] => {
+    const coordinates = sliceRouteData(routeData, stage.startDistance, stage.endDistance);
+    if (coordinates.length < 2) return [];
+
+    const properties = { number: stage.number, name: stage.name, color: stageColor(stage.number) };
+    const section: GeoJSON.Feature = { type: 'Feature', properties, geometry: { type: 'LineString', coordinates } };
+    if (index === stages.length - 1) return [section];
+
+    return [section, {
+      type: 'Feature',
+      properties,
+      geometry: { type: 'Point', coordinates: coordinates[coordinates.length - 1] }
+    }];
+  });
+
+  (map.getSource(SOURCE_ID) as GeoJSONSource | undefined)?.setData({ type: 'FeatureCollection', features });
+};
@@ -0,0 +1,36 @@
+import type { Expression } from 'mapbox-gl';
+import { SURFACE_TYPES, SurfaceType } from '@/types/gpx-types';
+import { OSM_SURFACE_TAGS, SINGLETRACK_HIGHWAYS } from '@/utils/gpx/surface';
+
+// Every surface property value that classifies as the type, starting with the type name itself
+const surfaceValues = (type: SurfaceType) => [type, ...OSM_SURFACE_TAGS[type]];
+
+// Array outputs would otherwise be read as expressions
+const literal = <T>(value: T) => (Array.isArray(value) ? ['literal', value] : value);
+
+/**
+ * Picks a paint value by the surface property of a feature. The property may be a
+ * SurfaceType, a raw OSM surface tag or the paved/unpaved of maps saved before the
+ * surface taxonomy, matching classifySurface.
+ */
+export const surfaceMatchExpression = <T>(values: Record<SurfaceType, T>): Expression => [
+  'match',
+  ['get', 'surface'],
+  ...SURFACE_TYPES.flatMap(type => [surfaceValues(type), literal(values[type])]),
+  literal(values.unknown)
+];
+
+/**
+ * Like surfaceMatchExpression, for road network features that also have a highway
+ * class, so unsealed paths show as singletrack.
+ */
+export const roadSurfaceExpression = <T>(values: Record<SurfaceType, T>): Expression => [
+  'case',
+  [
+    'all',
+    ['in', ['get', 'highway'], ['literal', SINGLETRACK_HIGHWAYS]],
+    ['!', ['in', ['get', 'surface'], ['literal', surfaceValues('sealed')]]]
+  ],
+  literal(values.singletrack),
+  surfaceMatchExpression(values)
+];
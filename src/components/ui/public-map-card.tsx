@@ -0,0 +1,48 @@
+import { Box, Card, CardActionArea, CardContent, Typography } from '@mui/material';
+import type { PublicMapListItem } from '@/types/api.types';
+import { SURFACE_ROLLUP_COLORS } from '@/utils/gpx/surface';
+
+interface PublicMapCardProps {
+  map: PublicMapListItem;
+  onClick: (map: PublicMapListItem) => void;
+}
+
+const PublicMapCard = ({ map, onClick }: PublicMapCardProps) => {
+  const { summary } = map;
+  const surfaceTotal = summary ? summary.pavedDistance + summary.unpavedDistance : 0;
+  const unpavedPercent = surfaceTotal > 0 ? Math.round((summary!.unpavedDistance / surfaceTotal) * 100) : null;
+
+  return (
+    <Card variant="outlined">
+      <CardActionArea onClick={() => onClick(map)}>
+        <CardContent>
+          <Typography variant="subtitle1" noWrap>{map.name}</Typography>
+          <Typography variant="caption" color="text.secondary" display="block" noWrap>
+            by {map.author} · {new Date(map.createdAt).toLocaleDateString()}
+          </Typography>
+
+          <Typography variant="body2" sx={{ mt: 1 }}>
+            {summary
+              ? `${(summary.distance / 1000).toFixed(1)}km · ↑ ${summary.ascent}m`
+              : 'No route stats yet'}
+          </Typography>
+
+          {/* Paved/unpaved split bar */}
+          {unpavedPercent !== null && (
+            <Box sx={{ mt: 1 }}>
+              <Box sx={{ display: 'flex', height: 6, borderRadius: 1, overflow: 'hidden' }}>
+                <Box sx={{ width: `${100 - unpavedPercent}%`, bgcolor: SURFACE_ROLLUP_COLORS.paved }} />
+                <Box sx={{ width: `${unpavedPercent}%`, bgcolor: SURFACE_ROLLUP_COLORS.unpaved }} />
+              </Box>
+              <Typography variant="caption" color="text.secondary">
+                {100 - unpavedPercent}% paved · {unpavedPercent}% unpaved
+              </Typography>
+            </Box>
+          )}
+        </CardContent>
+      </CardActionArea>
+    </Card>
+  );
+};
+
+export default PublicMapCard;
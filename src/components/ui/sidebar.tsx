@@ -1,6 +1,7 @@
 import React, { useState, useRef, useEffect } from 'react';
 import type { MapRef } from './map-container';
 import { mapService } from "../../services/map-service";
+import { API_BASE_URL } from '../../config/client';
 import { 
   Box, 
   Drawer, 
@@ -33,11 +34,23 @@ import {
   AccountCircle as AccountCircleIcon,
   Save as SaveIcon,
   FolderOpen as FolderOpenIcon,
-  LocationOn as LocationOnIcon
+  LocationOn as LocationOnIcon,
+  FileDownload as FileDownloadIcon,
+  EditRoad as EditRoadIcon,
+  Draw as DrawIcon,
+  CalendarMonth as CalendarMonthIcon,
+  LocalDrink as LocalDrinkIcon
 } from '@mui/icons-material';
 import { PlacePOIModeManager } from './map/components/place-poi/PlacePOIModeManager';
 import LoadMapModal from './load-map-modal';
+import ApiTokensPanel from './api-tokens-panel';
+import { SurfaceOverrideEditor } from './map/components/surfaces/SurfaceOverrideEditor';
+import { RouteBuilder } from './map/components/route-builder/RouteBuilder';
+import { StagePlannerPanel } from './map/components/stages/StagePlannerPanel';
+import { ResupplyPanel } from './map/components/resupply/ResupplyPanel';
 import { POIModal } from './poi-modal';
+import { usePOI } from './map/utils/poi/poi-state';
+import { isSupportedRouteFile, SUPPORTED_ROUTE_EXTENSIONS } from '../../utils/gpx/registry';
 
 const drawerWidth = 240;
 const closedWidth = 65;
@@ -70,6 +83,7 @@ const StyledDrawer = styled(Drawer)(({ theme }) => ({
 }));
 
 import { InfrastructurePOIType } from '@/types/note-types';
+import type { UserRole } from '@/types/database.types';
 
 interface SidebarProps {
   mapRef: React.RefObject<MapRef>;
@@ -85,7 +99,7 @@ const Sidebar = ({ mapRef, onStartPOIPlacement, placePOIMode, setPlacePOIMode }:
   const [userData, setUserData] = useState<{
     picture?: string;
     bioName?: string;
-    isAdmin?: boolean;
+    role?: UserRole;
     socialLinks?: {
       instagram?: string;
       strava?: string;
@@ -97,6 +111,11 @@ const [uploadDialogOpen, setUploadDialogOpen] = useState(false);
 const [profileDrawerOpen, setProfileDrawerOpen] = useState(false);
 const [saveMapModalOpen, setSaveMapModalOpen] = useState(false);
 const [loadMapModalOpen, setLoadMapModalOpen] = useState(false);
+const [currentMapId, setCurrentMapId] = useState<string | null>(null);
+const [surfaceEditorOpen, setSurfaceEditorOpen] = useState(false);
+const [routeBuilderOpen, setRouteBuilderOpen] = useState(false);
+const [stagePlannerOpen, setStagePlannerOpen] = useState(false);
+const [resupplyOpen, setResupplyOpen] = useState(false);
 const [poiModalOpen, setPoiModalOpen] = useState(false);
 const [tempMarker, setTempMarker] = useState<mapboxgl.Marker | null>(null);
 const [routes, setRoutes] = useState<Array<{
@@ -115,6 +134,7 @@ const [routes, setRoutes] = useState<Array<{
     severity: 'success'
   });
   const fileInputRef = React.useRef<HTMLInputElement>(null);
+  const { currentPOIs } = usePOI();
 
   // Check map ready state
   React.useEffect(() => {
@@ -154,7 +174,7 @@ const [routes, setRoutes] = useState<Array<{
       const fetchUserData = async () => {
         try {
           console.log('Fetching user data...');
-          const response = await fetch('http://localhost:3001/api/profile', {
+          const response = await fetch(`${API_BASE_URL}/api/profile`, {
             credentials: 'include'
           });
           if (response.ok) {
@@ -192,11 +212,11 @@ const [routes, setRoutes] = useState<Array<{
       return;
     }
 
-    if (!file.name.endsWith('.gpx')) {
+    if (!isSupportedRouteFile(file.name)) {
       console.log('Invalid file type:', file.name);
       setSnackbar({
         open: true,
-        message: 'Please select a valid GPX file',
+        message: `Please select a route file (${SUPPORTED_ROUTE_EXTENSIONS.join(', ')})`,
         severity: 'error'
       });
       setLoading(false);
@@ -271,7 +291,7 @@ const [routes, setRoutes] = useState<Array<{
       
       console.log('Saving profile with data:', updateData);
       
-      const response = await fetch('http://localhost:3001/api/profile', {
+      const response = await fetch(`${API_BASE_URL}/api/profile`, {
         method: 'PUT',
         credentials: 'include',
         headers: {
@@ -331,10 +351,12 @@ const [routes, setRoutes] = useState<Array<{
         ...data,
         routes,
         photos,
-        routeData
+        routeData,
+        pois: currentPOIs
       };
 
-      await mapService.createMap(mapData);
+      const result = await mapService.createMap(mapData);
+      setCurrentMapId(result.mapId);
       setSnackbar({
         open: true,
         message: 'Map saved successfully',
@@ -351,6 +373,27 @@ const [routes, setRoutes] = useState<Array<{
     }
   };
 
+  const handleExportGpx = async () => {
+    if (!currentMapId) return;
+
+    try {
+      const { blob, fileName } = await mapService.exportGpx(currentMapId);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error exporting map:', error);
+      setSnackbar({
+        open: true,
+        message: error instanceof Error ? error.message : 'Error exporting map',
+        severity: 'error'
+      });
+    }
+  };
+
   return (
     <StyledDrawer
       variant="permanent"
@@ -479,6 +522,89 @@ const [routes, setRoutes] = useState<Array<{
   />
 </ListItemButton>
 
+<ListItemButton
+  disabled={!currentMapId}
+  onClick={handleExportGpx}
+  sx={{ justifyContent: open ? 'start' : 'center', minHeight: 48 }}
+>
+  <ListItemIcon>
+    <FileDownloadIcon />
+  </ListItemIcon>
+  <ListItemText 
+    primary="Export GPX" 
+    sx={{ 
+      opacity: open ? 1 : 0,
+      display: open ? 'block' : 'none'
+    }} 
+  />
+</ListItemButton>
+
+<ListItemButton
+  onClick={() => setRouteBuilderOpen(!routeBuilderOpen)}
+  sx={{ justifyContent: open ? 'start' : 'center', minHeight: 48 }}
+>
+  <ListItemIcon>
+    <DrawIcon color={routeBuilderOpen ? 'primary' : 'inherit'} />
+  </ListItemIcon>
+  <ListItemText 
+    primary="Draw Route" 
+    sx={{ 
+      opacity: open ? 1 : 0,
+      display: open ? 'block' : 'none'
+    }} 
+  />
+</ListItemButton>
+
+<ListItemButton
+  disabled={!currentMapId}
+  onClick={() => setSurfaceEditorOpen(!surfaceEditorOpen)}
+  sx={{ justifyContent: open ? 'start' : 'center', minHeight: 48 }}
+>
+  <ListItemIcon>
+    <EditRoadIcon color={surfaceEditorOpen ? 'primary' : 'inherit'} />
+  </ListItemIcon>
+  <ListItemText 
+    primary="Edit Surfaces" 
+    sx={{ 
+      opacity: open ? 1 : 0,
+      display: open ? 'block' : 'none'
+    }} 
+  />
+</ListItemButton>
+
+<ListItemButton
+  disabled={!currentMapId}
+  onClick={() => setStagePlannerOpen(!stagePlannerOpen)}
+  sx={{ justifyContent: open ? 'start' : 'center', minHeight: 48 }}
+>
+  <ListItemIcon>
+    <CalendarMonthIcon color={stagePlannerOpen ? 'primary' : 'inherit'} />
+  </ListItemIcon>
+  <ListItemText 
+    primary="Stages" 
+    sx={{ 
+      opacity: open ? 1 : 0,
+      display: open ? 'block' : 'none'
+    }} 
+  />
+</ListItemButton>
+
+<ListItemButton
+  onClick={() => setResupplyOpen(!resupplyOpen)}
+  sx={{ justifyContent: open ? 'start' : 'center', minHeight: 48 }}
+>
+  <ListItemIcon>
+    <LocalDrinkIcon color={resupplyOpen ? 'primary' : 'inherit'} />
+  </ListItemIcon>
+  <ListItemText 
+    primary="Water & Food" 
+    sx={{ 
+      opacity: open ? 1 : 0,
+      display: open ? 'block' : 'none'
+    }} 
+  />
+</ListItemButton>
+
 <ListItemButton
   onClick={() => {
     console.log('DEBUG -- Place POI Button Clicked -- Current mode:', placePOIMode, 'Setting to:', !placePOIMode);
@@ -525,7 +651,8 @@ const [routes, setRoutes] = useState<Array<{
   open={loadMapModalOpen}
   onClose={() => setLoadMapModalOpen(false)}
   mapRef={mapRef}
-  onLoadSuccess={() => {
+  onLoadSuccess={(mapId) => {
+    setCurrentMapId(mapId);
     setSnackbar({
       open: true,
       message: 'Map loaded successfully',
@@ -534,6 +661,38 @@ const [routes, setRoutes] = useState<Array<{
   }}
 />
 
+{routeBuilderOpen && (
+  <RouteBuilder
+    mapRef={mapRef}
+    onClose={() => setRouteBuilderOpen(false)}
+  />
+)}
+
+{surfaceEditorOpen && currentMapId && (
+  <SurfaceOverrideEditor
+    mapRef={mapRef}
+    mapId={currentMapId}
+    onClose={() => setSurfaceEditorOpen(false)}
+  />
+)}
+
+{stagePlannerOpen && currentMapId && (
+  <StagePlannerPanel
+    mapRef={mapRef}
+    mapId={currentMapId}
+    pois={currentPOIs}
+    onClose={() => setStagePlannerOpen(false)}
+  />
+)}
+
+{resupplyOpen && (
+  <ResupplyPanel
+    mapRef={mapRef}
+    pois={currentPOIs}
+    onClose={() => setResupplyOpen(false)}
+  />
+)}
+
 {mapRef.current && (
   <POIModal 
     map={mapRef.current}
@@ -635,7 +794,7 @@ const [routes, setRoutes] = useState<Array<{
                     }
                   }} />
                   <Typography variant="h6" gutterBottom sx={{ fontWeight: 500 }}>
-                    Drag & Drop GPX file here
+                    Drag & Drop GPX, TCX, FIT or KML file here
                   </Typography>
                   <Typography variant="body1" color="text.secondary" gutterBottom>
                     or
@@ -646,7 +805,7 @@ const [routes, setRoutes] = useState<Array<{
                       const file = e.target.files?.[0];
                       if (file) handleFileUpload(file);
                     }}
-                    accept=".gpx"
+                    accept={SUPPORTED_ROUTE_EXTENSIONS.join(',')}
                     style={{ display: 'none' }}
                   />
                   <Typography 
@@ -709,7 +868,7 @@ const [routes, setRoutes] = useState<Array<{
 {/* Profile section */}
       <Box sx={{ p: 1, borderTop: 1, borderColor: 'divider' }}>
   <ListItemButton 
-    onClick={() => userData ? setProfileDrawerOpen(true) : window.location.href = "http://localhost:3001/login"}
+    onClick={() => userData ? setProfileDrawerOpen(true) : window.location.href = `${API_BASE_URL}/login`}
     sx={{
       justifyContent: open ? 'start' : 'center', 
       minHeight: 48,
@@ -804,9 +963,9 @@ const [routes, setRoutes] = useState<Array<{
                 <Typography variant="subtitle1" fontWeight="bold">
                   {userData?.bioName}
                 </Typography>
-                {userData?.isAdmin && (
-                  <Typography variant="caption" color="primary">
-                    Admin
+                {userData?.role && userData.role !== 'user' && (
+                  <Typography variant="caption" color="primary" sx={{ textTransform: 'capitalize' }}>
+                    {userData.role}
                   </Typography>
                 )}
               </Box>
@@ -873,6 +1032,9 @@ const [routes, setRoutes] = useState<Array<{
               value={userData?.website || ''}
               onChange={(e) => setUserData(prev => prev ? {...prev, website: e.target.value} : null)}
             />
+
+            {/* API Tokens */}
+            <ApiTokensPanel />
           </Box>
 
 {/* Actions */}
@@ -886,7 +1048,7 @@ const [routes, setRoutes] = useState<Array<{
   borderColor: 'divider'
 }}>
   <Button 
-    onClick={() => window.location.href = "http://localhost:3001/logout?returnTo=http://localhost:5173"}
+    onClick={() => window.location.href = `${API_BASE_URL}/logout?returnTo=${encodeURIComponent(window.location.origin)}`}
     variant="contained"
     color="error"
     sx={{ 
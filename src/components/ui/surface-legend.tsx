@@ -1,50 +1,51 @@
 import React from 'react';
 import { cn } from '@/lib/utils';
+import { SURFACE_TYPES, SurfaceType } from '@/types/gpx-types';
+import { classifySurface, rollupSurface, SURFACE_COLORS, SURFACE_LABELS } from '@/utils/gpx/surface';
 
 interface SurfaceLegendProps {
   surfaces: { surface: string; distance: number }[];
   className?: string;
 }
 
-const surfaceColors = {
-  paved: '#3498db',      // Blue for paved roads
-  unpaved: '#e67e22',    // Orange for unpaved/gravel
-  unknown: '#95a5a6'     // Gray for unknown
-};
-
 const SurfaceLegend: React.FC<SurfaceLegendProps> = ({ surfaces, className }) => {
   // Calculate total distance
   const totalDistance = surfaces.reduce((sum, s) => sum + s.distance, 0);
-  
-  // Group surfaces and calculate percentages
-  const surfaceStats = surfaces.reduce((acc, { surface, distance }) => {
-    if (!acc[surface]) {
-      acc[surface] = { distance: 0, percentage: 0 };
-    }
-    acc[surface].distance += distance;
-    acc[surface].percentage = (acc[surface].distance / totalDistance) * 100;
+
+  // Group distance by surface type, so raw or legacy values fall under the type they classify as
+  const distanceBySurface = surfaces.reduce((acc, { surface, distance }) => {
+    const type = classifySurface(surface);
+    acc[type] = (acc[type] ?? 0) + distance;
     return acc;
-  }, {} as Record<string, { distance: number; percentage: number }>);
+  }, {} as Partial<Record<SurfaceType, number>>);
+
+  const pavedDistance = SURFACE_TYPES
+    .filter(type => rollupSurface(type) === 'paved')
+    .reduce((sum, type) => sum + (distanceBySurface[type] ?? 0), 0);
+  const pavedPercentage = totalDistance > 0 ? (pavedDistance / totalDistance) * 100 : 0;
 
   return (
     <div className={cn("absolute bottom-4 right-4 bg-white p-4 rounded-lg shadow-md z-10", className)}>
       <h3 className="text-sm font-semibold mb-2">Surface Types</h3>
       <div className="space-y-2">
-        {Object.entries(surfaceStats).map(([surface, stats]) => (
-          <div key={surface} className="flex items-center gap-2 text-sm">
+        {SURFACE_TYPES.filter(type => distanceBySurface[type]).map(type => (
+          <div key={type} className="flex items-center gap-2 text-sm">
             <div 
               className="w-4 h-4 rounded"
-              style={{ 
-                backgroundColor: surfaceColors[surface as keyof typeof surfaceColors] || surfaceColors.unknown
-              }} 
+              style={{ backgroundColor: SURFACE_COLORS[type] }}
             />
-            <span className="capitalize">{surface}</span>
+            <span>{SURFACE_LABELS[type]}</span>
             <span className="text-gray-500 text-xs">
-              ({stats.percentage.toFixed(1)}% • {(stats.distance / 1000).toFixed(1)}km)
+              ({((distanceBySurface[type]! / totalDistance) * 100).toFixed(1)}% • {(distanceBySurface[type]! / 1000).toFixed(1)}km)
             </span>
           </div>
         ))}
       </div>
+      {totalDistance > 0 && (
+        <div className="mt-2 pt-2 border-t text-xs text-gray-500">
+          {pavedPercentage.toFixed(0)}% paved · {(100 - pavedPercentage).toFixed(0)}% unpaved
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,145 @@
+import { ConfigError } from '../env';
+import { loadServerConfig } from '../server-config';
+import { getRoadsTileUrl, loadClientConfig } from '../client-config';
+
+const productionServerEnv = {
+  APP_ENV: 'production',
+  PORT: '8080',
+  SERVER_URL: 'https://api.example.com/',
+  CLIENT_URL: 'https://example.com',
+  MONGODB_URI: 'mongodb://mongo.example.com:27017',
+  PG_HOST: 'pg.example.com',
+  PG_PORT: '25060',
+  PG_DATABASE: 'defaultdb',
+  PG_USER: 'app',
+  PG_PASSWORD: 'secret',
+  AUTH0_SECRET: 'session-secret',
+  AUTH0_CLIENT_ID: 'client-id',
+  AUTH0_CLIENT_SECRET: 'client-secret',
+  AUTH0_ISSUER_BASE_URL: 'https://tenant.auth0.com',
+  DO_SPACES_ENDPOINT: 'https://syd1.digitaloceanspaces.com',
+  DO_SPACES_KEY: 'key',
+  DO_SPACES_SECRET: 'spaces-secret',
+  DO_SPACES_BUCKET: 'photos'
+};
+
+const getConfigError = (load: () => unknown): ConfigError => {
+  try {
+    load();
+  } catch (error) {
+    if (error instanceof ConfigError) return error;
+    throw error;
+  }
+  throw new Error('Expected a ConfigError');
+};
+
+describe('loadServerConfig', () => {
+  it('should read a complete production environment', () => {
+    const config = loadServerConfig(productionServerEnv);
+
+    expect(config.profile).toBe('production');
+    expect(config.port).toBe(8080);
+    expect(config.serverUrl).toBe('https://api.example.com');
+    expect(config.corsOrigins).toEqual(['https://example.com']);
+    expect(config.mongo.dbName).toBe('photoApp');
+    expect(config.postgres).toMatchObject({ host: 'pg.example.com', port: 25060, ssl: true });
+    expect(config.auth0.issuerBaseUrl).toBe('https://tenant.auth0.com');
+  });
+
+  it('should report every missing production variable at once', () => {
+    const error = getConfigError(() => loadServerConfig({ APP_ENV: 'production' }));
+
+    expect(error.profile).toBe('production');
+    expect(error.issues).toEqual(expect.arrayContaining([
+      'PG_PASSWORD is required in production',
+      'AUTH0_CLIENT_ID is required in production',
+      'CLIENT_URL is required in production'
+    ]));
+    expect(error.message).toContain('- MONGODB_URI is required in production');
+  });
+
+  it('should reject malformed values', () => {
+    const error = getConfigError(() => loadServerConfig({
+      ...productionServerEnv,
+      PORT: 'eighty',
+      SERVER_URL: 'api.example.com',
+      PG_SSL: 'yes'
+    }));
+
+    expect(error.issues).toEqual([
+      'PORT must be a port number between 1 and 65535 (got "eighty")',
+      'SERVER_URL must be an absolute URL (got "api.example.com")',
+      'PG_SSL must be "true" or "false" (got "yes")'
+    ]);
+  });
+
+  it('should fall back to local URLs in development but still require secrets', () => {
+    const error = getConfigError(() => loadServerConfig({}));
+
+    expect(error.profile).toBe('development');
+    expect(error.issues).not.toContain('CLIENT_URL is required in development');
+    expect(error.issues).toContain('AUTH0_SECRET is required in development');
+  });
+
+  it('should run entirely on placeholders in the test profile', () => {
+    const config = loadServerConfig({ NODE_ENV: 'test', CORS_ORIGINS: 'http://a.test, http://b.test' });
+
+    expect(config.profile).toBe('test');
+    expect(config.mongo.dbName).toBe('photoApp-test');
+    expect(config.postgres.ssl).toBe(false);
+    expect(config.corsOrigins).toEqual(['http://a.test', 'http://b.test']);
+  });
+
+  it('should detect surfaces with PostGIS unless a road extract is configured', () => {
+    expect(loadServerConfig({ APP_ENV: 'test' }).surfaceDetection).toEqual({ detector: 'postgis', roadNetworkFile: '' });
+    expect(loadServerConfig({
+      APP_ENV: 'test',
+      SURFACE_DETECTOR: 'geojson',
+      ROAD_NETWORK_FILE: 'data/roads.geojson'
+    }).surfaceDetection).toEqual({ detector: 'geojson', roadNetworkFile: 'data/roads.geojson' });
+
+    expect(getConfigError(() => loadServerConfig({ APP_ENV: 'test', SURFACE_DETECTOR: 'geojson' })).issues).toEqual([
+      'ROAD_NETWORK_FILE is required in test'
+    ]);
+    expect(getConfigError(() => loadServerConfig({ APP_ENV: 'test', SURFACE_DETECTOR: 'osrm' })).issues).toEqual([
+      'SURFACE_DETECTOR must be one of postgis, geojson (got "osrm")'
+    ]);
+  });
+
+  it('should prefer APP_ENV over NODE_ENV and reject unknown profiles', () => {
+    expect(loadServerConfig({ APP_ENV: 'test', NODE_ENV: 'production' }).profile).toBe('test');
+    expect(getConfigError(() => loadServerConfig({ APP_ENV: 'staging' })).issues).toEqual([
+      'APP_ENV must be one of development, test, production (got "staging")'
+    ]);
+  });
+});
+
+describe('loadClientConfig', () => {
+  it('should default the API to localhost in development', () => {
+    const config = loadClientConfig({
+      MODE: 'development',
+      VITE_MAPBOX_TOKEN: 'pk.token',
+      VITE_MAPTILER_KEY: 'tiler-key'
+    });
+
+    expect(config.apiBaseUrl).toBe('http://localhost:3001');
+    expect(getRoadsTileUrl(config)).toContain('{z}/{x}/{y}.pbf?key=tiler-key');
+  });
+
+  it('should require the API URL and map keys in production', () => {
+    const error = getConfigError(() => loadClientConfig({ MODE: 'production' }));
+
+    expect(error.issues).toEqual([
+      'VITE_API_BASE_URL is required in production',
+      'VITE_MAPBOX_TOKEN is required in production',
+      'VITE_MAPTILER_KEY is required in production'
+    ]);
+  });
+
+  it('should let VITE_APP_ENV select the profile of a production build', () => {
+    const config = loadClientConfig({ MODE: 'production', VITE_APP_ENV: 'test' });
+
+    expect(config.profile).toBe('test');
+    expect(config.mapboxToken).toBe('test-mapbox-token');
+  });
+});
@@ -0,0 +1,49 @@
+import { AppProfile, EnvReader, EnvSource, resolveProfile } from './env';
+
+// Vector tileset holding the Tasmanian road network used for surface rendering
+const DEFAULT_ROADS_TILESET_ID = '5dd3666f-1ce4-4df6-9146-eda62a200bcb';
+
+export interface ClientConfig {
+  profile: AppProfile;
+  // Base URL of the API server, without the /api prefix
+  apiBaseUrl: string;
+  mapboxToken: string;
+  mapTiler: {
+    key: string;
+    roadsTilesetId: string;
+  };
+}
+
+/**
+ * Reads and validates the web client configuration.
+ *
+ * Only VITE_ prefixed variables reach the browser. The profile comes from
+ * VITE_APP_ENV, then Vite's MODE; development and test fall back to a local API.
+ *
+ * @param env - Environment variables, usually import.meta.env
+ * @throws ConfigError listing every missing or invalid variable
+ */
+export const loadClientConfig = (env: EnvSource): ClientConfig => {
+  const read = new EnvReader(env, resolveProfile(env, 'VITE_APP_ENV', 'MODE'));
+
+  return read.done<ClientConfig>({
+    profile: read.profile,
+    apiBaseUrl: read.url('VITE_API_BASE_URL', {
+      development: 'http://localhost:3001',
+      test: 'http://localhost:3001'
+    }),
+    mapboxToken: read.string('VITE_MAPBOX_TOKEN', { test: 'test-mapbox-token' }),
+    mapTiler: {
+      key: read.string('VITE_MAPTILER_KEY', { test: 'test-maptiler-key' }),
+      roadsTilesetId: read.string('VITE_MAPTILER_ROADS_TILESET_ID', {
+        development: DEFAULT_ROADS_TILESET_ID,
+        test: DEFAULT_ROADS_TILESET_ID,
+        production: DEFAULT_ROADS_TILESET_ID
+      })
+    }
+  });
+};
+
+// Tile URL template for the road network layer
+export const getRoadsTileUrl = ({ mapTiler }: ClientConfig): string =>
+  `https://api.maptiler.com/tiles/${mapTiler.roadsTilesetId}/{z}/{x}/{y}.pbf?key=${mapTiler.key}`;
@@ -0,0 +1,6 @@
+import { loadClientConfig } from './client-config';
+
+// Validated once when the bundle loads so a bad deployment fails loudly at startup
+export const clientConfig = loadClientConfig(import.meta.env);
+
+export const API_BASE_URL = clientConfig.apiBaseUrl;
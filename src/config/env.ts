@@ -0,0 +1,147 @@
+export type AppProfile = 'development' | 'test' | 'production';
+
+export const APP_PROFILES: AppProfile[] = ['development', 'test', 'production'];
+
+// Environment variables as provided by process.env or import.meta.env
+export type EnvSource = Record<string, string | boolean | undefined>;
+
+/**
+ * Thrown when the environment does not describe a usable configuration.
+ * Lists every problem at once so a deployment can be fixed in one pass.
+ */
+export class ConfigError extends Error {
+  constructor(public readonly profile: AppProfile, public readonly issues: string[]) {
+    super(`Invalid ${profile} configuration:\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+// Per-profile fallback used when a variable is not set; profiles without an entry require the variable
+export type ProfileDefaults<T> = Partial<Record<AppProfile, T>>;
+
+/**
+ * Resolves the active profile from the first of the given variables that is set.
+ */
+export const resolveProfile = (env: EnvSource, ...names: string[]): AppProfile => {
+  const value = names.map(name => env[name]).find(value => typeof value === 'string' && value !== '');
+  if (value === undefined) return 'development';
+
+  if (!APP_PROFILES.includes(value as AppProfile)) {
+    throw new ConfigError('development', [
+      `${names[0]} must be one of ${APP_PROFILES.join(', ')} (got "${value}")`
+    ]);
+  }
+  return value as AppProfile;
+};
+
+/**
+ * EnvReader reads typed values for one profile.
+ * It provides functionality for:
+ * - Falling back to per-profile defaults
+ * - Validating strings, URLs, ports, lists and fixed choices
+ * - Collecting every problem and reporting them together from done()
+ */
+export class EnvReader {
+  private issues: string[] = [];
+
+  constructor(private env: EnvSource, public readonly profile: AppProfile) {}
+
+  string(name: string, defaults: ProfileDefaults<string> = {}): string {
+    const value = this.raw(name);
+    if (value !== undefined) return value;
+
+    const fallback = defaults[this.profile];
+    if (fallback === undefined) {
+      this.issues.push(`${name} is required in ${this.profile}`);
+      return '';
+    }
+    return fallback;
+  }
+
+  optional(name: string): string | undefined {
+    return this.raw(name);
+  }
+
+  url(name: string, defaults: ProfileDefaults<string> = {}): string {
+    const value = this.string(name, defaults);
+    if (value === '') return value;
+
+    try {
+      new URL(value);
+    } catch {
+      this.issues.push(`${name} must be an absolute URL (got "${value}")`);
+      return value;
+    }
+    // Base URLs are joined with paths, so a trailing slash would double up
+    return value.replace(/\/+$/, '');
+  }
+
+  port(name: string, defaults: ProfileDefaults<number> = {}): number {
+    const value = this.raw(name);
+    if (value === undefined) {
+      const fallback = defaults[this.profile];
+      if (fallback === undefined) this.issues.push(`${name} is required in ${this.profile}`);
+      return fallback ?? 0;
+    }
+
+    const port = Number(value);
+    if (!Number.isInteger(port) || port < 1 || port > 65535) {
+      this.issues.push(`${name} must be a port number between 1 and 65535 (got "${value}")`);
+    }
+    return port;
+  }
+
+  boolean(name: string, fallback: boolean): boolean {
+    const value = this.raw(name);
+    if (value === undefined) return fallback;
+
+    if (value !== 'true' && value !== 'false') {
+      this.issues.push(`${name} must be "true" or "false" (got "${value}")`);
+      return fallback;
+    }
+    return value === 'true';
+  }
+
+  oneOf<T extends string>(name: string, values: readonly T[], fallback: T): T {
+    const value = this.raw(name);
+    if (value === undefined) return fallback;
+
+    if (!values.includes(value as T)) {
+      this.issues.push(`${name} must be one of ${values.join(', ')} (got "${value}")`);
+      return fallback;
+    }
+    return value as T;
+  }
+
+  list(name: string, defaults: ProfileDefaults<string[]> = {}): string[] {
+    const value = this.raw(name);
+    if (value !== undefined) {
+      return value.split(',').map(item => item.trim()).filter(Boolean);
+    }
+
+    const fallback = defaults[this.profile];
+    if (fallback === undefined) {
+      this.issues.push(`${name} is required in ${this.profile}`);
+      return [];
+    }
+    return fallback;
+  }
+
+  /**
+   * Returns the value once every read has succeeded, or throws a ConfigError listing all issues.
+   */
+  done<T>(value: T): T {
+    if (this.issues.length > 0) {
+      throw new ConfigError(this.profile, this.issues);
+    }
+    return value;
+  }
+
+  private raw(name: string): string | undefined {
+    const value = this.env[name];
+    if (typeof value !== 'string') return undefined;
+
+    const trimmed = value.trim();
+    return trimmed === '' ? undefined : trimmed;
+  }
+}
@@ -0,0 +1,115 @@
+import { AppProfile, EnvReader, EnvSource, resolveProfile } from './env';
+
+export const SURFACE_DETECTORS = ['postgis', 'geojson'] as const;
+export type SurfaceDetectorBackend = typeof SURFACE_DETECTORS[number];
+
+export interface ServerConfig {
+  profile: AppProfile;
+  port: number;
+  // Public URL of this API, used for Auth0 callbacks
+  serverUrl: string;
+  // URL of the web client that users are sent back to after login and logout
+  clientUrl: string;
+  corsOrigins: string[];
+  mongo: {
+    uri: string;
+    dbName: string;
+  };
+  postgres: {
+    host: string;
+    port: number;
+    database: string;
+    user: string;
+    password: string;
+    ssl: boolean;
+  };
+  // Where surfaces are detected: the PostGIS road_network table, or a GeoJSON extract of it for working offline
+  surfaceDetection: {
+    detector: SurfaceDetectorBackend;
+    roadNetworkFile: string;
+  };
+  auth0: {
+    secret: string;
+    clientId: string;
+    clientSecret: string;
+    issuerBaseUrl: string;
+  };
+  storage: {
+    endpoint: string;
+    accessKeyId: string;
+    secretAccessKey: string;
+    bucket: string;
+  };
+}
+
+/**
+ * Reads and validates the server configuration.
+ *
+ * The profile comes from APP_ENV, then NODE_ENV. Development falls back to local
+ * URLs, test falls back to placeholder values for everything, and production
+ * requires every setting to be given explicitly.
+ *
+ * @param env - Environment variables, usually process.env
+ * @throws ConfigError listing every missing or invalid variable
+ */
+export const loadServerConfig = (env: EnvSource): ServerConfig => {
+  const read = new EnvReader(env, resolveProfile(env, 'APP_ENV', 'NODE_ENV'));
+  const placeholder = (value: string) => ({ test: value });
+
+  const detector = read.oneOf('SURFACE_DETECTOR', SURFACE_DETECTORS, 'postgis');
+
+  const clientUrl = read.url('CLIENT_URL', {
+    development: 'http://localhost:5173',
+    test: 'http://localhost:5173'
+  });
+
+  return read.done<ServerConfig>({
+    profile: read.profile,
+    port: read.port('PORT', { development: 3001, test: 3001 }),
+    serverUrl: read.url('SERVER_URL', {
+      development: 'http://localhost:3001',
+      test: 'http://localhost:3001'
+    }),
+    clientUrl,
+    corsOrigins: read.list('CORS_ORIGINS', {
+      development: [clientUrl, 'http://localhost:5174'],
+      test: [clientUrl],
+      production: [clientUrl]
+    }),
+    mongo: {
+      uri: read.string('MONGODB_URI', placeholder('mongodb://localhost:27017')),
+      dbName: read.string('MONGODB_DB_NAME', {
+        development: 'photoApp',
+        test: 'photoApp-test',
+        production: 'photoApp'
+      })
+    },
+    postgres: {
+      host: read.string('PG_HOST', placeholder('localhost')),
+      port: read.port('PG_PORT', { development: 5432, test: 5432 }),
+      database: read.string('PG_DATABASE', placeholder('lutruwita_test')),
+      user: read.string('PG_USER', placeholder('postgres')),
+      password: read.string('PG_PASSWORD', placeholder('postgres')),
+      ssl: read.boolean('PG_SSL', read.profile !== 'test')
+    },
+    surfaceDetection: {
+      detector,
+      roadNetworkFile: detector === 'geojson'
+        ? read.string('ROAD_NETWORK_FILE')
+        : read.optional('ROAD_NETWORK_FILE') ?? ''
+    },
+    auth0: {
+      secret: read.string('AUTH0_SECRET', placeholder('test-secret-at-least-32-characters-long')),
+      clientId: read.string('AUTH0_CLIENT_ID', placeholder('test-client-id')),
+      clientSecret: read.string('AUTH0_CLIENT_SECRET', placeholder('test-client-secret')),
+      issuerBaseUrl: read.url('AUTH0_ISSUER_BASE_URL', placeholder('https://example.auth0.com'))
+    },
+    // Photo storage is only mandatory once deployed
+    storage: {
+      endpoint: read.string('DO_SPACES_ENDPOINT', { development: '', test: '' }),
+      accessKeyId: read.string('DO_SPACES_KEY', { development: '', test: '' }),
+      secretAccessKey: read.string('DO_SPACES_SECRET', { development: '', test: '' }),
+      bucket: read.string('DO_SPACES_BUCKET', { development: '', test: '' })
+    }
+  });
+};
@@ -1,8 +1,8 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
-import { ProcessingStatus, ProcessedRoute } from '../types';
+import { ProcessingStatus, ProcessedRoute, RouteProcessingJob } from '../types';
 import { GpxService } from '../services/gpx-service';
 import * as turf from '@turf/turf';
-import { GpxProcessor } from '../services/gpx-processor';
+import { isSupportedRouteFile, SUPPORTED_ROUTE_EXTENSIONS } from '../utils/gpx/registry';
 import type { FeatureCollection, Feature, LineString } from 'geojson';
 import type { MapRef } from '../components/ui/map-container';
 
@@ -10,6 +10,34 @@ interface UseGpxProcessingProps {
     mapRef: React.RefObject<MapRef>;
 }
 
+// How often the processing job is polled while it runs
+const STATUS_POLL_INTERVAL = 500;
+
+/**
+ * Polls a route processing job until it completes, reporting each status update.
+ * Rejects if the job fails or the signal is aborted.
+ */
+const waitForJob = async (
+    jobId: string,
+    signal: AbortSignal,
+    onUpdate: (job: RouteProcessingJob) => void
+): Promise<RouteProcessingJob> => {
+    while (!signal.aborted) {
+        const response = await GpxService.getRouteStatus(jobId);
+        if (!response.success || !response.job) {
+            throw new Error(response.error || 'Failed to get processing status');
+        }
+
+        const { job } = response;
+        onUpdate(job);
+        if (job.status === 'completed') return job;
+        if (job.status === 'failed') throw new Error(job.error || 'Route processing failed');
+
+        await new Promise(resolve => setTimeout(resolve, STATUS_POLL_INTERVAL));
+    }
+    throw new Error('Route processing cancelled');
+};
+
 export const useGpxProcessing = ({ mapRef }: UseGpxProcessingProps) => {
     const [status, setStatus] = useState<ProcessingStatus>({
         isProcessing: false,
@@ -39,62 +67,47 @@ export const useGpxProcessing = ({ mapRef }: UseGpxProcessingProps) => {
             setStatus({
                 isProcessing: true,
                 progress: 0,
-                total: 100
+                total: 100,
+                stage: 'queued'
             });
 
             // Validate file
-            if (!file.name.toLowerCase().endsWith('.gpx')) {
-                throw new Error('Invalid file type. Please upload a GPX file.');
+            if (!isSupportedRouteFile(file.name)) {
+                throw new Error(`Invalid file type. Please upload a ${SUPPORTED_ROUTE_EXTENSIONS.join(', ')} file.`);
             }
 
-            // Step 1: Upload file
-            const uploadResponse = await GpxService.uploadGpxFile(file);
-            if (!uploadResponse.success || !uploadResponse.path) {
-                throw new Error(uploadResponse.error || 'Upload failed');
-            }
-
-            setStatus(prev => ({
-                ...prev,
-                progress: 20
-            }));
-
-            // Step 2: Parse content
-            const content = await file.text();
-            const points = await GpxService.parseGpxContent(content);
-
-            if (points.length === 0) {
-                throw new Error('No valid points found in GPX file');
-            }
-
-            setStatus(prev => ({
-                ...prev,
-                progress: 40
-            }));
-
             // Get map instance from ref
             const map = mapRef.current?.getMap();
             if (!map) {
                 throw new Error('Map not initialized');
             }
 
-            // Step 3: Process GPX data
-            const processor = new GpxProcessor();
-            const processedRoute = await processor.processGpx(Buffer.from(content), file.name);
+            // Step 1: Upload file, the server processes it in the background
+            const uploadResponse = await GpxService.uploadGpxFile(file);
+            if (!uploadResponse.success || !uploadResponse.jobId) {
+                throw new Error(uploadResponse.error || 'Upload failed');
+            }
 
-            setStatus(prev => ({
-                ...prev,
-                progress: 80
-            }));
+            // Step 2: Poll the job, showing its real stage and progress
+            const job = await waitForJob(uploadResponse.jobId, abortControllerRef.current.signal, (update) => {
+                setStatus(prev => ({
+                    ...prev,
+                    progress: update.progress,
+                    stage: update.stage
+                }));
+            });
 
-            // Add file path to processed route
-            const newRoute = {
-                ...processedRoute,
-                gpxFilePath: uploadResponse.path
-            };
+            // Step 3: Fetch the processed route with surfaces and elevation profile
+            const routeResponse = await GpxService.getProcessedRoute(job.routeId!);
+            if (!routeResponse.success || !routeResponse.route) {
+                throw new Error(routeResponse.error || 'Failed to get processed route');
+            }
+            const newRoute = routeResponse.route;
 
             setStatus(prev => ({
                 ...prev,
                 progress: 100,
+                stage: 'done',
                 isProcessing: false
             }));
 
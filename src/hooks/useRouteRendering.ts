@@ -1,18 +1,10 @@
 import { useState, useCallback, useEffect, useRef } from 'react';
 import mapboxgl from 'mapbox-gl';
 import * as turf from '@turf/turf';
-import { ProcessedRoute, RouteSegment, SurfaceType } from '../types/gpx-types';
+import { ProcessedRoute, RouteSegment } from '../types/gpx-types';
 import { Feature, FeatureCollection, LineString } from 'geojson';
-
-const surfaceColors: Record<SurfaceType, string> = {
-    paved: '#3498db',      // Blue for paved roads
-    unpaved: '#e67e22'     // Orange for unpaved/gravel
-};
-
-const surfaceDashArrays: Record<SurfaceType, number[]> = {
-    paved: [1, 0],        // Solid line
-    unpaved: [0.5, 1.5]   // Dashed line
-};
+import { SURFACE_COLORS, SURFACE_DASH_ARRAYS } from '../utils/gpx/surface';
+import { surfaceMatchExpression } from '../components/ui/map/utils/surfaces/surface-layers';
 
 export const useRouteRendering = (map: mapboxgl.Map | null) => {
     const [routes, setRoutes] = useState<ProcessedRoute[]>([]);
@@ -87,19 +79,9 @@ export const useRouteRendering = (map: mapboxgl.Map | null) => {
                     'line-cap': 'round'
                 },
                 paint: {
-                    'line-color': [
-                        'match',
-                        ['get', 'surface'],
-                        'paved', surfaceColors.paved,
-                        surfaceColors.unpaved // Default to unpaved
-                    ],
+                    'line-color': surfaceMatchExpression(SURFACE_COLORS),
                     'line-width': 3,
-                    'line-dasharray': [
-                        'match',
-                        ['get', 'surface'],
-                        'paved', surfaceDashArrays.paved,
-                        surfaceDashArrays.unpaved // Default to unpaved
-                    ]
+                    'line-dasharray': surfaceMatchExpression(SURFACE_DASH_ARRAYS)
                 }
             });
 
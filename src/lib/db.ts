@@ -1,4 +1,5 @@
 import { SavedMap } from '../types/map-types';
+import { API_BASE_URL } from '../config/client';
 
 // Interface for photo documents
 interface PhotoDocument {
@@ -17,7 +18,7 @@ interface PhotoDocument {
 // Save map
 export async function saveMap(map: Omit<SavedMap, '_id'>): Promise<string> {
     try {
-        const response = await fetch('http://localhost:3001/api/maps', {
+        const response = await fetch(`${API_BASE_URL}/api/maps`, {
             method: 'POST',
             headers: {
                 'Content-Type': 'application/json'
@@ -41,7 +42,7 @@ export async function saveMap(map: Omit<SavedMap, '_id'>): Promise<string> {
 // Get map by ID
 export async function getMap(id: string): Promise<SavedMap | null> {
     try {
-        const response = await fetch(`http://localhost:3001/api/maps/${id}`, {
+        const response = await fetch(`${API_BASE_URL}/api/maps/${id}`, {
             credentials: 'include'
         });
 
@@ -60,7 +61,7 @@ export async function getMap(id: string): Promise<SavedMap | null> {
 // Update map
 export async function updateMap(id: string, map: Partial<SavedMap>): Promise<boolean> {
     try {
-        const response = await fetch(`http://localhost:3001/api/maps/${id}`, {
+        const response = await fetch(`${API_BASE_URL}/api/maps/${id}`, {
             method: 'PUT',
             headers: {
                 'Content-Type': 'application/json'
@@ -83,7 +84,7 @@ export async function updateMap(id: string, map: Partial<SavedMap>): Promise<boo
 // List maps for user
 export async function listMaps(userId: string): Promise<SavedMap[]> {
     try {
-        const response = await fetch('http://localhost:3001/api/maps', {
+        const response = await fetch(`${API_BASE_URL}/api/maps`, {
             credentials: 'include'
         });
 
@@ -102,7 +103,7 @@ export async function listMaps(userId: string): Promise<SavedMap[]> {
 export async function findNearbyPhotos(longitude: number, latitude: number) {
     console.log(`[findNearbyPhotos] Fetching photos near: ${longitude}, ${latitude}`);
     try {
-        const url = `http://localhost:3001/api/photos/near?longitude=${longitude}&latitude=${latitude}`;
+        const url = `${API_BASE_URL}/api/photos/near?longitude=${longitude}&latitude=${latitude}`;
         console.log(`[findNearbyPhotos] Request URL: ${url}`);
         
         const response = await fetch(url, {
@@ -1,13 +1,162 @@
-import React from 'react';
-import MapContainer from '../components/ui/map-container';
+import React, { useEffect, useState } from 'react';
+import { useOutletContext } from 'react-router-dom';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  MenuItem,
+  Paper,
+  TextField,
+  Typography
+} from '@mui/material';
+import type { MapRef } from '../components/ui/map-container';
+import PublicMapCard from '../components/ui/public-map-card';
+import { getSavedPOIs, loadSavedMap } from '../components/ui/map/utils/saved-map/load-saved-map';
+import { usePOI } from '../components/ui/map/utils/poi/poi-state';
+import { mapService } from '../services/map-service';
+import type { PublicMapListItem, PublicMapSort } from '../types/api.types';
+
+const PAGE_SIZE = 12;
+
+const sortOptions: Array<{ value: PublicMapSort; label: string }> = [
+  { value: 'newest', label: 'Newest' },
+  { value: 'longest', label: 'Longest' },
+  { value: 'gravel', label: 'Most gravel' }
+];
 
 const Explore = () => {
+  // The map is owned by MainLayout, public maps are loaded into it read-only
+  const { mapRef } = useOutletContext<{ mapRef: React.RefObject<MapRef> }>();
+  const [maps, setMaps] = useState<PublicMapListItem[]>([]);
+  const [sort, setSort] = useState<PublicMapSort>('newest');
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [viewing, setViewing] = useState<PublicMapListItem | null>(null);
+  const { setCurrentPOIs, clearPOIs } = usePOI();
+
+  useEffect(() => {
+    const fetchMaps = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await mapService.getPublicMaps({ page, limit: PAGE_SIZE, sort });
+        setMaps(prev => page === 1 ? response.maps : [...prev, ...response.maps]);
+        setHasMore(response.hasMore);
+      } catch (err) {
+        console.error('Error fetching public maps:', err);
+        setError(err instanceof Error ? err.message : 'Error fetching public maps');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchMaps();
+  }, [page, sort]);
+
+  const handleSortChange = (value: PublicMapSort) => {
+    setSort(value);
+    setPage(1);
+  };
+
+  const handleOpenMap = async (summary: PublicMapListItem) => {
+    if (!mapRef.current) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+      const map = await mapService.getMap(summary._id);
+      await loadSavedMap(mapRef.current, map);
+      setCurrentPOIs(getSavedPOIs(map));
+      setViewing(summary);
+    } catch (err) {
+      console.error('Error loading map:', err);
+      setError(err instanceof Error ? err.message : 'Error loading map');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleBack = () => {
+    mapRef.current?.clearRoutes();
+    clearPOIs();
+    setViewing(null);
+  };
+
+  if (viewing) {
+    return (
+      <Paper sx={{ position: 'absolute', top: 16, left: 16, zIndex: 20, p: 1.5, display: 'flex', alignItems: 'center', gap: 2 }}>
+        <Box>
+          <Typography variant="subtitle2">{viewing.name}</Typography>
+          <Typography variant="caption" color="text.secondary">
+            by {viewing.author} · read only
+          </Typography>
+        </Box>
+        <Button size="small" onClick={handleBack}>Back to gallery</Button>
+      </Paper>
+    );
+  }
+
   return (
-    <div className="w-full h-full relative">
-      <MapContainer />
-      {/* Add explore-specific controls here */}
-    </div>
+    <Paper
+      sx={{
+        position: 'absolute',
+        inset: 16,
+        zIndex: 20,
+        p: 2,
+        overflowY: 'auto',
+        bgcolor: 'rgba(38, 38, 38, 0.95)'
+      }}
+    >
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+        <Typography variant="h6">Explore public maps</Typography>
+        <TextField
+          select
+          size="small"
+          label="Sort by"
+          value={sort}
+          onChange={(e) => handleSortChange(e.target.value as PublicMapSort)}
+          sx={{ minWidth: 160 }}
+        >
+          {sortOptions.map(option => (
+            <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+          ))}
+        </TextField>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>
+      )}
+
+      {!loading && maps.length === 0 && !error ? (
+        <Typography sx={{ p: 2, textAlign: 'center' }}>
+          No public maps yet.
+        </Typography>
+      ) : (
+        <Box
+          sx={{
+            display: 'grid',
+            gridTemplateColumns: 'repeat(auto-fill, minmax(240px, 1fr))',
+            gap: 2
+          }}
+        >
+          {maps.map(map => (
+            <PublicMapCard key={map._id} map={map} onClick={handleOpenMap} />
+          ))}
+        </Box>
+      )}
+
+      <Box sx={{ display: 'flex', justifyContent: 'center', mt: 2 }}>
+        {loading ? (
+          <CircularProgress size={28} />
+        ) : hasMore && (
+          <Button onClick={() => setPage(prev => prev + 1)}>Load more</Button>
+        )}
+      </Box>
+    </Paper>
   );
 };
 
-export default Explore;
\ No newline at end of file
+export default Explore;
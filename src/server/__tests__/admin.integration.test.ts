@@ -0,0 +1,209 @@
+/**
+ * @jest-environment node
+ */
+import request from 'supertest';
+import { Express } from 'express';
+import { createInMemoryRepositories } from '../repositories/memory';
+import { createTestApp } from '../testing/test-app';
+import { TEST_USER_HEADER } from '../testing/test-auth';
+import type { UserRole } from '../../types/database.types';
+import type { UserDocument } from '../repositories/types';
+
+const ADMIN = 'auth0|admin';
+const EDITOR = 'auth0|editor';
+const RIDER = 'auth0|rider';
+
+const createUser = (auth0Id: string, role?: UserRole, isAdmin?: boolean): UserDocument => ({
+  auth0Id,
+  bioName: auth0Id,
+  email: `${auth0Id}@example.com`,
+  picture: '',
+  socialLinks: { instagram: '', strava: '', facebook: '' },
+  website: '',
+  ...(role && { role }),
+  ...(isAdmin !== undefined && { isAdmin }),
+  createdAt: new Date('2025-01-01'),
+  updatedAt: new Date('2025-01-01')
+}) as UserDocument;
+
+describe('Admin API', () => {
+  let repositories: ReturnType<typeof createInMemoryRepositories>;
+  let deletedFiles: string[];
+  let app: Express;
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  beforeEach(async () => {
+    repositories = createInMemoryRepositories();
+    deletedFiles = [];
+    app = createTestApp(repositories, {
+      photoStorage: {
+        uploadFile: async (file, folder) => `${folder}/${file.originalname}`,
+        deleteFile: async (key) => {
+          deletedFiles.push(key);
+        }
+      }
+    });
+
+    await repositories.users.create(createUser(ADMIN, 'admin'));
+    await repositories.users.create(createUser(EDITOR, 'editor'));
+    await repositories.users.create(createUser(RIDER, 'user'));
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('requireRole', () => {
+    it('should require a signed in user', async () => {
+      const response = await request(app).get('/api/admin/users');
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should reject users below the required role', async () => {
+      const response = await request(app).get('/api/admin/users').set(TEST_USER_HEADER, EDITOR);
+
+      expect(response.status).toBe(403);
+      expect(response.body).toEqual({ error: 'Admin access required' });
+    });
+
+    it('should let higher roles through', async () => {
+      const response = await request(app).get('/api/admin/surface-classifications').set(TEST_USER_HEADER, ADMIN);
+
+      expect(response.status).toBe(200);
+    });
+
+    it('should treat profiles from before roles with isAdmin as admins', async () => {
+      await repositories.users.create(createUser('auth0|legacy', undefined, true));
+
+      const response = await request(app).get('/api/admin/users').set(TEST_USER_HEADER, 'auth0|legacy');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toContainEqual(expect.objectContaining({ auth0Id: 'auth0|legacy', role: 'admin' }));
+    });
+
+    it('should keep the role for the session until it is changed through the API', async () => {
+      await request(app).get('/api/admin/surface-classifications').set(TEST_USER_HEADER, EDITOR);
+      await repositories.users.update(EDITOR, { role: 'user' });
+
+      const cached = await request(app).get('/api/admin/surface-classifications').set(TEST_USER_HEADER, EDITOR);
+      expect(cached.status).toBe(200);
+
+      await request(app)
+        .put(`/api/admin/users/${encodeURIComponent(EDITOR)}/role`)
+        .set(TEST_USER_HEADER, ADMIN)
+        .send({ role: 'user' });
+
+      const demoted = await request(app).get('/api/admin/surface-classifications').set(TEST_USER_HEADER, EDITOR);
+      expect(demoted.status).toBe(403);
+    });
+  });
+
+  describe('PUT /api/admin/users/:auth0Id/role', () => {
+    it('should promote a user', async () => {
+      const response = await request(app)
+        .put(`/api/admin/users/${encodeURIComponent(RIDER)}/role`)
+        .set(TEST_USER_HEADER, ADMIN)
+        .send({ role: 'editor' });
+
+      expect(response.status).toBe(200);
+      expect(repositories.users.users.get(RIDER)?.role).toBe('editor');
+
+      const classifications = await request(app)
+        .get('/api/admin/surface-classifications')
+        .set(TEST_USER_HEADER, RIDER);
+      expect(classifications.status).toBe(200);
+    });
+
+    it('should reject unknown roles', async () => {
+      const response = await request(app)
+        .put(`/api/admin/users/${encodeURIComponent(RIDER)}/role`)
+        .set(TEST_USER_HEADER, ADMIN)
+        .send({ role: 'owner' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.fields).toEqual([{ field: 'role', message: 'must be one of: user, editor, admin' }]);
+    });
+
+    it('should not let admins change their own role', async () => {
+      const response = await request(app)
+        .put(`/api/admin/users/${encodeURIComponent(ADMIN)}/role`)
+        .set(TEST_USER_HEADER, ADMIN)
+        .send({ role: 'user' });
+
+      expect(response.status).toBe(400);
+      expect(repositories.users.users.get(ADMIN)?.role).toBe('admin');
+    });
+
+    it('should return 404 for users without a profile', async () => {
+      const response = await request(app)
+        .put('/api/admin/users/auth0%7Cnobody/role')
+        .set(TEST_USER_HEADER, ADMIN)
+        .send({ role: 'editor' });
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('moderation', () => {
+    it('should take a map out of the public gallery', async () => {
+      const mapId = await repositories.maps.create({
+        name: 'Public map',
+        isPublic: true,
+        routes: [],
+        createdBy: RIDER,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      });
+
+      const response = await request(app).post(`/api/admin/maps/${mapId}/unpublish`).set(TEST_USER_HEADER, ADMIN);
+
+      expect(response.status).toBe(200);
+      const gallery = await request(app).get('/api/maps/public');
+      expect(gallery.body.total).toBe(0);
+      expect(repositories.maps.maps.get(mapId)?.createdBy).toBe(RIDER);
+    });
+
+    it('should remove a photo together with its stored file', async () => {
+      const photoId = await repositories.photos.create({
+        filename: 'camp.jpg',
+        key: 'photos/camp.jpg',
+        longitude: 146.5,
+        latitude: -42.0,
+        description: '',
+        uploadedAt: new Date()
+      });
+
+      const response = await request(app).delete(`/api/admin/photos/${photoId}`).set(TEST_USER_HEADER, ADMIN);
+
+      expect(response.status).toBe(200);
+      expect(repositories.photos.photos.size).toBe(0);
+      expect(deletedFiles).toEqual(['photos/camp.jpg']);
+    });
+  });
+
+  describe('surface classifications', () => {
+    it('should let editors add, change and remove classifications', async () => {
+      const save = (standardizedSurface: string) => request(app)
+        .put('/api/admin/surface-classifications')
+        .set(TEST_USER_HEADER, EDITOR)
+        .send({ originalSurface: 'fine_gravel', standardizedSurface });
+
+      expect((await save('paved')).status).toBe(200);
+      expect((await save('unpaved')).status).toBe(200);
+
+      const list = await request(app).get('/api/admin/surface-classifications').set(TEST_USER_HEADER, EDITOR);
+      expect(list.body).toEqual([{ originalSurface: 'fine_gravel', standardizedSurface: 'unpaved' }]);
+
+      const removed = await request(app)
+        .delete('/api/admin/surface-classifications/fine_gravel')
+        .set(TEST_USER_HEADER, EDITOR);
+      expect(removed.status).toBe(200);
+      expect(repositories.surfaceClassifications.classifications.size).toBe(0);
+    });
+  });
+});
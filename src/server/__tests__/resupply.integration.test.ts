@@ -0,0 +1,97 @@
+/**
+ * @jest-environment node
+ */
+import request from 'supertest';
+import { Express } from 'express';
+import type { FeatureCollection } from 'geojson';
+import { createInMemoryRepositories } from '../repositories/memory';
+import { createTestApp } from '../testing/test-app';
+import { TEST_USER_HEADER } from '../testing/test-auth';
+import { testPoi } from '../testing/test-poi';
+import { InfrastructurePOIType, POICategory, ServicesPOIType } from '../../types/note-types';
+import type { ResupplyAnalysis } from '../../types/gpx-types';
+
+const OWNER = 'auth0|owner';
+const OTHER = 'auth0|other';
+
+// Along the equator, 0.01° is about 1112 m
+const routeData: FeatureCollection = {
+  type: 'FeatureCollection',
+  features: [{
+    type: 'Feature',
+    properties: { surface: 'gravel' },
+    geometry: { type: 'LineString', coordinates: [[0, 0], [0.03, 0]] }
+  }]
+};
+
+describe('Resupply', () => {
+  let repositories: ReturnType<typeof createInMemoryRepositories>;
+  let app: Express;
+  let mapId: string;
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  beforeEach(async () => {
+    repositories = createInMemoryRepositories();
+    app = createTestApp(repositories);
+
+    mapId = await repositories.maps.create({
+      name: 'Dry loop',
+      isPublic: false,
+      routes: [],
+      routeData,
+      pois: [
+        testPoi('tank', InfrastructurePOIType.WaterPoint, POICategory.Infrastructure, [0.01, 0.0002]),
+        // About 670 m from the route
+        testPoi('store', ServicesPOIType.GeneralStore, POICategory.Services, [0.02, 0.006])
+      ],
+      createdBy: OWNER,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    });
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should report the resupply points and gaps of a map with the default corridor and limits', async () => {
+    const response = await request(app).get(`/api/maps/${mapId}/resupply`).set(TEST_USER_HEADER, OWNER);
+
+    expect(response.status).toBe(200);
+    const analysis = response.body as ResupplyAnalysis;
+    expect(analysis.corridor).toBe(1000);
+    expect(analysis.maxGaps).toEqual({ water: 50000, food: 100000 });
+    expect(analysis.points.map(point => [point.poiId, point.kinds])).toEqual([['tank', ['water']], ['store', ['water', 'food']]]);
+    expect(analysis.gaps[0]).toEqual(expect.objectContaining({ kind: 'food', endPoiId: 'store', exceedsLimit: false }));
+  });
+
+  it('should use the corridor and limits asked for', async () => {
+    const response = await request(app)
+      .get(`/api/maps/${mapId}/resupply`)
+      .query({ corridor: 500, maxWaterGap: 2000 })
+      .set(TEST_USER_HEADER, OWNER);
+
+    const analysis = response.body as ResupplyAnalysis;
+    expect(analysis.points.map(point => point.poiId)).toEqual(['tank']);
+    expect(analysis.gaps.filter(gap => gap.exceedsLimit).map(({ kind, startPoiId }) => [kind, startPoiId])).toEqual([['water', 'tank']]);
+  });
+
+  it('should reject a corridor or limit that is not a distance', async () => {
+    const corridor = await request(app).get(`/api/maps/${mapId}/resupply?corridor=wide`).set(TEST_USER_HEADER, OWNER);
+    expect(corridor.status).toBe(400);
+    expect(corridor.body).toEqual({ error: 'corridor must be between 0 and 10000 meters' });
+
+    const gap = await request(app).get(`/api/maps/${mapId}/resupply?maxFoodGap=-5`).set(TEST_USER_HEADER, OWNER);
+    expect(gap.status).toBe(400);
+  });
+
+  it('should not report on a private map of another user', async () => {
+    const response = await request(app).get(`/api/maps/${mapId}/resupply`).set(TEST_USER_HEADER, OTHER);
+
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * @jest-environment node
+ */
+import request from 'supertest';
+import { Express } from 'express';
+import { createInMemoryRepositories } from '../repositories/memory';
+import { createTestApp } from '../testing/test-app';
+import { TEST_USER_HEADER } from '../testing/test-auth';
+import { MAX_ROUTING_ROADS } from '../services/route-builder-service';
+import { parseRouteFile } from '../../utils/gpx/registry';
+import type { RouteBuildResponse } from '../../types/api.types';
+
+describe('Route builder', () => {
+  let repositories: ReturnType<typeof createInMemoryRepositories>;
+  let app: Express;
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  beforeEach(() => {
+    repositories = createInMemoryRepositories();
+    app = createTestApp(repositories);
+
+    // A sealed highway with a gravel road looping south of it, both about 1.7 km long at 42° south
+    repositories.roads.roadLines = [
+      { surface: 'asphalt', highway: 'primary', coordinates: [[146.0, -42.0], [146.01, -42.0], [146.02, -42.0]] },
+      { surface: 'gravel', highway: 'track', coordinates: [[146.0, -42.0], [146.01, -42.004], [146.02, -42.0]] }
+    ];
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  const build = (body: object) => request(app).post('/api/routes/build').set(TEST_USER_HEADER, 'auth0|rider').send(body);
+
+  it('should route the waypoints over the road network with the surface preference', async () => {
+    const response = await build({
+      waypoints: [[146.0, -41.9999], [146.02, -41.9999]],
+      name: 'Gravel way',
+      preferences: { preferGravel: true }
+    });
+
+    expect(response.status).toBe(200);
+    const { route, waypoints, waypointDistances } = response.body as RouteBuildResponse;
+    expect(route.name).toBe('Gravel way');
+    expect(route.segments.map(({ surface }) => surface)).toEqual(['loose_gravel']);
+    expect(route.segments[0].geometry.coordinates).toContainEqual([146.01, -42.004]);
+    expect(route.geojson?.features).toHaveLength(1);
+    expect(waypoints).toEqual([[146.0, -42.0], [146.02, -42.0]]);
+    expect(waypointDistances).toEqual([0, expect.closeTo(1880, -1)]);
+
+    // The stored GPX is the drawn line, so the route loads again like an upload
+    const { gpx } = await parseRouteFile(Buffer.from(route.gpxData), 'drawn.gpx');
+    expect(gpx.tracks[0].segments[0].points).toHaveLength(3);
+  });
+
+  it('should pass through via points in order', async () => {
+    const response = await build({ waypoints: [[146.0, -42.0], [146.01, -42.0], [146.02, -42.0]] });
+
+    expect(response.status).toBe(200);
+    const { route, waypointDistances } = response.body as RouteBuildResponse;
+    expect(route.segments.map(({ surface }) => surface)).toEqual(['sealed']);
+    expect(waypointDistances).toEqual([0, expect.closeTo(827, -1), expect.closeTo(1655, -1)]);
+  });
+
+  it('should say which waypoint is off the road network', async () => {
+    const response = await build({ waypoints: [[146.0, -42.0], [146.01, -42.1]] });
+
+    expect(response.status).toBe(400);
+    expect(response.body).toEqual({ error: 'Waypoint 2 is more than 250 m from a road' });
+  });
+
+  it('should say which waypoints cannot be joined', async () => {
+    repositories.roads.roadLines.push({ surface: 'gravel', highway: 'track', coordinates: [[146.1, -42.1], [146.11, -42.1]] });
+
+    const response = await build({ waypoints: [[146.0, -42.0], [146.02, -42.0], [146.1, -42.1]] });
+
+    expect(response.status).toBe(400);
+    expect(response.body).toEqual({ error: 'No route found between waypoints 2 and 3' });
+  });
+
+  it('should need at least two waypoints', async () => {
+    const response = await build({ waypoints: [[146.0, -42.0]] });
+
+    expect(response.status).toBe(400);
+    expect(response.body.fields).toEqual([expect.objectContaining({ field: 'waypoints' })]);
+  });
+
+  it('should refuse waypoints with more roads around them than one graph holds', async () => {
+    repositories.roads.roadLines = Array.from({ length: MAX_ROUTING_ROADS + 1 }, () => repositories.roads.roadLines[0]);
+
+    const response = await build({ waypoints: [[146.0, -42.0], [146.02, -42.0]] });
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toMatch(/too many roads/);
+  });
+
+  it('should need a signed-in user', async () => {
+    const response = await request(app).post('/api/routes/build').send({ waypoints: [[146.0, -42.0], [146.02, -42.0]] });
+
+    expect(response.status).toBe(401);
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * @jest-environment node
+ */
+import request from 'supertest';
+import { Express } from 'express';
+import type { FeatureCollection } from 'geojson';
+import { createInMemoryRepositories } from '../repositories/memory';
+import { createTestApp } from '../testing/test-app';
+import { TEST_USER_HEADER } from '../testing/test-auth';
+import { testPoi } from '../testing/test-poi';
+import { parseGpx } from '../../utils/gpx/parsing';
+import { AccommodationPOIType, POICategory, ServicesPOIType } from '../../types/note-types';
+import type { RouteStage } from '../../types/gpx-types';
+
+const OWNER = 'auth0|owner';
+const OTHER = 'auth0|other';
+
+// Along the equator, 0.01° is about 1112 m: gravel for the first 0.01°, then a sealed road for 0.02°
+const routeData: FeatureCollection = {
+  type: 'FeatureCollection',
+  features: [
+    {
+      type: 'Feature',
+      properties: { surface: 'gravel' },
+      geometry: { type: 'LineString', coordinates: [[0, 0], [0.01, 0]] }
+    },
+    {
+      type: 'Feature',
+      properties: { surface: 'asphalt' },
+      geometry: { type: 'LineString', coordinates: [[0.01, 0], [0.02, 0], [0.03, 0]] }
+    }
+  ]
+};
+
+// The same line as recorded, climbing 100 m to the middle and back down
+const gpxData = `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="test" xmlns="http://www.topografix.com/GPX/1/1">
+  <trk>
+    <trkseg>
+      ${[0, 50, 100, 50, 0].map((rise, i) => `<trkpt lat="0" lon="${i * 0.0075}"><ele>${100 + rise}</ele></trkpt>`).join('\n')}
+    </trkseg>
+  </trk>
+</gpx>`;
+
+describe('Stages', () => {
+  let repositories: ReturnType<typeof createInMemoryRepositories>;
+  let app: Express;
+  let mapId: string;
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  beforeEach(async () => {
+    repositories = createInMemoryRepositories();
+    app = createTestApp(repositories);
+
+    mapId = await repositories.maps.create({
+      name: 'Three day loop',
+      isPublic: true,
+      routes: [{ id: 'route-1', name: 'Loop', gpxData }],
+      routeData,
+      pois: [
+        testPoi('camp', AccommodationPOIType.Campground, POICategory.Accommodation, [0.02, 0.0003], { name: 'Creek camp' }),
+        testPoi('cafe', ServicesPOIType.Cafe, POICategory.Services, [0.005, 0.0003], { name: 'Bakery' }),
+        testPoi('hut', AccommodationPOIType.HutShelter, POICategory.Accommodation, [0.015, 0.05], { name: 'Far hut' })
+      ],
+      createdBy: OWNER,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    });
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  const plan = (splits: object[], user = OWNER) => request(app)
+    .put(`/api/maps/${mapId}/stages`)
+    .set(TEST_USER_HEADER, user)
+    .send({ splits });
+
+  it('should plan stages at distances and accommodation and store them with the map', async () => {
+    const response = await plan([{ poiId: 'camp' }, { distance: 1000, name: 'Lunch' }]);
+
+    expect(response.status).toBe(200);
+    const stages = response.body as RouteStage[];
+    expect(stages.map(({ number, name, endPoiId }) => [number, name, endPoiId])).toEqual([
+      [1, 'Lunch', undefined],
+      [2, 'Creek camp', 'camp'],
+      [3, 'Stage 3', undefined]
+    ]);
+    expect(stages[1].endDistance).toBeCloseTo(2224, -1);
+    expect(stages[1].surfaceDistances).toEqual({ loose_gravel: expect.closeTo(112, -1), sealed: expect.closeTo(1112, -1) });
+    expect(stages[0].ascent).toBeGreaterThan(0);
+    expect(stages[2].descent).toBeGreaterThan(0);
+    expect(stages.every(stage => stage.ridingTime > 0)).toBe(true);
+
+    expect(repositories.maps.maps.get(mapId)?.stages).toEqual(stages);
+    const listed = await request(app).get(`/api/maps/${mapId}/stages`);
+    expect(listed.body).toEqual(stages);
+  });
+
+  it('should say why a split cannot end a stage', async () => {
+    const cafe = await plan([{ poiId: 'cafe' }]);
+    expect(cafe.status).toBe(400);
+    expect(cafe.body).toEqual({ error: 'POI cafe is not accommodation on this map' });
+
+    const far = await plan([{ poiId: 'hut' }]);
+    expect(far.body).toEqual({ error: 'Far hut is more than 2.0 km from the route' });
+
+    const past = await plan([{ distance: 5000 }]);
+    expect(past.body).toEqual({ error: 'A stage cannot end at 5.0 km, the route is 3.3 km long' });
+
+    const empty = await plan([{ name: 'Nowhere' }]);
+    expect(empty.body).toEqual({ error: 'Each split needs a distance or an accommodation POI' });
+  });
+
+  it('should remove the stages without splits', async () => {
+    await plan([{ distance: 1000 }]);
+
+    const response = await plan([]);
+
+    expect(response.body).toEqual([]);
+    expect(repositories.maps.maps.get(mapId)?.stages).toEqual([]);
+  });
+
+  it('should only let the owner plan stages', async () => {
+    expect((await plan([{ distance: 1000 }], OTHER)).status).toBe(404);
+  });
+
+  it('should export each stage as its own GPX file with the POIs along it', async () => {
+    await plan([{ poiId: 'camp' }]);
+
+    const response = await request(app).get(`/api/maps/${mapId}/stages/2/gpx`).set(TEST_USER_HEADER, OTHER);
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toContain('application/gpx+xml');
+    expect(response.headers['content-disposition']).toBe('attachment; filename="Three day loop stage 2.gpx"');
+
+    const gpx = await parseGpx(Buffer.from(response.text));
+    expect(gpx.tracks).toHaveLength(1);
+    expect(gpx.tracks[0].name).toBe('Stage 2');
+    // The recorded point before the camp joins the stage to the one before; segments repeat the point they meet at
+    const lons = gpx.tracks[0].segments.flatMap(segment => segment.points.map(point => point.lon));
+    expect([...new Set(lons)]).toEqual([0.015, 0.0225, 0.03]);
+    expect(gpx.waypoints.map(waypoint => waypoint.name)).toEqual(['Creek camp']);
+
+    const missing = await request(app).get(`/api/maps/${mapId}/stages/3/gpx`).set(TEST_USER_HEADER, OWNER);
+    expect(missing.status).toBe(404);
+  });
+
+  it('should plan the stages again when the route changes', async () => {
+    await plan([{ distance: 1000 }, { distance: 3000 }]);
+
+    // The loop now stops at the camp
+    const shorter: FeatureCollection = {
+      type: 'FeatureCollection',
+      features: [{ ...routeData.features[0] }, {
+        type: 'Feature',
+        properties: { surface: 'asphalt' },
+        geometry: { type: 'LineString', coordinates: [[0.01, 0], [0.02, 0]] }
+      }]
+    };
+    const updated = await request(app)
+      .put(`/api/maps/${mapId}`)
+      .set(TEST_USER_HEADER, OWNER)
+      .send({ routes: [{ id: 'route-1', name: 'Loop', gpxData }], routeData: shorter });
+    expect(updated.status).toBe(200);
+
+    const stages = repositories.maps.maps.get(mapId)?.stages;
+    expect(stages?.map(({ startDistance, endDistance }) => [Math.round(startDistance), Math.round(endDistance)]))
+      .toEqual([[0, 1000], [1000, 2224]]);
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * @jest-environment node
+ */
+import request from 'supertest';
+import fs from 'fs';
+import path from 'path';
+import { Express } from 'express';
+import { createInMemoryRepositories } from '../repositories/memory';
+import { hashRouteGeometry } from '../services/surface-cache-service';
+import { createTestApp } from '../testing/test-app';
+import { TEST_USER_HEADER } from '../testing/test-auth';
+import type { ProcessedRoute } from '../../types/gpx-types';
+import type { RouteUploadResponse } from '../../types/server';
+import type { UserDocument } from '../repositories/types';
+
+const RIDER = 'auth0|rider';
+const EDITOR = 'auth0|editor';
+
+const parsedRoute = (coordinates: [number, number][], elevations: number[] = []): ProcessedRoute => ({
+  id: 'route',
+  name: 'Route',
+  color: '#000000',
+  isVisible: true,
+  gpxData: '',
+  segments: [{ surface: 'unknown', distance: 0, geometry: { type: 'LineString', coordinates } }],
+  ...(elevations.length > 0 && {
+    elevationProfile: {
+      samples: elevations.map(elevation => ({ distance: 0, elevation, grade: 0, surface: 'unknown', lat: 0, lon: 0 })),
+      stats: { totalDistance: 0, totalAscent: 0, totalDescent: 0, maxElevation: 0, minElevation: 0, maxSustainedGrade: 0 },
+      climbs: []
+    }
+  })
+});
+
+describe('hashRouteGeometry', () => {
+  it('should give the same hash to lines that only differ below a meter or by repeated points', () => {
+    const hash = hashRouteGeometry(parsedRoute([[147.3, -42.8], [147.31, -42.81]]));
+
+    expect(hashRouteGeometry(parsedRoute([[147.300001, -42.800002], [147.3, -42.8], [147.31, -42.81]]))).toBe(hash);
+    expect(hashRouteGeometry(parsedRoute([[147.3, -42.8], [147.32, -42.81]]))).not.toBe(hash);
+  });
+
+  it('should tell apart routes with the same lines but different elevations', () => {
+    const coordinates: [number, number][] = [[147.3, -42.8], [147.31, -42.81]];
+
+    expect(hashRouteGeometry(parsedRoute(coordinates, [100, 120.4])))
+      .toBe(hashRouteGeometry(parsedRoute(coordinates, [100.2, 120])));
+    expect(hashRouteGeometry(parsedRoute(coordinates, [100, 120])))
+      .not.toBe(hashRouteGeometry(parsedRoute(coordinates, [100, 180])));
+  });
+});
+
+describe('Surface cache', () => {
+  let repositories: ReturnType<typeof createInMemoryRepositories>;
+  let app: Express;
+  let matchLine: jest.SpyInstance;
+  const gpxFile = fs.readFileSync(path.join(__dirname, '../../../uploads/1736662353807-164831248.gpx'));
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  beforeEach(async () => {
+    repositories = createInMemoryRepositories();
+    app = createTestApp(repositories);
+
+    await repositories.users.create({ auth0Id: EDITOR, role: 'editor', createdAt: new Date() } as UserDocument);
+    repositories.roads.lineMatches = [
+      { distance: 0, surface: 'gravel', highway: 'track', match_distance: 1 },
+      { distance: 1350, surface: 'gravel', highway: 'track', match_distance: 1 }
+    ];
+    matchLine = jest.spyOn(repositories.roads, 'matchLine');
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  const upload = async (name = 'test-route.gpx') => {
+    const response = await request(app)
+      .post('/api/routes')
+      .attach('gpx', gpxFile, name)
+      .set(TEST_USER_HEADER, RIDER);
+    expect(response.status).toBe(200);
+    return (response.body as RouteUploadResponse).route;
+  };
+
+  it('should answer a route seen before from the cache', async () => {
+    const first = await upload();
+    const queries = matchLine.mock.calls.length;
+    expect(queries).toBeGreaterThan(0);
+    expect(repositories.surfaceCache.entries.size).toBe(1);
+
+    const second = await upload('same-route-again.gpx');
+
+    expect(matchLine).toHaveBeenCalledTimes(queries);
+    expect(second.name).not.toBe(first.name);
+    expect(second.segments).toEqual(first.segments);
+    expect(second.elevationProfile).toEqual(first.elevationProfile);
+  });
+
+  it('should detect surfaces again once the road network version changes', async () => {
+    await upload();
+    const queries = matchLine.mock.calls.length;
+
+    repositories.roads.networkVersion = 2;
+    repositories.roads.lineMatches.forEach(match => { match.surface = 'asphalt'; });
+    const route = await upload();
+
+    expect(matchLine.mock.calls.length).toBeGreaterThan(queries);
+    expect(route.segments.every(segment => segment.surface === 'sealed')).toBe(true);
+    expect([...repositories.surfaceCache.entries.values()].map(entry => entry.networkVersion)).toEqual([2]);
+  });
+
+  it('should detect surfaces every time when the road network has no version', async () => {
+    repositories.roads.networkVersion = null;
+
+    const route = await upload();
+    const queries = matchLine.mock.calls.length;
+    await upload();
+
+    expect(route.segments.every(segment => segment.surface === 'loose_gravel')).toBe(true);
+    expect(matchLine.mock.calls.length).toBe(queries * 2);
+    expect(repositories.surfaceCache.entries.size).toBe(0);
+  });
+
+  it('should forget cached surfaces when surface classifications change', async () => {
+    await upload();
+    expect(repositories.surfaceCache.entries.size).toBe(1);
+
+    const saved = await request(app)
+      .put('/api/admin/surface-classifications')
+      .set(TEST_USER_HEADER, EDITOR)
+      .send({ originalSurface: 'fine_gravel', standardizedSurface: 'unpaved' });
+
+    expect(saved.status).toBe(200);
+    expect(repositories.surfaceCache.entries.size).toBe(0);
+  });
+});
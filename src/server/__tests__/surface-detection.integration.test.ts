@@ -0,0 +1,155 @@
+/**
+ * @jest-environment node
+ */
+import pg from 'pg';
+import request from 'supertest';
+import { Express } from 'express';
+import type { FeatureCollection } from 'geojson';
+import { GeoJsonSurfaceDetector } from '../repositories/geojson';
+import { createInMemoryRepositories } from '../repositories/memory';
+import { PostgisSurfaceDetector } from '../repositories/postgres';
+import { createTestApp } from '../testing/test-app';
+import { loadServerConfig } from '../../config/server-config';
+
+// A track of about 222 km along the equator with a point every 0.0001° (about 11 m),
+// over roads that alternate between sealed and gravel every 0.05° (about 5.6 km)
+const POINT_COUNT = 20000;
+const POINT_SPACING_DEGREES = 0.0001;
+const ROAD_LENGTH_DEGREES = 0.05;
+const ROAD_COUNT = 40;
+const METERS_PER_DEGREE = 111320;
+
+// Sealed roads run 1 m from the track and gravel roads 4 m from it
+const buildRoads = (): FeatureCollection => ({
+  type: 'FeatureCollection',
+  features: Array.from({ length: ROAD_COUNT }, (_, i) => {
+    const isGravel = i % 2 === 1;
+    const lat = (isGravel ? 4 : 1) / METERS_PER_DEGREE;
+    return {
+      type: 'Feature',
+      properties: isGravel ? { surface: 'gravel', highway: 'track' } : { surface: 'asphalt', highway: 'secondary' },
+      geometry: { type: 'LineString', coordinates: [[i * ROAD_LENGTH_DEGREES, lat], [(i + 1) * ROAD_LENGTH_DEGREES, lat]] }
+    };
+  })
+});
+
+const buildTrack = (): [number, number][] =>
+  Array.from({ length: POINT_COUNT }, (_, i) => [i * POINT_SPACING_DEGREES, 0]);
+
+describe('POST /api/surface-detection', () => {
+  let repositories: ReturnType<typeof createInMemoryRepositories>;
+  let app: Express;
+
+  beforeAll(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  beforeEach(() => {
+    repositories = createInMemoryRepositories();
+    app = createTestApp(repositories);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should match a 20k point track against a road extract in one query and bounded time', async () => {
+    const roads = new GeoJsonSurfaceDetector(buildRoads());
+    const matchLine = jest.spyOn(roads, 'matchLine');
+    app = createTestApp({ ...repositories, roads });
+    const coordinates = buildTrack();
+
+    const started = Date.now();
+    const response = await request(app)
+      .post('/api/surface-detection')
+      .send({ route: { coordinates } });
+    const elapsed = Date.now() - started;
+
+    expect(response.status).toBe(200);
+    expect(matchLine).toHaveBeenCalledTimes(1);
+    expect(elapsed).toBeLessThan(10000);
+
+    expect(response.body.distance).toBeCloseTo((POINT_COUNT - 1) * POINT_SPACING_DEGREES * 111195, -2);
+    expect(response.body.runs).toHaveLength(ROAD_COUNT);
+    // The point where two roads meet is nearer the sealed one, so gravel runs start a point later
+    expect(response.body.runs[1]).toEqual({
+      startDistance: expect.closeTo(5571, 0),
+      endDistance: expect.closeTo(11119, 0),
+      surface: 'gravel',
+      highway: 'track',
+      surfaceType: 'loose_gravel',
+      confidence: 0.6
+    });
+  });
+
+  it('should pass the requested tolerance to the road network', async () => {
+    const matchLine = jest.spyOn(repositories.roads, 'matchLine');
+
+    const response = await request(app)
+      .post('/api/surface-detection')
+      .send({ route: { coordinates: [[146.5, -42.0], [146.6, -42.0]] }, toleranceMeters: 25 });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ distance: 0, runs: [] });
+    expect(matchLine).toHaveBeenCalledWith([[146.5, -42.0], [146.6, -42.0]], 25);
+  });
+});
+
+// The PostGIS matchLine is only benchmarked with the PG_* settings of a PostGIS database,
+// e.g. VERIFY_SURFACE_DETECTORS=true PG_HOST=... npm test -- surface-detection.
+// The pool holds a single connection, so the temporary tables stand in for road_network and
+// surface_classifications in every query; far away filler roads make a scan of the table slow.
+const describeAgainstPostgis = process.env.VERIFY_SURFACE_DETECTORS === 'true' ? describe : describe.skip;
+
+describeAgainstPostgis('POST /api/surface-detection against PostGIS', () => {
+  let pool: pg.Pool;
+
+  beforeAll(async () => {
+    const config = loadServerConfig({ ...process.env, APP_ENV: 'test' });
+    pool = new pg.Pool({
+      ...config.postgres,
+      ssl: config.postgres.ssl ? { rejectUnauthorized: false } : false,
+      max: 1
+    });
+
+    await pool.query(`
+      CREATE TEMP TABLE road_network (surface text, highway text, geometry geometry(LineString, 4326));
+      CREATE TEMP TABLE surface_classifications (original_surface text, standardized_surface text);
+      INSERT INTO road_network
+        SELECT 'asphalt', 'residential', ST_SetSRID(ST_MakeLine(ST_MakePoint(g * 0.0002, 1), ST_MakePoint(g * 0.0002 + 0.0001, 1)), 4326)
+        FROM generate_series(1, 100000) g;
+    `);
+    for (const road of buildRoads().features) {
+      await pool.query(
+        'INSERT INTO road_network VALUES ($1, $2, ST_SetSRID(ST_GeomFromGeoJSON($3), 4326))',
+        [road.properties?.surface, road.properties?.highway, JSON.stringify(road.geometry)]
+      );
+    }
+    await pool.query('CREATE INDEX ON road_network USING GIST (geometry); ANALYZE road_network;');
+  });
+
+  afterAll(() => pool.end());
+
+  it('should match a 20k point track against the road network in bounded time', async () => {
+    const app = createTestApp({ ...createInMemoryRepositories(), roads: new PostgisSurfaceDetector(pool) });
+
+    const started = Date.now();
+    const response = await request(app)
+      .post('/api/surface-detection')
+      .send({ route: { coordinates: buildTrack() } });
+    const elapsed = Date.now() - started;
+
+    expect(response.status).toBe(200);
+    expect(elapsed).toBeLessThan(10000);
+    expect(response.body.runs).toHaveLength(ROAD_COUNT);
+    // PostGIS measures on the spheroid, a little longer than the haversine distances above
+    expect(response.body.runs[1]).toEqual({
+      startDistance: expect.closeTo(5577, -1),
+      endDistance: expect.closeTo(11132, -1),
+      surface: 'gravel',
+      highway: 'track',
+      surfaceType: 'loose_gravel',
+      confidence: 0.6
+    });
+  }, 60000);
+});
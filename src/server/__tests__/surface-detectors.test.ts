@@ -0,0 +1,179 @@
+/**
+ * @jest-environment node
+ */
+import fs from 'fs';
+import path from 'path';
+import pg from 'pg';
+import request from 'supertest';
+import type { FeatureCollection } from 'geojson';
+import { GeoJsonSurfaceDetector } from '../repositories/geojson';
+import { createInMemoryRepositories, InMemorySurfaceClassificationRepository } from '../repositories/memory';
+import { PostgisSurfaceDetector, PostgresSurfaceClassificationRepository } from '../repositories/postgres';
+import { SurfaceService } from '../services/surface-service';
+import { createTestApp } from '../testing/test-app';
+import { loadServerConfig } from '../../config/server-config';
+import { parseRouteFile } from '../../utils/gpx/registry';
+import type { SurfaceRun } from '../../types/gpx-types';
+
+// At 42° south, 0.01° of longitude is about 827 m
+const extract: FeatureCollection = {
+  type: 'FeatureCollection',
+  features: [
+    {
+      type: 'Feature',
+      properties: { surface: 'gravel', highway: 'track' },
+      geometry: { type: 'LineString', coordinates: [[146.0, -42.0], [146.01, -42.0]] }
+    },
+    {
+      type: 'Feature',
+      properties: { surface: 'asphalt', highway: 'primary' },
+      geometry: { type: 'LineString', coordinates: [[146.01, -42.0], [146.02, -42.0]] }
+    },
+    // A parallel street about 33 m to the north
+    {
+      type: 'Feature',
+      properties: { surface: 'asphalt', highway: 'residential' },
+      geometry: { type: 'LineString', coordinates: [[146.0, -41.9997], [146.02, -41.9997]] }
+    },
+    {
+      type: 'Feature',
+      properties: { surface: 'dirt', highway: 'path' },
+      geometry: {
+        type: 'MultiLineString',
+        coordinates: [[[146.1, -42.1], [146.11, -42.1]], [[146.11, -42.1], [146.12, -42.1]]]
+      }
+    }
+  ]
+};
+
+// A point every 0.0005° along a latitude, from 146.00 to 146.02
+const lineAlong = (lat: number, from = 146.0, to = 146.02): [number, number][] =>
+  Array.from({ length: Math.round((to - from) / 0.0005) + 1 }, (_, i) => [from + i * 0.0005, lat]);
+
+// Share of a line, sampled every 10 m, where both sets of runs have the same surface type
+const agreement = (a: SurfaceRun[], b: SurfaceRun[], distance: number) => {
+  const typeAt = (runs: SurfaceRun[], at: number) =>
+    runs.find(run => at >= run.startDistance && at < run.endDistance)?.surfaceType ?? 'unknown';
+
+  let samples = 0;
+  let same = 0;
+  for (let at = 0; at < distance; at += 10) {
+    samples++;
+    if (typeAt(a, at) === typeAt(b, at)) same++;
+  }
+  return samples > 0 ? same / samples : 1;
+};
+
+describe('GeoJsonSurfaceDetector', () => {
+  it('should snap each point to the nearest road within the tolerance', async () => {
+    const detector = new GeoJsonSurfaceDetector(extract);
+
+    const rows = await detector.matchLine(lineAlong(-42.00002), 10);
+
+    expect(rows).toHaveLength(41);
+    expect(rows[0]).toEqual({ distance: 0, surface: 'gravel', highway: 'track', match_distance: expect.closeTo(2.2, 1) });
+    expect(rows[40]).toEqual(expect.objectContaining({ surface: 'asphalt', highway: 'primary' }));
+    expect(Number(rows[40].distance)).toBeCloseTo(1655, -1);
+  });
+
+  it('should leave points without a road in the tolerance unmatched', async () => {
+    const detector = new GeoJsonSurfaceDetector(extract);
+
+    // About 17 m from both the track and the parallel street
+    const [row] = await detector.matchLine([[146.005, -41.99985], [146.006, -41.99985]], 10);
+
+    expect(row).toEqual({ distance: 0, surface: null, highway: null, match_distance: null });
+  });
+
+  it('should read multi-line roads and apply surface classifications', async () => {
+    const classifications = new InMemorySurfaceClassificationRepository();
+    await classifications.upsert({ originalSurface: 'dirt', standardizedSurface: 'unpaved' });
+    const detector = new GeoJsonSurfaceDetector(extract, classifications);
+
+    const rows = await detector.matchLine(lineAlong(-42.1, 146.1, 146.12), 10);
+
+    expect(rows.every(row => row.surface === 'unpaved' && row.highway === 'path')).toBe(true);
+  });
+
+  it('should load the roads in a box for routing, a road per line', async () => {
+    const detector = new GeoJsonSurfaceDetector(extract);
+
+    const roads = await detector.findRoadsWithin([146.09, -42.11, 146.13, -42.09], 100);
+
+    expect(roads).toEqual([
+      { surface: 'dirt', highway: 'path', coordinates: [[146.1, -42.1], [146.11, -42.1]] },
+      { surface: 'dirt', highway: 'path', coordinates: [[146.11, -42.1], [146.12, -42.1]] }
+    ]);
+  });
+
+  it('should detect surfaces through the API without a database', async () => {
+    const app = createTestApp({ ...createInMemoryRepositories(), roads: new GeoJsonSurfaceDetector(extract) });
+
+    const response = await request(app)
+      .post('/api/surface-detection')
+      .send({ route: { coordinates: lineAlong(-42.00002) } });
+
+    expect(response.status).toBe(200);
+    expect(response.body.runs.map((run: SurfaceRun) => run.surfaceType)).toEqual(['loose_gravel', 'sealed']);
+  });
+});
+
+describe('PostgisSurfaceDetector', () => {
+  it('should have no network version before the version table is created', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const missingTable = Object.assign(new Error('relation "road_network_version" does not exist'), { code: '42P01' });
+    const pool = { query: jest.fn().mockRejectedValue(missingTable) } as unknown as pg.Pool;
+
+    await expect(new PostgisSurfaceDetector(pool).getNetworkVersion()).resolves.toBeNull();
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it('should pass on other database errors', async () => {
+    const pool = { query: jest.fn().mockRejectedValue(new Error('Connection terminated')) } as unknown as pg.Pool;
+
+    await expect(new PostgisSurfaceDetector(pool).getNetworkVersion()).rejects.toThrow('Connection terminated');
+  });
+});
+
+// Needs the PG_* settings of a road_network database and ROAD_NETWORK_FILE pointing at an extract of it,
+// e.g. VERIFY_SURFACE_DETECTORS=true ROAD_NETWORK_FILE=roads.geojson PG_HOST=... npm test -- surface-detectors
+const describeAgainstPostgis = process.env.VERIFY_SURFACE_DETECTORS === 'true' ? describe : describe.skip;
+
+describeAgainstPostgis('GeoJsonSurfaceDetector against PostGIS', () => {
+  let config: ReturnType<typeof loadServerConfig>;
+  let pool: pg.Pool;
+
+  beforeAll(() => {
+    config = loadServerConfig({ ...process.env, APP_ENV: 'test', SURFACE_DETECTOR: 'geojson' });
+    pool = new pg.Pool({
+      ...config.postgres,
+      ssl: config.postgres.ssl ? { rejectUnauthorized: false } : false
+    });
+  });
+
+  afterAll(() => pool.end());
+
+  it('should agree with PostGIS on the fixture routes', async () => {
+    const classifications = new PostgresSurfaceClassificationRepository(pool);
+    const postgis = new SurfaceService(new PostgisSurfaceDetector(pool));
+    const local = new SurfaceService(GeoJsonSurfaceDetector.fromFile(config.surfaceDetection.roadNetworkFile, classifications));
+
+    const uploads = path.join(__dirname, '../../../uploads');
+    const files = new Set(fs.readdirSync(uploads)
+      .filter(name => name.endsWith('.gpx'))
+      .map(name => fs.readFileSync(path.join(uploads, name), 'utf8')));
+
+    for (const file of files) {
+      const { gpx } = await parseRouteFile(Buffer.from(file), 'fixture.gpx');
+      const coordinates = gpx.tracks.flatMap(track => track.segments.flatMap(segment =>
+        segment.points.map(({ lon, lat }) => [lon, lat] as [number, number])));
+
+      const expected = await postgis.detectRuns(coordinates);
+      const actual = await local.detectRuns(coordinates);
+
+      expect(actual.distance).toBeCloseTo(expected.distance, -2);
+      expect(agreement(actual.runs, expected.runs, expected.distance)).toBeGreaterThanOrEqual(0.95);
+    }
+  }, 120000);
+});
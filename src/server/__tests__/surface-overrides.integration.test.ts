@@ -0,0 +1,169 @@
+/**
+ * @jest-environment node
+ */
+import request from 'supertest';
+import { Express } from 'express';
+import { createInMemoryRepositories } from '../repositories/memory';
+import { createTestApp } from '../testing/test-app';
+import { TEST_USER_HEADER } from '../testing/test-auth';
+import type { UserDocument } from '../repositories/types';
+
+const OWNER = 'auth0|owner';
+const EDITOR = 'auth0|editor';
+const OTHER = 'auth0|other';
+
+describe('Surface overrides', () => {
+  let repositories: ReturnType<typeof createInMemoryRepositories>;
+  let app: Express;
+  let mapId: string;
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  beforeEach(async () => {
+    repositories = createInMemoryRepositories();
+    app = createTestApp(repositories);
+
+    await repositories.users.create({ auth0Id: EDITOR, role: 'editor', createdAt: new Date() } as UserDocument);
+
+    // About 2.2 km along the equator, detected as gravel
+    mapId = await repositories.maps.create({
+      name: 'Gravel loop',
+      isPublic: true,
+      routes: [],
+      routeData: {
+        type: 'FeatureCollection',
+        features: [{
+          type: 'Feature',
+          properties: { surface: 'gravel' },
+          geometry: { type: 'LineString', coordinates: [[0, 0], [0.01, 0], [0.02, 0]] }
+        }]
+      },
+      createdBy: OWNER,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    });
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  const addOverride = (body: object, user = OWNER) => request(app)
+    .post(`/api/maps/${mapId}/surface-overrides`)
+    .set(TEST_USER_HEADER, user)
+    .send(body);
+
+  it('should store overrides with the map and apply them to its summary', async () => {
+    const response = await addOverride({ startDistance: 0, endDistance: 1000, surface: 'sealed', note: 'New seal' });
+
+    expect(response.status).toBe(201);
+    expect(response.body.override).toEqual(expect.objectContaining({
+      startDistance: 0,
+      endDistance: 1000,
+      surface: 'sealed',
+      note: 'New seal',
+      createdBy: OWNER
+    }));
+    expect(response.body).not.toHaveProperty('correctionId');
+
+    const summary = repositories.maps.maps.get(mapId)?.summary;
+    expect(summary?.surfaceDistances?.sealed).toBeCloseTo(1000, -1);
+    expect(summary?.surfaceDistances?.loose_gravel).toBeCloseTo(1226, -1);
+
+    const list = await request(app).get(`/api/maps/${mapId}/surface-overrides`);
+    expect(list.body).toEqual([expect.objectContaining({ id: response.body.override.id })]);
+  });
+
+  it('should keep the surfaces in the summary when routes are saved without their route data', async () => {
+    await addOverride({ startDistance: 0, endDistance: 1000, surface: 'sealed' });
+    const ridden = `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="test" xmlns="http://www.topografix.com/GPX/1/1">
+  <trk><trkseg><trkpt lat="0" lon="0"></trkpt><trkpt lat="0" lon="0.02"></trkpt></trkseg></trk>
+</gpx>`;
+
+    const response = await request(app)
+      .put(`/api/maps/${mapId}`)
+      .set(TEST_USER_HEADER, OWNER)
+      .send({ routes: [{ id: 'route-1', name: 'Renamed', gpxData: ridden }] });
+
+    expect(response.status).toBe(200);
+    const summary = repositories.maps.maps.get(mapId)?.summary;
+    expect(summary?.pavedDistance).toBeCloseTo(1000, -1);
+    expect(summary?.unpavedDistance).toBeCloseTo(1226, -1);
+  });
+
+  it('should record who added and removed overrides', async () => {
+    const { body } = await addOverride({ startDistance: 200, endDistance: 400, surface: 'dirt' });
+
+    const removed = await request(app)
+      .delete(`/api/maps/${mapId}/surface-overrides/${body.override.id}`)
+      .set(TEST_USER_HEADER, OWNER);
+    expect(removed.status).toBe(200);
+    expect(repositories.maps.maps.get(mapId)?.surfaceOverrides).toEqual([]);
+    expect(repositories.maps.maps.get(mapId)?.summary?.surfaceDistances?.dirt).toBeUndefined();
+
+    const history = await request(app).get(`/api/maps/${mapId}/surface-overrides/history`).set(TEST_USER_HEADER, OWNER);
+    expect(history.body.map(({ action, changedBy }: { action: string; changedBy: string }) => [action, changedBy]))
+      .toEqual([['added', OWNER], ['removed', OWNER]]);
+  });
+
+  it('should suggest a correction to editors with the geometry of the stretch', async () => {
+    const { body } = await addOverride({ startDistance: 500, endDistance: 1500, surface: 'dirt', suggestCorrection: true });
+    expect(body.correctionId).toEqual(expect.any(String));
+
+    const corrections = await request(app).get('/api/admin/surface-corrections?status=open').set(TEST_USER_HEADER, EDITOR);
+    expect(corrections.body).toEqual([expect.objectContaining({
+      id: body.correctionId,
+      mapId,
+      overrideId: body.override.id,
+      surface: 'dirt',
+      suggestedBy: OWNER,
+      status: 'open'
+    })]);
+    expect(corrections.body[0].coordinates).toContainEqual([0.01, 0]);
+
+    const reviewed = await request(app)
+      .put(`/api/admin/surface-corrections/${body.correctionId}`)
+      .set(TEST_USER_HEADER, EDITOR)
+      .send({ status: 'accepted' });
+    expect(reviewed.body).toEqual(expect.objectContaining({ status: 'accepted', reviewedBy: EDITOR }));
+
+    const open = await request(app).get('/api/admin/surface-corrections?status=open').set(TEST_USER_HEADER, EDITOR);
+    expect(open.body).toEqual([]);
+  });
+
+  it('should not let riders review corrections', async () => {
+    const response = await request(app).get('/api/admin/surface-corrections').set(TEST_USER_HEADER, OWNER);
+
+    expect(response.status).toBe(403);
+  });
+
+  it('should reject ranges that do not end after they start and unknown surfaces', async () => {
+    const backwards = await addOverride({ startDistance: 1000, endDistance: 500, surface: 'dirt' });
+    expect(backwards.status).toBe(400);
+    expect(backwards.body).toEqual({ error: 'endDistance must be greater than startDistance' });
+
+    const unknown = await addOverride({ startDistance: 0, endDistance: 500, surface: 'cobbles' });
+    expect(unknown.status).toBe(400);
+    expect(unknown.body.fields).toEqual([
+      { field: 'surface', message: 'must be one of: sealed, compacted_gravel, loose_gravel, dirt, singletrack, unknown' }
+    ]);
+  });
+
+  it('should only let the owner change overrides and see their history', async () => {
+    const { body } = await addOverride({ startDistance: 0, endDistance: 500, surface: 'dirt' });
+
+    expect((await addOverride({ startDistance: 0, endDistance: 500, surface: 'sealed' }, OTHER)).status).toBe(404);
+
+    const removed = await request(app)
+      .delete(`/api/maps/${mapId}/surface-overrides/${body.override.id}`)
+      .set(TEST_USER_HEADER, OTHER);
+    expect(removed.status).toBe(404);
+
+    const history = await request(app).get(`/api/maps/${mapId}/surface-overrides/history`).set(TEST_USER_HEADER, OTHER);
+    expect(history.status).toBe(404);
+  });
+});
@@ -0,0 +1,135 @@
+import express, { Express } from 'express';
+import cors from 'cors';
+import { ServerConfig } from '../config/server-config';
+import { RouteProcessingQueue } from '../services/route-processing-queue';
+import { configureAuth as configureAuth0, createRequireRole, createTokenAuth } from './middlewares/auth';
+import { errorHandler } from './middlewares/error-handling';
+import { Repositories } from './repositories/types';
+import { AdminService } from './services/admin-service';
+import { ApiTokenService } from './services/api-token-service';
+import { MapService } from './services/map-service';
+import { PhotoService, PhotoStorage } from './services/photo-service';
+import { ProfileService } from './services/profile-service';
+import { RoleService } from './services/role-service';
+import { RouteBuilderService } from './services/route-builder-service';
+import { RouteService } from './services/route-service';
+import { SurfaceCacheService } from './services/surface-cache-service';
+import { SurfaceOverrideService } from './services/surface-override-service';
+import { StageService } from './services/stage-service';
+import { SurfaceService } from './services/surface-service';
+import { createAdminRouter } from './routes/admin';
+import { createApiTokensRouter } from './routes/api-tokens';
+import { createMapsRouter } from './routes/maps';
+import { createPhotosRouter } from './routes/photos';
+import { createProfileRouter } from './routes/profile';
+import { createRoutesRouter } from './routes/routes';
+import { createSurfaceRouter } from './routes/surface';
+import { testErrorHandling } from './routes/test';
+
+export interface AppDependencies {
+  config: ServerConfig;
+  repositories: Repositories;
+  photoStorage: PhotoStorage;
+  // Sets req.oidc for every request; defaults to Auth0, tests can sign in a fixed user instead
+  configureAuth?: (app: Express, config: ServerConfig) => void;
+  routeProcessingQueue?: RouteProcessingQueue;
+}
+
+/**
+ * Builds the API server from its dependencies without connecting to anything,
+ * so tests can run it against in-memory repositories.
+ */
+export const createApp = ({
+  config,
+  repositories,
+  photoStorage,
+  configureAuth = configureAuth0,
+  routeProcessingQueue
+}: AppDependencies): Express => {
+  const app = express();
+
+  // Auth router must be set up before other routes
+  configureAuth(app, config);
+
+  app.use(cors({
+    origin: config.corsOrigins,
+    methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'x-csrf-token'],
+    exposedHeaders: ['Content-Disposition'],
+    credentials: true,
+    maxAge: 86400
+  }));
+
+  // Signed in users landing on the API root are sent back to the client
+  app.use((req, res, next) => {
+    if (req.path === '/' && req.oidc?.isAuthenticated()) {
+      console.log('User authenticated, redirecting to frontend');
+      res.redirect(config.clientUrl);
+      return;
+    }
+    next();
+  });
+
+  // Add CSP headers
+  app.use((_req, res, next) => {
+    res.setHeader(
+      'Content-Security-Policy',
+      "default-src 'self'; img-src 'self' data: https:; style-src 'self' 'unsafe-inline'"
+    );
+    next();
+  });
+
+  // Add OPTIONS handling for preflight requests
+  app.options('*', cors());
+  app.use(express.json({limit: '12mb'}));
+  app.use('/uploads', express.static('uploads'));
+
+  app.get('/health', (_req, res) => {
+    res.json({ status: 'ok', timestamp: new Date() });
+  });
+
+  const roles = new RoleService(repositories.users);
+  const requireRole = createRequireRole(roles);
+  const apiTokens = new ApiTokenService(repositories.apiTokens);
+  const surfaceCache = new SurfaceCacheService(repositories.surfaceCache, repositories.roads);
+
+  // API tokens are only accepted on the routes scripts need
+  app.use(['/api/routes', '/api/upload', '/api/maps', '/api/photos/upload'], createTokenAuth(apiTokens));
+
+  app.use('/api', createRoutesRouter(
+    new RouteService(repositories.routes, repositories.roads, surfaceCache, routeProcessingQueue),
+    new RouteBuilderService(repositories.roads)
+  ));
+  app.use('/api/maps', createMapsRouter(
+    new MapService(repositories.maps),
+    new SurfaceOverrideService(repositories.maps, repositories.surfaceCorrections),
+    new StageService(repositories.maps)
+  ));
+  app.use('/api/photos', createPhotosRouter(new PhotoService(repositories.photos, photoStorage)));
+  app.use('/api/profile', createProfileRouter(new ProfileService(repositories.users)));
+  app.use('/api/tokens', createApiTokensRouter(apiTokens));
+  app.use('/api/surface-detection', createSurfaceRouter(new SurfaceService(repositories.roads)));
+  app.use('/api/admin', createAdminRouter(
+    new AdminService(
+      repositories.maps,
+      repositories.photos,
+      repositories.users,
+      roles,
+      repositories.surfaceClassifications,
+      repositories.surfaceCorrections,
+      surfaceCache,
+      photoStorage
+    ),
+    requireRole
+  ));
+
+  // Lets the error handler be exercised by hand outside production
+  if (config.profile !== 'production') {
+    app.get('/api/test/errors', testErrorHandling);
+  }
+
+  // Errors not answered by a handler, must be registered last
+  app.use(errorHandler);
+
+  return app;
+};
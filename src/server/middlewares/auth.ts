@@ -1,18 +1,23 @@
-import { Express, Response, NextFunction } from 'express';
-import { auth as Auth0 } from 'express-openid-connect';
-import { Auth0Request, Auth0MiddlewareHandler, Auth0CallbackHandler } from '../../types/auth.types';
+import { Express, RequestHandler } from 'express';
+import { auth as Auth0, ConfigParams } from 'express-openid-connect';
+import { ServerConfig } from '../../config/server-config';
+import { Auth0MiddlewareHandler, Auth0CallbackHandler } from '../../types/auth.types';
+import { ApiTokenScope, UserRole } from '../../types/database.types';
+import { ApiTokenService } from '../services/api-token-service';
+import { hasRole, RoleService } from '../services/role-service';
 
-export const authConfig = {
+// Builds the express-openid-connect options for the configured Auth0 tenant
+export const createAuthConfig = (config: ServerConfig): ConfigParams => ({
   authRequired: false,
   auth0Logout: true,
-  secret: process.env.AUTH0_SECRET,
-  baseURL: 'http://localhost:3001',
-  clientID: 'hLnq0z7KNvwcORjFF9KdC4kGPtu51kVB',
-  clientSecret: process.env.AUTH0_CLIENT_SECRET,
-  issuerBaseURL: 'https://dev-8jmwfh4hugvdjwh8.au.auth0.com',
+  secret: config.auth0.secret,
+  baseURL: config.serverUrl,
+  clientID: config.auth0.clientId,
+  clientSecret: config.auth0.clientSecret,
+  issuerBaseURL: config.auth0.issuerBaseUrl,
   routes: {
     callback: '/callback',
-    postLogoutRedirect: 'http://localhost:5173'
+    postLogoutRedirect: config.clientUrl
   },
   authorizationParams: {
     response_type: 'code',
@@ -22,16 +27,16 @@ export const authConfig = {
     absoluteDuration: 24 * 60 * 60
   },
   logoutParams: {
-    returnTo: 'http://localhost:5173'
+    returnTo: config.clientUrl
   }
-};
+});
 
-export const configureAuth = (app: Express): void => {
+export const configureAuth = (app: Express, config: ServerConfig): void => {
   // Configure Auth0
-  app.use(Auth0(authConfig));
+  app.use(Auth0(createAuthConfig(config)));
 
   // Add authentication state logging middleware
-  const loggingMiddleware: Auth0MiddlewareHandler = (req, res, next) => {
+  const loggingMiddleware: Auth0MiddlewareHandler = (req, _res, next) => {
     console.log('Authentication state:', req.oidc?.isAuthenticated() ? 'Authenticated' : 'Not authenticated');
     console.log('User info:', req.oidc?.user);
     next();
@@ -39,9 +44,9 @@ export const configureAuth = (app: Express): void => {
   app.use(loggingMiddleware);
 
   // Handle successful authentication
-  const callbackHandler: Auth0CallbackHandler = (req, res) => {
+  const callbackHandler: Auth0CallbackHandler = (_req, res) => {
     console.log('Callback route hit - redirecting to frontend');
-    res.redirect('http://localhost:5173');
+    res.redirect(config.clientUrl);
   };
   app.get('/callback', callbackHandler);
 };
@@ -60,26 +65,78 @@ export const requireAuth: Auth0MiddlewareHandler = (req, res, next) => {
   }
 };
 
-// Middleware to ensure user is admin
-export const requireAdmin: Auth0MiddlewareHandler = (req, res, next) => {
+/**
+ * Creates middleware that signs in requests carrying an API token as
+ * "Authorization: Bearer <token>". Requests with an unknown or revoked token are
+ * rejected; requests without one carry on with the browser session, if any.
+ */
+export const createTokenAuth = (tokens: ApiTokenService): Auth0MiddlewareHandler => async (req, res, next) => {
+  const [scheme, token] = req.header('Authorization')?.split(' ') ?? [];
+  if (scheme !== 'Bearer' || !token) {
+    next();
+    return;
+  }
+
   try {
-    if (!req.oidc?.isAuthenticated()) {
-      res.status(401).json({ error: 'Authentication required' });
+    const identity = await tokens.authenticate(token);
+    if (!identity) {
+      res.status(401).json({ error: 'Invalid API token' });
       return;
     }
 
-    // Check if user has admin role/permissions
-    // You'll need to implement this based on your user data structure
-    const isAdmin = false; // Replace with actual admin check
-    
-    if (!isAdmin) {
-      res.status(403).json({ error: 'Admin access required' });
-      return;
-    }
-    
+    req.apiToken = identity;
     next();
   } catch (error) {
-    console.error('Admin auth middleware error:', error);
-    res.status(500).json({ error: 'Authorization error' });
+    console.error('API token middleware error:', error);
+    res.status(500).json({ error: 'Authentication error' });
+  }
+};
+
+// Like requireAuth, but also lets in requests signed in with an API token that has the scope
+export const requireAuthOrToken = (scope: ApiTokenScope): Auth0MiddlewareHandler => (req, res, next) => {
+  if (!req.apiToken) {
+    requireAuth(req, res, next);
+    return;
+  }
+
+  if (!req.apiToken.scopes.includes(scope)) {
+    res.status(403).json({ error: `API token does not have the ${scope} scope` });
+    return;
   }
+  next();
 };
+
+// The signed in user's Auth0 id, for handlers behind requireAuth or requireAuthOrToken
+export const getUserId = (req: Parameters<RequestHandler>[0]): string =>
+  req.apiToken?.userId ?? req.oidc.user!.sub;
+
+// The signed in user's Auth0 id on routes open to anyone; API tokens only count with the scope
+export const getOptionalUserId = (req: Parameters<RequestHandler>[0], scope: ApiTokenScope): string | undefined =>
+  req.apiToken?.scopes.includes(scope) ? req.apiToken.userId : req.oidc?.user?.sub;
+
+/**
+ * Creates the requireRole middleware, which lets a request through when the signed
+ * in user has at least the given role. Roles are looked up once per session.
+ */
+export const createRequireRole = (roles: RoleService) => (role: UserRole): Auth0MiddlewareHandler =>
+  async (req, res, next) => {
+    try {
+      if (!req.oidc?.isAuthenticated()) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const { sub, sid } = req.oidc.user!;
+      if (!hasRole(await roles.getRole(sub, sid ?? sub), role)) {
+        res.status(403).json({ error: `${role[0].toUpperCase()}${role.slice(1)} access required` });
+        return;
+      }
+
+      next();
+    } catch (error) {
+      console.error('Role middleware error:', error);
+      res.status(500).json({ error: 'Authorization error' });
+    }
+  };
+
+export type RequireRole = ReturnType<typeof createRequireRole>;
@@ -1,11 +1,14 @@
-import { ErrorResponse, ErrorHandler } from '../../types/express.types';
+import { ErrorRequestHandler } from 'express';
+import { ErrorResponse } from '../../types/express.types';
 
 interface AppError extends Error {
   status?: number;
   expose?: boolean;
 }
 
-export const errorHandler: ErrorHandler = (err: unknown, req, res, next) => {
+// Express only treats a middleware as an error handler when it takes all four arguments
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+export const errorHandler: ErrorRequestHandler = (err: unknown, _req, res, _next) => {
   // Handle different error types
   const error: AppError = (err instanceof Error) ? err : new Error('Unknown error occurred');
   const status = (err as AppError).status || 500;
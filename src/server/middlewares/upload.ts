@@ -0,0 +1,62 @@
+import { RequestHandler } from 'express';
+import multer from 'multer';
+import { isSupportedRouteFile, SUPPORTED_ROUTE_EXTENSIONS } from '../../utils/gpx/registry';
+import { handleBadRequest } from '../../utils/error-handling';
+
+const MB = 1024 * 1024;
+
+interface UploadOptions {
+  maxFileSize: number;
+  // Returns an error message for files that should be rejected
+  checkFile: (file: Express.Multer.File) => string | null;
+}
+
+/**
+ * Creates a single-file upload middleware that keeps the file in memory and
+ * answers rejected or oversized files with a 400 instead of the default error page.
+ */
+const createUpload = ({ maxFileSize, checkFile }: UploadOptions) => {
+  const upload = multer({
+    storage: multer.memoryStorage(),
+    fileFilter: (_req, file, cb) => {
+      const error = checkFile(file);
+      if (error) {
+        cb(new Error(error));
+      } else {
+        cb(null, true);
+      }
+    },
+    limits: {
+      fileSize: maxFileSize
+    }
+  });
+
+  return (field: string): RequestHandler => (req, res, next) => {
+    upload.single(field)(req, res, (error: unknown) => {
+      if (!error) {
+        next();
+      } else if (error instanceof multer.MulterError && error.code === 'LIMIT_FILE_SIZE') {
+        handleBadRequest(`File exceeds the maximum file size of ${maxFileSize / MB}MB`, res);
+      } else if (error instanceof Error) {
+        handleBadRequest(error.message, res);
+      } else {
+        next(error);
+      }
+    });
+  };
+};
+
+export const photoUpload = createUpload({
+  maxFileSize: 5 * MB,
+  checkFile: (file) => ['image/jpeg', 'image/png', 'image/jpg'].includes(file.mimetype)
+    ? null
+    : 'Invalid file type. Only JPEG and PNG are allowed.'
+});
+
+// The route format itself is detected from the file content when it is processed
+export const routeUpload = createUpload({
+  maxFileSize: 10 * MB,
+  checkFile: (file) => isSupportedRouteFile(file.originalname)
+    ? null
+    : `Invalid file type. Supported formats: ${SUPPORTED_ROUTE_EXTENSIONS.join(', ')}`
+});
@@ -0,0 +1,29 @@
+import { RequestHandler } from 'express';
+import { ObjectId } from 'mongodb';
+import { Schema, validate } from '../../validation/schema';
+import { handleBadRequest, handleValidationError } from '../../utils/error-handling';
+
+/**
+ * Rejects requests whose body does not match the schema with a 400 listing every
+ * invalid field, and replaces the body with the checked value so handlers only
+ * see the fields the schema allows.
+ */
+export const validateBody = <T>(schema: Schema<T>): RequestHandler => (req, res, next) => {
+  const result = validate(schema, req.body);
+  if (!result.success) {
+    handleValidationError(result.errors, res);
+    return;
+  }
+
+  req.body = result.value;
+  next();
+};
+
+// Rejects requests whose route parameter is not a valid document ID, e.g. "Invalid map ID"
+export const requireObjectId = (param: string, name: string): RequestHandler => (req, res, next) => {
+  if (!ObjectId.isValid(req.params[param])) {
+    handleBadRequest(`Invalid ${name} ID`, res);
+    return;
+  }
+  next();
+};
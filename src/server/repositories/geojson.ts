@@ -0,0 +1,129 @@
+import fs from 'fs';
+import geojsonRbush from '@turf/geojson-rbush';
+import nearestPointOnLine from '@turf/nearest-point-on-line';
+import type { Feature, FeatureCollection, LineString } from 'geojson';
+import { GpxProcessor } from '../../services/gpx-processor';
+import type { RoadLine } from '../../utils/gpx/routing';
+import type { RoadMatchRow } from '../../utils/gpx/surface';
+import type { SurfaceClassificationRepository, SurfaceDetector } from './types';
+
+// The columns of road_network kept for each road of an extract; parts of a multi-line road share an id
+interface RoadProperties {
+  id: number;
+  surface: string | null;
+  highway: string | null;
+}
+
+type Road = Feature<LineString, RoadProperties>;
+
+interface PointMatch {
+  distance: number;
+  road?: Road;
+  matchDistance?: number;
+}
+
+const METERS_PER_DEGREE_LATITUDE = 111320;
+
+const toRoads = (extract: FeatureCollection): Road[] =>
+  extract.features.flatMap((feature, id) => {
+    const properties: RoadProperties = {
+      id,
+      surface: feature.properties?.surface ?? null,
+      highway: feature.properties?.highway ?? null
+    };
+
+    const lines = feature.geometry?.type === 'LineString' ? [feature.geometry.coordinates]
+      : feature.geometry?.type === 'MultiLineString' ? feature.geometry.coordinates
+      : [];
+    return lines
+      .filter(coordinates => coordinates.length >= 2)
+      .map(coordinates => ({ type: 'Feature', properties, geometry: { type: 'LineString', coordinates } }) as Road);
+  });
+
+/**
+ * Detects surfaces against a road extract held in memory, so routes can be processed
+ * without the PostGIS database. Roads are found through an R-tree of their bounding boxes.
+ * The extract is GeoJSON with the surface and highway tags of road_network as properties,
+ * e.g. exported with ogr2ogr -f GeoJSON roads.geojson PG:... road_network.
+ */
+export class GeoJsonSurfaceDetector implements SurfaceDetector {
+  private index = geojsonRbush<LineString, RoadProperties>();
+  private processor = new GpxProcessor();
+
+  /**
+   * @param extract - Road lines with surface and highway properties
+   * @param classifications - Standardized surfaces to apply, as the PostGIS queries do; raw tags are kept without them
+   * @param networkVersion - Version of the extract, e.g. when its file was last written
+   */
+  constructor(
+    extract: FeatureCollection,
+    private classifications?: SurfaceClassificationRepository,
+    private networkVersion = 0
+  ) {
+    this.index.load(toRoads(extract));
+  }
+
+  static fromFile(filePath: string, classifications?: SurfaceClassificationRepository): GeoJsonSurfaceDetector {
+    const extract = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    return new GeoJsonSurfaceDetector(extract, classifications, Math.floor(fs.statSync(filePath).mtimeMs));
+  }
+
+  async matchLine(coordinates: [number, number][], toleranceMeters: number): Promise<RoadMatchRow[]> {
+    const standardize = await this.loadClassifications();
+
+    return this.matchPoints(coordinates, toleranceMeters).map(({ distance, road, matchDistance }) => ({
+      distance,
+      surface: road ? standardize(road.properties.surface) : null,
+      highway: road?.properties.highway ?? null,
+      match_distance: matchDistance ?? null
+    }));
+  }
+
+  async findRoadsWithin(bounds: [number, number, number, number], limit: number): Promise<RoadLine[]> {
+    const standardize = await this.loadClassifications();
+
+    return this.index.search(bounds).features.slice(0, limit).map(road => ({
+      surface: standardize(road.properties.surface),
+      highway: road.properties.highway,
+      coordinates: road.geometry.coordinates.map(([lon, lat]) => [lon, lat] as [number, number])
+    }));
+  }
+
+  // The extract only changes on restart; classification changes clear the surface cache instead
+  async getNetworkVersion(): Promise<number> {
+    return this.networkVersion;
+  }
+
+  // Each point with its distance along the line and the nearest road within the tolerance
+  private matchPoints(coordinates: [number, number][], toleranceMeters: number): PointMatch[] {
+    let along = 0;
+    return coordinates.map((point, i) => {
+      if (i > 0) {
+        const [prevLon, prevLat] = coordinates[i - 1];
+        along += this.processor.calculateDistance({ lat: prevLat, lon: prevLon }, { lat: point[1], lon: point[0] });
+      }
+      return { distance: along, ...this.nearestRoad(point, toleranceMeters) };
+    });
+  }
+
+  private nearestRoad([lon, lat]: [number, number], toleranceMeters: number) {
+    const latitudeDelta = toleranceMeters / METERS_PER_DEGREE_LATITUDE;
+    const longitudeDelta = latitudeDelta / Math.max(Math.cos(lat * Math.PI / 180), 0.01);
+    const candidates = this.index.search([lon - longitudeDelta, lat - latitudeDelta, lon + longitudeDelta, lat + latitudeDelta]);
+
+    let nearest: { road: Road; matchDistance: number } | undefined;
+    for (const road of candidates.features) {
+      const matchDistance = nearestPointOnLine(road, [lon, lat], { units: 'meters' }).properties.dist;
+      if (matchDistance <= toleranceMeters && (!nearest || matchDistance < nearest.matchDistance)) {
+        nearest = { road, matchDistance };
+      }
+    }
+    return nearest;
+  }
+
+  private async loadClassifications(): Promise<(surface: string | null) => string | null> {
+    const classifications = await this.classifications?.list() ?? [];
+    const standardized = new Map(classifications.map(c => [c.originalSurface, c.standardizedSurface]));
+    return surface => surface && (standardized.get(surface) ?? surface);
+  }
+}
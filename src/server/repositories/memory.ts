@@ -0,0 +1,374 @@
+import { ObjectId } from 'mongodb';
+import type { POI } from '../../types/note-types';
+import type {
+  SurfaceClassification,
+  SurfaceCorrectionStatus,
+  SurfaceOverride,
+  SurfaceOverrideAuditEntry
+} from '../../types/api.types';
+import type { RoadLine } from '../../utils/gpx/routing';
+import type { RoadMatchRow } from '../../utils/gpx/surface';
+import type {
+  ApiTokenDocument,
+  ApiTokenRepository,
+  MapDocument,
+  MapRepository,
+  PhotoDocument,
+  PhotoRepository,
+  PublicMapPage,
+  Repositories,
+  RouteDocument,
+  RouteRepository,
+  SurfaceCacheDocument,
+  SurfaceCacheRepository,
+  SurfaceClassificationRepository,
+  SurfaceCorrectionDocument,
+  SurfaceCorrectionRepository,
+  SurfaceDetector,
+  UserDocument,
+  UserRepository
+} from './types';
+
+// In-memory repositories for tests and local runs without databases.
+// Ids are ObjectId strings so they pass the same validation as stored ones.
+
+const newId = () => new ObjectId().toHexString();
+
+// Documents are copied in and out so callers cannot change stored state by accident
+const copy = <T>(value: T): T => structuredClone(value);
+
+export class InMemoryUserRepository implements UserRepository {
+  readonly users = new Map<string, UserDocument>();
+
+  async findByAuth0Id(auth0Id: string) {
+    const user = this.users.get(auth0Id);
+    return user ? copy(user) : null;
+  }
+
+  async create(user: UserDocument) {
+    this.users.set(user.auth0Id, copy(user));
+  }
+
+  async update(auth0Id: string, changes: Partial<UserDocument>) {
+    const user = this.users.get(auth0Id);
+    if (!user) return false;
+    this.users.set(auth0Id, { ...user, ...copy(changes) });
+    return true;
+  }
+
+  async list() {
+    return [...this.users.values()]
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map(copy);
+  }
+}
+
+export class InMemoryApiTokenRepository implements ApiTokenRepository {
+  readonly tokens = new Map<string, ApiTokenDocument>();
+
+  async create(token: ApiTokenDocument) {
+    const id = newId();
+    this.tokens.set(id, { ...copy(token), _id: id });
+    return id;
+  }
+
+  async findActiveByHash(tokenHash: string) {
+    const token = [...this.tokens.values()].find(token => token.tokenHash === tokenHash && !token.revokedAt);
+    return token ? copy(token) : null;
+  }
+
+  async findActiveByUser(userId: string) {
+    return [...this.tokens.values()]
+      .filter(token => token.userId === userId && !token.revokedAt)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .map(copy);
+  }
+
+  async revoke(tokenId: string, userId: string, revokedAt: Date) {
+    const token = this.tokens.get(tokenId);
+    if (!token || token.userId !== userId || token.revokedAt) return false;
+    token.revokedAt = revokedAt;
+    return true;
+  }
+
+  async setLastUsed(tokenId: string, lastUsedAt: Date) {
+    const token = this.tokens.get(tokenId);
+    if (token) token.lastUsedAt = lastUsedAt;
+  }
+}
+
+export class InMemoryMapRepository implements MapRepository {
+  readonly maps = new Map<string, MapDocument>();
+
+  // Users are only needed to show author names in the public gallery
+  constructor(private users?: InMemoryUserRepository) {}
+
+  async create(map: MapDocument) {
+    const id = newId();
+    this.maps.set(id, { ...copy(map), _id: id });
+    return id;
+  }
+
+  async findByOwner(userId: string) {
+    return [...this.maps.values()]
+      .filter(map => map.createdBy === userId)
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+      .map(copy);
+  }
+
+  async findPublic({ sort, skip, limit }: PublicMapPage) {
+    const sortValue = (map: MapDocument) => {
+      if (sort === 'longest') return map.summary?.distance ?? 0;
+      if (sort === 'gravel') return map.summary?.unpavedDistance ?? 0;
+      return 0;
+    };
+
+    const publicMaps = [...this.maps.values()]
+      .filter(map => map.isPublic)
+      .sort((a, b) => sortValue(b) - sortValue(a) || b.createdAt.getTime() - a.createdAt.getTime());
+
+    const items = publicMaps.slice(skip, skip + limit).map(map => ({
+      _id: String(map._id),
+      name: map.name,
+      description: map.description,
+      createdAt: map.createdAt,
+      updatedAt: map.updatedAt,
+      summary: map.summary,
+      author: this.users?.users.get(map.createdBy)?.bioName ?? 'Anonymous'
+    }));
+
+    return { items, total: publicMaps.length };
+  }
+
+  async findVisible(mapId: string, userId?: string) {
+    const map = this.maps.get(mapId);
+    return map && (map.isPublic || (userId && map.createdBy === userId)) ? copy(map) : null;
+  }
+
+  async findOwned(mapId: string, userId: string) {
+    const map = this.owned(mapId, userId);
+    return map ? copy(map) : null;
+  }
+
+  async update(mapId: string, userId: string, changes: Partial<MapDocument>) {
+    const map = this.owned(mapId, userId);
+    if (!map) return false;
+    this.maps.set(mapId, { ...map, ...copy(changes) });
+    return true;
+  }
+
+  async delete(mapId: string, userId: string) {
+    return this.owned(mapId, userId) ? this.maps.delete(mapId) : false;
+  }
+
+  async updateById(mapId: string, changes: Partial<MapDocument>) {
+    const map = this.maps.get(mapId);
+    if (!map) return false;
+    this.maps.set(mapId, { ...map, ...copy(changes) });
+    return true;
+  }
+
+  async deleteById(mapId: string) {
+    return this.maps.delete(mapId);
+  }
+
+  async addPOI(mapId: string, userId: string, poi: POI) {
+    const map = this.owned(mapId, userId);
+    if (!map) return false;
+    map.pois = [...(map.pois ?? []), copy(poi)];
+    map.updatedAt = poi.updatedAt;
+    return true;
+  }
+
+  async updatePOI(mapId: string, userId: string, poiId: string, changes: Partial<POI>) {
+    const map = this.owned(mapId, userId);
+    const index = map?.pois?.findIndex(poi => poi.id === poiId) ?? -1;
+    if (!map?.pois || index < 0) return null;
+
+    const now = new Date();
+    map.pois[index] = { ...map.pois[index], ...copy(changes), updatedAt: now };
+    map.updatedAt = now;
+    return copy(map.pois[index]);
+  }
+
+  async deletePOI(mapId: string, userId: string, poiId: string) {
+    const map = this.owned(mapId, userId);
+    if (!map?.pois?.some(poi => poi.id === poiId)) return false;
+
+    map.pois = map.pois.filter(poi => poi.id !== poiId);
+    map.updatedAt = new Date();
+    return true;
+  }
+
+  async addSurfaceOverride(mapId: string, userId: string, override: SurfaceOverride, audit: SurfaceOverrideAuditEntry) {
+    const map = this.owned(mapId, userId);
+    if (!map) return false;
+
+    map.surfaceOverrides = [...(map.surfaceOverrides ?? []), copy(override)];
+    map.surfaceOverrideAudit = [...(map.surfaceOverrideAudit ?? []), copy(audit)];
+    map.updatedAt = audit.changedAt;
+    return true;
+  }
+
+  async removeSurfaceOverride(mapId: string, userId: string, overrideId: string, audit: SurfaceOverrideAuditEntry) {
+    const map = this.owned(mapId, userId);
+    if (!map?.surfaceOverrides?.some(override => override.id === overrideId)) return false;
+
+    map.surfaceOverrides = map.surfaceOverrides.filter(override => override.id !== overrideId);
+    map.surfaceOverrideAudit = [...(map.surfaceOverrideAudit ?? []), copy(audit)];
+    map.updatedAt = audit.changedAt;
+    return true;
+  }
+
+  private owned(mapId: string, userId: string) {
+    const map = this.maps.get(mapId);
+    return map?.createdBy === userId ? map : undefined;
+  }
+}
+
+export class InMemoryRouteRepository implements RouteRepository {
+  readonly routes = new Map<string, RouteDocument>();
+
+  async create(route: RouteDocument) {
+    const id = newId();
+    this.routes.set(id, { ...copy(route), _id: id });
+    return id;
+  }
+
+  async findByUploader(routeId: string, uploadedBy: string) {
+    const route = this.routes.get(routeId);
+    return route?.uploadedBy === uploadedBy ? copy(route) : null;
+  }
+}
+
+export class InMemoryPhotoRepository implements PhotoRepository {
+  readonly photos = new Map<string, PhotoDocument>();
+
+  async create(photo: PhotoDocument) {
+    const id = newId();
+    this.photos.set(id, { ...copy(photo), _id: id });
+    return id;
+  }
+
+  async findNear(longitude: number, latitude: number, radius: number) {
+    return [...this.photos.values()]
+      .filter(photo =>
+        Math.abs(photo.longitude - longitude) <= radius &&
+        Math.abs(photo.latitude - latitude) <= radius
+      )
+      .map(copy);
+  }
+
+  async findRecent(limit: number) {
+    return [...this.photos.values()]
+      .sort((a, b) => b.uploadedAt.getTime() - a.uploadedAt.getTime())
+      .slice(0, limit)
+      .map(copy);
+  }
+
+  async findById(photoId: string) {
+    const photo = this.photos.get(photoId);
+    return photo ? copy(photo) : null;
+  }
+
+  async deleteById(photoId: string) {
+    return this.photos.delete(photoId);
+  }
+}
+
+/**
+ * A road network without roads, or with fixed answers set by a test.
+ */
+export class InMemorySurfaceDetector implements SurfaceDetector {
+  lineMatches: RoadMatchRow[] = [];
+  roadLines: RoadLine[] = [];
+  networkVersion: number | null = 1;
+
+  async matchLine() {
+    return copy(this.lineMatches);
+  }
+
+  async getNetworkVersion() {
+    return this.networkVersion;
+  }
+
+  // The roads set by the test, whatever the bounds
+  async findRoadsWithin(_bounds: [number, number, number, number], limit: number) {
+    return copy(this.roadLines.slice(0, limit));
+  }
+}
+
+export class InMemorySurfaceClassificationRepository implements SurfaceClassificationRepository {
+  readonly classifications = new Map<string, string>();
+
+  async list() {
+    return [...this.classifications.entries()]
+      .map(([originalSurface, standardizedSurface]) => ({ originalSurface, standardizedSurface }))
+      .sort((a, b) => a.originalSurface.localeCompare(b.originalSurface));
+  }
+
+  async upsert({ originalSurface, standardizedSurface }: SurfaceClassification) {
+    this.classifications.set(originalSurface, standardizedSurface);
+  }
+
+  async delete(originalSurface: string) {
+    return this.classifications.delete(originalSurface);
+  }
+}
+
+export class InMemorySurfaceCorrectionRepository implements SurfaceCorrectionRepository {
+  readonly corrections = new Map<string, SurfaceCorrectionDocument>();
+
+  async create(correction: SurfaceCorrectionDocument) {
+    const id = newId();
+    this.corrections.set(id, { ...copy(correction), _id: id });
+    return id;
+  }
+
+  async list(status?: SurfaceCorrectionStatus) {
+    return [...this.corrections.values()]
+      .filter(correction => !status || correction.status === status)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .map(copy);
+  }
+
+  async review(correctionId: string, status: SurfaceCorrectionStatus, reviewedBy: string, reviewedAt: Date) {
+    const correction = this.corrections.get(correctionId);
+    if (!correction) return null;
+
+    Object.assign(correction, { status, reviewedBy, reviewedAt });
+    return copy(correction);
+  }
+}
+
+export class InMemorySurfaceCacheRepository implements SurfaceCacheRepository {
+  readonly entries = new Map<string, SurfaceCacheDocument>();
+
+  async find(geometryHash: string, networkVersion: number) {
+    const entry = this.entries.get(geometryHash);
+    return entry?.networkVersion === networkVersion ? copy(entry) : null;
+  }
+
+  async save(entry: SurfaceCacheDocument) {
+    this.entries.set(entry.geometryHash, copy(entry));
+  }
+
+  async clear() {
+    this.entries.clear();
+  }
+}
+
+export const createInMemoryRepositories = () => {
+  const users = new InMemoryUserRepository();
+  return {
+    maps: new InMemoryMapRepository(users),
+    routes: new InMemoryRouteRepository(),
+    photos: new InMemoryPhotoRepository(),
+    users,
+    apiTokens: new InMemoryApiTokenRepository(),
+    roads: new InMemorySurfaceDetector(),
+    surfaceClassifications: new InMemorySurfaceClassificationRepository(),
+    surfaceCorrections: new InMemorySurfaceCorrectionRepository(),
+    surfaceCache: new InMemorySurfaceCacheRepository()
+  } satisfies Repositories;
+};
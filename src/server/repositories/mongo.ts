@@ -0,0 +1,353 @@
+import { Db, Filter, ObjectId } from 'mongodb';
+import type { POI } from '../../types/note-types';
+import type {
+  PublicMapListItem,
+  PublicMapSort,
+  SurfaceCorrectionStatus,
+  SurfaceOverride,
+  SurfaceOverrideAuditEntry
+} from '../../types/api.types';
+import type {
+  ApiTokenDocument,
+  ApiTokenRepository,
+  MapDocument,
+  MapRepository,
+  PhotoDocument,
+  PhotoRepository,
+  PublicMapPage,
+  RouteDocument,
+  RouteRepository,
+  SurfaceCacheDocument,
+  SurfaceCacheRepository,
+  SurfaceCorrectionDocument,
+  SurfaceCorrectionRepository,
+  UserDocument,
+  UserRepository
+} from './types';
+
+const PUBLIC_MAP_SORTS: Record<PublicMapSort, Record<string, 1 | -1>> = {
+  newest: { createdAt: -1 },
+  longest: { 'summary.distance': -1, createdAt: -1 },
+  gravel: { 'summary.unpavedDistance': -1, createdAt: -1 }
+};
+
+// Owned maps, plus public ones; anonymous users only see public maps
+const visibleTo = (userId?: string): Filter<MapDocument>['$or'] =>
+  userId ? [{ createdBy: userId }, { isPublic: true }] : [{ isPublic: true }];
+
+// The parts of a map document touched by the POI methods
+interface MapPOIs {
+  createdBy: string;
+  updatedAt: Date;
+  pois?: POI[];
+}
+
+// The parts of a map document touched by the surface override methods
+interface MapSurfaceOverrides {
+  createdBy: string;
+  updatedAt: Date;
+  surfaceOverrides?: SurfaceOverride[];
+  surfaceOverrideAudit?: SurfaceOverrideAuditEntry[];
+}
+
+export class MongoMapRepository implements MapRepository {
+  constructor(private db: Db) {}
+
+  private get maps() {
+    return this.db.collection<MapDocument>('maps');
+  }
+
+  private get mapPOIs() {
+    return this.db.collection<MapPOIs>('maps');
+  }
+
+  private get mapSurfaceOverrides() {
+    return this.db.collection<MapSurfaceOverrides>('maps');
+  }
+
+  async create(map: MapDocument): Promise<string> {
+    const result = await this.maps.insertOne(map);
+    return result.insertedId.toString();
+  }
+
+  findByOwner(userId: string): Promise<MapDocument[]> {
+    return this.maps.find({ createdBy: userId }).sort({ updatedAt: -1 }).toArray();
+  }
+
+  async findPublic({ sort, skip, limit }: PublicMapPage) {
+    const [items, total] = await Promise.all([
+      this.maps.aggregate<PublicMapListItem>([
+        { $match: { isPublic: true } },
+        { $sort: PUBLIC_MAP_SORTS[sort] },
+        { $skip: skip },
+        { $limit: limit },
+        { $lookup: { from: 'users', localField: 'createdBy', foreignField: 'auth0Id', as: 'author' } },
+        {
+          // Leave out route and photo data, cards only need the summary
+          $project: {
+            name: 1,
+            description: 1,
+            createdAt: 1,
+            updatedAt: 1,
+            summary: 1,
+            author: { $ifNull: [{ $arrayElemAt: ['$author.bioName', 0] }, 'Anonymous'] }
+          }
+        }
+      ]).toArray(),
+      this.maps.countDocuments({ isPublic: true })
+    ]);
+
+    return { items, total };
+  }
+
+  findVisible(mapId: string, userId?: string): Promise<MapDocument | null> {
+    return this.maps.findOne({ _id: new ObjectId(mapId), $or: visibleTo(userId) });
+  }
+
+  findOwned(mapId: string, userId: string): Promise<MapDocument | null> {
+    return this.maps.findOne({ _id: new ObjectId(mapId), createdBy: userId });
+  }
+
+  async update(mapId: string, userId: string, changes: Partial<MapDocument>): Promise<boolean> {
+    const result = await this.maps.updateOne(
+      { _id: new ObjectId(mapId), createdBy: userId },
+      { $set: changes }
+    );
+    return result.matchedCount > 0;
+  }
+
+  async delete(mapId: string, userId: string): Promise<boolean> {
+    const result = await this.maps.deleteOne({ _id: new ObjectId(mapId), createdBy: userId });
+    return result.deletedCount > 0;
+  }
+
+  async updateById(mapId: string, changes: Partial<MapDocument>): Promise<boolean> {
+    const result = await this.maps.updateOne({ _id: new ObjectId(mapId) }, { $set: changes });
+    return result.matchedCount > 0;
+  }
+
+  async deleteById(mapId: string): Promise<boolean> {
+    const result = await this.maps.deleteOne({ _id: new ObjectId(mapId) });
+    return result.deletedCount > 0;
+  }
+
+  async addPOI(mapId: string, userId: string, poi: POI): Promise<boolean> {
+    const result = await this.mapPOIs.updateOne(
+      { _id: new ObjectId(mapId), createdBy: userId },
+      {
+        $push: { pois: poi },
+        $set: { updatedAt: poi.updatedAt }
+      }
+    );
+    return result.matchedCount > 0;
+  }
+
+  async updatePOI(mapId: string, userId: string, poiId: string, changes: Partial<POI>): Promise<POI | null> {
+    const now = new Date();
+    const fields: Record<string, unknown> = { 'pois.$.updatedAt': now, updatedAt: now };
+    Object.entries(changes).forEach(([field, value]) => {
+      fields[`pois.$.${field}`] = value;
+    });
+
+    const map = await this.mapPOIs.findOneAndUpdate(
+      { _id: new ObjectId(mapId), createdBy: userId, 'pois.id': poiId },
+      { $set: fields },
+      { returnDocument: 'after', projection: { pois: 1 } }
+    );
+    return map?.pois?.find(poi => poi.id === poiId) ?? null;
+  }
+
+  async deletePOI(mapId: string, userId: string, poiId: string): Promise<boolean> {
+    const result = await this.mapPOIs.updateOne(
+      { _id: new ObjectId(mapId), createdBy: userId, 'pois.id': poiId },
+      {
+        $pull: { pois: { id: poiId } },
+        $set: { updatedAt: new Date() }
+      }
+    );
+    return result.matchedCount > 0;
+  }
+
+  async addSurfaceOverride(
+    mapId: string,
+    userId: string,
+    override: SurfaceOverride,
+    audit: SurfaceOverrideAuditEntry
+  ): Promise<boolean> {
+    const result = await this.mapSurfaceOverrides.updateOne(
+      { _id: new ObjectId(mapId), createdBy: userId },
+      {
+        $push: { surfaceOverrides: override, surfaceOverrideAudit: audit },
+        $set: { updatedAt: audit.changedAt }
+      }
+    );
+    return result.matchedCount > 0;
+  }
+
+  async removeSurfaceOverride(
+    mapId: string,
+    userId: string,
+    overrideId: string,
+    audit: SurfaceOverrideAuditEntry
+  ): Promise<boolean> {
+    const result = await this.mapSurfaceOverrides.updateOne(
+      { _id: new ObjectId(mapId), createdBy: userId, 'surfaceOverrides.id': overrideId },
+      {
+        $pull: { surfaceOverrides: { id: overrideId } },
+        $push: { surfaceOverrideAudit: audit },
+        $set: { updatedAt: audit.changedAt }
+      }
+    );
+    return result.matchedCount > 0;
+  }
+}
+
+export class MongoRouteRepository implements RouteRepository {
+  constructor(private db: Db) {}
+
+  async create(route: RouteDocument): Promise<string> {
+    const result = await this.db.collection<RouteDocument>('routes').insertOne(route);
+    return result.insertedId.toString();
+  }
+
+  findByUploader(routeId: string, uploadedBy: string): Promise<RouteDocument | null> {
+    return this.db.collection<RouteDocument>('routes').findOne({ _id: new ObjectId(routeId), uploadedBy });
+  }
+}
+
+export class MongoPhotoRepository implements PhotoRepository {
+  constructor(private db: Db) {}
+
+  private get photos() {
+    return this.db.collection<PhotoDocument>('photos');
+  }
+
+  async create(photo: PhotoDocument): Promise<string> {
+    const result = await this.photos.insertOne(photo);
+    return result.insertedId.toString();
+  }
+
+  findNear(longitude: number, latitude: number, radius: number): Promise<PhotoDocument[]> {
+    return this.photos.find({
+      longitude: { $gte: longitude - radius, $lte: longitude + radius },
+      latitude: { $gte: latitude - radius, $lte: latitude + radius }
+    }).toArray();
+  }
+
+  findRecent(limit: number): Promise<PhotoDocument[]> {
+    return this.photos.find().sort({ uploadedAt: -1 }).limit(limit).toArray();
+  }
+
+  findById(photoId: string): Promise<PhotoDocument | null> {
+    return this.photos.findOne({ _id: new ObjectId(photoId) });
+  }
+
+  async deleteById(photoId: string): Promise<boolean> {
+    const result = await this.photos.deleteOne({ _id: new ObjectId(photoId) });
+    return result.deletedCount > 0;
+  }
+}
+
+export class MongoUserRepository implements UserRepository {
+  constructor(private db: Db) {}
+
+  findByAuth0Id(auth0Id: string): Promise<UserDocument | null> {
+    return this.db.collection<UserDocument>('users').findOne({ auth0Id });
+  }
+
+  async create(user: UserDocument): Promise<void> {
+    await this.db.collection<UserDocument>('users').insertOne(user);
+  }
+
+  async update(auth0Id: string, changes: Partial<UserDocument>): Promise<boolean> {
+    const result = await this.db.collection<UserDocument>('users').updateOne({ auth0Id }, { $set: changes });
+    return result.matchedCount > 0;
+  }
+
+  list(): Promise<UserDocument[]> {
+    return this.db.collection<UserDocument>('users').find().sort({ createdAt: 1 }).toArray();
+  }
+}
+
+export class MongoApiTokenRepository implements ApiTokenRepository {
+  constructor(private db: Db) {}
+
+  private get tokens() {
+    return this.db.collection<ApiTokenDocument>('apiTokens');
+  }
+
+  async create(token: ApiTokenDocument): Promise<string> {
+    const result = await this.tokens.insertOne(token);
+    return result.insertedId.toString();
+  }
+
+  findActiveByHash(tokenHash: string): Promise<ApiTokenDocument | null> {
+    return this.tokens.findOne({ tokenHash, revokedAt: null });
+  }
+
+  findActiveByUser(userId: string): Promise<ApiTokenDocument[]> {
+    return this.tokens.find({ userId, revokedAt: null }).sort({ createdAt: -1 }).toArray();
+  }
+
+  async revoke(tokenId: string, userId: string, revokedAt: Date): Promise<boolean> {
+    const result = await this.tokens.updateOne(
+      { _id: new ObjectId(tokenId), userId, revokedAt: null },
+      { $set: { revokedAt } }
+    );
+    return result.matchedCount > 0;
+  }
+
+  async setLastUsed(tokenId: string, lastUsedAt: Date): Promise<void> {
+    await this.tokens.updateOne({ _id: new ObjectId(tokenId) }, { $set: { lastUsedAt } });
+  }
+}
+
+export class MongoSurfaceCorrectionRepository implements SurfaceCorrectionRepository {
+  constructor(private db: Db) {}
+
+  private get corrections() {
+    return this.db.collection<SurfaceCorrectionDocument>('surfaceCorrections');
+  }
+
+  async create(correction: SurfaceCorrectionDocument): Promise<string> {
+    const result = await this.corrections.insertOne(correction);
+    return result.insertedId.toString();
+  }
+
+  list(status?: SurfaceCorrectionStatus): Promise<SurfaceCorrectionDocument[]> {
+    return this.corrections.find(status ? { status } : {}).sort({ createdAt: -1 }).toArray();
+  }
+
+  review(
+    correctionId: string,
+    status: SurfaceCorrectionStatus,
+    reviewedBy: string,
+    reviewedAt: Date
+  ): Promise<SurfaceCorrectionDocument | null> {
+    return this.corrections.findOneAndUpdate(
+      { _id: new ObjectId(correctionId) },
+      { $set: { status, reviewedBy, reviewedAt } },
+      { returnDocument: 'after' }
+    );
+  }
+}
+
+export class MongoSurfaceCacheRepository implements SurfaceCacheRepository {
+  constructor(private db: Db) {}
+
+  private get entries() {
+    return this.db.collection<SurfaceCacheDocument>('surfaceCache');
+  }
+
+  find(geometryHash: string, networkVersion: number): Promise<SurfaceCacheDocument | null> {
+    return this.entries.findOne({ geometryHash, networkVersion }, { projection: { _id: 0 } });
+  }
+
+  async save(entry: SurfaceCacheDocument): Promise<void> {
+    await this.entries.replaceOne({ geometryHash: entry.geometryHash }, entry, { upsert: true });
+  }
+
+  async clear(): Promise<void> {
+    await this.entries.deleteMany({});
+  }
+}
@@ -0,0 +1,129 @@
+import type { Pool } from 'pg';
+import type { SurfaceClassification } from '../../types/api.types';
+import type { RoadLine } from '../../utils/gpx/routing';
+import type { RoadMatchRow } from '../../utils/gpx/surface';
+import type { SurfaceClassificationRepository, SurfaceDetector } from './types';
+
+// Postgres error code for a table that does not exist
+const UNDEFINED_TABLE = '42P01';
+
+// A little under the shortest degree of latitude, so a box of the tolerance in degrees covers it everywhere
+const MIN_METERS_PER_DEGREE = 110000;
+
+export class PostgisSurfaceDetector implements SurfaceDetector {
+  constructor(private pool: Pool) {}
+
+  async matchLine(coordinates: [number, number][], toleranceMeters: number): Promise<RoadMatchRow[]> {
+    // Points go over as two arrays rather than one GeoJSON line so each keeps its position.
+    // Each point finds the roads whose boxes are within the tolerance through the GiST index on
+    // rn.geometry, then takes the nearest of them by geography distance; casting the indexed column
+    // would skip the index and scan every road. The distance along the line is summed point to point.
+    const result = await this.pool.query<RoadMatchRow>(`
+      WITH points AS (
+        SELECT p.idx, ST_SetSRID(ST_MakePoint(p.lon, p.lat), 4326) as geom
+        FROM unnest($1::float8[], $2::float8[]) WITH ORDINALITY AS p(lon, lat, idx)
+      ),
+      steps AS (
+        SELECT
+          idx,
+          geom,
+          $3::float8 / ($4::float8 * GREATEST(cos(radians(ST_Y(geom))), 0.01)) as search_degrees,
+          COALESCE(ST_Distance((LAG(geom) OVER (ORDER BY idx))::geography, geom::geography), 0) as step
+        FROM points
+      )
+      SELECT
+        SUM(s.step) OVER (ORDER BY s.idx) as distance,
+        road.surface,
+        road.highway,
+        road.match_distance
+      FROM steps s
+      LEFT JOIN LATERAL (
+        SELECT surface, highway, match_distance
+        FROM (
+          SELECT
+            COALESCE(sc.standardized_surface, rn.surface) as surface,
+            rn.highway,
+            ST_Distance(rn.geometry::geography, s.geom::geography) as match_distance
+          FROM road_network rn
+          LEFT JOIN surface_classifications sc ON rn.surface = sc.original_surface
+          WHERE rn.geometry && ST_Expand(s.geom, s.search_degrees)
+        ) candidates
+        WHERE match_distance <= $3::float8
+        ORDER BY match_distance
+        LIMIT 1
+      ) road ON true
+      ORDER BY s.idx
+    `, [coordinates.map(([lon]) => lon), coordinates.map(([, lat]) => lat), toleranceMeters, MIN_METERS_PER_DEGREE]);
+
+    return result.rows;
+  }
+
+  async findRoadsWithin([west, south, east, north]: [number, number, number, number], limit: number): Promise<RoadLine[]> {
+    const result = await this.pool.query<{ surface: string | null; highway: string | null; geometry: string }>(`
+      SELECT
+        COALESCE(sc.standardized_surface, rn.surface) as surface,
+        rn.highway,
+        ST_AsGeoJSON(rn.geometry) as geometry
+      FROM road_network rn
+      LEFT JOIN surface_classifications sc ON rn.surface = sc.original_surface
+      WHERE rn.geometry && ST_MakeEnvelope($1, $2, $3, $4, 4326)
+      LIMIT $5
+    `, [west, south, east, north, limit]);
+
+    // Multi-line roads become one road line per part, still no more than the limit
+    return result.rows.flatMap(({ surface, highway, geometry }) => {
+      const { type, coordinates } = JSON.parse(geometry);
+      const lines: number[][][] = type === 'LineString' ? [coordinates] : type === 'MultiLineString' ? coordinates : [];
+      return lines.map(line => ({
+        surface,
+        highway,
+        coordinates: line.map(([lon, lat]) => [lon, lat] as [number, number])
+      }));
+    }).slice(0, limit);
+  }
+
+  // Kept by the triggers in road-network-version.sql, which count every change to either table.
+  // A database that road-network-version.sql has not been run on has no version, rather than failing uploads
+  async getNetworkVersion(): Promise<number | null> {
+    try {
+      const result = await this.pool.query<{ version: string }>('SELECT version FROM road_network_version');
+      return Number(result.rows[0]?.version ?? 0);
+    } catch (error) {
+      if ((error as { code?: string }).code === UNDEFINED_TABLE) {
+        console.warn('road_network_version table not found, detected surfaces will not be cached');
+        return null;
+      }
+      throw error;
+    }
+  }
+}
+
+export class PostgresSurfaceClassificationRepository implements SurfaceClassificationRepository {
+  constructor(private pool: Pool) {}
+
+  async list(): Promise<SurfaceClassification[]> {
+    const result = await this.pool.query<SurfaceClassification>(`
+      SELECT original_surface as "originalSurface", standardized_surface as "standardizedSurface"
+      FROM surface_classifications
+      ORDER BY original_surface
+    `);
+
+    return result.rows;
+  }
+
+  async upsert({ originalSurface, standardizedSurface }: SurfaceClassification): Promise<void> {
+    await this.pool.query(`
+      INSERT INTO surface_classifications (original_surface, standardized_surface)
+      VALUES ($1, $2)
+      ON CONFLICT (original_surface) DO UPDATE SET standardized_surface = EXCLUDED.standardized_surface
+    `, [originalSurface, standardizedSurface]);
+  }
+
+  async delete(originalSurface: string): Promise<boolean> {
+    const result = await this.pool.query(
+      'DELETE FROM surface_classifications WHERE original_surface = $1',
+      [originalSurface]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+}
@@ -0,0 +1,27 @@
+-- Version of the road network, read by PostgisSurfaceDetector.getNetworkVersion.
+-- Every statement that changes road_network or surface_classifications bumps it, so surface
+-- results cached against an earlier version are detected again. Run once against the
+-- road network database, and again after a re-import that drops and recreates road_network:
+--   psql -h $PG_HOST -U $PG_USER -d $PG_DATABASE -f src/server/repositories/road-network-version.sql
+
+CREATE TABLE IF NOT EXISTS road_network_version (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  version bigint NOT NULL DEFAULT 1
+);
+
+INSERT INTO road_network_version DEFAULT VALUES ON CONFLICT DO NOTHING;
+
+CREATE OR REPLACE FUNCTION bump_road_network_version() RETURNS trigger AS $$
+BEGIN
+  UPDATE road_network_version SET version = version + 1;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE TRIGGER road_network_changed
+  AFTER INSERT OR UPDATE OR DELETE OR TRUNCATE ON road_network
+  FOR EACH STATEMENT EXECUTE FUNCTION bump_road_network_version();
+
+CREATE OR REPLACE TRIGGER surface_classifications_changed
+  AFTER INSERT OR UPDATE OR DELETE OR TRUNCATE ON surface_classifications
+  FOR EACH STATEMENT EXECUTE FUNCTION bump_road_network_version();
@@ -0,0 +1,180 @@
+import type { ObjectId } from 'mongodb';
+import type { ProcessedRoute, RouteStage } from '../../types/gpx-types';
+import type { MapSummary } from '../../types/map-types';
+import type { POI } from '../../types/note-types';
+import type {
+  MapCreateRequest,
+  PublicMapListItem,
+  PublicMapSort,
+  SurfaceClassification,
+  SurfaceCorrection,
+  SurfaceCorrectionStatus,
+  SurfaceOverride,
+  SurfaceOverrideAuditEntry
+} from '../../types/api.types';
+import type { DBApiToken, DBUser } from '../../types/database.types';
+import type { Photo } from '../../types/server';
+import type { RoadLine } from '../../utils/gpx/routing';
+import type { RoadMatchRow } from '../../utils/gpx/surface';
+
+// A saved map as stored, with the fields only the server sets
+export interface MapDocument extends MapCreateRequest {
+  _id?: ObjectId | string;
+  pois?: POI[];
+  summary?: MapSummary;
+  stages?: RouteStage[];
+  surfaceOverrides?: SurfaceOverride[];
+  surfaceOverrideAudit?: SurfaceOverrideAuditEntry[];
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// A processed route saved by the upload endpoints
+export interface RouteDocument extends ProcessedRoute {
+  _id?: ObjectId | string;
+  uploadedBy: string;
+  uploadedAt: Date;
+}
+
+export type PhotoDocument = Photo & { _id?: ObjectId | string };
+
+export type UserDocument = DBUser;
+
+export type ApiTokenDocument = Omit<DBApiToken, '_id'> & { _id?: ObjectId | string };
+
+export type SurfaceCorrectionDocument = Omit<SurfaceCorrection, 'id'> & { _id?: ObjectId | string };
+
+// The surfaces and elevation profile detected for a route geometry against one version of the road network
+export interface SurfaceCacheDocument extends Pick<ProcessedRoute, 'segments' | 'geojson' | 'elevationProfile'> {
+  geometryHash: string;
+  networkVersion: number;
+  cachedAt: Date;
+}
+
+export interface PublicMapPage {
+  sort: PublicMapSort;
+  skip: number;
+  limit: number;
+}
+
+export interface MapRepository {
+  create(map: MapDocument): Promise<string>;
+  findByOwner(userId: string): Promise<MapDocument[]>;
+  // Public maps for the gallery, newest/longest/most gravel first, with the author's display name
+  findPublic(page: PublicMapPage): Promise<{ items: PublicMapListItem[]; total: number }>;
+  // A map the user owns, or any public map; anonymous users only see public maps
+  findVisible(mapId: string, userId?: string): Promise<MapDocument | null>;
+  findOwned(mapId: string, userId: string): Promise<MapDocument | null>;
+  // Each returns false when the map does not exist or belongs to someone else
+  update(mapId: string, userId: string, changes: Partial<MapDocument>): Promise<boolean>;
+  delete(mapId: string, userId: string): Promise<boolean>;
+  // Moderation changes any map regardless of its owner
+  updateById(mapId: string, changes: Partial<MapDocument>): Promise<boolean>;
+  deleteById(mapId: string): Promise<boolean>;
+  addPOI(mapId: string, userId: string, poi: POI): Promise<boolean>;
+  updatePOI(mapId: string, userId: string, poiId: string, changes: Partial<POI>): Promise<POI | null>;
+  deletePOI(mapId: string, userId: string, poiId: string): Promise<boolean>;
+  // Both also append the audit entry, in the same write
+  addSurfaceOverride(
+    mapId: string,
+    userId: string,
+    override: SurfaceOverride,
+    audit: SurfaceOverrideAuditEntry
+  ): Promise<boolean>;
+  removeSurfaceOverride(
+    mapId: string,
+    userId: string,
+    overrideId: string,
+    audit: SurfaceOverrideAuditEntry
+  ): Promise<boolean>;
+}
+
+export interface RouteRepository {
+  create(route: RouteDocument): Promise<string>;
+  findByUploader(routeId: string, uploadedBy: string): Promise<RouteDocument | null>;
+}
+
+export interface PhotoRepository {
+  create(photo: PhotoDocument): Promise<string>;
+  // Photos within a square of +/- radius degrees around a point
+  findNear(longitude: number, latitude: number, radius: number): Promise<PhotoDocument[]>;
+  // Newest uploads first
+  findRecent(limit: number): Promise<PhotoDocument[]>;
+  findById(photoId: string): Promise<PhotoDocument | null>;
+  deleteById(photoId: string): Promise<boolean>;
+}
+
+export interface UserRepository {
+  findByAuth0Id(auth0Id: string): Promise<UserDocument | null>;
+  create(user: UserDocument): Promise<void>;
+  update(auth0Id: string, changes: Partial<UserDocument>): Promise<boolean>;
+  // Oldest profiles first
+  list(): Promise<UserDocument[]>;
+}
+
+// Snaps route lines to the road network and loads its roads for routing; PostGIS once deployed, or a local road extract for offline
+// development and tests. Surfaces are raw OSM tags, or standardized ones where a classification exists
+export interface SurfaceDetector {
+  // Every point of a line snapped to the nearest road within the tolerance, in one pass
+  matchLine(coordinates: [number, number][], toleranceMeters: number): Promise<RoadMatchRow[]>;
+  // Changes whenever the roads or their surface classifications do, so results detected earlier can be told apart;
+  // null when the network is not versioned, e.g. before its migration has run, so nothing can be cached
+  getNetworkVersion(): Promise<number | null>;
+  // Up to limit roads with any part inside [west, south, east, north], to route over
+  findRoadsWithin(bounds: [number, number, number, number], limit: number): Promise<RoadLine[]>;
+}
+
+// Revoked tokens are kept, but are never found by the lookups
+export interface ApiTokenRepository {
+  create(token: ApiTokenDocument): Promise<string>;
+  findActiveByHash(tokenHash: string): Promise<ApiTokenDocument | null>;
+  // Newest first
+  findActiveByUser(userId: string): Promise<ApiTokenDocument[]>;
+  // Returns false when the token does not exist, belongs to someone else or is already revoked
+  revoke(tokenId: string, userId: string, revokedAt: Date): Promise<boolean>;
+  setLastUsed(tokenId: string, lastUsedAt: Date): Promise<void>;
+}
+
+// The surface_classifications table, which maps raw OSM surfaces onto standardized ones
+export interface SurfaceClassificationRepository {
+  list(): Promise<SurfaceClassification[]>;
+  upsert(classification: SurfaceClassification): Promise<void>;
+  // Returns false when the surface has no classification
+  delete(originalSurface: string): Promise<boolean>;
+}
+
+// Surface corrections suggested from map overrides, waiting for an editor to review them
+export interface SurfaceCorrectionRepository {
+  create(correction: SurfaceCorrectionDocument): Promise<string>;
+  // Newest first
+  list(status?: SurfaceCorrectionStatus): Promise<SurfaceCorrectionDocument[]>;
+  // Returns null when the correction does not exist
+  review(
+    correctionId: string,
+    status: SurfaceCorrectionStatus,
+    reviewedBy: string,
+    reviewedAt: Date
+  ): Promise<SurfaceCorrectionDocument | null>;
+}
+
+// Detected surfaces kept between uploads of the same route; one entry per geometry, whatever its version
+export interface SurfaceCacheRepository {
+  // Returns null when the geometry was last cached against another version, or never
+  find(geometryHash: string, networkVersion: number): Promise<SurfaceCacheDocument | null>;
+  // Replaces the entry of the geometry
+  save(entry: SurfaceCacheDocument): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface Repositories {
+  maps: MapRepository;
+  routes: RouteRepository;
+  photos: PhotoRepository;
+  users: UserRepository;
+  apiTokens: ApiTokenRepository;
+  roads: SurfaceDetector;
+  surfaceClassifications: SurfaceClassificationRepository;
+  surfaceCorrections: SurfaceCorrectionRepository;
+  surfaceCache: SurfaceCacheRepository;
+}
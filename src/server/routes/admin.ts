@@ -0,0 +1,219 @@
+import { RequestHandler, Router } from 'express';
+import { getUserId, RequireRole } from '../middlewares/auth';
+import { requireObjectId, validateBody } from '../middlewares/validation';
+import { AdminService } from '../services/admin-service';
+import { handleBadRequest, handleNotFound, handleServerError } from '../../utils/error-handling';
+import {
+  surfaceClassificationSchema,
+  surfaceCorrectionReviewSchema,
+  userRoleUpdateSchema
+} from '../../validation/api-schemas';
+import type {
+  SurfaceClassification,
+  SurfaceCorrectionReviewRequest,
+  SurfaceCorrectionStatus,
+  UserRoleUpdateRequest
+} from '../../types/api.types';
+
+const requireMapId = requireObjectId('id', 'map');
+const requirePhotoId = requireObjectId('id', 'photo');
+const requireCorrectionId = requireObjectId('id', 'surface correction');
+
+const SURFACE_CORRECTION_STATUSES: SurfaceCorrectionStatus[] = ['open', 'accepted', 'dismissed'];
+
+/**
+ * Moderation and site settings, mounted at /api/admin. Surface classifications
+ * and corrections can be managed by editors, everything else needs an admin.
+ */
+export const createAdminRouter = (admin: AdminService, requireRole: RequireRole): Router => {
+  const router = Router();
+
+  const getUsers: RequestHandler = async (_req, res) => {
+    try {
+      res.json(await admin.listUsers());
+    } catch (error) {
+      console.error('Error fetching users:', error);
+      handleServerError(error, res, 'Failed to fetch users');
+    }
+  };
+
+  // Promote or demote a user
+  const updateUserRole: RequestHandler = async (req, res) => {
+    try {
+      // Keeps the last admin from locking everyone out by accident
+      if (req.params.auth0Id === getUserId(req)) {
+        handleBadRequest('You cannot change your own role', res);
+        return;
+      }
+
+      const { role } = req.body as UserRoleUpdateRequest;
+      console.log(`Setting role of ${req.params.auth0Id} to ${role}`);
+      if (!await admin.setRole(req.params.auth0Id, role)) {
+        handleNotFound('User not found', res);
+        return;
+      }
+
+      res.json({ message: 'Role updated successfully' });
+    } catch (error) {
+      console.error('Error updating role:', error);
+      handleServerError(error, res, 'Failed to update role');
+    }
+  };
+
+  // Take a map out of the public gallery
+  const unpublishMap: RequestHandler = async (req, res) => {
+    try {
+      console.log('Unpublishing map:', req.params.id);
+      if (!await admin.unpublishMap(req.params.id)) {
+        handleNotFound('Map not found', res);
+        return;
+      }
+
+      res.json({ message: 'Map unpublished successfully' });
+    } catch (error) {
+      console.error('Error unpublishing map:', error);
+      handleServerError(error, res, 'Failed to unpublish map');
+    }
+  };
+
+  const deleteMap: RequestHandler = async (req, res) => {
+    try {
+      console.log('Removing map:', req.params.id);
+      if (!await admin.deleteMap(req.params.id)) {
+        handleNotFound('Map not found', res);
+        return;
+      }
+
+      res.json({ message: 'Map deleted successfully' });
+    } catch (error) {
+      console.error('Error removing map:', error);
+      handleServerError(error, res, 'Failed to delete map');
+    }
+  };
+
+  // Most recent uploads, for review
+  const getPhotos: RequestHandler = async (req, res) => {
+    try {
+      const limit = parseInt(String(req.query.limit ?? '50'), 10);
+      if (!Number.isInteger(limit) || limit < 1 || limit > 200) {
+        handleBadRequest('limit must be between 1 and 200', res);
+        return;
+      }
+
+      res.json(await admin.listPhotos(limit));
+    } catch (error) {
+      console.error('Error fetching photos:', error);
+      handleServerError(error, res, 'Failed to fetch photos');
+    }
+  };
+
+  const deletePhoto: RequestHandler = async (req, res) => {
+    try {
+      console.log('Removing photo:', req.params.id);
+      if (!await admin.deletePhoto(req.params.id)) {
+        handleNotFound('Photo not found', res);
+        return;
+      }
+
+      res.json({ message: 'Photo deleted successfully' });
+    } catch (error) {
+      console.error('Error removing photo:', error);
+      handleServerError(error, res, 'Failed to delete photo');
+    }
+  };
+
+  const getSurfaceClassifications: RequestHandler = async (_req, res) => {
+    try {
+      res.json(await admin.listSurfaceClassifications());
+    } catch (error) {
+      console.error('Error fetching surface classifications:', error);
+      handleServerError(error, res, 'Failed to fetch surface classifications');
+    }
+  };
+
+  // Add a classification, or change the standardized surface of an existing one
+  const saveSurfaceClassification: RequestHandler = async (req, res) => {
+    try {
+      const classification = req.body as SurfaceClassification;
+      console.log('Saving surface classification:', classification);
+      await admin.saveSurfaceClassification(classification);
+      res.json(classification);
+    } catch (error) {
+      console.error('Error saving surface classification:', error);
+      handleServerError(error, res, 'Failed to save surface classification');
+    }
+  };
+
+  const deleteSurfaceClassification: RequestHandler = async (req, res) => {
+    try {
+      console.log('Deleting surface classification:', req.params.surface);
+      if (!await admin.deleteSurfaceClassification(req.params.surface)) {
+        handleNotFound('Surface classification not found', res);
+        return;
+      }
+
+      res.json({ message: 'Surface classification deleted successfully' });
+    } catch (error) {
+      console.error('Error deleting surface classification:', error);
+      handleServerError(error, res, 'Failed to delete surface classification');
+    }
+  };
+
+  // Suggested corrections, newest first, optionally only those with a status
+  const getSurfaceCorrections: RequestHandler = async (req, res) => {
+    try {
+      const status = req.query.status as string | undefined;
+      if (status !== undefined && !SURFACE_CORRECTION_STATUSES.includes(status as SurfaceCorrectionStatus)) {
+        handleBadRequest(`status must be one of: ${SURFACE_CORRECTION_STATUSES.join(', ')}`, res);
+        return;
+      }
+
+      res.json(await admin.listSurfaceCorrections(status as SurfaceCorrectionStatus | undefined));
+    } catch (error) {
+      console.error('Error fetching surface corrections:', error);
+      handleServerError(error, res, 'Failed to fetch surface corrections');
+    }
+  };
+
+  const reviewSurfaceCorrection: RequestHandler = async (req, res) => {
+    try {
+      const { status } = req.body as SurfaceCorrectionReviewRequest;
+      console.log(`Marking surface correction ${req.params.id} as ${status}`);
+      const correction = await admin.reviewSurfaceCorrection(req.params.id, status, getUserId(req));
+      if (!correction) {
+        handleNotFound('Surface correction not found', res);
+        return;
+      }
+
+      res.json(correction);
+    } catch (error) {
+      console.error('Error reviewing surface correction:', error);
+      handleServerError(error, res, 'Failed to review surface correction');
+    }
+  };
+
+  router.get('/users', requireRole('admin'), getUsers);
+  router.put('/users/:auth0Id/role', requireRole('admin'), validateBody(userRoleUpdateSchema), updateUserRole);
+  router.post('/maps/:id/unpublish', requireRole('admin'), requireMapId, unpublishMap);
+  router.delete('/maps/:id', requireRole('admin'), requireMapId, deleteMap);
+  router.get('/photos', requireRole('admin'), getPhotos);
+  router.delete('/photos/:id', requireRole('admin'), requirePhotoId, deletePhoto);
+  router.get('/surface-classifications', requireRole('editor'), getSurfaceClassifications);
+  router.put(
+    '/surface-classifications',
+    requireRole('editor'),
+    validateBody(surfaceClassificationSchema),
+    saveSurfaceClassification
+  );
+  router.delete('/surface-classifications/:surface', requireRole('editor'), deleteSurfaceClassification);
+  router.get('/surface-corrections', requireRole('editor'), getSurfaceCorrections);
+  router.put(
+    '/surface-corrections/:id',
+    requireRole('editor'),
+    requireCorrectionId,
+    validateBody(surfaceCorrectionReviewSchema),
+    reviewSurfaceCorrection
+  );
+
+  return router;
+};
@@ -0,0 +1,62 @@
+import { RequestHandler, Router } from 'express';
+import { getUserId, requireAuth } from '../middlewares/auth';
+import { requireObjectId, validateBody } from '../middlewares/validation';
+import { ApiTokenService } from '../services/api-token-service';
+import { handleBadRequest, handleNotFound, handleServerError } from '../../utils/error-handling';
+import { apiTokenCreateSchema } from '../../validation/api-schemas';
+import type { ApiTokenCreateRequest } from '../../types/api.types';
+
+/**
+ * Routes for the signed in user's API tokens, mounted at /api/tokens.
+ * Tokens can only be managed from a browser session, not with another token.
+ */
+export const createApiTokensRouter = (tokens: ApiTokenService): Router => {
+  const router = Router();
+
+  const getTokens: RequestHandler = async (req, res) => {
+    try {
+      res.json(await tokens.list(getUserId(req)));
+    } catch (error) {
+      console.error('Error fetching API tokens:', error);
+      handleServerError(error, res, 'Failed to fetch API tokens');
+    }
+  };
+
+  // Create a token; its value is only in this response
+  const createToken: RequestHandler = async (req, res) => {
+    try {
+      console.log('Creating API token for user:', getUserId(req));
+      const token = await tokens.create(getUserId(req), req.body as ApiTokenCreateRequest);
+      if (!token) {
+        handleBadRequest('Token limit reached, revoke a token before creating another', res);
+        return;
+      }
+
+      res.status(201).json(token);
+    } catch (error) {
+      console.error('Error creating API token:', error);
+      handleServerError(error, res, 'Failed to create API token');
+    }
+  };
+
+  const revokeToken: RequestHandler = async (req, res) => {
+    try {
+      console.log('Revoking API token:', req.params.id);
+      if (!await tokens.revoke(getUserId(req), req.params.id)) {
+        handleNotFound('API token not found', res);
+        return;
+      }
+
+      res.json({ message: 'API token revoked successfully' });
+    } catch (error) {
+      console.error('Error revoking API token:', error);
+      handleServerError(error, res, 'Failed to revoke API token');
+    }
+  };
+
+  router.get('/', requireAuth, getTokens);
+  router.post('/', requireAuth, validateBody(apiTokenCreateSchema), createToken);
+  router.delete('/:id', requireAuth, requireObjectId('id', 'token'), revokeToken);
+
+  return router;
+};
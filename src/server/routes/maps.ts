@@ -0,0 +1,421 @@
+import { RequestHandler, Router } from 'express';
+import { getOptionalUserId, getUserId, requireAuthOrToken } from '../middlewares/auth';
+import { requireObjectId, validateBody } from '../middlewares/validation';
+import { MapService } from '../services/map-service';
+import { SurfaceOverrideService } from '../services/surface-override-service';
+import { StageService } from '../services/stage-service';
+import { handleBadRequest, handleNotFound, handleServerError } from '../../utils/error-handling';
+import { mapSchema, poiSchema, stagePlanSchema, surfaceOverrideSchema } from '../../validation/api-schemas';
+import type { PublicMapSort, SurfaceOverrideRequest } from '../../types/api.types';
+
+const PUBLIC_MAP_SORTS: PublicMapSort[] = ['newest', 'longest', 'gravel'];
+
+const requireMapId = requireObjectId('id', 'map');
+
+// Widest corridor either side of the route searched for water and food, in meters
+const MAX_RESUPPLY_CORRIDOR = 10000;
+
+// Reads an optional query parameter in meters; NaN marks a value that is not a number
+const parseMeters = (value: unknown): number | undefined =>
+  value === undefined ? undefined : Number(value);
+
+/**
+ * Routes for saved maps, their POIs, surface overrides, stages and resupply gaps, mounted at /api/maps.
+ */
+export const createMapsRouter = (
+  maps: MapService,
+  surfaceOverrides: SurfaceOverrideService,
+  stages: StageService
+): Router => {
+  const router = Router();
+
+  // Create new map
+  const createMap: RequestHandler = async (req, res) => {
+    try {
+      console.log('Creating new map for user:', getUserId(req));
+      const { mapId, map } = await maps.create(getUserId(req), req.body);
+
+      console.log('Map created:', mapId);
+      res.json({
+        success: true,
+        mapId,
+        map
+      });
+    } catch (error) {
+      console.error('Error creating map:', error);
+      handleServerError(error, res, 'Failed to create map');
+    }
+  };
+
+  // Get all maps for user
+  const getMaps: RequestHandler = async (req, res) => {
+    try {
+      const userMaps = await maps.list(getUserId(req));
+      console.log(`Found ${userMaps.length} maps`);
+      res.json(userMaps);
+    } catch (error) {
+      console.error('Error fetching maps:', error);
+      handleServerError(error, res, 'Failed to fetch maps');
+    }
+  };
+
+  // List public maps for the Explore page, one page at a time
+  const getPublicMaps: RequestHandler = async (req, res) => {
+    try {
+      const { page = '1', limit = '12', sort = 'newest' } = req.query as {
+        page?: string;
+        limit?: string;
+        sort?: string;
+      };
+      const pageNumber = parseInt(page, 10);
+      const pageSize = parseInt(limit, 10);
+
+      if (!Number.isInteger(pageNumber) || pageNumber < 1) {
+        handleBadRequest('page must be a positive integer', res);
+        return;
+      }
+      if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > 50) {
+        handleBadRequest('limit must be between 1 and 50', res);
+        return;
+      }
+      if (!PUBLIC_MAP_SORTS.includes(sort as PublicMapSort)) {
+        handleBadRequest(`sort must be one of: ${PUBLIC_MAP_SORTS.join(', ')}`, res);
+        return;
+      }
+
+      res.json(await maps.listPublic({ page: pageNumber, limit: pageSize, sort: sort as PublicMapSort }));
+    } catch (error) {
+      console.error('Error fetching public maps:', error);
+      handleServerError(error, res, 'Failed to fetch public maps');
+    }
+  };
+
+  // Get a single map, owned by the user or public; public maps can be viewed without logging in
+  const getMap: RequestHandler = async (req, res) => {
+    try {
+      const map = await maps.getVisible(req.params.id, getOptionalUserId(req, 'maps:read'));
+      if (!map) {
+        handleNotFound('Map not found', res);
+        return;
+      }
+
+      res.json(map);
+    } catch (error) {
+      console.error('Error fetching map:', error);
+      handleServerError(error, res, 'Failed to fetch map');
+    }
+  };
+
+  // Update specific map
+  const updateMap: RequestHandler = async (req, res) => {
+    try {
+      console.log('Updating map:', req.params.id);
+      if (!await maps.update(req.params.id, getUserId(req), req.body)) {
+        handleNotFound('Map not found or unauthorized', res);
+        return;
+      }
+
+      res.json({ message: 'Map updated successfully' });
+    } catch (error) {
+      console.error('Error updating map:', error);
+      handleServerError(error, res, 'Failed to update map');
+    }
+  };
+
+  // Delete map
+  const deleteMap: RequestHandler = async (req, res) => {
+    try {
+      console.log('Deleting map:', req.params.id);
+      if (!await maps.delete(req.params.id, getUserId(req))) {
+        handleNotFound('Map not found or unauthorized', res);
+        return;
+      }
+
+      res.json({ message: 'Map deleted successfully' });
+    } catch (error) {
+      console.error('Error deleting map:', error);
+      handleServerError(error, res, 'Failed to delete map');
+    }
+  };
+
+  // Export map as GPX
+  const exportMapGpx: RequestHandler = async (req, res) => {
+    try {
+      console.log('Exporting map as GPX:', req.params.id);
+      const exported = await maps.exportGpx(req.params.id, getUserId(req));
+      if (!exported) {
+        handleNotFound('Map not found', res);
+        return;
+      }
+
+      res.setHeader('Content-Type', 'application/gpx+xml');
+      res.setHeader('Content-Disposition', `attachment; filename="${exported.fileName}.gpx"`);
+      res.send(exported.gpx);
+    } catch (error) {
+      console.error('Error exporting map:', error);
+      handleServerError(error, res, 'Failed to export map');
+    }
+  };
+
+  // List the POIs of a map owned by the user or public
+  const getMapPOIs: RequestHandler = async (req, res) => {
+    try {
+      const pois = await maps.getPOIs(req.params.id, getOptionalUserId(req, 'maps:read'));
+      if (!pois) {
+        handleNotFound('Map not found', res);
+        return;
+      }
+
+      res.json(pois);
+    } catch (error) {
+      console.error('Error fetching POIs:', error);
+      handleServerError(error, res, 'Failed to fetch POIs');
+    }
+  };
+
+  // Add a POI to a map
+  const createMapPOI: RequestHandler = async (req, res) => {
+    try {
+      console.log('Adding POI to map:', req.params.id);
+      const poi = await maps.createPOI(req.params.id, getUserId(req), req.body);
+      if (!poi) {
+        handleNotFound('Map not found or unauthorized', res);
+        return;
+      }
+
+      res.status(201).json(poi);
+    } catch (error) {
+      console.error('Error creating POI:', error);
+      handleServerError(error, res, 'Failed to create POI');
+    }
+  };
+
+  // Update a POI on a map
+  const updateMapPOI: RequestHandler = async (req, res) => {
+    try {
+      console.log('Updating POI:', req.params.poiId);
+      const poi = await maps.updatePOI(req.params.id, getUserId(req), req.params.poiId, req.body);
+      if (!poi) {
+        handleNotFound('POI not found or unauthorized', res);
+        return;
+      }
+
+      res.json(poi);
+    } catch (error) {
+      console.error('Error updating POI:', error);
+      handleServerError(error, res, 'Failed to update POI');
+    }
+  };
+
+  // Remove a POI from a map
+  const deleteMapPOI: RequestHandler = async (req, res) => {
+    try {
+      console.log('Deleting POI:', req.params.poiId);
+      if (!await maps.deletePOI(req.params.id, getUserId(req), req.params.poiId)) {
+        handleNotFound('POI not found or unauthorized', res);
+        return;
+      }
+
+      res.json({ message: 'POI deleted successfully' });
+    } catch (error) {
+      console.error('Error deleting POI:', error);
+      handleServerError(error, res, 'Failed to delete POI');
+    }
+  };
+
+  // List the surface overrides of a map owned by the user or public
+  const getSurfaceOverrides: RequestHandler = async (req, res) => {
+    try {
+      const overrides = await surfaceOverrides.list(req.params.id, getOptionalUserId(req, 'maps:read'));
+      if (!overrides) {
+        handleNotFound('Map not found', res);
+        return;
+      }
+
+      res.json(overrides);
+    } catch (error) {
+      console.error('Error fetching surface overrides:', error);
+      handleServerError(error, res, 'Failed to fetch surface overrides');
+    }
+  };
+
+  // Who added and removed which overrides, oldest first
+  const getSurfaceOverrideHistory: RequestHandler = async (req, res) => {
+    try {
+      const history = await surfaceOverrides.history(req.params.id, getUserId(req));
+      if (!history) {
+        handleNotFound('Map not found or unauthorized', res);
+        return;
+      }
+
+      res.json(history);
+    } catch (error) {
+      console.error('Error fetching surface override history:', error);
+      handleServerError(error, res, 'Failed to fetch surface override history');
+    }
+  };
+
+  // Set the surface of a stretch of the map's route by hand
+  const createSurfaceOverride: RequestHandler = async (req, res) => {
+    try {
+      const request = req.body as SurfaceOverrideRequest;
+      if (request.endDistance <= request.startDistance) {
+        handleBadRequest('endDistance must be greater than startDistance', res);
+        return;
+      }
+
+      console.log('Adding surface override to map:', req.params.id);
+      const result = await surfaceOverrides.add(req.params.id, getUserId(req), request);
+      if (!result) {
+        handleNotFound('Map not found or unauthorized', res);
+        return;
+      }
+
+      res.status(201).json(result);
+    } catch (error) {
+      console.error('Error creating surface override:', error);
+      handleServerError(error, res, 'Failed to create surface override');
+    }
+  };
+
+  const deleteSurfaceOverride: RequestHandler = async (req, res) => {
+    try {
+      console.log('Deleting surface override:', req.params.overrideId);
+      if (!await surfaceOverrides.remove(req.params.id, getUserId(req), req.params.overrideId)) {
+        handleNotFound('Surface override not found or unauthorized', res);
+        return;
+      }
+
+      res.json({ message: 'Surface override deleted successfully' });
+    } catch (error) {
+      console.error('Error deleting surface override:', error);
+      handleServerError(error, res, 'Failed to delete surface override');
+    }
+  };
+
+  // List the stages of a map owned by the user or public
+  const getStages: RequestHandler = async (req, res) => {
+    try {
+      const mapStages = await stages.list(req.params.id, getOptionalUserId(req, 'maps:read'));
+      if (!mapStages) {
+        handleNotFound('Map not found', res);
+        return;
+      }
+
+      res.json(mapStages);
+    } catch (error) {
+      console.error('Error fetching stages:', error);
+      handleServerError(error, res, 'Failed to fetch stages');
+    }
+  };
+
+  // Divide the map's route into stages, replacing any planned before
+  const planStages: RequestHandler = async (req, res) => {
+    try {
+      console.log('Planning stages for map:', req.params.id);
+      const result = await stages.plan(req.params.id, getUserId(req), req.body);
+      if (!result) {
+        handleNotFound('Map not found or unauthorized', res);
+        return;
+      }
+      if ('error' in result) {
+        handleBadRequest(result.error, res);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      console.error('Error planning stages:', error);
+      handleServerError(error, res, 'Failed to plan stages');
+    }
+  };
+
+  // Export one stage as GPX
+  const exportStageGpx: RequestHandler = async (req, res) => {
+    try {
+      const stageNumber = parseInt(req.params.stage, 10);
+      if (!Number.isInteger(stageNumber) || stageNumber < 1) {
+        handleBadRequest('stage must be a positive integer', res);
+        return;
+      }
+
+      console.log('Exporting stage as GPX:', req.params.id, stageNumber);
+      const exported = await stages.exportGpx(req.params.id, getUserId(req), stageNumber);
+      if (!exported) {
+        handleNotFound('Stage not found', res);
+        return;
+      }
+
+      res.setHeader('Content-Type', 'application/gpx+xml');
+      res.setHeader('Content-Disposition', `attachment; filename="${exported.fileName}.gpx"`);
+      res.send(exported.gpx);
+    } catch (error) {
+      console.error('Error exporting stage:', error);
+      handleServerError(error, res, 'Failed to export stage');
+    }
+  };
+
+  // Report where riders can get water and food along a map owned by the user or public, and the gaps between
+  const getResupply: RequestHandler = async (req, res) => {
+    try {
+      const corridor = parseMeters(req.query.corridor);
+      const water = parseMeters(req.query.maxWaterGap);
+      const food = parseMeters(req.query.maxFoodGap);
+
+      if (corridor !== undefined && !(corridor >= 0 && corridor <= MAX_RESUPPLY_CORRIDOR)) {
+        handleBadRequest(`corridor must be between 0 and ${MAX_RESUPPLY_CORRIDOR} meters`, res);
+        return;
+      }
+      if ([water, food].some(gap => gap !== undefined && !(gap > 0))) {
+        handleBadRequest('maxWaterGap and maxFoodGap must be positive numbers of meters', res);
+        return;
+      }
+
+      const analysis = await maps.analyzeResupply(req.params.id, getOptionalUserId(req, 'maps:read'), {
+        corridor,
+        maxGaps: { water, food }
+      });
+      if (!analysis) {
+        handleNotFound('Map not found', res);
+        return;
+      }
+
+      res.json(analysis);
+    } catch (error) {
+      console.error('Error analysing resupply:', error);
+      handleServerError(error, res, 'Failed to analyse resupply');
+    }
+  };
+
+  const canRead = requireAuthOrToken('maps:read');
+  const canWrite = requireAuthOrToken('maps:write');
+
+  router.post('/', canWrite, validateBody(mapSchema), createMap);
+  router.get('/', canRead, getMaps);
+  // Registered before /:id so "public" is not treated as a map ID
+  router.get('/public', getPublicMaps);
+  router.get('/:id', requireMapId, getMap);
+  router.put('/:id', canWrite, requireMapId, validateBody(mapSchema.partial()), updateMap);
+  router.delete('/:id', canWrite, requireMapId, deleteMap);
+  router.get('/:id/gpx', canRead, requireMapId, exportMapGpx);
+  router.get('/:id/pois', requireMapId, getMapPOIs);
+  router.post('/:id/pois', canWrite, requireMapId, validateBody(poiSchema), createMapPOI);
+  router.put('/:id/pois/:poiId', canWrite, requireMapId, validateBody(poiSchema.partial()), updateMapPOI);
+  router.delete('/:id/pois/:poiId', canWrite, requireMapId, deleteMapPOI);
+  router.get('/:id/surface-overrides', requireMapId, getSurfaceOverrides);
+  router.get('/:id/surface-overrides/history', canRead, requireMapId, getSurfaceOverrideHistory);
+  router.post(
+    '/:id/surface-overrides',
+    canWrite,
+    requireMapId,
+    validateBody(surfaceOverrideSchema),
+    createSurfaceOverride
+  );
+  router.delete('/:id/surface-overrides/:overrideId', canWrite, requireMapId, deleteSurfaceOverride);
+  router.get('/:id/stages', requireMapId, getStages);
+  router.put('/:id/stages', canWrite, requireMapId, validateBody(stagePlanSchema), planStages);
+  router.get('/:id/stages/:stage/gpx', canRead, requireMapId, exportStageGpx);
+  router.get('/:id/resupply', requireMapId, getResupply);
+
+  return router;
+};
@@ -0,0 +1,66 @@
+import { RequestHandler, Router } from 'express';
+import { getUserId, requireAuthOrToken } from '../middlewares/auth';
+import { photoUpload } from '../middlewares/upload';
+import { validateBody } from '../middlewares/validation';
+import { PhotoService } from '../services/photo-service';
+import { handleBadRequest, handleServerError } from '../../utils/error-handling';
+import { photoUploadSchema } from '../../validation/api-schemas';
+import type { PhotoUploadRequest } from '../../types/api.types';
+
+/**
+ * Routes for geotagged photos, mounted at /api/photos.
+ */
+export const createPhotosRouter = (photos: PhotoService): Router => {
+  const router = Router();
+
+  // Upload photo endpoint
+  const uploadPhoto: RequestHandler = async (req, res) => {
+    try {
+      if (!req.file) {
+        handleBadRequest('No file uploaded', res);
+        return;
+      }
+
+      const { photoId, key } = await photos.upload(req.file, req.body as PhotoUploadRequest, getUserId(req));
+
+      res.json({
+        success: true,
+        photoId,
+        key
+      });
+    } catch (error) {
+      console.error('Error uploading photo:', error);
+      handleServerError(error, res, 'Unknown error occurred');
+    }
+  };
+
+  const getPhotosNear: RequestHandler = async (req, res) => {
+    try {
+      const { longitude, latitude } = req.query as { longitude: string; latitude: string };
+      if (!longitude || !latitude) {
+        handleBadRequest('Longitude and latitude are required', res);
+        return;
+      }
+
+      console.log(`Searching for photos near: ${longitude}, ${latitude}`);
+      const nearby = await photos.findNear(Number(longitude), Number(latitude));
+
+      console.log(`Found ${nearby.length} photos`);
+      res.json(nearby);
+    } catch (error) {
+      console.error('Error fetching photos:', error);
+      handleServerError(error, res, 'Unknown error occurred');
+    }
+  };
+
+  router.post(
+    '/upload',
+    requireAuthOrToken('photos:write'),
+    photoUpload('photo'),
+    validateBody(photoUploadSchema),
+    uploadPhoto
+  );
+  router.get('/near', getPhotosNear);
+
+  return router;
+};
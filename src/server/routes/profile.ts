@@ -0,0 +1,47 @@
+import { RequestHandler, Router } from 'express';
+import { getUserId, requireAuth } from '../middlewares/auth';
+import { validateBody } from '../middlewares/validation';
+import { ProfileService } from '../services/profile-service';
+import { handleNotFound, handleServerError } from '../../utils/error-handling';
+import { profileUpdateSchema } from '../../validation/api-schemas';
+import type { Auth0User } from '../../types/server';
+import type { UserProfileUpdateRequest } from '../../types/api.types';
+
+/**
+ * Routes for the signed in user's profile, mounted at /api/profile.
+ */
+export const createProfileRouter = (profiles: ProfileService): Router => {
+  const router = Router();
+
+  // Get profile data, creating the profile on first login
+  const getProfile: RequestHandler = async (req, res) => {
+    try {
+      console.log('Fetching profile for user:', getUserId(req));
+      res.json(await profiles.getOrCreate(req.oidc.user as Auth0User));
+    } catch (error) {
+      console.error('Error fetching user profile:', error);
+      handleServerError(error, res, 'Failed to fetch profile');
+    }
+  };
+
+  // Update profile data
+  const updateProfile: RequestHandler = async (req, res) => {
+    try {
+      console.log('Updating profile for user:', getUserId(req));
+      if (!await profiles.update(getUserId(req), req.body as UserProfileUpdateRequest)) {
+        handleNotFound('User not found', res);
+        return;
+      }
+
+      res.json({ message: 'Profile updated successfully' });
+    } catch (error) {
+      console.error('Detailed error in profile update:', error);
+      handleServerError(error, res, 'Failed to update profile');
+    }
+  };
+
+  router.get('/', requireAuth, getProfile);
+  router.put('/', requireAuth, validateBody(profileUpdateSchema), updateProfile);
+
+  return router;
+};
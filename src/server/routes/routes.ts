@@ -0,0 +1,138 @@
+import { RequestHandler, Router } from 'express';
+import { ObjectId } from 'mongodb';
+import { getUserId, requireAuthOrToken } from '../middlewares/auth';
+import { routeUpload } from '../middlewares/upload';
+import { validateBody } from '../middlewares/validation';
+import { RouteBuilderService } from '../services/route-builder-service';
+import { RouteService } from '../services/route-service';
+import { KmzTooLargeError } from '../../utils/gpx/kml';
+import { handleBadRequest, handleError, handleNotFound, handleServerError } from '../../utils/error-handling';
+import { routeBuildSchema } from '../../validation/api-schemas';
+import type { RouteBuildRequest } from '../../types/api.types';
+import type { ServerProcessedRoute } from '../../types/server';
+
+/**
+ * Routes for uploading, drawing and fetching processed routes, mounted at /api.
+ */
+export const createRoutesRouter = (routes: RouteService, builder: RouteBuilderService): Router => {
+  const router = Router();
+
+  // Process a route file and save it in one request
+  const uploadRoute: RequestHandler = async (req, res) => {
+    try {
+      console.log('Route upload request received');
+      if (!req.file) {
+        handleBadRequest('No file uploaded', res);
+        return;
+      }
+
+      const route = await routes.process(req.file.buffer, req.file.originalname);
+      if (!route) {
+        handleBadRequest('Invalid GPX file format', res);
+        return;
+      }
+
+      const saved = await routes.save(route, getUserId(req));
+      console.log('Route saved successfully');
+
+      const serverRoute: ServerProcessedRoute = {
+        ...saved,
+        id: saved._id,
+        color: '#' + Math.floor(Math.random()*16777215).toString(16), // Random color
+        isVisible: true
+      };
+
+      res.json({
+        success: true,
+        routeId: saved._id,
+        route: serverRoute
+      });
+    } catch (error) {
+      if (error instanceof KmzTooLargeError) {
+        handleBadRequest(error.message, res);
+        return;
+      }
+      handleError(error, res);
+    }
+  };
+
+  // Queue a route file for processing and return the job id straight away
+  const uploadRouteFile: RequestHandler = async (req, res) => {
+    try {
+      if (!req.file) {
+        handleBadRequest('No file uploaded', res);
+        return;
+      }
+
+      const job = routes.enqueue(req.file.buffer, req.file.originalname, getUserId(req));
+      console.log('Route processing job queued:', job.id);
+
+      res.status(202).json({
+        success: true,
+        jobId: job.id,
+        statusUrl: `/api/routes/${job.id}/status`
+      });
+    } catch (error) {
+      handleError(error, res);
+    }
+  };
+
+  // Report the stage, progress and any error of a route processing job
+  const getRouteProcessingStatus: RequestHandler = (req, res) => {
+    const job = routes.getJob(req.params.id, getUserId(req));
+    if (!job) {
+      handleNotFound('Processing job not found', res);
+      return;
+    }
+
+    res.json(job);
+  };
+
+  // Route drawn waypoints over the road network; the route is only returned, saving it is up to the map
+  const buildRoute: RequestHandler = async (req, res) => {
+    try {
+      const result = await builder.build(req.body as RouteBuildRequest);
+      if ('error' in result) {
+        handleBadRequest(result.error, res);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      console.error('Error building route:', error);
+      handleServerError(error, res, 'Failed to build route');
+    }
+  };
+
+  // Get a processed route uploaded by the user
+  const getRoute: RequestHandler = async (req, res) => {
+    try {
+      if (!ObjectId.isValid(req.params.id)) {
+        handleBadRequest('Invalid route ID', res);
+        return;
+      }
+
+      const route = await routes.getRoute(req.params.id, getUserId(req));
+      if (!route) {
+        handleNotFound('Route not found', res);
+        return;
+      }
+
+      res.json(route);
+    } catch (error) {
+      console.error('Error fetching route:', error);
+      handleServerError(error, res, 'Failed to fetch route');
+    }
+  };
+
+  const canRead = requireAuthOrToken('routes:read');
+  const canWrite = requireAuthOrToken('routes:write');
+
+  router.post('/routes', canWrite, routeUpload('gpx'), uploadRoute);
+  router.post('/upload', canWrite, routeUpload('gpx'), uploadRouteFile);
+  router.post('/routes/build', canWrite, validateBody(routeBuildSchema), buildRoute);
+  router.get('/routes/:id/status', canRead, getRouteProcessingStatus);
+  router.get('/routes/:id', canRead, getRoute);
+
+  return router;
+};
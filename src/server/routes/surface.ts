@@ -0,0 +1,27 @@
+import { RequestHandler, Router } from 'express';
+import { validateBody } from '../middlewares/validation';
+import { SurfaceService } from '../services/surface-service';
+import { handleServerError } from '../../utils/error-handling';
+import { surfaceDetectionSchema } from '../../validation/api-schemas';
+import type { SurfaceDetectionRequest } from '../../types/api.types';
+
+/**
+ * Routes for surface lookups along a line, mounted at /api/surface-detection.
+ */
+export const createSurfaceRouter = (surfaces: SurfaceService): Router => {
+  const router = Router();
+
+  const detectSurface: RequestHandler = async (req, res) => {
+    try {
+      const { route, toleranceMeters } = req.body as SurfaceDetectionRequest;
+      res.json(await surfaces.detectRuns(route.coordinates, toleranceMeters));
+    } catch (error) {
+      console.error('Surface detection error:', error);
+      handleServerError(error, res, 'Failed to detect surfaces');
+    }
+  };
+
+  router.post('/', validateBody(surfaceDetectionSchema), detectSurface);
+
+  return router;
+};
@@ -1,4 +1,4 @@
-import { RequestHandler } from '../../types/express.types';
+import { RequestHandler } from 'express';
 
 export const testErrorHandling: RequestHandler = (req, res) => {
   const testCase = req.query.case as string;
@@ -0,0 +1,121 @@
+import type {
+  AdminUserListItem,
+  SurfaceClassification,
+  SurfaceCorrection,
+  SurfaceCorrectionStatus
+} from '../../types/api.types';
+import type { UserRole } from '../../types/database.types';
+import type {
+  MapRepository,
+  PhotoDocument,
+  PhotoRepository,
+  SurfaceClassificationRepository,
+  SurfaceCorrectionRepository,
+  UserRepository
+} from '../repositories/types';
+import type { PhotoStorage } from './photo-service';
+import { resolveRole, RoleService } from './role-service';
+import { SurfaceCacheService } from './surface-cache-service';
+import { toSurfaceCorrection } from './surface-override-service';
+
+/**
+ * AdminService handles moderation and site settings.
+ * It provides functionality for:
+ * - Listing users and promoting or demoting them
+ * - Unpublishing and removing any user's maps
+ * - Reviewing and removing uploaded photos
+ * - Managing the surface classifications used for surface detection
+ * - Reviewing surface corrections suggested from map overrides
+ */
+export class AdminService {
+  constructor(
+    private maps: MapRepository,
+    private photos: PhotoRepository,
+    private users: UserRepository,
+    private roles: RoleService,
+    private classifications: SurfaceClassificationRepository,
+    private corrections: SurfaceCorrectionRepository,
+    private surfaceCache: SurfaceCacheService,
+    private storage: PhotoStorage
+  ) {}
+
+  async listUsers(): Promise<AdminUserListItem[]> {
+    const users = await this.users.list();
+    return users.map(user => ({
+      auth0Id: user.auth0Id,
+      bioName: user.bioName,
+      email: user.email,
+      role: resolveRole(user),
+      createdAt: user.createdAt
+    }));
+  }
+
+  /**
+   * @returns false if the user has no profile
+   */
+  setRole(auth0Id: string, role: UserRole): Promise<boolean> {
+    return this.roles.setRole(auth0Id, role);
+  }
+
+  // The map stays with its owner, it is only taken out of the public gallery
+  unpublishMap(mapId: string): Promise<boolean> {
+    return this.maps.updateById(mapId, { isPublic: false, updatedAt: new Date() });
+  }
+
+  deleteMap(mapId: string): Promise<boolean> {
+    return this.maps.deleteById(mapId);
+  }
+
+  listPhotos(limit: number): Promise<PhotoDocument[]> {
+    return this.photos.findRecent(limit);
+  }
+
+  /**
+   * Removes a photo and its stored file.
+   *
+   * @returns false if the photo does not exist
+   */
+  async deletePhoto(photoId: string): Promise<boolean> {
+    const photo = await this.photos.findById(photoId);
+    if (!photo) return false;
+
+    await this.storage.deleteFile(photo.key);
+    return this.photos.deleteById(photoId);
+  }
+
+  listSurfaceClassifications(): Promise<SurfaceClassification[]> {
+    return this.classifications.list();
+  }
+
+  // Cached surfaces were standardized with the old classifications, so they are all detected again
+  async saveSurfaceClassification(classification: SurfaceClassification): Promise<void> {
+    await this.classifications.upsert(classification);
+    await this.surfaceCache.clear();
+  }
+
+  async deleteSurfaceClassification(originalSurface: string): Promise<boolean> {
+    const deleted = await this.classifications.delete(originalSurface);
+    if (deleted) await this.surfaceCache.clear();
+    return deleted;
+  }
+
+  async listSurfaceCorrections(status?: SurfaceCorrectionStatus): Promise<SurfaceCorrection[]> {
+    const corrections = await this.corrections.list(status);
+    return corrections.map(toSurfaceCorrection);
+  }
+
+  /**
+   * Marks a suggested correction as accepted or dismissed. Accepting it does not change
+   * the road network, editors apply accepted corrections to road_network themselves.
+   *
+   * @returns The reviewed correction, or null if it does not exist
+   */
+  async reviewSurfaceCorrection(
+    correctionId: string,
+    status: SurfaceCorrectionStatus,
+    reviewedBy: string
+  ): Promise<SurfaceCorrection | null> {
+    const correction = await this.corrections.review(correctionId, status, reviewedBy, new Date());
+    return correction && toSurfaceCorrection(correction);
+  }
+}
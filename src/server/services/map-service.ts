@@ -0,0 +1,193 @@
+import { ObjectId } from 'mongodb';
+import { GpxExporter } from '../../services/gpx-exporter';
+import { MapSummarizer } from '../../services/map-summary';
+import { StagePlanner } from '../../services/stage-planner';
+import { analyzeResupply, ResupplyOptions } from '../../utils/gpx/resupply';
+import type { POI } from '../../types/note-types';
+import type { ResupplyAnalysis } from '../../types/gpx-types';
+import type {
+  MapCreateRequest,
+  MapPOIRequest,
+  MapUpdateRequest,
+  POIRequest,
+  POIUpdateRequest,
+  PublicMapSort,
+  PublicMapsResponse
+} from '../../types/api.types';
+import type { MapDocument, MapRepository } from '../repositories/types';
+
+// Fields of a POI that clients may set; ids, ownership and timestamps are set by the server
+export const EDITABLE_POI_FIELDS = ['name', 'description', 'category', 'type', 'location', 'warning'] as const;
+
+const isUnchangedPOI = (poi: MapPOIRequest, existing: POI) =>
+  EDITABLE_POI_FIELDS.every(field => JSON.stringify(poi[field]) === JSON.stringify(existing[field]));
+
+// Sets createdBy and timestamps on POIs saved with a map, keeping the timestamps
+// of POIs that are already stored and have not changed
+const stampPOIs = (pois: MapPOIRequest[] | undefined, userId: string, existingPOIs: POI[] = []): POI[] => {
+  const now = new Date();
+  const existingById = new Map(existingPOIs.map(poi => [poi.id, poi]));
+
+  return (pois ?? []).map(poi => {
+    const existing = existingById.get(poi.id);
+    return {
+      ...poi,
+      createdBy: userId,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: existing && isUnchangedPOI(poi, existing) ? existing.updatedAt : now
+    };
+  });
+};
+
+const pickEditableFields = (fields: POIUpdateRequest): POIUpdateRequest =>
+  Object.fromEntries(
+    EDITABLE_POI_FIELDS
+      .filter(field => fields[field] !== undefined)
+      .map(field => [field, fields[field]])
+  );
+
+/**
+ * MapService handles saved maps for the API.
+ * It provides functionality for:
+ * - Creating and updating maps with a route summary and stamped POIs
+ * - Planning a map's stages again when its routes change
+ * - Listing a user's maps and paging through public maps
+ * - Exporting maps as GPX
+ * - Finding the gaps between water and food along a map's route
+ * - Adding, editing and removing single POIs
+ */
+export class MapService {
+  constructor(
+    private maps: MapRepository,
+    private summarizer = new MapSummarizer(),
+    private exporter = new GpxExporter(),
+    private planner = new StagePlanner()
+  ) {}
+
+  async create(userId: string, input: MapCreateRequest): Promise<{ mapId: string; map: MapDocument }> {
+    const now = new Date();
+    const map: MapDocument = {
+      ...input,
+      summary: await this.summarizer.summarize(input),
+      pois: stampPOIs(input.pois, userId),
+      createdBy: userId,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    const mapId = await this.maps.create(map);
+    return { mapId, map };
+  }
+
+  list(userId: string): Promise<MapDocument[]> {
+    return this.maps.findByOwner(userId);
+  }
+
+  async listPublic({ page, limit, sort }: { page: number; limit: number; sort: PublicMapSort }): Promise<PublicMapsResponse> {
+    const { items, total } = await this.maps.findPublic({ sort, skip: (page - 1) * limit, limit });
+    return {
+      maps: items,
+      page,
+      limit,
+      total,
+      hasMore: page * limit < total
+    };
+  }
+
+  getVisible(mapId: string, userId?: string): Promise<MapDocument | null> {
+    return this.maps.findVisible(mapId, userId);
+  }
+
+  /**
+   * Applies changes to a map the user owns.
+   *
+   * @returns false if the map does not exist or belongs to someone else
+   */
+  async update(mapId: string, userId: string, input: MapUpdateRequest): Promise<boolean> {
+    const { pois, ...fields } = input;
+    const changes: Partial<MapDocument> = { ...fields, updatedAt: new Date() };
+
+    const existing = pois || input.routes ? await this.maps.findOwned(mapId, userId) : null;
+
+    if (pois) {
+      changes.pois = stampPOIs(pois, userId, existing?.pois);
+    }
+
+    // Routes may be saved without their route data, which then stays as stored; surface overrides are only
+    // changed through their own routes
+    if (input.routes) {
+      changes.summary = await this.summarizer.summarize({
+        ...input,
+        routeData: input.routeData ?? existing?.routeData,
+        surfaceOverrides: existing?.surfaceOverrides
+      });
+
+      const stages = existing && await this.planner.replan({ ...existing, ...input, pois: changes.pois ?? existing.pois });
+      if (stages) changes.stages = stages;
+    }
+
+    return this.maps.update(mapId, userId, changes);
+  }
+
+  delete(mapId: string, userId: string): Promise<boolean> {
+    return this.maps.delete(mapId, userId);
+  }
+
+  /**
+   * Builds a GPX file for a map the user owns or that is public.
+   *
+   * @returns The file name and contents, or null if the map is not visible to the user
+   */
+  async exportGpx(mapId: string, userId: string): Promise<{ fileName: string; gpx: string } | null> {
+    const map = await this.maps.findVisible(mapId, userId);
+    if (!map) return null;
+
+    const gpx = await this.exporter.exportMap({ ...map, routes: map.routes ?? [] });
+    const fileName = (map.name || 'map').replace(/[^a-z0-9-_ ]/gi, '').trim() || 'map';
+    return { fileName, gpx };
+  }
+
+  /**
+   * Places the water and food POIs of a map the user owns or that is public on its route.
+   *
+   * @returns The resupply points and the gaps between them, or null if the map is not visible to the user
+   */
+  async analyzeResupply(mapId: string, userId: string | undefined, options: ResupplyOptions): Promise<ResupplyAnalysis | null> {
+    const map = await this.maps.findVisible(mapId, userId);
+    if (!map) return null;
+
+    return analyzeResupply(map.routeData ?? { type: 'FeatureCollection', features: [] }, map.pois ?? [], options);
+  }
+
+  async getPOIs(mapId: string, userId?: string): Promise<POI[] | null> {
+    const map = await this.maps.findVisible(mapId, userId);
+    return map ? map.pois ?? [] : null;
+  }
+
+  /**
+   * Adds a POI to a map the user owns, with a server generated id.
+   *
+   * @returns The stored POI, or null if the map does not exist or belongs to someone else
+   */
+  async createPOI(mapId: string, userId: string, fields: POIRequest): Promise<POI | null> {
+    const now = new Date();
+    const poi = {
+      ...pickEditableFields(fields),
+      id: new ObjectId().toHexString(),
+      createdBy: userId,
+      createdAt: now,
+      updatedAt: now
+    } as POI;
+
+    return await this.maps.addPOI(mapId, userId, poi) ? poi : null;
+  }
+
+  // Only editable fields are copied, so ids, ownership and timestamps cannot be overwritten
+  updatePOI(mapId: string, userId: string, poiId: string, fields: POIUpdateRequest): Promise<POI | null> {
+    return this.maps.updatePOI(mapId, userId, poiId, pickEditableFields(fields));
+  }
+
+  deletePOI(mapId: string, userId: string, poiId: string): Promise<boolean> {
+    return this.maps.deletePOI(mapId, userId, poiId);
+  }
+}
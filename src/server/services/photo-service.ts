@@ -0,0 +1,44 @@
+import type { PhotoUploadRequest } from '../../types/api.types';
+import type { PhotoDocument, PhotoRepository } from '../repositories/types';
+
+// Where uploaded photo files are kept; StorageService stores them in DO Spaces
+export interface PhotoStorage {
+  uploadFile(file: Express.Multer.File, folder: string): Promise<string>;
+  deleteFile(key: string): Promise<void>;
+}
+
+// Photos are searched within this many degrees of a point (roughly 500m)
+const NEARBY_RADIUS = 0.005;
+
+/**
+ * PhotoService handles geotagged photos.
+ * It provides functionality for:
+ * - Storing uploaded photo files and their locations
+ * - Finding photos near a point
+ */
+export class PhotoService {
+  constructor(private photos: PhotoRepository, private storage: PhotoStorage) {}
+
+  async upload(
+    file: Express.Multer.File,
+    { longitude, latitude, description }: PhotoUploadRequest,
+    uploadedBy: string
+  ): Promise<{ photoId: string; key: string }> {
+    const key = await this.storage.uploadFile(file, 'photos');
+    const photoId = await this.photos.create({
+      filename: file.originalname,
+      key,
+      longitude,
+      latitude,
+      description: description || '',
+      uploadedAt: new Date(),
+      uploadedBy
+    });
+
+    return { photoId, key };
+  }
+
+  findNear(longitude: number, latitude: number): Promise<PhotoDocument[]> {
+    return this.photos.findNear(longitude, latitude, NEARBY_RADIUS);
+  }
+}
@@ -0,0 +1,61 @@
+import type { Auth0User } from '../../types/server';
+import type { UserProfileUpdateRequest } from '../../types/api.types';
+import type { UserDocument, UserRepository } from '../repositories/types';
+import { resolveRole } from './role-service';
+
+/**
+ * ProfileService handles user profiles.
+ * It provides functionality for:
+ * - Creating a profile from the Auth0 user on first login
+ * - Updating profile details
+ */
+export class ProfileService {
+  constructor(private users: UserRepository) {}
+
+  async getOrCreate(user: Auth0User): Promise<UserDocument> {
+    const existing = await this.users.findByAuth0Id(user.sub);
+    if (existing) {
+      return { ...existing, role: resolveRole(existing) };
+    }
+
+    console.log('No user found, creating new user');
+    const now = new Date();
+    const newUser: UserDocument = {
+      auth0Id: user.sub,
+      bioName: user.name,
+      email: user.email,
+      // Google avatars default to 96px, dropping the size suffix returns the full image
+      picture: user.picture?.replace('=s96-c', '') ?? '',
+      socialLinks: {
+        instagram: '',
+        strava: '',
+        facebook: ''
+      },
+      website: '',
+      role: 'user',
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await this.users.create(newUser);
+    return newUser;
+  }
+
+  /**
+   * Updates the fields a user may edit; social links that are left out keep their values.
+   *
+   * @returns false if the user has no profile yet
+   */
+  async update(auth0Id: string, { socialLinks, ...changes }: UserProfileUpdateRequest): Promise<boolean> {
+    const existing = await this.users.findByAuth0Id(auth0Id);
+    if (!existing) {
+      return false;
+    }
+
+    return this.users.update(auth0Id, {
+      ...changes,
+      ...(socialLinks && { socialLinks: { ...existing.socialLinks, ...socialLinks } }),
+      updatedAt: new Date()
+    });
+  }
+}
@@ -0,0 +1,70 @@
+import { USER_ROLES, UserRole } from '../../types/database.types';
+import type { UserDocument, UserRepository } from '../repositories/types';
+
+// How long a session keeps its role before it is read from the users collection again
+const ROLE_CACHE_TTL = 5 * 60 * 1000;
+
+interface CachedRole {
+  auth0Id: string;
+  role: UserRole;
+  expiresAt: number;
+}
+
+// Profiles created before roles only have the isAdmin flag
+export const resolveRole = (user: Pick<UserDocument, 'role' | 'isAdmin'>): UserRole =>
+  user.role ?? (user.isAdmin ? 'admin' : 'user');
+
+export const hasRole = (role: UserRole, required: UserRole): boolean =>
+  USER_ROLES.indexOf(role) >= USER_ROLES.indexOf(required);
+
+/**
+ * RoleService handles user roles.
+ * It provides functionality for:
+ * - Looking up the role of a signed in user, cached per session
+ * - Changing a user's role, which signed in sessions pick up on their next request
+ */
+export class RoleService {
+  private sessions = new Map<string, CachedRole>();
+
+  constructor(
+    private users: UserRepository,
+    private ttl = ROLE_CACHE_TTL,
+    private now = () => Date.now()
+  ) {}
+
+  async getRole(auth0Id: string, sessionId: string): Promise<UserRole> {
+    const cached = this.sessions.get(sessionId);
+    if (cached && cached.auth0Id === auth0Id && cached.expiresAt > this.now()) {
+      return cached.role;
+    }
+
+    // Users without a profile yet have the default role
+    const user = await this.users.findByAuth0Id(auth0Id);
+    const role = user ? resolveRole(user) : 'user';
+
+    this.removeExpired();
+    this.sessions.set(sessionId, { auth0Id, role, expiresAt: this.now() + this.ttl });
+    return role;
+  }
+
+  /**
+   * @returns false if the user has no profile
+   */
+  async setRole(auth0Id: string, role: UserRole): Promise<boolean> {
+    if (!await this.users.update(auth0Id, { role, updatedAt: new Date() })) {
+      return false;
+    }
+
+    this.sessions.forEach((cached, sessionId) => {
+      if (cached.auth0Id === auth0Id) this.sessions.delete(sessionId);
+    });
+    return true;
+  }
+
+  private removeExpired() {
+    const now = this.now();
+    this.sessions.forEach((cached, sessionId) => {
+      if (cached.expiresAt <= now) this.sessions.delete(sessionId);
+    });
+  }
+}
@@ -0,0 +1,115 @@
+import { GpxProcessor } from '../../services/gpx-processor';
+import { buildGpx } from '../../utils/gpx/export';
+import { GraphPath, joinPaths, RoadGraph } from '../../utils/gpx/routing';
+import type { RouteBuildRequest, RouteBuildResponse } from '../../types/api.types';
+import type { SurfaceDetector } from '../repositories/types';
+
+// Waypoints further than this from every road are rejected rather than joined to it with a straight line
+export const MAX_SNAP_DISTANCE_METERS = 250;
+
+// Roads are loaded for the box around the waypoints, widened by this much (about 5 km) so detours outside it are found
+const SEARCH_MARGIN_DEGREES = 0.05;
+
+// Widest box of waypoints routed in one request, about 100 km, so the graph stays quick to build
+export const MAX_ROUTING_SPAN_DEGREES = 1;
+
+// Most roads loaded into one graph; boxes with more, like a city and its surroundings, have to be routed in parts
+export const MAX_ROUTING_ROADS = 50000;
+
+export type RouteBuildResult = RouteBuildResponse | { error: string };
+
+/**
+ * RouteBuilderService routes waypoints drawn on the map over the road network, without an external routing service.
+ * It provides functionality for:
+ * - Loading the roads around the waypoints into a graph and snapping each waypoint to the nearest road
+ * - Finding the cheapest path between consecutive waypoints for the rider's surface preferences
+ * - Turning the path into a processed route with a segment per surface
+ */
+export class RouteBuilderService {
+  constructor(private roads: SurfaceDetector, private processor = new GpxProcessor()) {}
+
+  /**
+   * Builds a route through the waypoints in order. The route is not saved, it is drawn again as waypoints move.
+   *
+   * @returns The route with the snapped waypoints, or why it could not be built
+   */
+  async build({ waypoints, name = 'Drawn route', preferences = {} }: RouteBuildRequest): Promise<RouteBuildResult> {
+    const lons = waypoints.map(([lon]) => lon);
+    const lats = waypoints.map(([, lat]) => lat);
+    const [west, south, east, north] = [Math.min(...lons), Math.min(...lats), Math.max(...lons), Math.max(...lats)];
+    if (east - west > MAX_ROUTING_SPAN_DEGREES || north - south > MAX_ROUTING_SPAN_DEGREES) {
+      return { error: 'Waypoints are too far apart to route at once, add the route in shorter parts' };
+    }
+
+    // One more than the limit is asked for, to tell a full box from one cut short
+    const roads = await this.roads.findRoadsWithin([
+      west - SEARCH_MARGIN_DEGREES,
+      south - SEARCH_MARGIN_DEGREES,
+      east + SEARCH_MARGIN_DEGREES,
+      north + SEARCH_MARGIN_DEGREES
+    ], MAX_ROUTING_ROADS + 1);
+    if (roads.length > MAX_ROUTING_ROADS) {
+      return { error: 'There are too many roads around the waypoints to route at once, add the route in shorter parts' };
+    }
+
+    const graph = RoadGraph.fromRoads(roads);
+
+    const nodes: number[] = [];
+    for (const [index, waypoint] of waypoints.entries()) {
+      const node = graph.snap(waypoint, MAX_SNAP_DISTANCE_METERS);
+      if (node === null) {
+        return { error: `Waypoint ${index + 1} is more than ${MAX_SNAP_DISTANCE_METERS} m from a road` };
+      }
+      nodes.push(node);
+    }
+
+    const legs: GraphPath[] = [];
+    for (let i = 1; i < nodes.length; i++) {
+      const leg = graph.shortestPath(nodes[i - 1], nodes[i], preferences);
+      if (!leg) {
+        return { error: `No route found between waypoints ${i} and ${i + 1}` };
+      }
+      legs.push(leg);
+    }
+
+    const path = joinPaths(legs);
+    if (path.edges.length === 0) {
+      return { error: 'The waypoints are all on the same spot' };
+    }
+
+    const waypointDistances = [0];
+    for (const leg of legs) {
+      waypointDistances.push(waypointDistances[waypointDistances.length - 1] + leg.edges.reduce((sum, edge) => sum + edge.length, 0));
+    }
+
+    return {
+      route: await this.toRoute(name, graph, path),
+      waypoints: nodes.map(node => graph.coordinatesOf(node)),
+      waypointDistances
+    };
+  }
+
+  // The GPX has the path as a single track line, so the route is processed like any upload when the map is loaded again
+  private async toRoute(name: string, graph: RoadGraph, path: GraphPath) {
+    const gpxData = buildGpx({
+      name,
+      tracks: [{
+        name,
+        segments: [{
+          points: path.nodes.map(node => {
+            const [lon, lat] = graph.coordinatesOf(node);
+            return { lat, lon, ele: NaN };
+          })
+        }]
+      }],
+      pois: []
+    });
+
+    const route = await this.processor.processGpx(Buffer.from(gpxData), `${name}.gpx`);
+    return {
+      ...this.processor.applySurfaceSegments(route, graph.segmentsOf(path)),
+      // The road network has no elevations, a flat profile would show the route without climbing
+      elevationProfile: undefined
+    };
+  }
+}
@@ -0,0 +1,99 @@
+import { GpxProcessor } from '../../services/gpx-processor';
+import { ReportProgress, RouteProcessingQueue } from '../../services/route-processing-queue';
+import { buildRunSegments, buildSurfaceRuns } from '../../utils/gpx/surface';
+import type { ProcessedRoute, RouteProcessingJob, RouteSegment } from '../../types/gpx-types';
+import type { RouteDocument, RouteRepository, SurfaceDetector } from '../repositories/types';
+import { SurfaceCacheService } from './surface-cache-service';
+import { DEFAULT_MATCH_TOLERANCE_METERS } from './surface-service';
+
+/**
+ * RouteService handles uploaded route files.
+ * It provides functionality for:
+ * - Parsing route files and detecting the surface of each line against the road network
+ * - Reusing the surfaces detected for a route geometry seen before
+ * - Saving processed routes for the uploader
+ * - Processing uploads in the background with progress for status polling
+ */
+export class RouteService {
+  constructor(
+    private routes: RouteRepository,
+    private roads: SurfaceDetector,
+    private surfaceCache: SurfaceCacheService,
+    private queue = new RouteProcessingQueue()
+  ) {}
+
+  /**
+   * Parses a route file and detects surfaces, one query per continuous line so gaps are preserved.
+   * Routes already detected against the current road network are answered from the cache.
+   *
+   * @returns The processed route, or null if the file has no track lines
+   */
+  async process(file: Buffer, fileName: string, report: ReportProgress = () => {}): Promise<ProcessedRoute | null> {
+    report('parsing', 5);
+    const processor = new GpxProcessor();
+    const route = await processor.processGpx(file, fileName);
+    if (!route.segments.length) {
+      return null;
+    }
+
+    return this.surfaceCache.resolve(route, async () => {
+      // Surface detection is the slow part, so progress advances per line
+      report('surfaces', 20);
+      const surfaceSegments: RouteSegment[] = [];
+      for (const [index, segment] of route.segments.entries()) {
+        surfaceSegments.push(...await this.detectSegmentSurfaces(segment));
+        report('surfaces', 20 + (60 * (index + 1)) / route.segments.length);
+      }
+
+      report('elevation', 85);
+      return processor.applySurfaceSegments(route, surfaceSegments);
+    });
+  }
+
+  async save(route: ProcessedRoute, uploadedBy: string): Promise<RouteDocument & { _id: string }> {
+    const document: RouteDocument = {
+      ...route,
+      uploadedBy,
+      uploadedAt: new Date()
+    };
+
+    const routeId = await this.routes.create(document);
+    return { ...document, _id: routeId };
+  }
+
+  /**
+   * Queues a route file for processing and returns its job straight away.
+   */
+  enqueue(file: Buffer, fileName: string, uploadedBy: string): RouteProcessingJob {
+    return this.queue.enqueue(async (report) => {
+      const route = await this.process(file, fileName, report);
+      if (!route) {
+        throw new Error('Invalid GPX file format');
+      }
+
+      report('saving', 95);
+      const saved = await this.save(route, uploadedBy);
+      return saved._id;
+    }, uploadedBy);
+  }
+
+  /**
+   * Returns a job queued by the user, or undefined if it is unknown, has expired or belongs to someone else.
+   */
+  getJob(jobId: string, uploadedBy: string): RouteProcessingJob | undefined {
+    const job = this.queue.getJob(jobId);
+    return job?.uploadedBy === uploadedBy ? job : undefined;
+  }
+
+  getRoute(routeId: string, uploadedBy: string): Promise<RouteDocument | null> {
+    return this.routes.findByUploader(routeId, uploadedBy);
+  }
+
+  // Matches the whole line in one query; an undetected line is kept as-is rather than dropping part of the route
+  private async detectSegmentSurfaces(segment: RouteSegment): Promise<RouteSegment[]> {
+    const coordinates = segment.geometry.coordinates.map(([lon, lat]) => [lon, lat] as [number, number]);
+    const rows = await this.roads.matchLine(coordinates, DEFAULT_MATCH_TOLERANCE_METERS);
+    const detected = buildRunSegments(coordinates, buildSurfaceRuns(rows, DEFAULT_MATCH_TOLERANCE_METERS));
+    return detected.length > 0 ? detected : [segment];
+  }
+}
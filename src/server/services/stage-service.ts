@@ -0,0 +1,54 @@
+import { GpxExporter } from '../../services/gpx-exporter';
+import { StagePlanner, StagePlanResult } from '../../services/stage-planner';
+import type { RouteStage } from '../../types/gpx-types';
+import type { StagePlanRequest } from '../../types/api.types';
+import type { MapRepository } from '../repositories/types';
+
+/**
+ * StageService handles the stages of multi-day routes on saved maps.
+ * It provides functionality for:
+ * - Planning a map's stages and storing them with the map
+ * - Exporting a stage as its own GPX file
+ */
+export class StageService {
+  constructor(
+    private maps: MapRepository,
+    private planner = new StagePlanner(),
+    private exporter = new GpxExporter()
+  ) {}
+
+  async list(mapId: string, userId?: string): Promise<RouteStage[] | null> {
+    const map = await this.maps.findVisible(mapId, userId);
+    return map ? map.stages ?? [] : null;
+  }
+
+  /**
+   * Replaces the stages of a map the user owns.
+   *
+   * @returns The stored stages or why they could not be planned; null if the map does not exist or belongs to someone else
+   */
+  async plan(mapId: string, userId: string, { splits }: StagePlanRequest): Promise<StagePlanResult | null> {
+    const map = await this.maps.findOwned(mapId, userId);
+    if (!map) return null;
+
+    const stages = await this.planner.plan(map, splits);
+    if ('error' in stages) return stages;
+
+    return await this.maps.update(mapId, userId, { stages }) ? stages : null;
+  }
+
+  /**
+   * Builds a GPX file for one stage of a map the user owns or that is public.
+   *
+   * @returns The file name and contents, or null if the map is not visible to the user or has no such stage
+   */
+  async exportGpx(mapId: string, userId: string, stageNumber: number): Promise<{ fileName: string; gpx: string } | null> {
+    const map = await this.maps.findVisible(mapId, userId);
+    const stage = map?.stages?.find(candidate => candidate.number === stageNumber);
+    if (!map || !stage) return null;
+
+    const gpx = await this.exporter.exportStage({ ...map, routes: map.routes ?? [] }, stage);
+    const fileName = `${map.name || 'map'} stage ${stage.number}`.replace(/[^a-z0-9-_ ]/gi, '').trim();
+    return { fileName, gpx };
+  }
+}
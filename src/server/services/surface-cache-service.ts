@@ -0,0 +1,80 @@
+import { createHash } from 'crypto';
+import type { ProcessedRoute } from '../../types/gpx-types';
+import type { SurfaceCacheRepository, SurfaceDetector } from '../repositories/types';
+
+// Coordinates are rounded to this many decimal places before hashing, about a meter
+const COORDINATE_PRECISION = 5;
+
+const simplifyLine = (coordinates: [number, number][]): string[] =>
+  coordinates
+    .map(([lon, lat]) => `${lon.toFixed(COORDINATE_PRECISION)},${lat.toFixed(COORDINATE_PRECISION)}`)
+    .filter((point, i, points) => i === 0 || point !== points[i - 1]);
+
+/**
+ * Hashes the lines of a parsed route, before surfaces are detected. Points are rounded to about
+ * a meter and repeats dropped, so the same track saved again or exported by another app shares a key.
+ * Elevations are rounded to whole meters and hashed too, as the elevation profile is cached with the surfaces.
+ */
+export const hashRouteGeometry = (route: ProcessedRoute): string =>
+  createHash('sha256')
+    .update(JSON.stringify({
+      lines: route.segments.map(segment => simplifyLine(segment.geometry.coordinates)),
+      elevations: route.elevationProfile?.samples.map(sample => Math.round(sample.elevation)) ?? []
+    }))
+    .digest('hex');
+
+/**
+ * SurfaceCacheService keeps the surfaces and elevation profiles detected for routes.
+ * It provides functionality for:
+ * - Reusing the results for a route geometry seen before, e.g. each route of a saved map as it loads
+ * - Detecting again once the road network version changes
+ * - Forgetting every result when surface classifications are edited
+ */
+export class SurfaceCacheService {
+  constructor(
+    private cache: SurfaceCacheRepository,
+    private roads: SurfaceDetector,
+    private now = () => new Date()
+  ) {}
+
+  /**
+   * Returns a parsed route with its cached surfaces and elevation profile, or runs detect and caches what it returns.
+   * The version is read before detecting, so results overlapping a road network change are detected again next time.
+   * Without a road network version every route is detected and nothing is cached.
+   *
+   * @param route - The route as parsed, one unknown surface segment per line
+   * @param detect - Detects the surfaces of the route
+   */
+  async resolve(route: ProcessedRoute, detect: () => Promise<ProcessedRoute>): Promise<ProcessedRoute> {
+    const geometryHash = hashRouteGeometry(route);
+    const networkVersion = await this.roads.getNetworkVersion();
+    if (networkVersion === null) {
+      return detect();
+    }
+
+    const cached = await this.cache.find(geometryHash, networkVersion);
+    if (cached) {
+      return {
+        ...route,
+        segments: cached.segments,
+        geojson: cached.geojson,
+        elevationProfile: cached.elevationProfile
+      };
+    }
+
+    const detected = await detect();
+    await this.cache.save({
+      geometryHash,
+      networkVersion,
+      segments: detected.segments,
+      geojson: detected.geojson,
+      elevationProfile: detected.elevationProfile,
+      cachedAt: this.now()
+    });
+    return detected;
+  }
+
+  clear(): Promise<void> {
+    return this.cache.clear();
+  }
+}
@@ -0,0 +1,124 @@
+import { ObjectId } from 'mongodb';
+import { MapSummarizer } from '../../services/map-summary';
+import { StagePlanner } from '../../services/stage-planner';
+import { sliceRouteData } from '../../utils/gpx/surface';
+import type {
+  SurfaceCorrection,
+  SurfaceOverride,
+  SurfaceOverrideAuditEntry,
+  SurfaceOverrideRequest
+} from '../../types/api.types';
+import type {
+  MapDocument,
+  MapRepository,
+  SurfaceCorrectionDocument,
+  SurfaceCorrectionRepository
+} from '../repositories/types';
+
+export const toSurfaceCorrection = ({ _id, ...correction }: SurfaceCorrectionDocument): SurfaceCorrection => ({
+  ...correction,
+  id: String(_id)
+});
+
+/**
+ * SurfaceOverrideService handles surfaces set by hand on saved maps.
+ * It provides functionality for:
+ * - Adding and removing overrides, recording who changed what
+ * - Keeping the map's surface summary and stages in step with its overrides
+ * - Suggesting an override to editors as a correction to the road network
+ */
+export class SurfaceOverrideService {
+  constructor(
+    private maps: MapRepository,
+    private corrections: SurfaceCorrectionRepository,
+    private summarizer = new MapSummarizer(),
+    private now = () => new Date(),
+    private planner = new StagePlanner()
+  ) {}
+
+  async list(mapId: string, userId?: string): Promise<SurfaceOverride[] | null> {
+    const map = await this.maps.findVisible(mapId, userId);
+    return map ? map.surfaceOverrides ?? [] : null;
+  }
+
+  // The history is only shown to the owner, it names everyone who changed the map
+  async history(mapId: string, userId: string): Promise<SurfaceOverrideAuditEntry[] | null> {
+    const map = await this.maps.findOwned(mapId, userId);
+    return map ? map.surfaceOverrideAudit ?? [] : null;
+  }
+
+  /**
+   * Adds an override to a map the user owns, with a server generated id.
+   *
+   * @returns The stored override, and the id of the correction if one was suggested;
+   * null if the map does not exist or belongs to someone else
+   */
+  async add(
+    mapId: string,
+    userId: string,
+    { suggestCorrection, ...request }: SurfaceOverrideRequest
+  ): Promise<{ override: SurfaceOverride; correctionId?: string } | null> {
+    const map = await this.maps.findOwned(mapId, userId);
+    if (!map) return null;
+
+    const now = this.now();
+    const override: SurfaceOverride = {
+      id: new ObjectId().toHexString(),
+      startDistance: request.startDistance,
+      endDistance: request.endDistance,
+      surface: request.surface,
+      ...(request.note && { note: request.note }),
+      createdBy: userId,
+      createdAt: now
+    };
+
+    const audit: SurfaceOverrideAuditEntry = { action: 'added', override, changedBy: userId, changedAt: now };
+    if (!await this.maps.addSurfaceOverride(mapId, userId, override, audit)) return null;
+    await this.updateSummary(mapId, userId, map, [...(map.surfaceOverrides ?? []), override]);
+
+    const coordinates = suggestCorrection && map.routeData
+      ? sliceRouteData(map.routeData, override.startDistance, override.endDistance)
+      : [];
+    if (coordinates.length < 2) return { override };
+
+    const correctionId = await this.corrections.create({
+      mapId,
+      overrideId: override.id,
+      surface: override.surface,
+      ...(override.note && { note: override.note }),
+      coordinates,
+      suggestedBy: userId,
+      createdAt: now,
+      status: 'open'
+    });
+    return { override, correctionId };
+  }
+
+  /**
+   * Removes an override from a map the user owns. Corrections suggested from it stay open.
+   *
+   * @returns false if the map or the override does not exist, or the map belongs to someone else
+   */
+  async remove(mapId: string, userId: string, overrideId: string): Promise<boolean> {
+    const map = await this.maps.findOwned(mapId, userId);
+    const override = map?.surfaceOverrides?.find(existing => existing.id === overrideId);
+    if (!map || !override) return false;
+
+    const audit: SurfaceOverrideAuditEntry = { action: 'removed', override, changedBy: userId, changedAt: this.now() };
+    if (!await this.maps.removeSurfaceOverride(mapId, userId, overrideId, audit)) return false;
+
+    await this.updateSummary(
+      mapId,
+      userId,
+      map,
+      (map.surfaceOverrides ?? []).filter(existing => existing.id !== overrideId)
+    );
+    return true;
+  }
+
+  private async updateSummary(mapId: string, userId: string, map: MapDocument, surfaceOverrides: SurfaceOverride[]) {
+    const summary = await this.summarizer.summarize({ ...map, surfaceOverrides });
+    const stages = await this.planner.replan({ ...map, surfaceOverrides });
+    await this.maps.update(mapId, userId, { summary, ...(stages && { stages }) });
+  }
+}
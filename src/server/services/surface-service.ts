@@ -0,0 +1,31 @@
+import { buildSurfaceRuns } from '../../utils/gpx/surface';
+import type { SurfaceDetectionResponse } from '../../types/api.types';
+import type { SurfaceDetector } from '../repositories/types';
+
+// Roads further than this from a point are not considered to be under it, unless the request asks otherwise
+export const DEFAULT_MATCH_TOLERANCE_METERS = 10;
+
+/**
+ * SurfaceService snaps lines to the road network.
+ * It provides functionality for:
+ * - Splitting a line into runs of the same surface and highway class, with a match confidence
+ */
+export class SurfaceService {
+  constructor(private roads: SurfaceDetector) {}
+
+  /**
+   * Matches the whole line in a single query, however long it is.
+   */
+  async detectRuns(
+    coordinates: [number, number][],
+    toleranceMeters = DEFAULT_MATCH_TOLERANCE_METERS
+  ): Promise<SurfaceDetectionResponse> {
+    const rows = await this.roads.matchLine(coordinates, toleranceMeters);
+    const runs = buildSurfaceRuns(rows, toleranceMeters);
+
+    return {
+      distance: runs.length > 0 ? runs[runs.length - 1].endDistance : 0,
+      runs
+    };
+  }
+}
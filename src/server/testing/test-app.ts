@@ -0,0 +1,25 @@
+import { Express } from 'express';
+import { AppDependencies, createApp } from '../app';
+import { configureTestAuth } from './test-auth';
+import { loadServerConfig } from '../../config/server-config';
+
+/**
+ * Builds the app for integration tests over the given repositories, usually from createInMemoryRepositories.
+ * Users sign in with TEST_USER_HEADER and uploaded photos are kept nowhere.
+ *
+ * @param dependencies - Replace the test defaults, e.g. a photoStorage that records deleted files
+ */
+export const createTestApp = (
+  repositories: AppDependencies['repositories'],
+  dependencies: Partial<Omit<AppDependencies, 'repositories'>> = {}
+): Express =>
+  createApp({
+    config: loadServerConfig({ APP_ENV: 'test' }),
+    repositories,
+    photoStorage: {
+      uploadFile: async (file, folder) => `${folder}/${file.originalname}`,
+      deleteFile: async () => {}
+    },
+    configureAuth: configureTestAuth,
+    ...dependencies
+  });
@@ -0,0 +1,21 @@
+import { Express } from 'express';
+
+// Requests carrying this header are signed in as the user id it holds
+export const TEST_USER_HEADER = 'x-test-user';
+
+/**
+ * Stands in for Auth0 in tests, passed to createApp as configureAuth. Each
+ * signed in user gets its own session id, as Auth0 sessions have.
+ */
+export const configureTestAuth = (app: Express): void => {
+  app.use((req, _res, next) => {
+    const sub = req.header(TEST_USER_HEADER);
+    Object.assign(req, {
+      oidc: {
+        isAuthenticated: () => Boolean(sub),
+        user: sub ? { sub, sid: `session|${sub}`, name: 'Test Rider', email: 'rider@example.com', picture: '' } : undefined
+      }
+    });
+    next();
+  });
+};
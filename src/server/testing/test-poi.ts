@@ -0,0 +1,24 @@
+import { POI, POICategory } from '../../types/note-types';
+
+/**
+ * Builds a POI for tests, named after its id and created by 'auth0|owner' unless fields say otherwise.
+ *
+ * @param position - Longitude and latitude
+ */
+export const testPoi = (
+  id: string,
+  type: POI['type'],
+  category: POICategory,
+  [lon, lat]: [number, number],
+  fields: Partial<POI> = {}
+): POI => ({
+  id,
+  name: id,
+  type,
+  category,
+  location: { lat, lon },
+  createdBy: 'auth0|owner',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...fields
+});
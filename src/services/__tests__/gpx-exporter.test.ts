@@ -0,0 +1,143 @@
+import { GpxExporter, ExportableMap } from '../gpx-exporter';
+import { parseGpx } from '../../utils/gpx/parsing';
+import { routeDataLength } from '../../utils/gpx/surface';
+import { POICategory, InfrastructurePOIType } from '../../types/note-types';
+
+const storedGpx = `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="test" xmlns="http://www.topografix.com/GPX/1/1">
+  <trk>
+    <trkseg>
+      <trkpt lat="-42.1" lon="146.1"><ele>100</ele><time>2024-01-01T00:00:00Z</time></trkpt>
+      <trkpt lat="-42.2" lon="146.2"><ele>110</ele></trkpt>
+      <trkpt lat="-42.3" lon="146.3"><ele>120</ele></trkpt>
+    </trkseg>
+  </trk>
+</gpx>`;
+
+const createMap = (): ExportableMap => ({
+  name: 'Tassie <Gravel> & Co',
+  description: 'Three day loop',
+  updatedAt: '2024-02-01T00:00:00.000Z',
+  routes: [{ name: 'Day 1', gpxData: storedGpx }],
+  routeData: {
+    type: 'FeatureCollection',
+    features: [
+      {
+        type: 'Feature',
+        properties: { surface: 'paved' },
+        geometry: { type: 'LineString', coordinates: [[146.1, -42.1], [146.2, -42.2]] }
+      },
+      {
+        type: 'Feature',
+        properties: { surface: 'unpaved' },
+        geometry: { type: 'LineString', coordinates: [[146.2, -42.2], [146.3, -42.3]] }
+      }
+    ]
+  },
+  pois: [{
+    id: 'poi-1',
+    category: POICategory.Infrastructure,
+    type: InfrastructurePOIType.WaterPoint,
+    name: 'Tap',
+    location: { lat: -42.15, lon: 146.15 },
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    createdBy: 'user'
+  }]
+});
+
+describe('GpxExporter', () => {
+  let exporter: GpxExporter;
+
+  beforeEach(() => {
+    exporter = new GpxExporter();
+  });
+
+  it('should write metadata with escaped name and description', async () => {
+    const xml = await exporter.exportMap(createMap());
+
+    expect(xml).toContain('<gpx version="1.1"');
+    expect(xml).toContain('<name>Tassie &lt;Gravel&gt; &amp; Co</name>');
+    expect(xml).toContain('<desc>Three day loop</desc>');
+    expect(xml).toContain('<time>2024-02-01T00:00:00.000Z</time>');
+  });
+
+  it('should export POIs as waypoints with a device symbol', async () => {
+    const xml = await exporter.exportMap(createMap());
+    const gpx = await parseGpx(Buffer.from(xml));
+
+    expect(gpx.waypoints).toEqual([{
+      lat: -42.15,
+      lon: 146.15,
+      name: 'Tap',
+      sym: 'Drinking Water',
+      type: InfrastructurePOIType.WaterPoint
+    }]);
+  });
+
+  it('should split tracks into connected segments by surface', async () => {
+    const xml = await exporter.exportMap(createMap());
+    const gpx = await parseGpx(Buffer.from(xml));
+
+    const segments = gpx.tracks[0].segments;
+    expect(gpx.tracks[0].name).toBe('Day 1');
+    expect(segments).toHaveLength(2);
+    expect(segments[0].points.map(p => p.lat)).toEqual([-42.1, -42.2]);
+    expect(segments[1].points.map(p => p.lat)).toEqual([-42.2, -42.3]);
+    expect(segments[0].points[0]).toMatchObject({ ele: 100, timestamp: '2024-01-01T00:00:00Z' });
+    expect(xml.match(/<lutruwita:surface>(\w+)<\/lutruwita:surface>/g)).toEqual([
+      '<lutruwita:surface>paved</lutruwita:surface>',
+      '<lutruwita:surface>unpaved</lutruwita:surface>'
+    ]);
+  });
+
+  it('should match surfaces by distance along route data that follows other points', async () => {
+    // Road geometry with its own vertices, none of them a recorded point
+    const routeData: ExportableMap['routeData'] = {
+      type: 'FeatureCollection',
+      features: [
+        {
+          type: 'Feature',
+          properties: { surface: 'paved' },
+          geometry: { type: 'LineString', coordinates: [[146.1001, -42.1], [146.15, -42.1502], [146.2001, -42.2]] }
+        },
+        {
+          type: 'Feature',
+          properties: { surface: 'unpaved' },
+          geometry: { type: 'LineString', coordinates: [[146.2001, -42.2], [146.3001, -42.3]] }
+        }
+      ]
+    };
+
+    const xml = await exporter.exportMap({ ...createMap(), routeData });
+    const gpx = await parseGpx(Buffer.from(xml));
+
+    expect(gpx.tracks[0].segments.map(segment => segment.points.map(p => p.lat))).toEqual([[-42.1, -42.2], [-42.2, -42.3]]);
+  });
+
+  it('should export the surfaces set by hand over the detected ones', async () => {
+    const map = createMap();
+    const length = routeDataLength(map.routeData!);
+
+    // The second line, from the middle point on
+    const xml = await exporter.exportMap({
+      ...map,
+      surfaceOverrides: [{ startDistance: length / 2, endDistance: length, surface: 'sealed' }]
+    });
+
+    expect(xml.match(/<lutruwita:surface>(\w+)<\/lutruwita:surface>/g)).toEqual([
+      '<lutruwita:surface>paved</lutruwita:surface>',
+      '<lutruwita:surface>sealed</lutruwita:surface>'
+    ]);
+  });
+
+  it('should export a single segment when the map has no surface data', async () => {
+    const xml = await exporter.exportMap({ ...createMap(), routeData: undefined, pois: undefined });
+    const gpx = await parseGpx(Buffer.from(xml));
+
+    expect(gpx.tracks[0].segments).toHaveLength(1);
+    expect(gpx.tracks[0].segments[0].points).toHaveLength(3);
+    expect(gpx.waypoints).toEqual([]);
+    expect(xml).not.toContain('<extensions>');
+  });
+});
@@ -1,6 +1,7 @@
 import { GpxProcessor } from '../gpx-processor';
 import { parseGpx } from '../../utils/gpx/parsing';
-import { GpxPoint } from '../../types/gpx-types';
+import * as registry from '../../utils/gpx/registry';
+import { GpxPoint, ParsedGpx } from '../../types/gpx-types';
 import type { LineString } from 'geojson';
 
 // Mock the parseGpx function
@@ -12,11 +13,18 @@ describe('GpxProcessor', () => {
   
   // Sample GPX points for testing
   const samplePoints: GpxPoint[] = [
-    { lat: 0, lon: 0, ele: 100, surface: 'unpaved' },
-    { lat: 0, lon: 0.001, ele: 110, surface: 'unpaved' }, // ~111m east
-    { lat: 0.001, lon: 0.001, ele: 120, surface: 'unpaved' }, // ~111m north
+    { lat: 0, lon: 0, ele: 100, surface: 'unknown' },
+    { lat: 0, lon: 0.001, ele: 110, surface: 'unknown' }, // ~111m east
+    { lat: 0.001, lon: 0.001, ele: 120, surface: 'unknown' }, // ~111m north
   ];
 
+  // Parsed GPX with a single track containing the sample points
+  const sampleGpx: ParsedGpx = {
+    tracks: [{ name: 'Sample', segments: [{ points: samplePoints }] }],
+    routes: [],
+    waypoints: []
+  };
+
   beforeEach(() => {
     processor = new GpxProcessor();
     // Reset mock before each test
@@ -25,8 +33,8 @@ describe('GpxProcessor', () => {
 
   describe('processGpx', () => {
     it('should process a valid GPX file successfully', async () => {
-      // Mock the parseGpx function to return our sample points
-      mockedParseGpx.mockResolvedValue(samplePoints);
+      // Mock the parseGpx function to return our sample track
+      mockedParseGpx.mockResolvedValue(sampleGpx);
 
       const testBuffer = Buffer.from('dummy gpx content');
       const fileName = 'test-route.gpx';
@@ -46,7 +54,7 @@ describe('GpxProcessor', () => {
 
       // Verify segments
       expect(result.segments).toHaveLength(1);
-      expect(result.segments[0].surface).toBe('unpaved');
+      expect(result.segments[0].surface).toBe('unknown');
       
       // Verify GeoJSON
       expect(result.geojson).toBeDefined();
@@ -69,7 +77,7 @@ describe('GpxProcessor', () => {
     });
 
     it('should calculate correct total distance', async () => {
-      mockedParseGpx.mockResolvedValue(samplePoints);
+      mockedParseGpx.mockResolvedValue(sampleGpx);
 
       const testBuffer = Buffer.from('dummy gpx content');
       const fileName = 'test-route.gpx';
@@ -82,9 +90,80 @@ describe('GpxProcessor', () => {
     });
   });
 
+  describe('multiple tracks and segments', () => {
+    const dayOne: GpxPoint[] = [
+      { lat: 0, lon: 0, ele: 0 },
+      { lat: 0, lon: 0.001, ele: 0 }
+    ];
+    const dayTwo: GpxPoint[] = [
+      { lat: 1, lon: 1, ele: 0 },
+      { lat: 1, lon: 1.001, ele: 0 }
+    ];
+    const plannedRoute: GpxPoint[] = [
+      { lat: 2, lon: 2, ele: 0 },
+      { lat: 2, lon: 2.001, ele: 0 }
+    ];
+
+    it('should keep each track segment as a separate segment', async () => {
+      mockedParseGpx.mockResolvedValue({
+        tracks: [{ segments: [{ points: dayOne }, { points: dayTwo }] }],
+        routes: [],
+        waypoints: []
+      });
+
+      const result = await processor.processGpx(Buffer.from('dummy gpx content'), 'multi.gpx');
+
+      expect(result.segments).toHaveLength(2);
+      expect(result.geojson?.features).toHaveLength(2);
+      expect(result.segments[1].geometry.coordinates).toEqual([[1, 1], [1.001, 1]]);
+      // No distance is added for the jump between segments
+      result.segments.forEach(segment => expect(segment.distance).toBeLessThan(200));
+    });
+
+    it('should leave out planned routes when the file has tracks', async () => {
+      mockedParseGpx.mockResolvedValue({
+        tracks: [{ name: 'Day 1', segments: [{ points: dayOne }] }],
+        routes: [{ name: 'Day 1', points: dayOne }],
+        waypoints: []
+      });
+
+      const result = await processor.processGpx(Buffer.from('dummy gpx content'), 'exported.gpx');
+
+      expect(result.segments).toHaveLength(1);
+      expect(result.segments[0].distance).toBeCloseTo(111, -1);
+    });
+
+    it('should use the planned routes of a file without tracks', async () => {
+      mockedParseGpx.mockResolvedValue({
+        tracks: [{ segments: [{ points: [] }] }],
+        routes: [{ name: 'Planned', points: plannedRoute }],
+        waypoints: []
+      });
+
+      const result = await processor.processGpx(Buffer.from('dummy gpx content'), 'planned.gpx');
+
+      expect(result.segments).toHaveLength(1);
+      expect(result.segments[0].geometry.coordinates).toEqual([[2, 2], [2.001, 2]]);
+    });
+
+    it('should store the planned routes of other formats as GPX routes', async () => {
+      jest.spyOn(registry, 'parseRouteFile').mockResolvedValueOnce({
+        format: 'kml',
+        gpx: { tracks: [], routes: [{ name: 'Planned', points: plannedRoute }], waypoints: [] }
+      });
+      const { parseGpx: readGpx } = jest.requireActual<typeof import('../../utils/gpx/parsing')>('../../utils/gpx/parsing');
+
+      const result = await processor.processGpx(Buffer.from('dummy kml content'), 'planned.kml');
+      const stored = await readGpx(Buffer.from(result.gpxData));
+
+      expect(stored.tracks).toEqual([]);
+      expect(stored.routes).toEqual([{ name: 'Planned', points: plannedRoute.map(point => expect.objectContaining(point)) }]);
+    });
+  });
+
   describe('GeoJSON creation', () => {
     it('should create valid GeoJSON with correct properties', async () => {
-      mockedParseGpx.mockResolvedValue(samplePoints);
+      mockedParseGpx.mockResolvedValue(sampleGpx);
 
       const testBuffer = Buffer.from('dummy gpx content');
       const fileName = 'test-route.gpx';
@@ -97,7 +176,7 @@ describe('GpxProcessor', () => {
           {
             type: 'Feature',
             properties: {
-              surface: 'unpaved',
+              surface: 'unknown',
               segmentIndex: 0,
               distance: expect.any(Number)
             },
@@ -111,6 +190,93 @@ describe('GpxProcessor', () => {
     });
   });
 
+  describe('applySurfaceSegments', () => {
+    it('should replace segments and rebuild GeoJSON with surface properties', async () => {
+      mockedParseGpx.mockResolvedValue(sampleGpx);
+      const route = await processor.processGpx(Buffer.from('dummy gpx content'), 'test-route.gpx');
+
+      const result = processor.applySurfaceSegments(route, [
+        { surface: 'sealed', distance: 111, geometry: { type: 'LineString', coordinates: [[0, 0], [0.001, 0]] } },
+        { surface: 'loose_gravel', distance: 111, geometry: { type: 'LineString', coordinates: [[0.001, 0], [0.001, 0.001]] } }
+      ]);
+
+      expect(result.segments).toHaveLength(2);
+      expect(result.geojson?.features.map(f => f.properties?.surface)).toEqual(['sealed', 'loose_gravel']);
+      expect(result.geojson?.features[1].properties?.segmentIndex).toBe(1);
+      expect(result.elevationProfile?.samples.map(s => s.surface)).toEqual(['sealed', 'sealed', 'loose_gravel']);
+    });
+
+    it('should keep the original route when no segments are detected', async () => {
+      mockedParseGpx.mockResolvedValue(sampleGpx);
+      const route = await processor.processGpx(Buffer.from('dummy gpx content'), 'test-route.gpx');
+
+      expect(processor.applySurfaceSegments(route, [])).toBe(route);
+    });
+  });
+
+  describe('elevation profile', () => {
+    // A steady climb of 1m every ~11.1m (about 9%), 1.1km long
+    const climb: GpxPoint[] = Array.from({ length: 100 }, (_, i) => ({
+      lat: 0,
+      lon: i * 0.0001,
+      ele: 100 + i
+    }));
+
+    it('should compute cumulative distance, grade and elevation stats', async () => {
+      mockedParseGpx.mockResolvedValue({ tracks: [{ segments: [{ points: climb }] }], routes: [], waypoints: [] });
+
+      const { elevationProfile } = await processor.processGpx(Buffer.from('dummy gpx content'), 'climb.gpx');
+      const samples = elevationProfile!.samples;
+      const stats = elevationProfile!.stats;
+
+      expect(samples).toHaveLength(100);
+      expect(samples[0].distance).toBe(0);
+      expect(samples[99].distance).toBeCloseTo(1101, -1);
+      expect(samples[50].grade).toBeCloseTo(9, 0);
+      expect(samples[50]).toMatchObject({ lat: 0, lon: climb[50].lon, surface: 'unknown' });
+
+      expect(stats.totalDistance).toBeCloseTo(samples[99].distance);
+      expect(stats.totalAscent).toBeGreaterThan(90);
+      expect(stats.totalAscent).toBeLessThanOrEqual(99);
+      expect(stats.totalDescent).toBe(0);
+      expect(stats.minElevation).toBeGreaterThanOrEqual(100);
+      expect(stats.maxElevation).toBeLessThanOrEqual(199);
+      expect(stats.maxSustainedGrade).toBeCloseTo(9, 0);
+
+      // ~95m of climbing at 9% is a Cat 4 climb
+      expect(elevationProfile!.climbs).toHaveLength(1);
+      expect(elevationProfile!.climbs[0]).toMatchObject({ category: '4' });
+    });
+
+    it('should smooth out elevation noise', async () => {
+      // Flat road with the elevation jumping +-2m between every point
+      const noisy = climb.map((point, i) => ({ ...point, ele: 100 + (i % 2) * 2 }));
+      mockedParseGpx.mockResolvedValue({ tracks: [{ segments: [{ points: noisy }] }], routes: [], waypoints: [] });
+
+      const { elevationProfile } = await processor.processGpx(Buffer.from('dummy gpx content'), 'flat.gpx');
+
+      // Unsmoothed this would add up to ~100m of climbing
+      expect(elevationProfile!.stats.totalAscent).toBeLessThan(5);
+      expect(elevationProfile!.stats.maxSustainedGrade).toBeLessThan(1);
+    });
+
+    it('should not add distance or climbing across gaps between segments', async () => {
+      const first = climb.slice(0, 10);
+      const second = climb.slice(10, 20).map(point => ({ ...point, lat: 1, ele: point.ele + 500 }));
+      mockedParseGpx.mockResolvedValue({
+        tracks: [{ segments: [{ points: first }, { points: second }] }],
+        routes: [],
+        waypoints: []
+      });
+
+      const { elevationProfile } = await processor.processGpx(Buffer.from('dummy gpx content'), 'gap.gpx');
+      const samples = elevationProfile!.samples;
+
+      expect(samples[10].distance).toBeCloseTo(samples[9].distance);
+      expect(elevationProfile!.stats.totalAscent).toBeLessThan(20);
+    });
+  });
+
   describe('Error handling', () => {
     it('should handle null or undefined file buffer', async () => {
       const fileName = 'test.gpx';
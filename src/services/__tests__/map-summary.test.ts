@@ -0,0 +1,101 @@
+import { MapSummarizer } from '../map-summary';
+
+const gpx = (elevations: number[]) => `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="test" xmlns="http://www.topografix.com/GPX/1/1">
+  <trk>
+    <trkseg>
+      ${elevations.map((ele, i) => `<trkpt lat="-42" lon="${146 + i * 0.01}"><ele>${ele}</ele></trkpt>`).join('\n')}
+    </trkseg>
+  </trk>
+</gpx>`;
+
+describe('MapSummarizer', () => {
+  let summarizer: MapSummarizer;
+
+  beforeEach(() => {
+    summarizer = new MapSummarizer();
+  });
+
+  it('should sum distance and ascent over all routes', async () => {
+    const single = await summarizer.summarize({ routes: [{ name: 'Day 1', gpxData: gpx([100, 100, 100]) }] });
+    const summary = await summarizer.summarize({
+      routes: [
+        { name: 'Day 1', gpxData: gpx([100, 100, 100]) },
+        { name: 'Day 2', gpxData: gpx([100, 150, 200]) }
+      ]
+    });
+
+    // Two 0.01° steps of longitude at 42°S are roughly 1.65km
+    expect(single.distance).toBeGreaterThan(1600);
+    expect(single.distance).toBeLessThan(1700);
+    expect(summary.distance).toBeCloseTo(single.distance * 2, -1);
+    expect(summary.ascent).toBeGreaterThan(0);
+    expect(single.ascent).toBe(0);
+  });
+
+  it('should split distance by surface from the route data', async () => {
+    const summary = await summarizer.summarize({
+      routes: [],
+      routeData: {
+        type: 'FeatureCollection',
+        features: [
+          {
+            type: 'Feature',
+            properties: { surface: 'paved' },
+            geometry: { type: 'LineString', coordinates: [[146, -42], [146.01, -42]] }
+          },
+          {
+            type: 'Feature',
+            properties: { surface: 'unpaved' },
+            geometry: { type: 'LineString', coordinates: [[146.01, -42], [146.03, -42]] }
+          }
+        ]
+      }
+    });
+
+    expect(summary.distance).toBe(0);
+    expect(summary.unpavedDistance).toBeCloseTo(summary.pavedDistance * 2, -1);
+  });
+
+  it('should break distance down by surface type', async () => {
+    const summary = await summarizer.summarize({
+      routes: [],
+      routeData: {
+        type: 'FeatureCollection',
+        features: [
+          {
+            type: 'Feature',
+            properties: { surface: 'compacted_gravel' },
+            geometry: { type: 'LineString', coordinates: [[146, -42], [146.01, -42]] }
+          },
+          {
+            type: 'Feature',
+            properties: { surface: 'singletrack' },
+            geometry: { type: 'LineString', coordinates: [[146.01, -42], [146.02, -42]] }
+          }
+        ]
+      }
+    });
+
+    expect(summary.pavedDistance).toBe(0);
+    expect(summary.surfaceDistances).toEqual({
+      compacted_gravel: expect.any(Number),
+      singletrack: expect.any(Number)
+    });
+    expect(summary.unpavedDistance).toBeCloseTo(
+      summary.surfaceDistances!.compacted_gravel! + summary.surfaceDistances!.singletrack!,
+      -1
+    );
+  });
+
+  it('should skip routes that cannot be processed', async () => {
+    const summary = await summarizer.summarize({
+      routes: [
+        { name: 'Broken', gpxData: 'not a gpx file' },
+        { name: 'Day 1', gpxData: gpx([100, 100]) }
+      ]
+    });
+
+    expect(summary.distance).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,90 @@
+import { RouteProcessingQueue, ReportProgress } from '../route-processing-queue';
+import { RouteProcessingJob } from '../../types/gpx-types';
+
+/**
+ * Creates a task that waits until released, so tests can inspect a running job.
+ */
+const deferredTask = () => {
+  let release!: (routeId: string) => void;
+  let fail!: (error: Error) => void;
+  let report!: ReportProgress;
+  const done = new Promise<string>((resolve, reject) => {
+    release = resolve;
+    fail = reject;
+  });
+
+  return {
+    task: (reportProgress: ReportProgress) => {
+      report = reportProgress;
+      return done;
+    },
+    release: (routeId: string) => release(routeId),
+    fail: (error: Error) => fail(error),
+    report: (...args: Parameters<ReportProgress>) => report(...args)
+  };
+};
+
+const waitFor = async (queue: RouteProcessingQueue, jobId: string, status: RouteProcessingJob['status']) => {
+  for (let i = 0; i < 100; i++) {
+    if (queue.getJob(jobId)?.status === status) return queue.getJob(jobId)!;
+    await new Promise(resolve => setTimeout(resolve, 1));
+  }
+  throw new Error(`Job ${jobId} never reached ${status}`);
+};
+
+describe('RouteProcessingQueue', () => {
+  it('should return a queued job immediately and report progress while it runs', async () => {
+    const queue = new RouteProcessingQueue();
+    const { task, report, release } = deferredTask();
+
+    const job = queue.enqueue(task, 'auth0|test-user');
+    expect(job).toMatchObject({ status: 'queued', stage: 'queued', progress: 0 });
+
+    await waitFor(queue, job.id, 'processing');
+    report('surfaces', 42.4);
+    expect(queue.getJob(job.id)).toMatchObject({ status: 'processing', stage: 'surfaces', progress: 42 });
+
+    release('route-1');
+    expect(await waitFor(queue, job.id, 'completed')).toMatchObject({
+      stage: 'done',
+      progress: 100,
+      routeId: 'route-1'
+    });
+  });
+
+  it('should record the error of a failed job', async () => {
+    const queue = new RouteProcessingQueue();
+    const { task, report, fail } = deferredTask();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const job = queue.enqueue(task, 'auth0|test-user');
+    await waitFor(queue, job.id, 'processing');
+    report('parsing', 5);
+    fail(new Error('Invalid GPX file format'));
+
+    expect(await waitFor(queue, job.id, 'failed')).toMatchObject({
+      stage: 'parsing',
+      error: 'Invalid GPX file format'
+    });
+  });
+
+  it('should run at most the configured number of jobs at once', async () => {
+    const queue = new RouteProcessingQueue(1);
+    const first = deferredTask();
+    const second = deferredTask();
+
+    const firstJob = queue.enqueue(first.task, 'auth0|test-user');
+    const secondJob = queue.enqueue(second.task, 'auth0|test-user');
+    await waitFor(queue, firstJob.id, 'processing');
+    expect(queue.getJob(secondJob.id)?.status).toBe('queued');
+
+    first.release('route-1');
+    await waitFor(queue, secondJob.id, 'processing');
+    second.release('route-2');
+    expect((await waitFor(queue, secondJob.id, 'completed')).routeId).toBe('route-2');
+  });
+
+  it('should not find unknown jobs', () => {
+    expect(new RouteProcessingQueue().getJob('missing')).toBeUndefined();
+  });
+});
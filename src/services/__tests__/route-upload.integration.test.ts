@@ -1,60 +1,46 @@
+/**
+ * @jest-environment node
+ */
 import request from 'supertest';
 import fs from 'fs';
 import path from 'path';
-import { MongoClient } from 'mongodb';
-import { Pool } from 'pg';
-import { TestContext } from '../../types/test-types';
+import { Express } from 'express';
+import { createInMemoryRepositories } from '../../server/repositories/memory';
+import { createTestApp } from '../../server/testing/test-app';
+import { TEST_USER_HEADER } from '../../server/testing/test-auth';
+import { MAX_KML_SIZE } from '../../utils/gpx/kml';
 import { RouteUploadResponse } from '../../types/server';
 
 // File size limit from server configuration
 const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
 
-// Import app without starting the server
-import { app } from '../../../server.js';
+const TEST_USER = { sub: 'auth0|test-user' };
 
 describe('Route Upload Integration Tests', () => {
-  let testContext: TestContext;
-
-  beforeAll(async () => {
-    // Setup test database connections
-    const mongoClient = new MongoClient(process.env.VITE_MONGODB_URI);
-    await mongoClient.connect();
-
-    const pgPool = new Pool({
-      host: process.env.PG_HOST,
-      port: parseInt(process.env.PG_PORT, 10),
-      database: process.env.PG_DATABASE,
-      user: process.env.PG_USER,
-      password: process.env.PG_PASSWORD,
-      ssl: {
-        rejectUnauthorized: false
-      }
-    });
+  let repositories: ReturnType<typeof createInMemoryRepositories>;
+  let app: Express;
+  const gpxFile = fs.readFileSync(path.join(__dirname, '../../../uploads/1736662353807-164831248.gpx'));
 
-    testContext = { mongoClient, pgPool };
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
   });
 
-  afterAll(async () => {
-    // Clean up test data
-    const db = testContext.mongoClient.db('photoApp');
-    await db.collection('routes').deleteMany({
-      // Only delete test routes
-      name: { $regex: /^test-route/ }
-    });
-    
-    await testContext.mongoClient.close();
-    await testContext.pgPool.end();
+  beforeEach(() => {
+    repositories = createInMemoryRepositories();
+    app = createTestApp(repositories);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
   });
 
   describe('POST /api/routes', () => {
     it('should successfully process and store a valid GPX file', async () => {
-      // Read test GPX file
-      const gpxFile = fs.readFileSync(path.join(__dirname, '../../../uploads/1736662353807-164831248.gpx'));
-
       const response = await request(app)
         .post('/api/routes')
         .attach('gpx', gpxFile, 'test-route.gpx')
-        .set('Authorization', `Bearer ${process.env.TEST_AUTH_TOKEN}`);
+        .set(TEST_USER_HEADER, TEST_USER.sub);
 
       expect(response.status).toBe(200);
       const body = response.body as RouteUploadResponse;
@@ -63,61 +49,38 @@ describe('Route Upload Integration Tests', () => {
         route: {
           name: expect.any(String),
           segments: expect.any(Array),
-          geojson: {
-            type: 'FeatureCollection',
-            features: expect.any(Array)
-          },
-          surfaces: expect.arrayContaining([
-            expect.objectContaining({
-              surface: expect.any(String),
-              distance: expect.any(Number)
-            })
-          ])
+          uploadedBy: TEST_USER.sub
         }
       });
 
       // Verify route properties
       const processedRoute = body.route;
       expect(processedRoute.segments.length).toBeGreaterThan(0);
-      
-      // Check geojson if present
-      if (processedRoute.geojson) {
-        expect(processedRoute.geojson.features.length).toBeGreaterThan(0);
-      }
-      
-      // Check surfaces if present
-      if (processedRoute.surfaces) {
-        expect(processedRoute.surfaces.length).toBeGreaterThan(0);
-        processedRoute.surfaces.forEach(surface => {
-          expect(surface).toMatchObject({
-            surface: expect.any(String),
-            distance: expect.any(Number)
-          });
-        });
-      }
-
-      // Verify MongoDB storage
-      const db = testContext.mongoClient.db('photoApp');
-      const savedRoute = await db.collection('routes').findOne({
-        _id: body.routeId
+      processedRoute.segments.forEach(segment => {
+        expect(segment.surface).toEqual(expect.any(String));
       });
-      expect(savedRoute).toBeDefined();
-      if (!savedRoute) {
-        throw new Error('Route not found in database');
-      }
-      expect(savedRoute.segments).toHaveLength(body.route.segments.length);
-
-      // Verify surface detection results
-      if (body.route.surfaces) {
-        expect(body.route.surfaces).toEqual(
-          expect.arrayContaining([
-            expect.objectContaining({
-              surface: expect.any(String),
-              distance: expect.any(Number)
-            })
-          ])
-        );
-      }
+
+      // Verify storage
+      const savedRoute = await repositories.routes.findByUploader(String(body.routeId), TEST_USER.sub);
+      expect(savedRoute).not.toBeNull();
+      expect(savedRoute!.segments).toHaveLength(body.route.segments.length);
+    });
+
+    it('should use the surfaces found on the road network', async () => {
+      repositories.roads.lineMatches = [
+        { distance: 0, surface: 'gravel', highway: 'track', match_distance: 1 },
+        { distance: 1350, surface: 'gravel', highway: 'track', match_distance: 1 }
+      ];
+
+      const response = await request(app)
+        .post('/api/routes')
+        .attach('gpx', gpxFile, 'test-route.gpx')
+        .set(TEST_USER_HEADER, TEST_USER.sub);
+
+      expect(response.status).toBe(200);
+      const surfaces = (response.body as RouteUploadResponse).route.segments.map(segment => segment.surface);
+      expect(surfaces.length).toBeGreaterThan(0);
+      expect(surfaces.every(surface => surface === 'loose_gravel')).toBe(true);
     });
 
     it('should handle file size exceeding limit', async () => {
@@ -127,7 +90,7 @@ describe('Route Upload Integration Tests', () => {
       const response = await request(app)
         .post('/api/routes')
         .attach('gpx', largeFile, 'large-file.gpx')
-        .set('Authorization', `Bearer ${process.env.TEST_AUTH_TOKEN}`);
+        .set(TEST_USER_HEADER, TEST_USER.sub);
 
       expect(response.status).toBe(400);
       expect(response.body).toMatchObject({
@@ -141,7 +104,7 @@ describe('Route Upload Integration Tests', () => {
       const response = await request(app)
         .post('/api/routes')
         .attach('gpx', invalidFile, 'invalid.txt')
-        .set('Authorization', `Bearer ${process.env.TEST_AUTH_TOKEN}`);
+        .set(TEST_USER_HEADER, TEST_USER.sub);
 
       expect(response.status).toBe(400);
       expect(response.body).toMatchObject({
@@ -155,16 +118,45 @@ describe('Route Upload Integration Tests', () => {
       const response = await request(app)
         .post('/api/routes')
         .attach('gpx', invalidFile, 'invalid.gpx')
-        .set('Authorization', `Bearer ${process.env.TEST_AUTH_TOKEN}`);
+        .set(TEST_USER_HEADER, TEST_USER.sub);
 
       expect(response.status).toBe(500);
       expect(response.body).toHaveProperty('error');
+      expect(repositories.routes.routes.size).toBe(0);
+    });
+
+    it('should reject KMZ files holding more KML than the server will inflate', async () => {
+      const name = Buffer.from('doc.kml');
+      const local = Buffer.alloc(30);
+      local.writeUInt32LE(0x04034b50, 0);
+      local.writeUInt16LE(name.length, 26);
+      const central = Buffer.alloc(46);
+      central.writeUInt32LE(0x02014b50, 0);
+      central.writeUInt32LE(MAX_KML_SIZE + 1, 24);
+      central.writeUInt16LE(name.length, 28);
+      const end = Buffer.alloc(22);
+      end.writeUInt32LE(0x06054b50, 0);
+      end.writeUInt16LE(1, 10);
+      end.writeUInt32LE(central.length + name.length, 12);
+      end.writeUInt32LE(local.length + name.length, 16);
+      const kmzFile = Buffer.concat([local, name, central, name, end]);
+
+      const response = await request(app)
+        .post('/api/routes')
+        .attach('gpx', kmzFile, 'huge.kmz')
+        .set(TEST_USER_HEADER, TEST_USER.sub);
+
+      expect(response.status).toBe(400);
+      expect(response.body).toMatchObject({
+        error: expect.stringContaining('larger than')
+      });
+      expect(repositories.routes.routes.size).toBe(0);
     });
 
     it('should handle missing file in request', async () => {
       const response = await request(app)
         .post('/api/routes')
-        .set('Authorization', `Bearer ${process.env.TEST_AUTH_TOKEN}`);
+        .set(TEST_USER_HEADER, TEST_USER.sub);
 
       expect(response.status).toBe(400);
       expect(response.body).toMatchObject({
@@ -173,8 +165,6 @@ describe('Route Upload Integration Tests', () => {
     });
 
     it('should handle unauthorized requests', async () => {
-      const gpxFile = fs.readFileSync(path.join(__dirname, '../../../uploads/1736662353807-164831248.gpx'));
-
       const response = await request(app)
         .post('/api/routes')
         .attach('gpx', gpxFile, 'test-route.gpx');
@@ -182,22 +172,63 @@ describe('Route Upload Integration Tests', () => {
       expect(response.status).toBe(401);
     });
 
-    it('should handle database connection errors gracefully', async () => {
-      // Temporarily break database connection
-      await testContext.mongoClient.close();
-
-      const gpxFile = fs.readFileSync(path.join(__dirname, '../../../uploads/1736662353807-164831248.gpx'));
+    it('should handle database errors gracefully', async () => {
+      jest.spyOn(repositories.routes, 'create').mockRejectedValue(new Error('Connection closed'));
 
       const response = await request(app)
         .post('/api/routes')
         .attach('gpx', gpxFile, 'test-route.gpx')
-        .set('Authorization', `Bearer ${process.env.TEST_AUTH_TOKEN}`);
+        .set(TEST_USER_HEADER, TEST_USER.sub);
 
       expect(response.status).toBe(500);
-      expect(response.body).toHaveProperty('error');
+      expect(response.body).toEqual({ error: 'Connection closed' });
+    });
+  });
+
+  describe('POST /api/upload', () => {
+    it('should queue the file and report the saved route when processing completes', async () => {
+      const upload = await request(app)
+        .post('/api/upload')
+        .attach('gpx', gpxFile, 'test-route.gpx')
+        .set(TEST_USER_HEADER, TEST_USER.sub);
+
+      expect(upload.status).toBe(202);
+      expect(upload.body.statusUrl).toBe(`/api/routes/${upload.body.jobId}/status`);
 
-      // Restore connection for other tests
-      await testContext.mongoClient.connect();
+      const getStatus = async () => (await request(app).get(upload.body.statusUrl).set(TEST_USER_HEADER, TEST_USER.sub)).body;
+      let job = await getStatus();
+      for (let i = 0; i < 100 && job.status !== 'completed' && job.status !== 'failed'; i++) {
+        await new Promise(resolve => setTimeout(resolve, 10));
+        job = await getStatus();
+      }
+      expect(job).toMatchObject({ status: 'completed', progress: 100 });
+
+      const route = await request(app).get(`/api/routes/${job.routeId}`).set(TEST_USER_HEADER, TEST_USER.sub);
+      expect(route.status).toBe(200);
+      expect(route.body.uploadedBy).toBe(TEST_USER.sub);
+
+      const otherUsersRoute = await request(app).get(`/api/routes/${job.routeId}`).set(TEST_USER_HEADER, 'auth0|other-user');
+      expect(otherUsersRoute.status).toBe(404);
+      expect((await request(app).get(`/api/routes/${job.routeId}`)).status).toBe(401);
+    });
+
+    it('should only report a job to the user who queued it', async () => {
+      const upload = await request(app)
+        .post('/api/upload')
+        .attach('gpx', gpxFile, 'test-route.gpx')
+        .set(TEST_USER_HEADER, TEST_USER.sub);
+
+      const status = await request(app).get(upload.body.statusUrl).set(TEST_USER_HEADER, 'auth0|other-user');
+      expect(status.status).toBe(404);
+      expect((await request(app).get(upload.body.statusUrl)).status).toBe(401);
+    });
+
+    it('should reject uploads without a signed-in user', async () => {
+      const response = await request(app)
+        .post('/api/upload')
+        .attach('gpx', gpxFile, 'test-route.gpx');
+
+      expect(response.status).toBe(401);
     });
   });
 });
@@ -0,0 +1,47 @@
+import type { ApiTokenCreateRequest, ApiTokenCreateResponse, ApiTokenResponse } from '../types/api.types';
+import { API_BASE_URL } from '../config/client';
+
+const API_BASE = `${API_BASE_URL}/api/tokens`;
+
+// Personal API tokens for scripts; they can only be managed while signed in in the browser
+export const apiTokenService = {
+  async getTokens(): Promise<ApiTokenResponse[]> {
+    const response = await fetch(API_BASE, {
+      credentials: 'include'
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+    return response.json();
+  },
+
+  // The returned token value cannot be fetched again later
+  async createToken(request: ApiTokenCreateRequest): Promise<ApiTokenCreateResponse> {
+    const response = await fetch(API_BASE, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      credentials: 'include',
+      body: JSON.stringify(request)
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => null);
+      throw new Error(errorData?.error || `HTTP error! status: ${response.status}`);
+    }
+    return response.json();
+  },
+
+  async revokeToken(id: string): Promise<void> {
+    const response = await fetch(`${API_BASE}/${id}`, {
+      method: 'DELETE',
+      credentials: 'include'
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+  }
+};
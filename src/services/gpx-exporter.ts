@@ -0,0 +1,158 @@
+import { parseGpx } from '../utils/gpx/parsing';
+import { buildGpx, GpxExportSegment, GpxExportTrack } from '../utils/gpx/export';
+import { MAX_STAGE_POI_OFFSET_METERS, measureAlongRoute } from '../utils/gpx/stages';
+import { applySurfaceOverrides, createSurfaceLocator, locateOnRouteData, routeDataLength, SurfaceRange } from '../utils/gpx/surface';
+import { GpxPoint, RouteStage } from '../types/gpx-types';
+import { POI } from '../types/note-types';
+import type { FeatureCollection } from 'geojson';
+
+/**
+ * The parts of a saved map document needed to export it as GPX.
+ */
+export interface ExportableMap {
+  name: string;
+  description?: string;
+  updatedAt?: Date | string;
+  routes: Array<{
+    name: string;
+    gpxData: string;
+  }>;
+  routeData?: FeatureCollection;
+  surfaceOverrides?: SurfaceRange[];
+  pois?: POI[];
+}
+
+type MeasuredLine = Array<{ point: GpxPoint; distance: number }>;
+
+/**
+ * GpxExporter turns a saved map back into a clean GPX 1.1 file.
+ * It provides functionality for:
+ * - Re-reading each route's stored GPX data, keeping elevation and timestamps
+ * - Splitting tracks into segments by the surfaces of the map's route data, with overrides applied
+ * - Writing POIs as waypoints and the map name/description as metadata
+ * - Exporting a single stage of a multi-day route with the POIs along it
+ */
+export class GpxExporter {
+  /**
+   * Exports a saved map as a GPX document with one track per route.
+   *
+   * @param map - Saved map document
+   * @returns Promise resolving to the GPX 1.1 XML string
+   * @throws Error if a route's GPX data cannot be parsed
+   */
+  async exportMap(map: ExportableMap): Promise<string> {
+    const surfaceAt = this.createSurfaceLookup(map);
+
+    const routes: Array<{ name: string; lines: GpxPoint[][] }> = [];
+    for (const route of map.routes) {
+      if (route.gpxData) routes.push({ name: route.name, lines: await this.readLines(route.gpxData) });
+    }
+
+    // Routes are measured together, as the route data runs through all of them
+    const measured = this.measureLines(map, routes.flatMap(route => route.lines));
+    let next = 0;
+    const tracks: GpxExportTrack[] = routes.map(route => ({
+      name: route.name,
+      segments: measured.slice(next, next += route.lines.length).flatMap(line => this.splitBySurface(line, surfaceAt))
+    }));
+
+    return buildGpx({
+      name: map.name,
+      description: map.description,
+      time: map.updatedAt ? new Date(map.updatedAt) : undefined,
+      tracks,
+      pois: map.pois ?? []
+    });
+  }
+
+  /**
+   * Exports one stage of a map as a GPX document with a single track named after the stage.
+   * Track points are measured along the map's route data, as stages are, and the points just
+   * outside the stage are kept so consecutive stages join up.
+   *
+   * @param map - Saved map document
+   * @param stage - Stage to export
+   * @returns Promise resolving to the GPX 1.1 XML string
+   * @throws Error if a route's GPX data cannot be parsed
+   */
+  async exportStage(map: ExportableMap, stage: RouteStage): Promise<string> {
+    const surfaceAt = this.createSurfaceLookup(map);
+
+    const lines: GpxPoint[][] = [];
+    for (const route of map.routes) {
+      if (route.gpxData) lines.push(...await this.readLines(route.gpxData));
+    }
+
+    const stageLines = this.measureLines(map, lines).map(line => line
+      .filter(({ distance }, i) =>
+        (distance >= stage.startDistance || (line[i + 1]?.distance ?? -Infinity) > stage.startDistance) &&
+        (distance <= stage.endDistance || (line[i - 1]?.distance ?? Infinity) < stage.endDistance)));
+
+    return buildGpx({
+      name: `${map.name}: ${stage.name}`,
+      description: map.description,
+      time: map.updatedAt ? new Date(map.updatedAt) : undefined,
+      tracks: [{
+        name: stage.name,
+        segments: stageLines.flatMap(line => this.splitBySurface(line, surfaceAt))
+      }],
+      pois: (map.pois ?? []).filter(poi => {
+        const located = map.routeData && locateOnRouteData(map.routeData, [poi.location.lon, poi.location.lat]);
+        return located !== undefined &&
+          located.offset <= MAX_STAGE_POI_OFFSET_METERS &&
+          located.distance >= stage.startDistance &&
+          located.distance <= stage.endDistance;
+      })
+    });
+  }
+
+  // Every track segment of a stored GPX document as a continuous line, or its planned routes
+  // if it has no tracks, as routes are read on upload
+  private async readLines(gpxData: string): Promise<GpxPoint[][]> {
+    const gpx = await parseGpx(Buffer.from(gpxData));
+    const trackLines = gpx.tracks
+      .flatMap(track => track.segments.map(segment => segment.points))
+      .filter(points => points.length > 0);
+    return trackLines.length > 0 ? trackLines : gpx.routes.map(gpxRoute => gpxRoute.points);
+  }
+
+  // Gives every point its distance along the map's route data, the measure surfaces and stages use
+  private measureLines(map: ExportableMap, lines: GpxPoint[][]): MeasuredLine[] {
+    return measureAlongRoute(lines, map.routeData ? routeDataLength(map.routeData) : 0);
+  }
+
+  /**
+   * Looks up the surface at a distance along the map's route data, with its surface overrides applied.
+   * Route data may follow the road network rather than the recorded points, so surfaces are
+   * matched by distance along the route rather than by coordinates.
+   */
+  private createSurfaceLookup(map: ExportableMap): (distance: number) => string | undefined {
+    if (!map.routeData) return () => undefined;
+    return createSurfaceLocator(applySurfaceOverrides(map.routeData, map.surfaceOverrides ?? []));
+  }
+
+  /**
+   * Splits a continuous line into segments wherever the surface changes.
+   * Each point takes the surface halfway along the step that leads to it, and the
+   * boundary point is repeated so consecutive segments stay connected.
+   */
+  private splitBySurface(line: MeasuredLine, surfaceAt: (distance: number) => string | undefined): GpxExportSegment[] {
+    const segments: GpxExportSegment[] = [];
+
+    line.forEach(({ point, distance }, i) => {
+      const current: GpxExportSegment | undefined = segments[segments.length - 1];
+      const surface = surfaceAt(i > 0 ? (line[i - 1].distance + distance) / 2 : distance) ?? current?.surface;
+
+      if (!current) {
+        segments.push({ surface, points: [point] });
+      } else if (surface !== current.surface) {
+        const previous = current.points[current.points.length - 1];
+        segments.push({ surface, points: [previous, point] });
+      } else {
+        current.points.push(point);
+      }
+    });
+
+    return segments;
+  }
+}
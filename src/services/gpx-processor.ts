@@ -1,61 +1,330 @@
-import { parseGpx } from '../utils/gpx/parsing';
-import { ProcessedRoute, GpxPoint, RouteSegment } from '../types/gpx-types';
+import { parseRouteFile, SUPPORTED_ROUTE_EXTENSIONS } from '../utils/gpx/registry';
+import { buildGpx } from '../utils/gpx/export';
+import { detectClimbs } from '../utils/gpx/climbs';
+import { KmzTooLargeError } from '../utils/gpx/kml';
+import {
+  ProcessedRoute,
+  GpxPoint,
+  RouteSegment,
+  ParsedGpx,
+  RouteFileFormat,
+  ElevationSample,
+  RouteElevationProfile
+} from '../types/gpx-types';
 import { v4 as uuidv4 } from 'uuid';
 import type { Feature, FeatureCollection } from 'geojson';
 
+// Distance in meters over which elevation is averaged to remove GPS/barometer noise
+const ELEVATION_SMOOTHING_WINDOW = 100;
+
+// Elevation change in meters required before it counts towards ascent/descent,
+// so small oscillations left after smoothing are ignored
+const ELEVATION_CHANGE_THRESHOLD = 1;
+
+// Minimum distance in meters a grade must be held to count as the max sustained grade
+const SUSTAINED_GRADE_DISTANCE = 500;
+
 /**
  * GpxProcessor handles the processing of GPX files into a standardized route format.
  * It provides functionality for:
- * - Parsing GPX files into points
+ * - Parsing GPX, TCX, FIT, KML and KMZ files into tracks, track segments and routes
  * - Calculating distances between points
+ * - Computing elevation profiles with smoothed elevation, grade and ascent/descent
+ * - Detecting and categorising climbs
  * - Creating GeoJSON representations of routes
  * - Managing route segments with surface information
  */
 export class GpxProcessor {
   /**
-   * Processes a GPX file and converts it into a standardized route format.
+   * Processes a route file and converts it into a standardized route format.
+   * All tracks and track segments in the file are combined into a single route, with each
+   * continuous line kept as its own segment so gaps are not bridged. Planned routes (<rte>)
+   * are only used when the file has no tracks, as apps often export a route beside the
+   * track it was ridden as, which would count the same ride twice.
+   * The file format is detected from its content; non-GPX files are stored as GPX.
    * 
-   * @param file - Buffer containing the GPX file data
-   * @param fileName - Name of the GPX file (used for route naming)
+   * @param file - Buffer containing the GPX, TCX, FIT, KML or KMZ file data
+   * @param fileName - Name of the file (used for route naming)
    * @returns Promise resolving to a ProcessedRoute object containing route data and GeoJSON
+   * @throws KmzTooLargeError if a KMZ file holds more KML than MAX_KML_SIZE
    * @throws Error if GPX processing fails
    */
   async processGpx(file: Buffer, fileName: string): Promise<ProcessedRoute> {
     try {
-      // Parse GPX file
-      const points = await parseGpx(file);
-      
-      // Create initial segment with geometry
-      const initialSegment: RouteSegment = {
-        surface: 'unpaved', // Default surface type
+      // Parse route file in whichever format it was uploaded
+      const { format, gpx } = await parseRouteFile(file, fileName);
+      const baseName = this.getBaseName(fileName);
+
+      // Every track segment, or planned route without tracks, becomes its own line so gaps are preserved
+      const trackLines = gpx.tracks
+        .flatMap(track => track.segments.map(segment => segment.points))
+        .filter(points => points.length > 0);
+      const lines = trackLines.length > 0 ? trackLines : gpx.routes.map(route => route.points);
+
+      return {
+        ...this.createRoute(this.toGpxData(file, format, gpx, baseName), baseName, lines),
+        waypoints: gpx.waypoints
+      };
+    } catch (error) {
+      if (error instanceof KmzTooLargeError) {
+        throw error;
+      }
+      if (error instanceof Error) {
+        throw new Error(`GPX processing failed: ${error.message}`);
+      }
+      throw new Error('GPX processing failed: Unknown error');
+    }
+  }
+
+  /**
+   * Replaces the default segment of a processed route with surface-specific segments
+   * and regenerates the GeoJSON so each section renders with its own surface.
+   *
+   * @param route - Route returned by processGpx
+   * @param segments - Ordered surface segments, e.g. from buildRunSegments
+   * @returns New ProcessedRoute with updated segments and GeoJSON, or the original route if no segments were given
+   */
+  applySurfaceSegments(route: ProcessedRoute, segments: RouteSegment[]): ProcessedRoute {
+    if (segments.length === 0) {
+      return route;
+    }
+
+    return {
+      ...route,
+      segments,
+      geojson: this.createGeoJSON(segments),
+      elevationProfile: route.elevationProfile && this.applySurfacesToProfile(route.elevationProfile, segments)
+    };
+  }
+
+  /**
+   * Builds a ProcessedRoute from separate point lines, one segment per line.
+   *
+   * @param gpxData - GPX document stored with the route
+   * @param name - Display name of the route
+   * @param lines - Continuous runs of points; empty runs are skipped
+   * @returns ProcessedRoute with one default-surface segment per line
+   * @throws Error if no line contains any points
+   */
+  private createRoute(gpxData: string, name: string, lines: GpxPoint[][]): ProcessedRoute {
+    // Create one segment per continuous line with geometry
+    const segments = lines
+      .filter(points => points.length > 0)
+      .map((points): RouteSegment => ({
+        surface: 'unknown', // Default surface type
         distance: this.calculateTotalDistance(points),
         geometry: {
           type: 'LineString',
           coordinates: points.map(point => [point.lon, point.lat])
         }
-      };
+      }));
 
-      // Create GeoJSON feature collection
-      const geojson = this.createGeoJSON([initialSegment]);
-      
-      // Create processed route
-      const processedRoute: ProcessedRoute = {
-        id: uuidv4(),
-        name: fileName.replace(/\.gpx$/i, ''),
-        color: '#FF5733', // Default color
-        isVisible: true,
-        gpxData: file.toString('utf-8'),
-        segments: [initialSegment],
-        geojson
-      };
+    if (segments.length === 0) {
+      throw new Error('No track or route points found');
+    }
 
-      return processedRoute;
-    } catch (error) {
-      if (error instanceof Error) {
-        throw new Error(`GPX processing failed: ${error.message}`);
+    return {
+      id: uuidv4(),
+      name,
+      color: '#FF5733', // Default color
+      isVisible: true,
+      gpxData,
+      segments,
+      geojson: this.createGeoJSON(segments),
+      elevationProfile: this.createElevationProfile(lines)
+    };
+  }
+
+  /**
+   * Computes the elevation profile of a route.
+   * Distance accumulates along each line; gaps between lines add no distance,
+   * ascent or descent. Elevation is smoothed before grades and totals are derived,
+   * and ascent/descent only count changes of at least ELEVATION_CHANGE_THRESHOLD,
+   * so recording noise does not inflate the climbing.
+   *
+   * @param lines - Continuous runs of points, in route order
+   * @returns Profile samples, one per point, summary statistics and detected climbs
+   */
+  private createElevationProfile(lines: GpxPoint[][]): RouteElevationProfile {
+    const samples: ElevationSample[] = [];
+    let totalAscent = 0;
+    let totalDescent = 0;
+    let offset = 0;
+
+    for (const points of lines.filter(line => line.length > 0)) {
+      const distances = [0];
+      for (let i = 1; i < points.length; i++) {
+        distances.push(distances[i - 1] + this.calculateDistance(points[i - 1], points[i]));
       }
-      throw new Error('GPX processing failed: Unknown error');
+      const elevations = this.smoothElevations(points.map(point => point.ele), distances);
+      let reference = elevations[0];
+
+      points.forEach((point, i) => {
+        // Central difference over the neighbouring samples
+        const prev = Math.max(0, i - 1);
+        const next = Math.min(points.length - 1, i + 1);
+        const run = distances[next] - distances[prev];
+        const grade = run > 0 ? ((elevations[next] - elevations[prev]) / run) * 100 : 0;
+
+        const delta = elevations[i] - reference;
+        if (Math.abs(delta) >= ELEVATION_CHANGE_THRESHOLD) {
+          if (delta > 0) totalAscent += delta;
+          else totalDescent -= delta;
+          reference = elevations[i];
+        }
+
+        samples.push({
+          distance: offset + distances[i],
+          elevation: elevations[i],
+          grade: Math.round(grade * 10) / 10,
+          surface: point.surface ?? 'unknown',
+          lat: point.lat,
+          lon: point.lon
+        });
+      });
+
+      offset += distances[distances.length - 1];
     }
+
+    const elevations = samples.map(sample => sample.elevation);
+
+    return {
+      samples,
+      stats: {
+        totalDistance: offset,
+        totalAscent: Math.round(totalAscent),
+        totalDescent: Math.round(totalDescent),
+        // Reduce rather than spread, long routes exceed the argument limit of Math.max
+        maxElevation: elevations.length ? elevations.reduce((a, b) => Math.max(a, b)) : 0,
+        minElevation: elevations.length ? elevations.reduce((a, b) => Math.min(a, b)) : 0,
+        maxSustainedGrade: this.calculateMaxSustainedGrade(lines, samples)
+      },
+      climbs: detectClimbs(samples)
+    };
+  }
+
+  /**
+   * Smooths elevations with a moving average over a fixed distance window
+   * centred on each point, so the result does not depend on the sampling rate.
+   *
+   * @param elevations - Raw elevations in meters
+   * @param distances - Cumulative distance of each point along its line
+   * @returns Smoothed elevations rounded to 0.1 m
+   */
+  private smoothElevations(elevations: number[], distances: number[]): number[] {
+    const half = ELEVATION_SMOOTHING_WINDOW / 2;
+    const smoothed: number[] = [];
+    let start = 0;
+    let end = 0;
+    let sum = 0;
+
+    for (let i = 0; i < elevations.length; i++) {
+      while (end < elevations.length && distances[end] - distances[i] <= half) {
+        sum += elevations[end++];
+      }
+      while (distances[i] - distances[start] > half) {
+        sum -= elevations[start++];
+      }
+      smoothed.push(Math.round((sum / (end - start)) * 10) / 10);
+    }
+
+    return smoothed;
+  }
+
+  /**
+   * Finds the steepest average uphill grade held over at least SUSTAINED_GRADE_DISTANCE.
+   * Stretches never cross a gap between lines. Lines shorter than the sustained
+   * distance are measured over their full length.
+   *
+   * @param lines - Continuous runs of points used to build the samples
+   * @param samples - Profile samples in the same order as the line points
+   * @returns Max sustained grade in percent, or 0 for flat or downhill routes
+   */
+  private calculateMaxSustainedGrade(lines: GpxPoint[][], samples: ElevationSample[]): number {
+    let maxGrade = 0;
+    let lineStart = 0;
+
+    for (const points of lines.filter(line => line.length > 0)) {
+      const line = samples.slice(lineStart, lineStart + points.length);
+      lineStart += points.length;
+
+      const length = line[line.length - 1].distance - line[0].distance;
+      const window = Math.min(SUSTAINED_GRADE_DISTANCE, length);
+      if (window <= 0) continue;
+
+      let end = 0;
+      for (let i = 0; i < line.length; i++) {
+        while (end < line.length && line[end].distance - line[i].distance < window) end++;
+        if (end === line.length) break;
+
+        const run = line[end].distance - line[i].distance;
+        maxGrade = Math.max(maxGrade, ((line[end].elevation - line[i].elevation) / run) * 100);
+      }
+    }
+
+    return Math.round(maxGrade * 10) / 10;
+  }
+
+  /**
+   * Sets the surface of each profile sample from the detected surface segments.
+   * Segment lengths come from the road network rather than the recorded points,
+   * so positions are matched proportionally along the route.
+   *
+   * @param profile - Existing elevation profile
+   * @param segments - Ordered surface segments covering the route
+   * @returns Profile with updated sample surfaces
+   */
+  private applySurfacesToProfile(profile: RouteElevationProfile, segments: RouteSegment[]): RouteElevationProfile {
+    const segmentTotal = segments.reduce((sum, segment) => sum + segment.distance, 0);
+    const profileTotal = profile.stats.totalDistance;
+    if (segmentTotal <= 0 || profileTotal <= 0) {
+      return profile;
+    }
+
+    let segmentIdx = 0;
+    let segmentEnd = segments[0].distance;
+
+    const samples = profile.samples.map(sample => {
+      const position = (sample.distance / profileTotal) * segmentTotal;
+      while (position > segmentEnd && segmentIdx < segments.length - 1) {
+        segmentEnd += segments[++segmentIdx].distance;
+      }
+      return { ...sample, surface: segments[segmentIdx].surface };
+    });
+
+    return { ...profile, samples };
+  }
+
+  /**
+   * Returns the GPX document stored with a route. GPX files are kept as uploaded,
+   * other formats are converted so saved maps and exports always hold GPX.
+   * Planned routes stay <rte> elements, so reading the GPX back gives the same geometry.
+   */
+  private toGpxData(file: Buffer, format: RouteFileFormat, gpx: ParsedGpx, name: string): string {
+    if (format === 'gpx') {
+      return file.toString('utf-8');
+    }
+
+    return buildGpx({
+      name,
+      routes: gpx.routes.map(route => ({
+        name: route.name || name,
+        points: route.points
+      })),
+      tracks: gpx.tracks.map((track, idx) => ({
+        name: track.name || (gpx.tracks.length > 1 ? `${name} ${idx + 1}` : name),
+        segments: track.segments
+      })),
+      pois: []
+    });
+  }
+
+  /**
+   * Strips a supported route file extension from a file name for use as a route name.
+   */
+  private getBaseName(fileName: string): string {
+    const extension = SUPPORTED_ROUTE_EXTENSIONS.find(ext => fileName.toLowerCase().endsWith(ext));
+    return extension ? fileName.slice(0, -extension.length) : fileName;
   }
 
   /**
@@ -105,7 +374,7 @@ export class GpxProcessor {
    * @param point2 - Second GPX point
    * @returns Distance between points in meters
    */
-  private calculateDistance(point1: GpxPoint, point2: GpxPoint): number {
+  calculateDistance(point1: Pick<GpxPoint, 'lat' | 'lon'>, point2: Pick<GpxPoint, 'lat' | 'lon'>): number {
     const R = 6371e3; // Earth's radius in meters
     const φ1 = (point1.lat * Math.PI) / 180;
     const φ2 = (point2.lat * Math.PI) / 180;
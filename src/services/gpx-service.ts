@@ -1,12 +1,15 @@
-import { ProcessedRoute, GpxPoint } from '../types';
-import { parseGpx } from '../utils/gpx/parsing';
+import { ProcessedRoute, GpxPoint, RouteProcessingJob } from '../types';
+import type { RouteBuildRequest, RouteBuildResponse } from '../types/api.types';
+import { flattenGpxPoints } from '../utils/gpx/parsing';
+import { parseRouteFile } from '../utils/gpx/registry';
 
-const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3001';
+import { API_BASE_URL } from '../config/client';
 
 export class GpxService {
+    // Queues a route file for processing on the server, poll getRouteStatus with the job id
     static async uploadGpxFile(file: File): Promise<{
         success: boolean;
-        path?: string;
+        jobId?: string;
         error?: string;
     }> {
         try {
@@ -15,17 +18,19 @@ export class GpxService {
 
             const response = await fetch(`${API_BASE_URL}/api/upload`, {
                 method: 'POST',
-                body: formData
+                body: formData,
+                credentials: 'include'
             });
 
             if (!response.ok) {
-                throw new Error('Upload failed');
+                const data = await response.json().catch(() => null);
+                throw new Error(data?.error || 'Upload failed');
             }
 
             const data = await response.json();
             return {
                 success: true,
-                path: data.path
+                jobId: data.jobId
             };
         } catch (error) {
             console.error('Upload error:', error);
@@ -36,29 +41,32 @@ export class GpxService {
         }
     }
 
-    static async parseGpxContent(content: string): Promise<GpxPoint[]> {
+    static async parseGpxContent(content: string | Buffer, fileName?: string): Promise<GpxPoint[]> {
         try {
-            return await parseGpx(Buffer.from(content));
+            const { gpx } = await parseRouteFile(Buffer.from(content), fileName);
+            return flattenGpxPoints(gpx);
         } catch (error) {
             console.error('Parse error:', error);
             throw new Error('Failed to parse GPX content');
         }
     }
 
-    static async getRouteStatus(routeId: string): Promise<{
+    static async getRouteStatus(jobId: string): Promise<{
         success: boolean;
-        status?: string;
+        job?: RouteProcessingJob;
         error?: string;
     }> {
         try {
-            const response = await fetch(`${API_BASE_URL}/api/routes/${routeId}/status`);
+            const response = await fetch(`${API_BASE_URL}/api/routes/${jobId}/status`, {
+                credentials: 'include'
+            });
             if (!response.ok) {
                 throw new Error('Failed to get route status');
             }
-            const data = await response.json();
+            const job = await response.json();
             return {
                 success: true,
-                status: data.status
+                job
             };
         } catch (error) {
             return {
@@ -74,7 +82,9 @@ export class GpxService {
         error?: string;
     }> {
         try {
-            const response = await fetch(`${API_BASE_URL}/api/routes/${routeId}`);
+            const response = await fetch(`${API_BASE_URL}/api/routes/${routeId}`, {
+                credentials: 'include'
+            });
             if (!response.ok) {
                 throw new Error('Failed to get route');
             }
@@ -90,4 +100,33 @@ export class GpxService {
             };
         }
     }
+
+    // Routes drawn waypoints over the road network; the route is not saved until its map is
+    static async buildRoute(request: RouteBuildRequest): Promise<{
+        success: boolean;
+        result?: RouteBuildResponse;
+        error?: string;
+    }> {
+        try {
+            const response = await fetch(`${API_BASE_URL}/api/routes/build`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(request),
+                credentials: 'include'
+            });
+            const data = await response.json().catch(() => null);
+            if (!response.ok) {
+                throw new Error(data?.error || 'Failed to build route');
+            }
+            return {
+                success: true,
+                result: data
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Failed to build route'
+            };
+        }
+    }
 }
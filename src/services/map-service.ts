@@ -1,51 +1,34 @@
-import { SavedMap } from '../types/map-types';
-
-interface CreateMapData {
-  name: string;
-  description: string;
-  isPublic: boolean;
-  viewState: {
-    center: [number, number];
-    zoom: number;
-    pitch: number;
-    bearing: number;
-  };
-  mapStyle: string;
-  routes: Array<{
-    id: string;
-    name: string;
-    color: string;
-    isVisible: boolean;
-    gpxData: string;
-  }>;
-  photos: Array<{
-    id: string;
-    url: string;
-    caption?: string;
-    longitude: number;
-    latitude: number;
-  }>;
-  routeData: {
-    type: 'FeatureCollection';
-    features: Array<{
-      type: 'Feature';
-      properties: {
-        surface: string;
-        segmentIndex: number;
-      };
-      geometry: {
-        type: 'LineString';
-        coordinates: number[][];
-      };
-    }>;
-  };
-}
-
-const API_BASE = 'http://localhost:3001/api';
+import { POI } from '../types/note-types';
+import type {
+  MapCreateRequest,
+  MapUpdateRequest,
+  POIRequest,
+  POIUpdateRequest,
+  PublicMapSort,
+  PublicMapsResponse,
+  SurfaceOverride,
+  SurfaceOverrideAuditEntry,
+  SurfaceOverrideRequest,
+  StagePlanRequest
+} from '../types/api.types';
+import type { RouteStage } from '../types/gpx-types';
+import { API_BASE_URL } from '../config/client';
+
+const API_BASE = `${API_BASE_URL}/api`;
+
+// Rejected request bodies list each invalid field, e.g. "Invalid request: name is required"
+const describeError = (
+  errorData: { error?: string; message?: string; fields?: Array<{ field: string; message: string }> } | null,
+  status: number
+): string => {
+  const message = errorData?.error || errorData?.message || `HTTP error! status: ${status}`;
+  if (!errorData?.fields?.length) return message;
+  return `${message}: ${errorData.fields.map(({ field, message }) => `${field} ${message}`).join(', ')}`;
+};
 
 export const mapService = {
   // Create new map
-  async createMap(mapData: CreateMapData) {
+  async createMap(mapData: MapCreateRequest) {
     try {
       console.log('Creating map with data:', mapData); // Debug log
       
@@ -60,7 +43,7 @@ export const mapService = {
       
       if (!response.ok) {
         const errorData = await response.json().catch(() => null);
-        throw new Error(errorData?.message || `HTTP error! status: ${response.status}`);
+        throw new Error(describeError(errorData, response.status));
       }
 
       const responseData = await response.json();
@@ -89,6 +72,21 @@ export const mapService = {
     return response.json();
   },
 
+  // Fetch one page of public maps for the Explore gallery
+  async getPublicMaps(
+    { page = 1, limit = 12, sort = 'newest' }: { page?: number; limit?: number; sort?: PublicMapSort } = {}
+  ): Promise<PublicMapsResponse> {
+    const params = new URLSearchParams({ page: String(page), limit: String(limit), sort });
+    const response = await fetch(`${API_BASE}/maps/public?${params}`, {
+      credentials: 'include'
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+    return response.json();
+  },
+
   async getMap(id: string) {
     const response = await fetch(`${API_BASE}/maps/${id}`, {
       credentials: 'include'
@@ -100,7 +98,7 @@ export const mapService = {
     return response.json();
   },
 
-  async updateMap(id: string, mapData: Partial<SavedMap>) {
+  async updateMap(id: string, mapData: MapUpdateRequest) {
     const response = await fetch(`${API_BASE}/maps/${id}`, {
       method: 'PUT',
       headers: {
@@ -116,6 +114,21 @@ export const mapService = {
     return response.json();
   },
 
+  // Download map as a GPX 1.1 file
+  async exportGpx(id: string): Promise<{ blob: Blob; fileName: string }> {
+    const response = await fetch(`${API_BASE}/maps/${id}/gpx`, {
+      credentials: 'include'
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    const disposition = response.headers.get('Content-Disposition');
+    const fileName = disposition?.match(/filename="(.+)"/)?.[1] || `${id}.gpx`;
+    return { blob: await response.blob(), fileName };
+  },
+
   async deleteMap(id: string) {
     const response = await fetch(`${API_BASE}/maps/${id}`, {
       method: 'DELETE',
@@ -126,5 +139,161 @@ export const mapService = {
       throw new Error(`HTTP error! status: ${response.status}`);
     }
     return response.json();
+  },
+
+  // POIs stored with a map; the server sets ids, createdBy and timestamps
+  async getPOIs(mapId: string): Promise<POI[]> {
+    const response = await fetch(`${API_BASE}/maps/${mapId}/pois`, {
+      credentials: 'include'
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+    return response.json();
+  },
+
+  async createPOI(mapId: string, poi: POIRequest): Promise<POI> {
+    const response = await fetch(`${API_BASE}/maps/${mapId}/pois`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      credentials: 'include',
+      body: JSON.stringify(poi)
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+    return response.json();
+  },
+
+  async updatePOI(mapId: string, poiId: string, changes: POIUpdateRequest): Promise<POI> {
+    const response = await fetch(`${API_BASE}/maps/${mapId}/pois/${poiId}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      credentials: 'include',
+      body: JSON.stringify(changes)
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+    return response.json();
+  },
+
+  async deletePOI(mapId: string, poiId: string) {
+    const response = await fetch(`${API_BASE}/maps/${mapId}/pois/${poiId}`, {
+      method: 'DELETE',
+      credentials: 'include'
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+    return response.json();
+  },
+
+  // Surfaces set by hand on a saved map, shown instead of the detected ones
+  async getSurfaceOverrides(mapId: string): Promise<SurfaceOverride[]> {
+    const response = await fetch(`${API_BASE}/maps/${mapId}/surface-overrides`, {
+      credentials: 'include'
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+    return response.json();
+  },
+
+  // Only the owner of the map can see who changed its overrides
+  async getSurfaceOverrideHistory(mapId: string): Promise<SurfaceOverrideAuditEntry[]> {
+    const response = await fetch(`${API_BASE}/maps/${mapId}/surface-overrides/history`, {
+      credentials: 'include'
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+    return response.json();
+  },
+
+  async createSurfaceOverride(
+    mapId: string,
+    override: SurfaceOverrideRequest
+  ): Promise<{ override: SurfaceOverride; correctionId?: string }> {
+    const response = await fetch(`${API_BASE}/maps/${mapId}/surface-overrides`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      credentials: 'include',
+      body: JSON.stringify(override)
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => null);
+      throw new Error(describeError(errorData, response.status));
+    }
+    return response.json();
+  },
+
+  async deleteSurfaceOverride(mapId: string, overrideId: string) {
+    const response = await fetch(`${API_BASE}/maps/${mapId}/surface-overrides/${overrideId}`, {
+      method: 'DELETE',
+      credentials: 'include'
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+    return response.json();
+  },
+
+  // Days of a multi-day route with their distance, climbing, surfaces and riding time
+  async getStages(mapId: string): Promise<RouteStage[]> {
+    const response = await fetch(`${API_BASE}/maps/${mapId}/stages`, {
+      credentials: 'include'
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+    return response.json();
+  },
+
+  // Replaces the stages of a map; an empty list of splits makes the route one undivided line again
+  async planStages(mapId: string, plan: StagePlanRequest): Promise<RouteStage[]> {
+    const response = await fetch(`${API_BASE}/maps/${mapId}/stages`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      credentials: 'include',
+      body: JSON.stringify(plan)
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => null);
+      throw new Error(describeError(errorData, response.status));
+    }
+    return response.json();
+  },
+
+  async exportStageGpx(mapId: string, stageNumber: number): Promise<{ blob: Blob; fileName: string }> {
+    const response = await fetch(`${API_BASE}/maps/${mapId}/stages/${stageNumber}/gpx`, {
+      credentials: 'include'
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    const disposition = response.headers.get('Content-Disposition');
+    const fileName = disposition?.match(/filename="(.+)"/)?.[1] || `${mapId} stage ${stageNumber}.gpx`;
+    return { blob: await response.blob(), fileName };
   }
 };
\ No newline at end of file
@@ -0,0 +1,84 @@
+import { GpxProcessor } from './gpx-processor';
+import { applySurfaceOverrides, classifySurface, rollupSurface, SurfaceRange } from '../utils/gpx/surface';
+import { MapSummary } from '../types/map-types';
+import type { SurfaceType } from '../types/gpx-types';
+import type { FeatureCollection } from 'geojson';
+
+/**
+ * The parts of a saved map document needed to summarise it.
+ */
+export interface SummarizableMap {
+  routes?: Array<{
+    name: string;
+    gpxData: string;
+  }>;
+  routeData?: FeatureCollection;
+  surfaceOverrides?: SurfaceRange[];
+}
+
+/**
+ * MapSummarizer computes the totals shown on public map cards.
+ * It provides functionality for:
+ * - Summing distance and ascent from each route's stored GPX data
+ * - Splitting distance by surface, and into paved and unpaved, from the map's rendered route data
+ *   with any surface overrides applied
+ */
+export class MapSummarizer {
+  private processor = new GpxProcessor();
+
+  /**
+   * Summarises all routes in a saved map.
+   * Routes whose GPX data cannot be processed are skipped rather than failing the save.
+   *
+   * @param map - Saved map document
+   * @returns Promise resolving to the map's distance, ascent and surface split
+   */
+  async summarize(map: SummarizableMap): Promise<MapSummary> {
+    let distance = 0;
+    let ascent = 0;
+
+    for (const route of map.routes ?? []) {
+      if (!route.gpxData) continue;
+
+      try {
+        const processed = await this.processor.processGpx(Buffer.from(route.gpxData), `${route.name}.gpx`);
+        distance += processed.elevationProfile?.stats.totalDistance ?? 0;
+        ascent += processed.elevationProfile?.stats.totalAscent ?? 0;
+      } catch (error) {
+        console.warn(`Skipping route "${route.name}" in map summary:`, error);
+      }
+    }
+
+    let pavedDistance = 0;
+    let unpavedDistance = 0;
+    const surfaceDistances: Partial<Record<SurfaceType, number>> = {};
+
+    const routeData = map.routeData && applySurfaceOverrides(map.routeData, map.surfaceOverrides ?? []);
+    routeData?.features.forEach(feature => {
+      if (feature.geometry?.type !== 'LineString') return;
+
+      const featureDistance = feature.geometry.coordinates.reduce((sum, [lon, lat], i, coordinates) => {
+        if (i === 0) return sum;
+        const [prevLon, prevLat] = coordinates[i - 1];
+        return sum + this.processor.calculateDistance({ lat: prevLat, lon: prevLon }, { lat, lon });
+      }, 0);
+      // Route data saved before the surface taxonomy still uses 'paved' and 'unpaved', which classify as sealed and unknown
+      const surface = classifySurface(feature.properties?.surface);
+      surfaceDistances[surface] = (surfaceDistances[surface] ?? 0) + featureDistance;
+      if (rollupSurface(surface) === 'paved') pavedDistance += featureDistance;
+      else unpavedDistance += featureDistance;
+    });
+
+    for (const surface of Object.keys(surfaceDistances) as SurfaceType[]) {
+      surfaceDistances[surface] = Math.round(surfaceDistances[surface]!);
+    }
+
+    return {
+      distance: Math.round(distance),
+      ascent: Math.round(ascent),
+      pavedDistance: Math.round(pavedDistance),
+      unpavedDistance: Math.round(unpavedDistance),
+      surfaceDistances
+    };
+  }
+}
@@ -1,6 +1,6 @@
 import type { PhotoDocument } from '../types';
 
-const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3001';
+import { API_BASE_URL } from '../config/client';
 
 export class PhotoService {
     static async findPhotosNearPoints(points: Array<{ latitude: number; longitude: number }>): Promise<PhotoDocument[]> {
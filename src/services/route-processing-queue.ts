@@ -0,0 +1,112 @@
+import { v4 as uuidv4 } from 'uuid';
+import { RouteProcessingJob, RouteProcessingStage } from '../types/gpx-types';
+
+// Reports how far a job has got; progress is a percentage of the whole job
+export type ReportProgress = (stage: RouteProcessingStage, progress: number) => void;
+
+// Runs the work for one job and resolves to the id of the saved route
+export type RouteProcessingTask = (report: ReportProgress) => Promise<string>;
+
+// Finished jobs are kept this long so clients can still read their final status
+const FINISHED_JOB_TTL = 60 * 60 * 1000;
+
+/**
+ * RouteProcessingQueue runs route uploads in the background.
+ * It provides functionality for:
+ * - Returning a job id as soon as a route is queued
+ * - Running queued tasks in order, a limited number at a time
+ * - Tracking each job's stage, progress and error for status polling
+ * - Forgetting finished jobs after FINISHED_JOB_TTL
+ */
+export class RouteProcessingQueue {
+  private jobs = new Map<string, RouteProcessingJob>();
+  private pending: Array<{ jobId: string; task: RouteProcessingTask }> = [];
+  private running = 0;
+
+  /**
+   * @param concurrency - Maximum number of jobs processed at the same time
+   */
+  constructor(private concurrency = 2) {}
+
+  /**
+   * Queues a task and returns its job straight away.
+   *
+   * @param task - Work to run for the job
+   * @param uploadedBy - User the job belongs to
+   * @returns The queued job
+   */
+  enqueue(task: RouteProcessingTask, uploadedBy: string): RouteProcessingJob {
+    this.pruneFinishedJobs();
+
+    const now = new Date();
+    const job: RouteProcessingJob = {
+      id: uuidv4(),
+      status: 'queued',
+      stage: 'queued',
+      progress: 0,
+      uploadedBy,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    this.jobs.set(job.id, job);
+    this.pending.push({ jobId: job.id, task });
+    this.runNext();
+
+    return { ...job };
+  }
+
+  /**
+   * Returns a copy of a job's current state, or undefined if it is unknown or has expired.
+   */
+  getJob(jobId: string): RouteProcessingJob | undefined {
+    const job = this.jobs.get(jobId);
+    return job ? { ...job } : undefined;
+  }
+
+  private runNext() {
+    while (this.running < this.concurrency && this.pending.length > 0) {
+      const { jobId, task } = this.pending.shift()!;
+      this.running++;
+
+      this.run(jobId, task).finally(() => {
+        this.running--;
+        this.runNext();
+      });
+    }
+  }
+
+  private async run(jobId: string, task: RouteProcessingTask) {
+    this.update(jobId, { status: 'processing' });
+
+    try {
+      const routeId = await task((stage, progress) => {
+        this.update(jobId, { stage, progress: Math.min(99, Math.max(0, Math.round(progress))) });
+      });
+      this.update(jobId, { status: 'completed', stage: 'done', progress: 100, routeId });
+    } catch (error) {
+      console.error(`Route processing job ${jobId} failed:`, error);
+      this.update(jobId, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Route processing failed'
+      });
+    }
+  }
+
+  private update(jobId: string, changes: Partial<RouteProcessingJob>) {
+    const job = this.jobs.get(jobId);
+    if (job) {
+      this.jobs.set(jobId, { ...job, ...changes, updatedAt: new Date() });
+    }
+  }
+
+  private pruneFinishedJobs() {
+    const cutoff = Date.now() - FINISHED_JOB_TTL;
+    this.jobs.forEach((job, jobId) => {
+      const finished = job.status === 'completed' || job.status === 'failed';
+      if (finished && job.updatedAt.getTime() < cutoff) {
+        this.jobs.delete(jobId);
+      }
+    });
+  }
+}
@@ -0,0 +1,131 @@
+import { GpxProcessor } from './gpx-processor';
+import { applySurfaceOverrides, locateOnRouteData, routeDataLength, SurfaceRange } from '../utils/gpx/surface';
+import { calculateStages, isAccommodation, MAX_STAGE_POI_OFFSET_METERS, StageEnd } from '../utils/gpx/stages';
+import type { ElevationSample, RouteStage } from '../types/gpx-types';
+import type { POI } from '../types/note-types';
+import type { StageSplit } from '../types/api.types';
+import type { FeatureCollection } from 'geojson';
+
+/**
+ * The parts of a saved map document needed to plan its stages.
+ */
+export interface PlannableMap {
+  routes?: Array<{
+    name: string;
+    gpxData: string;
+  }>;
+  routeData?: FeatureCollection;
+  surfaceOverrides?: SurfaceRange[];
+  pois?: POI[];
+  stages?: RouteStage[];
+}
+
+export type StagePlanResult = RouteStage[] | { error: string };
+
+const formatKm = (meters: number) => `${(meters / 1000).toFixed(1)} km`;
+
+/**
+ * StagePlanner divides a map's route into the days it is ridden over.
+ * It provides functionality for:
+ * - Ending stages at chosen distances or where the route passes an accommodation POI
+ * - Working out each stage's distance, climbing, surface split and riding time
+ * - Planning the stages again when the route or its surfaces change
+ */
+export class StagePlanner {
+  private processor = new GpxProcessor();
+
+  /**
+   * Plans stages along the map's route data, the line surface overrides are measured along too.
+   *
+   * @param map - Saved map document
+   * @param splits - Where each stage but the last ends
+   * @returns The stages in route order, none when there are no splits, or why a split cannot be used
+   */
+  async plan(map: PlannableMap, splits: StageSplit[]): Promise<StagePlanResult> {
+    if (splits.length === 0) return [];
+    if (!map.routeData) return { error: 'The map has no route to divide into stages' };
+
+    const routeData = applySurfaceOverrides(map.routeData, map.surfaceOverrides ?? []);
+    const total = routeDataLength(routeData);
+
+    const ends: StageEnd[] = [];
+    for (const split of splits) {
+      const end = this.locateSplit(routeData, total, map.pois ?? [], split);
+      if ('error' in end) return end;
+      ends.push(end);
+    }
+
+    return calculateStages(routeData, ends, await this.loadSamples(map.routes ?? [], total));
+  }
+
+  /**
+   * Plans a map's stages again with the ends they were planned with, e.g. after its route changed.
+   * A stage that ended at a POI no longer near the route keeps its distance instead,
+   * and ends past the end of the route are dropped.
+   *
+   * @returns The new stages, or undefined if the map has none or no route
+   */
+  async replan(map: PlannableMap): Promise<RouteStage[] | undefined> {
+    if (!map.stages?.length || !map.routeData) return undefined;
+
+    const routeData = applySurfaceOverrides(map.routeData, map.surfaceOverrides ?? []);
+    const total = routeDataLength(routeData);
+    const pois = map.pois ?? [];
+
+    const ends = map.stages.slice(0, -1).flatMap(({ endPoiId, endDistance, name }) => {
+      const atPOI = endPoiId && this.locateSplit(routeData, total, pois, { poiId: endPoiId, name });
+      if (atPOI && !('error' in atPOI)) return [atPOI];
+
+      const atDistance = this.locateSplit(routeData, total, pois, { distance: endDistance, name });
+      return 'error' in atDistance ? [] : [atDistance];
+    });
+
+    return calculateStages(routeData, ends, await this.loadSamples(map.routes ?? [], total));
+  }
+
+  private locateSplit(routeData: FeatureCollection, total: number, pois: POI[], split: StageSplit): StageEnd | { error: string } {
+    if (split.poiId === undefined) {
+      if (split.distance === undefined) return { error: 'Each split needs a distance or an accommodation POI' };
+      if (split.distance <= 0 || split.distance >= total) {
+        return { error: `A stage cannot end at ${formatKm(split.distance)}, the route is ${formatKm(total)} long` };
+      }
+      return { distance: split.distance, ...(split.name && { name: split.name }) };
+    }
+
+    const poi = pois.find(candidate => candidate.id === split.poiId);
+    if (!poi || !isAccommodation(poi)) return { error: `POI ${split.poiId} is not accommodation on this map` };
+
+    const located = locateOnRouteData(routeData, [poi.location.lon, poi.location.lat]);
+    if (!located || located.offset > MAX_STAGE_POI_OFFSET_METERS) {
+      return { error: `${poi.name} is more than ${formatKm(MAX_STAGE_POI_OFFSET_METERS)} from the route` };
+    }
+    return { distance: located.distance, name: split.name ?? poi.name, poiId: poi.id };
+  }
+
+  /**
+   * Elevation samples of the map's routes in order, with distances scaled onto the route data.
+   * Routes whose GPX data cannot be processed are skipped, as they are for the map summary.
+   */
+  private async loadSamples(routes: NonNullable<PlannableMap['routes']>, routeLength: number): Promise<ElevationSample[]> {
+    const samples: ElevationSample[] = [];
+    let offset = 0;
+
+    for (const route of routes) {
+      if (!route.gpxData) continue;
+
+      try {
+        const processed = await this.processor.processGpx(Buffer.from(route.gpxData), `${route.name}.gpx`);
+        const profile = processed.elevationProfile;
+        if (!profile) continue;
+
+        samples.push(...profile.samples.map(sample => ({ ...sample, distance: offset + sample.distance })));
+        offset += profile.stats.totalDistance;
+      } catch (error) {
+        console.warn(`Skipping route "${route.name}" in stage plan:`, error);
+      }
+    }
+
+    const scale = offset > 0 ? routeLength / offset : 1;
+    return samples.map(sample => ({ ...sample, distance: sample.distance * scale }));
+  }
+}
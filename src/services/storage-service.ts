@@ -1,22 +1,23 @@
 import { S3Client, PutObjectCommand, DeleteObjectCommand } from '@aws-sdk/client-s3';
 import { Express } from 'express';
+import { ServerConfig } from '../config/server-config';
 
 export class StorageService {
   private s3Client: S3Client;
   private bucket: string;
 
-  constructor() {
+  constructor(config: ServerConfig['storage']) {
     // Initialize S3 client with DO Spaces configuration
     this.s3Client = new S3Client({
-      endpoint: process.env.DO_SPACES_ENDPOINT,
+      endpoint: config.endpoint || undefined,
       region: 'us-east-1', // DO Spaces uses this region
       credentials: {
-        accessKeyId: process.env.DO_SPACES_KEY || '',
-        secretAccessKey: process.env.DO_SPACES_SECRET || ''
+        accessKeyId: config.accessKeyId,
+        secretAccessKey: config.secretAccessKey
       }
     });
 
-    this.bucket = process.env.DO_SPACES_BUCKET || '';
+    this.bucket = config.bucket;
   }
 
   async uploadFile(file: Express.Multer.File, folder: string): Promise<string> {
@@ -1,6 +1,9 @@
 import { ObjectId } from 'mongodb';
-import { Feature, FeatureCollection } from 'geojson';
-import { ProcessedRoute, RouteSegment } from './gpx-types';
+import { FeatureCollection } from 'geojson';
+import { ProcessedRoute, RouteSegment, SurfaceRun, SurfaceType } from './gpx-types';
+import { MapSummary } from './map-types';
+import { POI } from './note-types';
+import { ApiTokenScope, UserRole } from './database.types';
 
 // General API Response Types
 export interface ApiResponse<T> {
@@ -10,9 +13,10 @@ export interface ApiResponse<T> {
 }
 
 // Photo Related Types
+// Sent as multipart form fields next to the file, so the server parses the coordinates from strings
 export interface PhotoUploadRequest {
-  longitude: string;
-  latitude: string;
+  longitude: number;
+  latitude: number;
   description?: string;
 }
 
@@ -32,16 +36,116 @@ export interface Photo {
 }
 
 // Map Related Types
+export interface MapViewState {
+  center: [number, number];
+  zoom: number;
+  pitch?: number;
+  bearing?: number;
+}
+
+export interface MapRouteRequest {
+  id: string;
+  name: string;
+  gpxData: string;
+  color?: string;
+  opacity?: number;
+  isVisible?: boolean;
+  gpxFilePath?: string;
+}
+
+export interface MapPhotoRequest {
+  id: string;
+  url: string;
+  caption?: string;
+  longitude: number;
+  latitude: number;
+}
+
+// The POI fields a client may set; ids of new POIs, ownership and timestamps are set by the server
+export type POIRequest = Pick<POI, 'name' | 'description' | 'category' | 'type' | 'location' | 'warning'>;
+
+export type POIUpdateRequest = Partial<POIRequest>;
+
+// POIs saved together with a map keep the ids the client gave them
+export type MapPOIRequest = POIRequest & Pick<POI, 'id'>;
+
+// A map as saved by the client; the summary, owner and timestamps are set by the server
 export interface MapCreateRequest {
   name: string;
   description?: string;
   isPublic: boolean;
-  viewState: {
-    center: [number, number];
-    zoom: number;
-    pitch?: number;
-    bearing?: number;
-  };
+  mapStyle?: string;
+  viewState?: MapViewState;
+  routes: MapRouteRequest[];
+  photos?: MapPhotoRequest[];
+  routeData?: FeatureCollection;
+  pois?: MapPOIRequest[];
+}
+
+export type MapUpdateRequest = Partial<MapCreateRequest>;
+
+// Surface Override Types
+// Distances are along the lines of the map's route data, in order, in meters
+export interface SurfaceOverrideRequest {
+  startDistance: number;
+  endDistance: number;
+  surface: SurfaceType;
+  note?: string;
+  // Also send the stretch to editors as a correction to the road network
+  suggestCorrection?: boolean;
+}
+
+// A surface set by hand for a stretch of a map's route, shown instead of the detected surface
+export interface SurfaceOverride {
+  id: string;
+  startDistance: number;
+  endDistance: number;
+  surface: SurfaceType;
+  note?: string;
+  createdBy: string;
+  createdAt: Date;
+}
+
+// Overrides are never edited in place, so adding and removing them is the full history
+export interface SurfaceOverrideAuditEntry {
+  action: 'added' | 'removed';
+  override: SurfaceOverride;
+  changedBy: string;
+  changedAt: Date;
+}
+
+export type SurfaceCorrectionStatus = 'open' | 'accepted' | 'dismissed';
+
+// A suggested fix to road_network, made from a surface override
+export interface SurfaceCorrection {
+  id: string;
+  mapId: string;
+  overrideId: string;
+  surface: SurfaceType;
+  note?: string;
+  coordinates: [number, number][];
+  suggestedBy: string;
+  createdAt: Date;
+  status: SurfaceCorrectionStatus;
+  reviewedBy?: string;
+  reviewedAt?: Date;
+}
+
+export interface SurfaceCorrectionReviewRequest {
+  status: Exclude<SurfaceCorrectionStatus, 'open'>;
+}
+
+// Stage Types
+// Where a stage ends: a distance along the map's route data, or an accommodation POI of the map
+export interface StageSplit {
+  distance?: number;
+  poiId?: string;
+  name?: string;
+}
+
+// Splits for every stage but the last, in any order; no splits removes the stages
+export interface StagePlanRequest {
+  splits: StageSplit[];
 }
 
 export interface MapResponse {
@@ -52,12 +156,28 @@ export interface MapResponse {
   updatedAt: Date;
   createdBy: string;
   isPublic: boolean;
-  viewState: {
-    center: [number, number];
-    zoom: number;
-    pitch?: number;
-    bearing?: number;
-  };
+  viewState: MapViewState;
+}
+
+// Public map gallery: newest first, longest first, or most unpaved distance first
+export type PublicMapSort = 'newest' | 'longest' | 'gravel';
+
+export interface PublicMapListItem {
+  _id: string;
+  name: string;
+  description?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  author: string;
+  summary?: MapSummary;
+}
+
+export interface PublicMapsResponse {
+  maps: PublicMapListItem[];
+  page: number;
+  limit: number;
+  total: number;
+  hasMore: boolean;
 }
 
 // Route Related Types
@@ -86,17 +206,36 @@ export interface SurfaceDetectionRequest {
   route: {
     coordinates: [number, number][];
   };
+  // How far a point may be from a road and still be snapped to it, defaults to 10 m
+  toleranceMeters?: number;
 }
 
-export interface SurfaceDetectionResult {
-  id: string;
-  surface: string | null;
-  highway: string;
-  distance_meters: number;
+export interface SurfaceDetectionResponse {
+  // Length of the line in meters
+  distance: number;
+  runs: SurfaceRun[];
 }
 
-export interface SurfaceDetectionResponse {
-  results: SurfaceDetectionResult[][];
+// Route Builder Types
+export interface RoutingPreferences {
+  // Take unpaved roads over sealed ones, even when they are a little longer
+  preferGravel?: boolean;
+  // Keep off sealed trunk and primary roads unless there is no other way
+  avoidSealedHighways?: boolean;
+}
+
+export interface RouteBuildRequest {
+  // Points clicked on the map in riding order, as [lon, lat]
+  waypoints: [number, number][];
+  name?: string;
+  preferences?: RoutingPreferences;
+}
+
+export interface RouteBuildResponse {
+  route: ProcessedRoute;
+  // Each waypoint moved onto the nearest road, and how far along the route it is in meters
+  waypoints: [number, number][];
+  waypointDistances: number[];
 }
 
 // User Profile Types
@@ -111,7 +250,7 @@ export interface UserProfileResponse {
     facebook?: string;
   };
   website?: string;
-  isAdmin: boolean;
+  role: UserRole;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -124,4 +263,43 @@ export interface UserProfileUpdateRequest {
     facebook?: string;
   };
   website?: string;
-}
\ No newline at end of file
+}
+
+// Admin Types
+export interface UserRoleUpdateRequest {
+  role: UserRole;
+}
+
+export interface AdminUserListItem {
+  auth0Id: string;
+  bioName: string;
+  email: string;
+  role: UserRole;
+  createdAt: Date;
+}
+
+// Maps a raw OSM surface value onto the surface used for routes
+export interface SurfaceClassification {
+  originalSurface: string;
+  standardizedSurface: string;
+}
+
+// API Token Types
+export interface ApiTokenCreateRequest {
+  name: string;
+  scopes: ApiTokenScope[];
+}
+
+export interface ApiTokenResponse {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: ApiTokenScope[];
+  createdAt: Date;
+  lastUsedAt: Date | null;
+}
+
+// The token is only returned once, when it is created
+export interface ApiTokenCreateResponse extends ApiTokenResponse {
+  token: string;
+}
@@ -1,5 +1,6 @@
 import { OpenidRequest, AccessToken } from 'express-openid-connect';
 import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { ApiTokenScope } from './database.types';
 
 export interface Auth0User {
   sub: string;
@@ -20,6 +21,19 @@ export interface Auth0Session {
   expiresAt: number;
 }
 
+// Set on requests signed in with an API token instead of a browser session
+export interface ApiTokenIdentity {
+  tokenId: string;
+  userId: string;
+  scopes: ApiTokenScope[];
+}
+
+declare module 'express-serve-static-core' {
+  interface Request {
+    apiToken?: ApiTokenIdentity;
+  }
+}
+
 export interface Auth0Request extends Request {
   oidc?: Auth0Session;
 }
@@ -1,8 +1,14 @@
 import { ObjectId } from 'mongodb';
-import { ProcessedRoute } from './gpx-types';
+import { ProcessedRoute, SurfaceType } from './gpx-types';
 
 // MongoDB Collections
 
+// Editors can also manage surface classifications, admins can also moderate and change roles
+export type UserRole = 'user' | 'editor' | 'admin';
+
+// Lowest to highest; each role can do everything the roles before it can
+export const USER_ROLES: readonly UserRole[] = ['user', 'editor', 'admin'];
+
 export interface DBUser {
   _id?: ObjectId;
   auth0Id: string;
@@ -15,11 +21,30 @@ export interface DBUser {
     facebook: string;
   };
   website: string;
-  isAdmin: boolean;
+  role: UserRole;
+  // Set on profiles created before roles, read as the admin role when role is missing
+  isAdmin?: boolean;
   createdAt: Date;
   updatedAt: Date;
 }
 
+// What an API token can be used for; browser sessions can do everything
+export type ApiTokenScope = 'routes:read' | 'routes:write' | 'maps:read' | 'maps:write' | 'photos:write';
+
+export const API_TOKEN_SCOPES: readonly ApiTokenScope[] = ['routes:read', 'routes:write', 'maps:read', 'maps:write', 'photos:write'];
+
+export interface DBApiToken {
+  _id?: ObjectId;
+  userId: string;             // Auth0 user ID of the owner
+  name: string;
+  tokenHash: string;          // SHA-256 of the token, the token itself is only shown when it is created
+  prefix: string;             // Start of the token, so users can tell their tokens apart
+  scopes: ApiTokenScope[];
+  createdAt: Date;
+  lastUsedAt: Date | null;
+  revokedAt: Date | null;
+}
+
 export interface DBPhoto {
   _id?: ObjectId;
   filename: string;
@@ -44,7 +69,7 @@ export interface DBMap {
     coordinates: Array<{
       lat: number;
       lon: number;
-      surface: 'paved' | 'unpaved';
+      surface: SurfaceType;
     }>;
   };
   photoIds: string[];
@@ -82,11 +107,8 @@ export interface SurfaceClassification {
 
 // Enums
 
-export enum SurfaceType {
-  Paved = 'paved',
-  Unpaved = 'unpaved',
-  Unknown = 'unknown'
-}
+// Surfaces use the shared taxonomy from gpx-types
+export type { SurfaceType };
 
 export enum MapVisibility {
   Public = 'public',
@@ -1,11 +1,31 @@
-import type { Feature, FeatureCollection } from 'geojson';
+import type { FeatureCollection } from 'geojson';
 
 /**
- * Represents the possible surface types for a route segment.
- * - paved: Roads or paths with a solid surface (asphalt, concrete)
- * - unpaved: Dirt roads, natural paths, tracks, or any non-paved surface
+ * Represents the possible surface types for a route segment, from smoothest to roughest.
+ * - sealed: Asphalt, concrete, paving stones and other solid surfaces
+ * - compacted_gravel: Compacted or fine gravel roads
+ * - loose_gravel: Gravel, pebbles and other loose stone
+ * - dirt: Earth, ground, sand, grass and other natural surfaces
+ * - singletrack: Unsealed paths and bridleways
+ * - unknown: Roads without a surface, or off the road network
+ * Raw OSM surface tags are mapped onto these by classifySurface in utils/gpx/surface.ts.
  */
-export type SurfaceType = 'paved' | 'unpaved';
+export type SurfaceType = 'sealed' | 'compacted_gravel' | 'loose_gravel' | 'dirt' | 'singletrack' | 'unknown';
+
+export const SURFACE_TYPES: readonly SurfaceType[] = [
+    'sealed',
+    'compacted_gravel',
+    'loose_gravel',
+    'dirt',
+    'singletrack',
+    'unknown'
+];
+
+/**
+ * Paved/unpaved roll-up of SurfaceType, used for summary stats.
+ * Only sealed surfaces count as paved.
+ */
+export type SurfaceRollup = 'paved' | 'unpaved';
 
 /**
  * Represents a single point in a GPX track.
@@ -19,6 +39,59 @@ export interface GpxPoint {
     timestamp?: string;
 }
 
+/**
+ * A continuous run of points within a GPX track (<trkseg>).
+ * Gaps between segments are preserved rather than joined with a straight line.
+ */
+export interface GpxTrackSegment {
+    points: GpxPoint[];
+}
+
+/**
+ * A single GPX track (<trk>), e.g. one day of a multi-day ride.
+ */
+export interface GpxTrack {
+    name?: string;
+    segments: GpxTrackSegment[];
+}
+
+/**
+ * A planned GPX route (<rte>) made up of route points (<rtept>).
+ */
+export interface GpxRoute {
+    name?: string;
+    points: GpxPoint[];
+}
+
+/**
+ * A GPX waypoint (<wpt>), e.g. a water tap or campsite marked in another planner.
+ */
+export interface GpxWaypoint {
+    lat: number;
+    lon: number;
+    ele?: number;
+    name?: string;
+    desc?: string;
+    sym?: string;
+    type?: string;
+}
+
+/**
+ * Structured result of parsing a GPX file, keeping track, segment
+ * and route boundaries intact.
+ */
+export interface ParsedGpx {
+    tracks: GpxTrack[];
+    routes: GpxRoute[];
+    waypoints: GpxWaypoint[];
+}
+
+/**
+ * Route file formats that can be imported.
+ * Every format is parsed into the same ParsedGpx structure.
+ */
+export type RouteFileFormat = 'gpx' | 'tcx' | 'fit' | 'kml' | 'kmz';
+
 /**
  * Represents a segment of a route with consistent surface type.
  * Used to break down a route into sections based on surface characteristics.
@@ -32,6 +105,159 @@ export interface RouteSegment {
     };
 }
 
+/**
+ * A contiguous stretch of a line on the same road surface and highway class,
+ * as found by snapping the line to the road network.
+ * Distances are from the start of the line, in meters.
+ */
+export interface SurfaceRun {
+    startDistance: number;
+    endDistance: number;
+    surface: string | null;     // Standardized or raw OSM surface, null when unknown or off the network
+    highway: string | null;     // OSM highway class, null off the network
+    surfaceType: SurfaceType;
+    confidence: number;         // 0 to 1, how closely and consistently the points matched the road
+}
+
+/**
+ * A single sample of a route's elevation profile.
+ * Distances are cumulative from the start of the route, in meters.
+ */
+export interface ElevationSample {
+    distance: number;
+    elevation: number;      // Smoothed elevation in meters
+    grade: number;          // Grade in percent, positive uphill
+    surface: SurfaceType;
+    lat: number;
+    lon: number;
+}
+
+/**
+ * Summary statistics derived from a route's elevation profile.
+ */
+export interface ElevationStats {
+    totalDistance: number;      // Meters
+    totalAscent: number;        // Meters
+    totalDescent: number;       // Meters
+    maxElevation: number;       // Meters
+    minElevation: number;       // Meters
+    maxSustainedGrade: number;  // Percent, averaged over the sustained grade distance
+}
+
+/**
+ * Climb category, from the easiest (4) to the hardest (HC, hors catégorie).
+ */
+export type ClimbCategory = '4' | '3' | '2' | '1' | 'HC';
+
+/**
+ * A significant climb detected in a route's elevation profile.
+ * Distances are cumulative from the start of the route, in meters.
+ */
+export interface Climb {
+    startDistance: number;
+    endDistance: number;
+    length: number;         // Meters
+    gain: number;           // Meters
+    averageGrade: number;   // Percent
+    maxGrade: number;       // Percent
+    score: number;          // length x average grade, see detectClimbs
+    category: ClimbCategory;
+}
+
+/**
+ * Elevation profile of a route, computed by GpxProcessor and used by the
+ * elevation chart and route summaries.
+ */
+export interface RouteElevationProfile {
+    samples: ElevationSample[];
+    stats: ElevationStats;
+    climbs: Climb[];
+}
+
+/**
+ * A stretch of a route between two distances from its start, in meters.
+ */
+export interface DistanceRange {
+    start: number;
+    end: number;
+}
+
+/**
+ * Statistics for a stretch of a route's elevation profile, e.g. a range
+ * selected on the elevation chart. Distances are in meters.
+ */
+export interface ElevationRangeStats {
+    startDistance: number;
+    endDistance: number;
+    distance: number;
+    ascent: number;             // Meters
+    descent: number;            // Meters
+    averageGrade: number;       // Percent, net elevation change over distance
+    maxGrade: number;           // Percent
+    minElevation: number;       // Meters
+    maxElevation: number;       // Meters
+    unpavedDistance: number;    // Meters
+    surfaceDistances: Partial<Record<SurfaceType, number>>;  // Meters per surface, for surfaces in the range
+}
+
+/**
+ * One day of a multi-day route, between two distances along the map's route.
+ * Distances are in meters; ascent and descent are 0 for routes without elevations.
+ */
+export interface RouteStage {
+    number: number;             // 1 for the first stage
+    name: string;
+    startDistance: number;
+    endDistance: number;
+    distance: number;
+    ascent: number;             // Meters
+    descent: number;            // Meters
+    unpavedDistance: number;    // Meters
+    surfaceDistances: Partial<Record<SurfaceType, number>>;  // Meters per surface, for surfaces in the stage
+    ridingTime: number;         // Estimated seconds in the saddle, see estimateRidingTime
+    endPoiId?: string;          // Accommodation POI the stage ends at
+}
+
+/**
+ * What riders can restock along a route. Shops, cafes and fuel stations sell water as well as food.
+ */
+export type ResupplyKind = 'water' | 'food';
+
+export const RESUPPLY_KINDS: readonly ResupplyKind[] = ['water', 'food'];
+
+/**
+ * A POI near the route where riders can get water or food, placed at its nearest point on the route.
+ * Distances are in meters along the map's route.
+ */
+export interface ResupplyPoint {
+    poiId: string;
+    name: string;
+    type: string;               // POI type, e.g. "Water Point"
+    kinds: ResupplyKind[];
+    distance: number;           // From the start to the nearest point on the route
+    detour: number;             // There and back from the route, in a straight line
+}
+
+/**
+ * A stretch of route without water or food, from the start or a resupply point to the next one or the finish.
+ */
+export interface ResupplyGap {
+    kind: ResupplyKind;
+    startDistance: number;
+    endDistance: number;
+    distance: number;
+    startPoiId?: string;        // Not set for the gap from the start
+    endPoiId?: string;          // Not set for the gap to the finish
+    exceedsLimit: boolean;      // Longer than the longest gap the rider allowed for
+}
+
+export interface ResupplyAnalysis {
+    corridor: number;           // POIs further than this from the route, in meters, are left out
+    maxGaps: Record<ResupplyKind, number>;
+    points: ResupplyPoint[];    // In route order
+    gaps: ResupplyGap[];        // Longest first
+}
+
 /**
  * Represents a fully processed GPX route with all necessary metadata
  * and derived information for display and analysis.
@@ -45,6 +271,8 @@ export interface ProcessedRoute {
     gpxFilePath?: string;
     segments: RouteSegment[];
     geojson?: FeatureCollection;
+    waypoints?: GpxWaypoint[];
+    elevationProfile?: RouteElevationProfile;
 }
 
 /**
@@ -55,7 +283,29 @@ export interface ProcessingStatus {
     isProcessing: boolean;
     progress: number;
     total: number;
+    stage?: RouteProcessingStage;
+    error?: string;
+}
+
+/**
+ * Steps of the server-side route processing job, in order.
+ */
+export type RouteProcessingStage = 'queued' | 'parsing' | 'surfaces' | 'elevation' | 'saving' | 'done';
+
+/**
+ * A route upload being processed in the background, as reported by
+ * GET /api/routes/:id/status. routeId is set once the route has been saved.
+ */
+export interface RouteProcessingJob {
+    id: string;
+    status: 'queued' | 'processing' | 'completed' | 'failed';
+    stage: RouteProcessingStage;
+    progress: number;           // Percent of the whole job
+    uploadedBy: string;         // User who queued the job; only they can read its status
     error?: string;
+    routeId?: string;
+    createdAt: Date;
+    updatedAt: Date;
 }
 
 /**
@@ -1,4 +1,17 @@
-import { InfrastructurePOIType } from './note-types';
+import { InfrastructurePOIType, POI } from './note-types';
+import { RouteStage, SurfaceType } from './gpx-types';
+
+/**
+ * Totals for all routes in a saved map, computed by the server when the map is
+ * saved and used to list and sort public maps. Distances and ascent are in meters.
+ */
+export interface MapSummary {
+    distance: number;
+    ascent: number;
+    pavedDistance: number;
+    unpavedDistance: number;
+    surfaceDistances?: Partial<Record<SurfaceType, number>>;  // Maps summarised before the surface taxonomy have no breakdown
+}
 
 export interface SavedMap {
     _id?: string;
@@ -26,6 +39,9 @@ export interface SavedMap {
             lon: number;
         }
     }>;
+    pois?: POI[];             // Points of interest, exported as GPX waypoints
+    summary?: MapSummary;     // Auto: Route totals, set by the server on save
+    stages?: RouteStage[];    // Days of a multi-day route, planned through /api/maps/:id/stages
     viewState: {              // Map view state
         center: [number, number];
         zoom: number;
@@ -70,7 +70,6 @@ export type POIType =
 
 export const POIIcons: Record<POIType, string> = {
     // Infrastructure
-    [InfrastructurePOIType.Place]: 'location_city', 
     [InfrastructurePOIType.WaterPoint]: 'water_drop',
     [InfrastructurePOIType.PublicToilet]: 'wc',
     [InfrastructurePOIType.PublicShower]: 'shower',
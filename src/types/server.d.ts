@@ -1,6 +1,7 @@
 import { Express, Request, Response } from 'express';
 import { ObjectId } from 'mongodb';
 import { OpenIDRequest } from 'express-openid-connect';
+import type { FieldError } from '../validation/schema';
 
 // Auth0 types
 export interface Auth0User {
@@ -33,6 +34,8 @@ export interface TypedResponse<T> extends Response {
 // API Response types
 export interface ErrorResponse {
   error: string;
+  // Set for request bodies rejected by a validation schema
+  fields?: FieldError[];
 }
 
 // Photo types
@@ -54,6 +57,7 @@ export interface Photo {
   latitude: number;
   description: string;
   uploadedAt: Date;
+  uploadedBy?: string;
 }
 
 // Route types
@@ -61,20 +65,17 @@ export interface SurfaceDetectionRequest {
   route: {
     coordinates: [number, number][];
   };
-}
-
-export interface SurfaceDetectionResult {
-  id: string;
-  surface: string | null;
-  highway: string;
-  distance_meters: number;
+  // How far a point may be from a road and still be snapped to it, defaults to 10 m
+  toleranceMeters?: number;
 }
 
 export interface SurfaceDetectionResponse {
-  results: SurfaceDetectionResult[][];
+  // Length of the line in meters
+  distance: number;
+  runs: SurfaceRun[];
 }
 import type { Feature, FeatureCollection } from 'geojson';
-import { ProcessedRoute, RouteSegment } from './gpx-types';
+import { ProcessedRoute, RouteSegment, SurfaceRun } from './gpx-types';
 
 // Re-export types we need from gpx-types
 export { ProcessedRoute, RouteSegment };
@@ -118,11 +119,3 @@ declare module '../../../server.js' {
 
 // Utility type for handling unknown errors
 export type SafeError = Error | { message: string } | unknown;
-export function isErrorWithMessage(error: unknown): error is { message: string } {
-  return (
-    typeof error === 'object' &&
-    error !== null &&
-    'message' in error &&
-    typeof (error as { message: string }).message === 'string'
-  );
-}
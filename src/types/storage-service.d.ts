@@ -1,11 +1,12 @@
 import { Express } from 'express';
 import { S3Client } from '@aws-sdk/client-s3';
+import { ServerConfig } from '../config/server-config';
 
 export class StorageService {
   private s3Client: S3Client;
   private bucket: string;
 
-  constructor();
+  constructor(config: ServerConfig['storage']);
   
   uploadFile(file: Express.Multer.File, folder: string): Promise<string>;
   deleteFile(key: string): Promise<void>;
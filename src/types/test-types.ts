@@ -5,7 +5,7 @@ import { Pool } from 'pg';
 declare global {
   namespace NodeJS {
     interface ProcessEnv {
-      VITE_MONGODB_URI: string;
+      MONGODB_URI: string;
       PG_HOST: string;
       PG_PORT: string;
       PG_DATABASE: string;
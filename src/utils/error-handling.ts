@@ -1,5 +1,15 @@
 import { Response } from 'express';
-import { ErrorResponse, SafeError, isErrorWithMessage } from '../types/server';
+import type { ErrorResponse, SafeError } from '../types/server';
+import type { FieldError } from '../validation/schema';
+
+export function isErrorWithMessage(error: unknown): error is { message: string } {
+  return (
+    typeof error === 'object' &&
+    error !== null &&
+    'message' in error &&
+    typeof (error as { message: string }).message === 'string'
+  );
+}
 
 export function handleError(error: SafeError, res: Response<ErrorResponse>) {
   console.error('Error:', error);
@@ -21,6 +31,10 @@ export function handleBadRequest(message: string, res: Response<ErrorResponse>)
   return res.status(400).json({ error: message });
 }
 
+export function handleValidationError(fields: FieldError[], res: Response<ErrorResponse>) {
+  return res.status(400).json({ error: 'Invalid request', fields });
+}
+
 export function handleUnauthorized(message: string, res: Response<ErrorResponse>) {
   return res.status(401).json({ error: message });
 }
@@ -28,3 +42,7 @@ export function handleUnauthorized(message: string, res: Response<ErrorResponse>
 export function handleNotFound(message: string, res: Response<ErrorResponse>) {
   return res.status(404).json({ error: message });
 }
+
+export function handleServerError(error: SafeError, res: Response<ErrorResponse>, fallbackMessage: string) {
+  return res.status(500).json({ error: isErrorWithMessage(error) ? error.message : fallbackMessage });
+}
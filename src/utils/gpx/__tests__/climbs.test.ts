@@ -0,0 +1,87 @@
+import { categorizeClimb, detectClimbs, formatClimbCategory } from '../climbs';
+import { ElevationSample } from '../../../types/gpx-types';
+
+/**
+ * Builds profile samples every 10m from [length (m), grade (%)] stretches.
+ */
+const profile = (stretches: Array<[number, number]>, start = 100): ElevationSample[] => {
+  const samples: ElevationSample[] = [{ distance: 0, elevation: start, grade: 0, surface: 'unknown', lat: 0, lon: 0 }];
+
+  for (const [length, grade] of stretches) {
+    for (let d = 10; d <= length; d += 10) {
+      const prev = samples[samples.length - 1];
+      samples.push({
+        distance: prev.distance + 10,
+        elevation: Math.round((prev.elevation + grade / 10) * 1000) / 1000,
+        grade,
+        surface: 'unknown',
+        lat: 0,
+        lon: 0
+      });
+    }
+  }
+
+  return samples;
+};
+
+describe('categorizeClimb', () => {
+  it('should categorise by score thresholds', () => {
+    expect(categorizeClimb(7999)).toBeUndefined();
+    expect(categorizeClimb(8000)).toBe('4');
+    expect(categorizeClimb(16000)).toBe('3');
+    expect(categorizeClimb(32000)).toBe('2');
+    expect(categorizeClimb(64000)).toBe('1');
+    expect(categorizeClimb(80000)).toBe('HC');
+  });
+});
+
+describe('detectClimbs', () => {
+  it('should detect a climb between flat approach and descent', () => {
+    const climbs = detectClimbs(profile([[1000, 0], [5000, 6], [1000, -5]]));
+
+    expect(climbs).toHaveLength(1);
+    expect(climbs[0]).toMatchObject({
+      endDistance: 6000,
+      gain: 300,
+      maxGrade: 6,
+      category: '3'
+    });
+    // The flat approach is trimmed to within the 100m trim window
+    expect(climbs[0].startDistance).toBeGreaterThan(900);
+    expect(climbs[0].startDistance).toBeLessThanOrEqual(1000);
+    expect(climbs[0].averageGrade).toBeCloseTo(6, 0);
+    expect(climbs[0].score).toBeCloseTo(30000, -2);
+    expect(formatClimbCategory(climbs[0])).toBe('Cat 3');
+  });
+
+  it('should categorise long steep climbs as HC', () => {
+    const [climb] = detectClimbs(profile([[10000, 8]]));
+
+    expect(climb.category).toBe('HC');
+    expect(formatClimbCategory(climb)).toBe('HC');
+  });
+
+  it('should ignore gentle drags and small bumps', () => {
+    expect(detectClimbs(profile([[3000, 2.5]]))).toEqual([]);
+    expect(detectClimbs(profile([[500, 10], [500, -10]]))).toEqual([]);
+  });
+
+  it('should not split a climb at a short dip', () => {
+    const climbs = detectClimbs(profile([[2000, 6], [100, -5], [2000, 6]]));
+
+    expect(climbs).toHaveLength(1);
+    expect(climbs[0].gain).toBe(235);
+  });
+
+  it('should split climbs separated by a real descent', () => {
+    const climbs = detectClimbs(profile([[2000, 6], [1000, -5], [3000, 7]]));
+
+    expect(climbs.map(c => c.category)).toEqual(['4', '3']);
+    expect(climbs[1].startDistance).toBe(3000);
+  });
+
+  it('should handle empty and single-sample profiles', () => {
+    expect(detectClimbs([])).toEqual([]);
+    expect(detectClimbs(profile([]))).toEqual([]);
+  });
+});
@@ -0,0 +1,69 @@
+import { buildGpx, renameGpx } from '../export';
+import { parseGpx } from '../parsing';
+import { InfrastructurePOIType, POICategory } from '../../../types/note-types';
+import type { POI } from '../../../types/note-types';
+
+const hut: POI = {
+  id: 'hut',
+  type: InfrastructurePOIType.Shelter,
+  category: POICategory.Infrastructure,
+  name: 'Loop',
+  location: { lon: 146.15, lat: -42.15 },
+  createdAt: new Date('2024-01-01T00:00:00Z'),
+  updatedAt: new Date('2024-01-01T00:00:00Z'),
+  createdBy: 'auth0|owner'
+};
+
+const routeGpx = buildGpx({
+  name: 'Loop',
+  time: new Date('2024-01-01T00:00:00Z'),
+  tracks: [{ name: 'Loop', segments: [{ points: [{ lat: -42.1, lon: 146.1, ele: 100 }, { lat: -42.2, lon: 146.2, ele: 110 }] }] }],
+  pois: [hut]
+});
+
+describe('renameGpx', () => {
+  it('should rename the metadata and tracks but not waypoints with the same name', async () => {
+    const renamed = renameGpx(routeGpx, 'Tom & Jerry <3>');
+    const gpx = await parseGpx(Buffer.from(renamed));
+
+    expect(renamed).toContain('<metadata>\n    <name>Tom &amp; Jerry &lt;3&gt;</name>');
+    expect(gpx.tracks[0].name).toBe('Tom & Jerry <3>');
+    expect(gpx.waypoints[0].name).toBe('Loop');
+    expect(gpx.tracks[0].segments[0].points).toHaveLength(2);
+  });
+
+  it('should rename names written as CDATA or with escaped characters', async () => {
+    const escaped = buildGpx({ name: 'Fish & Chips', tracks: [{ name: 'Fish & Chips', segments: [] }], pois: [] })
+      .replace('<name>Fish &amp; Chips</name>', '<name><![CDATA[Fish & Chips]]></name>');
+
+    const gpx = await parseGpx(Buffer.from(renameGpx(escaped, 'Loop')));
+
+    expect(gpx.tracks[0].name).toBe('Loop');
+    expect(renameGpx(escaped, 'Loop')).not.toContain('Fish');
+  });
+
+  it('should add a name to tracks without one', async () => {
+    const unnamed = buildGpx({ name: '', tracks: [{ name: '', segments: [] }], pois: [] });
+
+    const renamed = renameGpx(unnamed, 'Loop');
+
+    expect(renamed).toContain('<metadata><name>Loop</name>');
+    expect(renamed).toMatch(/<trk><name>Loop<\/name>/);
+  });
+});
+
+describe('buildGpx', () => {
+  it('should write planned routes as routes that read back unchanged', async () => {
+    const points = [
+      { lat: -42.1, lon: 146.1, ele: 100, timestamp: '2024-01-01T00:00:00Z' },
+      { lat: -42.2, lon: 146.2, ele: 110 }
+    ];
+
+    const gpxData = buildGpx({ name: 'Loop', routes: [{ name: 'Planned', points }], tracks: [], pois: [] });
+    const gpx = await parseGpx(Buffer.from(gpxData));
+
+    expect(gpxData).toContain('<rte>');
+    expect(gpx.tracks).toEqual([]);
+    expect(gpx.routes).toEqual([{ name: 'Planned', points: points.map(point => expect.objectContaining(point)) }]);
+  });
+});
@@ -0,0 +1,80 @@
+import { parseGpx, flattenGpxPoints } from '../parsing';
+
+const gpx = (body: string) => Buffer.from(
+  `<?xml version="1.0" encoding="UTF-8"?>
+  <gpx version="1.1" creator="test" xmlns="http://www.topografix.com/GPX/1/1">${body}</gpx>`
+);
+
+describe('parseGpx', () => {
+  it('should keep track and segment boundaries', async () => {
+    const result = await parseGpx(gpx(`
+      <trk>
+        <name>Day 1</name>
+        <trkseg>
+          <trkpt lat="-42.1" lon="146.1"><ele>100</ele><time>2024-01-01T00:00:00Z</time><name>ignored</name></trkpt>
+          <trkpt lat="-42.2" lon="146.2"><ele>110</ele></trkpt>
+        </trkseg>
+        <trkseg>
+          <trkpt lat="-42.3" lon="146.3"></trkpt>
+        </trkseg>
+      </trk>
+      <trk>
+        <name>Day 2</name>
+        <trkseg><trkpt lat="-43" lon="147"></trkpt></trkseg>
+      </trk>
+    `));
+
+    expect(result.tracks.map(t => t.name)).toEqual(['Day 1', 'Day 2']);
+    expect(result.tracks[0].segments).toHaveLength(2);
+    expect(result.tracks[0].segments[0].points[0]).toEqual({
+      lat: -42.1,
+      lon: 146.1,
+      ele: 100,
+      timestamp: '2024-01-01T00:00:00Z',
+      surface: 'unknown'
+    });
+    expect(result.tracks[0].segments[1].points[0].ele).toBe(0);
+  });
+
+  it('should parse planned routes from rte elements', async () => {
+    const result = await parseGpx(gpx(`
+      <rte>
+        <name>Planned</name>
+        <rtept lat="-41" lon="145"><ele>5</ele></rtept>
+        <rtept lat="-41.1" lon="145.1"></rtept>
+      </rte>
+    `));
+
+    expect(result.tracks).toEqual([]);
+    expect(result.routes).toHaveLength(1);
+    expect(result.routes[0].name).toBe('Planned');
+    expect(result.routes[0].points.map(p => [p.lat, p.lon])).toEqual([[-41, 145], [-41.1, 145.1]]);
+  });
+
+  it('should parse waypoints with their descriptive fields', async () => {
+    const result = await parseGpx(gpx(`
+      <wpt lat="-41.5" lon="146.5">
+        <ele>200</ele>
+        <name>Water tap</name>
+        <desc>Behind the hall</desc>
+        <sym>Drinking Water</sym>
+        <type>Water</type>
+      </wpt>
+      <wpt lat="-41.6" lon="146.6"></wpt>
+    `));
+
+    expect(result.waypoints).toEqual([
+      { lat: -41.5, lon: 146.5, ele: 200, name: 'Water tap', desc: 'Behind the hall', sym: 'Drinking Water', type: 'Water' },
+      { lat: -41.6, lon: 146.6, ele: undefined, name: undefined, desc: undefined, sym: undefined, type: undefined }
+    ]);
+  });
+
+  it('should flatten tracks and routes into a single point list', async () => {
+    const result = await parseGpx(gpx(`
+      <trk><trkseg><trkpt lat="1" lon="1"></trkpt></trkseg><trkseg><trkpt lat="2" lon="2"></trkpt></trkseg></trk>
+      <rte><rtept lat="3" lon="3"></rtept></rte>
+    `));
+
+    expect(flattenGpxPoints(result).map(p => p.lat)).toEqual([1, 2, 3]);
+  });
+});
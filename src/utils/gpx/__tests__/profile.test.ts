@@ -0,0 +1,93 @@
+import {
+  calculateRangeStats,
+  findNearestSampleIndex,
+  findSampleIndexAtDistance,
+  getSamplesInRange
+} from '../profile';
+import { ElevationSample } from '../../../types/gpx-types';
+
+// A 400m profile heading east: up 20m on gravel, down 10m on dirt, then flat on a sealed road
+const samples: ElevationSample[] = [
+  { distance: 0, elevation: 100, grade: 10, surface: 'compacted_gravel', lat: -42, lon: 146 },
+  { distance: 100, elevation: 110, grade: 10, surface: 'compacted_gravel', lat: -42, lon: 146.001 },
+  { distance: 200, elevation: 120, grade: 0, surface: 'dirt', lat: -42, lon: 146.002 },
+  { distance: 300, elevation: 110, grade: -5, surface: 'sealed', lat: -42, lon: 146.003 },
+  { distance: 400, elevation: 110, grade: 0, surface: 'sealed', lat: -42, lon: 146.004 }
+];
+
+describe('findSampleIndexAtDistance', () => {
+  it('should return the closest sample to a distance', () => {
+    expect(findSampleIndexAtDistance(samples, 0)).toBe(0);
+    expect(findSampleIndexAtDistance(samples, 140)).toBe(1);
+    expect(findSampleIndexAtDistance(samples, 160)).toBe(2);
+    expect(findSampleIndexAtDistance(samples, 1000)).toBe(4);
+    expect(findSampleIndexAtDistance(samples, -50)).toBe(0);
+  });
+
+  it('should return -1 without samples', () => {
+    expect(findSampleIndexAtDistance([], 100)).toBe(-1);
+  });
+});
+
+describe('findNearestSampleIndex', () => {
+  it('should return the sample closest to a map position', () => {
+    expect(findNearestSampleIndex(samples, 146.0029, -42.0001)).toBe(3);
+    expect(findNearestSampleIndex(samples, 145, -42)).toBe(0);
+    expect(findNearestSampleIndex([], 146, -42)).toBe(-1);
+  });
+});
+
+describe('getSamplesInRange', () => {
+  it('should return samples between two distances in either order', () => {
+    expect(getSamplesInRange(samples, 100, 300).map(s => s.distance)).toEqual([100, 200, 300]);
+    expect(getSamplesInRange(samples, 300, 100).map(s => s.distance)).toEqual([100, 200, 300]);
+  });
+});
+
+describe('calculateRangeStats', () => {
+  it('should calculate stats for a selected range', () => {
+    expect(calculateRangeStats(samples, 0, 400)).toEqual({
+      startDistance: 0,
+      endDistance: 400,
+      distance: 400,
+      ascent: 20,
+      descent: 10,
+      averageGrade: 2.5,
+      maxGrade: 10,
+      minElevation: 100,
+      maxElevation: 120,
+      unpavedDistance: 300,
+      surfaceDistances: { compacted_gravel: 200, dirt: 100, sealed: 100 }
+    });
+  });
+
+  it('should only include samples within the range', () => {
+    expect(calculateRangeStats(samples, 150, 400)).toMatchObject({
+      startDistance: 200,
+      distance: 200,
+      ascent: 0,
+      descent: 10,
+      averageGrade: -5,
+      unpavedDistance: 100,
+      surfaceDistances: { dirt: 100, sealed: 100 }
+    });
+  });
+
+  it('should return undefined for ranges with fewer than two samples', () => {
+    expect(calculateRangeStats(samples, 120, 180)).toBeUndefined();
+  });
+
+  it('should handle ranges with more samples than a function takes arguments', () => {
+    // A multi-day route sampled every few meters
+    const long: ElevationSample[] = Array.from({ length: 500000 }, (_, i) => ({
+      distance: i * 2,
+      elevation: 100 + (i % 1000) / 10,
+      grade: i % 7,
+      surface: 'sealed',
+      lat: -42,
+      lon: 146
+    }));
+
+    expect(calculateRangeStats(long, 0, 1000000)).toMatchObject({ minElevation: 100, maxElevation: 199.9, maxGrade: 6 });
+  });
+});
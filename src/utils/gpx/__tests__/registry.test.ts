@@ -0,0 +1,280 @@
+import { deflateRawSync } from 'zlib';
+import { detectRouteFileFormat, isSupportedRouteFile, parseRouteFile } from '../registry';
+import { flattenGpxPoints } from '../parsing';
+import { KmzTooLargeError, MAX_KML_SIZE } from '../kml';
+
+const xml = (body: string) => Buffer.from(`<?xml version="1.0" encoding="UTF-8"?>\n${body}`);
+
+const gpxFile = xml(`
+  <gpx version="1.1" creator="test" xmlns="http://www.topografix.com/GPX/1/1">
+    <trk><trkseg><trkpt lat="-42.1" lon="146.1"><ele>100</ele></trkpt></trkseg></trk>
+  </gpx>
+`);
+
+const tcxFile = xml(`
+  <TrainingCenterDatabase xmlns="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2">
+    <Activities>
+      <Activity Sport="Biking">
+        <Id>2024-01-01T00:00:00Z</Id>
+        <Lap StartTime="2024-01-01T00:00:00Z">
+          <Track>
+            <Trackpoint>
+              <Time>2024-01-01T00:00:00Z</Time>
+              <Position><LatitudeDegrees>-42.1</LatitudeDegrees><LongitudeDegrees>146.1</LongitudeDegrees></Position>
+              <AltitudeMeters>100</AltitudeMeters>
+            </Trackpoint>
+            <Trackpoint><Time>2024-01-01T00:00:01Z</Time><HeartRateBpm><Value>120</Value></HeartRateBpm></Trackpoint>
+            <Trackpoint>
+              <Position><LatitudeDegrees>-42.2</LatitudeDegrees><LongitudeDegrees>146.2</LongitudeDegrees></Position>
+            </Trackpoint>
+          </Track>
+        </Lap>
+      </Activity>
+    </Activities>
+    <Courses>
+      <Course>
+        <Name>Loop</Name>
+        <Track>
+          <Trackpoint>
+            <Position><LatitudeDegrees>-43</LatitudeDegrees><LongitudeDegrees>147</LongitudeDegrees></Position>
+          </Trackpoint>
+        </Track>
+        <CoursePoint>
+          <Name>Tap</Name>
+          <Position><LatitudeDegrees>-43.1</LatitudeDegrees><LongitudeDegrees>147.1</LongitudeDegrees></Position>
+          <PointType>Water</PointType>
+        </CoursePoint>
+      </Course>
+    </Courses>
+  </TrainingCenterDatabase>
+`);
+
+const kmlFile = xml(`
+  <kml xmlns="http://www.opengis.net/kml/2.2" xmlns:gx="http://www.google.com/kml/ext/2.2">
+    <Document>
+      <Folder>
+        <Placemark>
+          <name>Day 1</name>
+          <MultiGeometry>
+            <LineString><coordinates>146.1,-42.1,100 146.2,-42.2,110</coordinates></LineString>
+            <LineString><coordinates>
+              146.3,-42.3
+            </coordinates></LineString>
+          </MultiGeometry>
+        </Placemark>
+        <Placemark>
+          <name>Recorded</name>
+          <gx:Track>
+            <when>2024-01-01T00:00:00Z</when>
+            <gx:coord>147 -43 50</gx:coord>
+          </gx:Track>
+        </Placemark>
+        <Placemark>
+          <name>Hut</name>
+          <description>Sleeps 8</description>
+          <Point><coordinates>146.5,-42.5,0</coordinates></Point>
+        </Placemark>
+      </Folder>
+    </Document>
+  </kml>
+`);
+
+/**
+ * Builds a single-entry zip archive, stored or deflated.
+ */
+const zip = (name: string, content: Buffer, deflate: boolean, declaredSize = content.length): Buffer => {
+  const data = deflate ? deflateRawSync(content) : content;
+  const fileName = Buffer.from(name);
+
+  const local = Buffer.alloc(30);
+  local.writeUInt32LE(0x04034b50, 0);
+  local.writeUInt16LE(deflate ? 8 : 0, 8);
+  local.writeUInt32LE(data.length, 18);
+  local.writeUInt32LE(declaredSize, 22);
+  local.writeUInt16LE(fileName.length, 26);
+
+  const central = Buffer.alloc(46);
+  central.writeUInt32LE(0x02014b50, 0);
+  central.writeUInt16LE(deflate ? 8 : 0, 10);
+  central.writeUInt32LE(data.length, 20);
+  central.writeUInt32LE(declaredSize, 24);
+  central.writeUInt16LE(fileName.length, 28);
+  central.writeUInt32LE(0, 42);
+
+  const centralOffset = local.length + fileName.length + data.length;
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(1, 8);
+  end.writeUInt16LE(1, 10);
+  end.writeUInt32LE(central.length + fileName.length, 12);
+  end.writeUInt32LE(centralOffset, 16);
+
+  return Buffer.concat([local, fileName, data, central, fileName, end]);
+};
+
+const semicircles = (degrees: number) => Math.round(degrees * 2 ** 31 / 180);
+
+/**
+ * Builds a FIT file with two records (the second using a compressed timestamp header)
+ * and one course point.
+ */
+const fitFile = (): Buffer => {
+  const records: Buffer[] = [];
+
+  // Definition: local 0 = record (20) with timestamp, lat, long, altitude
+  records.push(Buffer.from([0x40, 0, 0, 20, 0, 4, 253, 4, 0x86, 0, 4, 0x85, 1, 4, 0x85, 2, 2, 0x84]));
+
+  const record = (header: number, timestamp: number, lat: number, lon: number, altitude: number) => {
+    const data = Buffer.alloc(15);
+    data.writeUInt8(header, 0);
+    data.writeUInt32LE(timestamp, 1);
+    data.writeInt32LE(semicircles(lat), 5);
+    data.writeInt32LE(semicircles(lon), 9);
+    data.writeUInt16LE((altitude + 500) * 5, 13);
+    return data;
+  };
+  records.push(record(0x00, 1000000030, -42.1, 146.1, 100));
+  // Compressed timestamp header: offset 2 rolls over past 30 to the next 32 second block
+  records.push(record(0x80 | 2, 0xffffffff, -42.2, 146.2, 110));
+
+  // Definition: local 1 = course point (32) with lat, long and name
+  records.push(Buffer.from([0x41, 0, 0, 32, 0, 3, 2, 4, 0x85, 3, 4, 0x85, 6, 8, 0x07]));
+  const coursePoint = Buffer.alloc(17);
+  coursePoint.writeUInt8(0x01, 0);
+  coursePoint.writeInt32LE(semicircles(-42.5), 1);
+  coursePoint.writeInt32LE(semicircles(146.5), 5);
+  coursePoint.write('Water', 9);
+  records.push(coursePoint);
+
+  const data = Buffer.concat(records);
+  const header = Buffer.alloc(14);
+  header.writeUInt8(14, 0);
+  header.writeUInt8(0x10, 1);
+  header.writeUInt32LE(data.length, 4);
+  header.write('.FIT', 8, 'ascii');
+
+  // Trailing file CRC (not checked)
+  return Buffer.concat([header, data, Buffer.alloc(2)]);
+};
+
+describe('detectRouteFileFormat', () => {
+  it('should detect formats from content regardless of extension', () => {
+    expect(detectRouteFileFormat(gpxFile, 'route.txt')).toBe('gpx');
+    expect(detectRouteFileFormat(tcxFile, 'route.gpx')).toBe('tcx');
+    expect(detectRouteFileFormat(kmlFile)).toBe('kml');
+    expect(detectRouteFileFormat(zip('doc.kml', kmlFile, true))).toBe('kmz');
+    expect(detectRouteFileFormat(fitFile())).toBe('fit');
+  });
+
+  it('should fall back to the extension for unrecognised content', () => {
+    expect(detectRouteFileFormat(Buffer.from(''), 'empty.gpx')).toBe('gpx');
+    expect(detectRouteFileFormat(Buffer.from('hello'), 'notes.txt')).toBeUndefined();
+  });
+
+  it('should check supported extensions case-insensitively', () => {
+    expect(isSupportedRouteFile('Ride.FIT')).toBe(true);
+    expect(isSupportedRouteFile('map.kmz')).toBe(true);
+    expect(isSupportedRouteFile('photo.jpg')).toBe(false);
+  });
+});
+
+describe('parseRouteFile', () => {
+  it('should reject unsupported files', async () => {
+    await expect(parseRouteFile(Buffer.from('hello'), 'notes.txt'))
+      .rejects
+      .toThrow('Unsupported route file format');
+  });
+
+  it('should parse GPX files', async () => {
+    const { format, gpx } = await parseRouteFile(gpxFile);
+
+    expect(format).toBe('gpx');
+    expect(flattenGpxPoints(gpx)).toHaveLength(1);
+  });
+
+  it('should parse TCX activities, courses and course points', async () => {
+    const { format, gpx } = await parseRouteFile(tcxFile);
+
+    expect(format).toBe('tcx');
+    expect(gpx.tracks.map(t => t.name)).toEqual([undefined, 'Loop']);
+    expect(gpx.tracks[0].segments[0].points).toEqual([
+      { lat: -42.1, lon: 146.1, ele: 100, timestamp: '2024-01-01T00:00:00Z', surface: 'unknown' },
+      { lat: -42.2, lon: 146.2, ele: 0, timestamp: undefined, surface: 'unknown' }
+    ]);
+    expect(gpx.waypoints).toEqual([
+      { lat: -43.1, lon: 147.1, ele: undefined, name: 'Tap', desc: undefined, type: 'Water' }
+    ]);
+  });
+
+  it('should parse KML lines, gx:Tracks and points', async () => {
+    const { format, gpx } = await parseRouteFile(kmlFile);
+
+    expect(format).toBe('kml');
+    expect(gpx.tracks.map(t => t.name)).toEqual(['Day 1', 'Recorded']);
+    expect(gpx.tracks[0].segments).toHaveLength(2);
+    expect(gpx.tracks[0].segments[0].points[1]).toEqual({ lat: -42.2, lon: 146.2, ele: 110, surface: 'unknown' });
+    expect(gpx.tracks[0].segments[1].points).toEqual([{ lat: -42.3, lon: 146.3, ele: 0, surface: 'unknown' }]);
+    expect(gpx.tracks[1].segments[0].points[0]).toMatchObject({
+      lat: -43,
+      lon: 147,
+      ele: 50,
+      timestamp: '2024-01-01T00:00:00Z'
+    });
+    expect(gpx.waypoints).toEqual([
+      { lat: -42.5, lon: 146.5, ele: undefined, name: 'Hut', desc: 'Sleeps 8' }
+    ]);
+  });
+
+  it.each([
+    ['deflated', true],
+    ['stored', false]
+  ])('should parse KML inside %s KMZ archives', async (_label, deflate) => {
+    const { format, gpx } = await parseRouteFile(zip('files/doc.kml', kmlFile, deflate));
+
+    expect(format).toBe('kmz');
+    expect(gpx.tracks).toHaveLength(2);
+    expect(gpx.waypoints[0].name).toBe('Hut');
+  });
+
+  it('should reject KMZ archives without a KML document', async () => {
+    await expect(parseRouteFile(zip('image.png', Buffer.from('png'), false)))
+      .rejects
+      .toThrow('No KML document found in KMZ archive');
+  });
+
+  it('should reject KMZ archives declaring a KML document over the size limit', async () => {
+    await expect(parseRouteFile(zip('doc.kml', kmlFile, true, MAX_KML_SIZE + 1)))
+      .rejects
+      .toThrow(KmzTooLargeError);
+  });
+
+  it('should stop inflating KML that grows past the size limit', async () => {
+    const bomb = zip('doc.kml', Buffer.alloc(MAX_KML_SIZE + 1, ' '), true, kmlFile.length);
+
+    await expect(parseRouteFile(bomb)).rejects.toThrow(KmzTooLargeError);
+  });
+
+  it('should parse FIT records and course points', async () => {
+    const { format, gpx } = await parseRouteFile(fitFile());
+
+    expect(format).toBe('fit');
+    const points = gpx.tracks[0].segments[0].points;
+    expect(points).toHaveLength(2);
+    expect(points[0].lat).toBeCloseTo(-42.1, 6);
+    expect(points[0].lon).toBeCloseTo(146.1, 6);
+    expect(points[0].ele).toBe(100);
+    expect(points[0].timestamp).toBe(new Date((1000000030 + 631065600) * 1000).toISOString());
+    expect(points[1].ele).toBe(110);
+    expect(points[1].timestamp).toBe(new Date((1000000034 + 631065600) * 1000).toISOString());
+    expect(gpx.waypoints).toHaveLength(1);
+    expect(gpx.waypoints[0]).toMatchObject({ name: 'Water' });
+    expect(gpx.waypoints[0].lat).toBeCloseTo(-42.5, 6);
+  });
+
+  it('should reject truncated FIT files', async () => {
+    const file = fitFile().subarray(0, 20);
+    file.writeUInt32LE(100, 4);
+
+    await expect(parseRouteFile(file)).rejects.toThrow('Failed to parse FIT file');
+  });
+});
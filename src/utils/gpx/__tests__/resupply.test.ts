@@ -0,0 +1,94 @@
+import type { FeatureCollection } from 'geojson';
+import { analyzeResupply, resupplyKindsOf } from '../resupply';
+import { AccommodationPOIType, InfrastructurePOIType, POI, POICategory, ServicesPOIType } from '../../../types/note-types';
+
+// Along the equator, 0.01° is about 1112 m
+const routeData: FeatureCollection = {
+  type: 'FeatureCollection',
+  features: [
+    {
+      type: 'Feature',
+      properties: { surface: 'gravel' },
+      geometry: { type: 'LineString', coordinates: [[0, 0], [0.01, 0], [0.03, 0]] }
+    }
+  ]
+};
+
+const poi = (id: string, type: POI['type'], category: POICategory, lon: number, lat: number): POI => ({
+  id,
+  name: id,
+  type,
+  category,
+  location: { lat, lon },
+  createdBy: 'auth0|owner',
+  createdAt: new Date(),
+  updatedAt: new Date()
+});
+
+const pois = [
+  poi('tap', InfrastructurePOIType.WaterPoint, POICategory.Infrastructure, 0.005, 0.0003),
+  poi('cafe', ServicesPOIType.Cafe, POICategory.Services, 0.02, -0.0005),
+  // About 560 m from the route
+  poi('shop', ServicesPOIType.Supermarket, POICategory.Services, 0.026, 0.005),
+  poi('far-shop', ServicesPOIType.GeneralStore, POICategory.Services, 0.01, 0.05),
+  poi('camp', AccommodationPOIType.Campground, POICategory.Accommodation, 0.015, 0)
+];
+
+describe('resupplyKindsOf', () => {
+  it('should give water at water points and water and food at shops', () => {
+    expect(resupplyKindsOf({ type: InfrastructurePOIType.WaterPoint })).toEqual(['water']);
+    expect(resupplyKindsOf({ type: ServicesPOIType.FuelStation })).toEqual(['water', 'food']);
+    expect(resupplyKindsOf({ type: AccommodationPOIType.Campground })).toEqual([]);
+  });
+});
+
+describe('analyzeResupply', () => {
+  it('should place the resupply POIs within the corridor on the route with their detour', () => {
+    const { points } = analyzeResupply(routeData, pois);
+
+    expect(points.map(point => point.poiId)).toEqual(['tap', 'cafe', 'shop']);
+    expect(points[0]).toEqual({
+      poiId: 'tap',
+      name: 'tap',
+      type: InfrastructurePOIType.WaterPoint,
+      kinds: ['water'],
+      distance: expect.closeTo(556, 0),
+      detour: expect.closeTo(67, 0)
+    });
+    expect(points[2].detour).toBeCloseTo(1112, -1);
+  });
+
+  it('should leave out POIs outside a narrower corridor', () => {
+    const { corridor, points } = analyzeResupply(routeData, pois, { corridor: 500 });
+
+    expect(corridor).toBe(500);
+    expect(points.map(point => point.poiId)).toEqual(['tap', 'cafe']);
+  });
+
+  it('should report the gaps between resupply points longest first and flag those over the limit', () => {
+    const { gaps, maxGaps } = analyzeResupply(routeData, pois, { maxGaps: { food: 2000 } });
+
+    expect(maxGaps).toEqual({ water: 50000, food: 2000 });
+    expect(gaps.map(({ kind, startPoiId, endPoiId, exceedsLimit }) => [kind, startPoiId, endPoiId, exceedsLimit])).toEqual([
+      ['food', undefined, 'cafe', true],
+      ['water', 'tap', 'cafe', false],
+      ['water', 'cafe', 'shop', false],
+      ['food', 'cafe', 'shop', false],
+      ['water', undefined, 'tap', false],
+      ['water', 'shop', undefined, false],
+      ['food', 'shop', undefined, false]
+    ]);
+    expect(gaps[0]).toEqual(expect.objectContaining({ startDistance: 0, endDistance: expect.closeTo(2224, 0) }));
+    expect(gaps[0]).not.toHaveProperty('startPoiId');
+  });
+
+  it('should make the whole route one gap without resupply points', () => {
+    const { points, gaps } = analyzeResupply(routeData, [], { maxGaps: { water: 3000 } });
+
+    expect(points).toEqual([]);
+    expect(gaps.map(({ kind, distance, exceedsLimit }) => [kind, Math.round(distance), exceedsLimit])).toEqual([
+      ['water', 3336, true],
+      ['food', 3336, false]
+    ]);
+  });
+});
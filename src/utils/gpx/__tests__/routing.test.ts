@@ -0,0 +1,87 @@
+import { joinPaths, RoadGraph, RoadLine, roadCostFactor } from '../routing';
+import { SURFACE_TYPES } from '../../../types/gpx-types';
+
+// At 42° south, 0.01° of longitude is about 827 m. A sealed highway runs straight from
+// west to east, and a gravel road bends south of it between the same ends.
+const WEST: [number, number] = [146.0, -42.0];
+const EAST: [number, number] = [146.02, -42.0];
+const roads: RoadLine[] = [
+  { surface: 'asphalt', highway: 'primary', coordinates: [WEST, [146.01, -42.0], EAST] },
+  { surface: 'gravel', highway: 'track', coordinates: [WEST, [146.01, -42.004], EAST] }
+];
+
+const surfacesOf = (graph: RoadGraph, from: [number, number], to: [number, number], preferences = {}) => {
+  const path = graph.shortestPath(graph.snap(from, 50)!, graph.snap(to, 50)!, preferences);
+  return path && graph.segmentsOf(path).map(({ surface, distance }) => ({ surface, distance }));
+};
+
+describe('roadCostFactor', () => {
+  it('should never make a road cheaper than its length', () => {
+    for (const surface of SURFACE_TYPES) {
+      for (const preferences of [{}, { preferGravel: true }, { preferGravel: true, avoidSealedHighways: true }]) {
+        expect(roadCostFactor(surface, 'primary', preferences)).toBeGreaterThanOrEqual(1);
+      }
+    }
+  });
+
+  it('should only penalise sealed major highways when they are avoided', () => {
+    expect(roadCostFactor('sealed', 'primary', { avoidSealedHighways: true })).toBe(4);
+    expect(roadCostFactor('sealed', 'residential', { avoidSealedHighways: true })).toBe(1);
+    expect(roadCostFactor('loose_gravel', 'primary', { avoidSealedHighways: true })).toBe(1);
+  });
+});
+
+describe('RoadGraph', () => {
+  it('should take the shortest road without preferences', () => {
+    const graph = RoadGraph.fromRoads(roads);
+
+    expect(surfacesOf(graph, WEST, EAST)).toEqual([{ surface: 'sealed', distance: expect.closeTo(1655, -1) }]);
+  });
+
+  it('should take a longer gravel road when gravel is preferred or sealed highways avoided', () => {
+    const gravel = [{ surface: 'loose_gravel', distance: expect.closeTo(1880, -1) }];
+
+    expect(surfacesOf(RoadGraph.fromRoads(roads), WEST, EAST, { preferGravel: true })).toEqual(gravel);
+    expect(surfacesOf(RoadGraph.fromRoads(roads), WEST, EAST, { avoidSealedHighways: true })).toEqual(gravel);
+  });
+
+  it('should snap a point onto the middle of the nearest road', () => {
+    const graph = RoadGraph.fromRoads(roads);
+    const size = graph.size;
+
+    const node = graph.snap([146.005, -42.0001], 50);
+
+    expect(graph.size).toBe(size + 1);
+    expect(graph.coordinatesOf(node!)).toEqual([expect.closeTo(146.005, 6), expect.closeTo(-42.0, 6)]);
+    expect(surfacesOf(graph, [146.005, -42.0001], EAST)).toEqual([{ surface: 'sealed', distance: expect.closeTo(1241, -1) }]);
+  });
+
+  it('should not snap points further than the limit from every road', () => {
+    const graph = RoadGraph.fromRoads(roads);
+
+    expect(graph.snap([146.01, -42.01], 250)).toBeNull();
+  });
+
+  it('should split the route where the surface changes and join legs into one path', () => {
+    const graph = RoadGraph.fromRoads([
+      { surface: 'gravel', highway: 'track', coordinates: [WEST, [146.01, -42.0]] },
+      { surface: 'asphalt', highway: 'residential', coordinates: [[146.01, -42.0], EAST] }
+    ]);
+    const [west, middle, east] = [WEST, [146.01, -42.0] as [number, number], EAST].map(point => graph.snap(point, 10)!);
+
+    const path = joinPaths([graph.shortestPath(west, middle, {})!, graph.shortestPath(middle, east, {})!]);
+
+    expect(path.nodes).toHaveLength(3);
+    expect(graph.segmentsOf(path).map(({ surface, geometry }) => [surface, geometry.coordinates.length]))
+      .toEqual([['loose_gravel', 2], ['sealed', 2]]);
+  });
+
+  it('should leave out roads bikes cannot use', () => {
+    const graph = RoadGraph.fromRoads([
+      { surface: 'asphalt', highway: 'motorway', coordinates: [WEST, EAST] },
+      { surface: 'asphalt', highway: 'residential', coordinates: [[146.0, -42.1], [146.02, -42.1]] }
+    ]);
+
+    expect(graph.snap(WEST, 10)).toBeNull();
+  });
+});
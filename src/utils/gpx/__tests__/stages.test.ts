@@ -0,0 +1,105 @@
+import type { FeatureCollection } from 'geojson';
+import { calculateStages, estimateRidingTime, measureAlongRoute, stageEndsEvery } from '../stages';
+import { ElevationSample } from '../../../types/gpx-types';
+
+// Along the equator, 0.01° is about 1112 m: gravel for the first 0.01°, then a sealed road for 0.02°
+const routeData: FeatureCollection = {
+  type: 'FeatureCollection',
+  features: [
+    {
+      type: 'Feature',
+      properties: { surface: 'gravel' },
+      geometry: { type: 'LineString', coordinates: [[0, 0], [0.01, 0]] }
+    },
+    {
+      type: 'Feature',
+      properties: { surface: 'asphalt' },
+      geometry: { type: 'LineString', coordinates: [[0.01, 0], [0.03, 0]] }
+    }
+  ]
+};
+
+// Climbs 50 m over the first 2 km, then descends 20 m
+const samples: ElevationSample[] = [0, 1000, 2000, 3335].map((distance, i) => ({
+  distance,
+  elevation: [100, 125, 150, 130][i],
+  grade: 0,
+  surface: 'unknown',
+  lat: 0,
+  lon: distance / 111195
+}));
+
+describe('estimateRidingTime', () => {
+  it('should ride each surface at its own speed and add time for climbing', () => {
+    expect(estimateRidingTime({ sealed: 20000 }, 0)).toBe(3600);
+    expect(estimateRidingTime({ sealed: 20000, loose_gravel: 14000 }, 600)).toBe(3 * 3600);
+  });
+});
+
+describe('stageEndsEvery', () => {
+  it('should end a stage every stage distance', () => {
+    expect(stageEndsEvery(260000, 80000).map(end => end.distance)).toEqual([80000, 160000, 240000]);
+  });
+
+  it('should join a short last stage to the one before', () => {
+    expect(stageEndsEvery(250000, 80000).map(end => end.distance)).toEqual([80000, 160000]);
+    expect(stageEndsEvery(50000, 80000)).toEqual([]);
+  });
+});
+
+describe('measureAlongRoute', () => {
+  it('should scale the distances of points onto the route data', () => {
+    const lines = [[{ lat: 0, lon: 0 }, { lat: 0, lon: 0.01 }], [{ lat: 0, lon: 0.02 }, { lat: 0, lon: 0.03 }]];
+
+    const measured = measureAlongRoute(lines, 4000);
+
+    expect(measured.map(line => line.map(({ distance }) => distance))).toEqual([[0, 2000], [2000, 4000]]);
+    expect(measured[1][1].point).toBe(lines[1][1]);
+  });
+});
+
+describe('calculateStages', () => {
+  it('should divide the route at the ends with each stage\'s distance, climbing and surfaces', () => {
+    const stages = calculateStages(routeData, [{ distance: 2000, name: 'To the hut', poiId: 'hut' }], samples);
+
+    expect(stages).toHaveLength(2);
+    expect(stages[0]).toEqual({
+      number: 1,
+      name: 'To the hut',
+      startDistance: 0,
+      endDistance: 2000,
+      distance: 2000,
+      ascent: 50,
+      descent: 0,
+      unpavedDistance: expect.closeTo(1112, 0),
+      surfaceDistances: { loose_gravel: expect.closeTo(1112, 0), sealed: expect.closeTo(888, 0) },
+      ridingTime: expect.any(Number),
+      endPoiId: 'hut'
+    });
+    expect(stages[1]).toEqual(expect.objectContaining({
+      number: 2,
+      name: 'Stage 2',
+      startDistance: 2000,
+      endDistance: expect.closeTo(3336, 0),
+      ascent: 0,
+      descent: 20,
+      unpavedDistance: 0
+    }));
+    expect(stages[1]).not.toHaveProperty('endPoiId');
+  });
+
+  it('should ignore ends outside the route and repeated ends', () => {
+    const stages = calculateStages(routeData, [{ distance: 0 }, { distance: 1500 }, { distance: 1500 }, { distance: 9000 }]);
+
+    expect(stages.map(({ startDistance, endDistance }) => [startDistance, Math.round(endDistance)])).toEqual([[0, 1500], [1500, 3336]]);
+    expect(stages.every(stage => stage.ascent === 0 && stage.descent === 0)).toBe(true);
+  });
+
+  it('should make the whole route one stage without ends', () => {
+    const [stage] = calculateStages(routeData, []);
+
+    expect(stage.distance).toBeCloseTo(3336, 0);
+    // 1.1 km of gravel at 14 km/h and 2.2 km of sealed road at 20 km/h
+    expect(stage.ridingTime).toBe(Math.round((1.112 / 14 + 2.224 / 20) * 3600));
+  });
+});
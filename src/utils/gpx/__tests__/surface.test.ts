@@ -0,0 +1,216 @@
+import type { FeatureCollection } from 'geojson';
+import type { SurfaceRun } from '../../../types/gpx-types';
+import {
+  applySurfaceOverrides,
+  buildRunSegments,
+  buildSurfaceRuns,
+  classifySurface,
+  locateOnRouteData,
+  RoadMatchRow,
+  rollupSurface,
+  sliceRouteData
+} from '../surface';
+
+describe('classifySurface', () => {
+  it('should map OSM surface tags onto the taxonomy', () => {
+    expect(classifySurface('asphalt')).toBe('sealed');
+    expect(classifySurface('Paved')).toBe('sealed');
+    expect(classifySurface('fine_gravel')).toBe('compacted_gravel');
+    expect(classifySurface('gravel')).toBe('loose_gravel');
+    expect(classifySurface('earth')).toBe('dirt');
+  });
+
+  it('should accept standardized surface names', () => {
+    expect(classifySurface('loose_gravel')).toBe('loose_gravel');
+    expect(classifySurface('unpaved')).toBe('unknown');
+  });
+
+  it('should treat unsealed paths as singletrack', () => {
+    expect(classifySurface('dirt', 'path')).toBe('singletrack');
+    expect(classifySurface(null, 'bridleway')).toBe('singletrack');
+    expect(classifySurface('asphalt', 'path')).toBe('sealed');
+    expect(classifySurface('dirt', 'track')).toBe('dirt');
+  });
+
+  it('should default unknown or missing values to unknown', () => {
+    expect(classifySurface('moon_dust')).toBe('unknown');
+    expect(classifySurface(null)).toBe('unknown');
+  });
+});
+
+describe('rollupSurface', () => {
+  it('should only count sealed surfaces as paved', () => {
+    expect(rollupSurface('sealed')).toBe('paved');
+    expect(rollupSurface('compacted_gravel')).toBe('unpaved');
+    expect(rollupSurface('unknown')).toBe('unpaved');
+  });
+});
+
+describe('buildSurfaceRuns', () => {
+  const match = (distance: number, surface: string | null, highway: string | null, matchDistance: number | null): RoadMatchRow =>
+    ({ distance, surface, highway, match_distance: matchDistance });
+
+  it('should split the line where the surface or highway class changes', () => {
+    const rows = [
+      match(0, 'asphalt', 'secondary', 0),
+      match(100, 'asphalt', 'secondary', 0),
+      match(200, 'gravel', 'track', 5),
+      match(300, 'gravel', 'track', 5),
+      match(400, 'gravel', 'path', 0),
+      match(500, 'gravel', 'path', 0)
+    ];
+
+    expect(buildSurfaceRuns(rows, 10)).toEqual([
+      { startDistance: 0, endDistance: 200, surface: 'asphalt', highway: 'secondary', surfaceType: 'sealed', confidence: 1 },
+      { startDistance: 200, endDistance: 400, surface: 'gravel', highway: 'track', surfaceType: 'loose_gravel', confidence: 0.5 },
+      { startDistance: 400, endDistance: 500, surface: 'gravel', highway: 'path', surfaceType: 'singletrack', confidence: 1 }
+    ]);
+  });
+
+  it('should report stretches off the road network with no surface', () => {
+    const rows = [
+      match(0, 'asphalt', 'primary', 0),
+      match(100, null, null, null),
+      match(200, null, null, null),
+      match(300, 'asphalt', 'primary', 0)
+    ];
+
+    expect(buildSurfaceRuns(rows, 10)[1]).toEqual(
+      { startDistance: 100, endDistance: 300, surface: null, highway: null, surfaceType: 'unknown', confidence: 0 }
+    );
+  });
+
+  it('should absorb short runs onto crossing roads and lower the confidence', () => {
+    const rows = [
+      match(0, 'asphalt', 'primary', 0),
+      match(50, 'asphalt', 'primary', 0),
+      match(100, 'asphalt', 'primary', 0),
+      match(110, 'gravel', 'track', 0),
+      match(120, 'asphalt', 'primary', 0),
+      match(200, 'asphalt', 'primary', 0)
+    ];
+
+    expect(buildSurfaceRuns(rows, 10)).toEqual([
+      { startDistance: 0, endDistance: 200, surface: 'asphalt', highway: 'primary', surfaceType: 'sealed', confidence: 0.83 }
+    ]);
+  });
+
+  it('should accept numbers returned as strings', () => {
+    const rows = [
+      { distance: '0', surface: 'dirt', highway: 'track', match_distance: '2.5' },
+      { distance: '150.5', surface: 'dirt', highway: 'track', match_distance: '2.5' }
+    ];
+
+    expect(buildSurfaceRuns(rows, 10)).toEqual([
+      { startDistance: 0, endDistance: 150.5, surface: 'dirt', highway: 'track', surfaceType: 'dirt', confidence: 0.75 }
+    ]);
+  });
+});
+
+describe('buildRunSegments', () => {
+  // Along the equator, 0.01° is about 1112 m
+  const line: [number, number][] = [[0, 0], [0.01, 0], [0.02, 0]];
+  const run = (startDistance: number, endDistance: number, surfaceType: SurfaceRun['surfaceType']): SurfaceRun =>
+    ({ startDistance, endDistance, surface: null, highway: null, surfaceType, confidence: 1 });
+
+  it('should cut the line where the surface type changes and merge runs of the same type', () => {
+    const segments = buildRunSegments(line, [
+      run(0, 500, 'sealed'),
+      run(500, 1000, 'loose_gravel'),
+      run(1000, 2000, 'loose_gravel')
+    ]);
+
+    expect(segments.map(({ surface, distance }) => [surface, distance])).toEqual([['sealed', 500], ['loose_gravel', 1500]]);
+    expect(segments[0].geometry.coordinates[0]).toEqual([0, 0]);
+    expect(segments[1].geometry.coordinates[segments[1].geometry.coordinates.length - 1]).toEqual([0.02, 0]);
+  });
+
+  it('should scale the runs onto the length of the line', () => {
+    const [first] = buildRunSegments(line, [run(0, 1000, 'sealed'), run(1000, 2000, 'dirt')]);
+    const [lon] = first.geometry.coordinates[first.geometry.coordinates.length - 1];
+
+    expect(lon).toBeCloseTo(0.01, 6);
+  });
+
+  it('should return nothing without runs', () => {
+    expect(buildRunSegments(line, [])).toEqual([]);
+  });
+});
+
+describe('surface overrides', () => {
+  // Two lines along the equator, each about 1113 m long
+  const routeData: FeatureCollection = {
+    type: 'FeatureCollection',
+    features: [
+      {
+        type: 'Feature',
+        properties: { surface: 'gravel', segmentIndex: 0 },
+        geometry: { type: 'LineString', coordinates: [[0, 0], [0.01, 0]] }
+      },
+      {
+        type: 'Feature',
+        properties: { surface: 'asphalt', segmentIndex: 1 },
+        geometry: { type: 'LineString', coordinates: [[0.01, 0], [0.02, 0]] }
+      }
+    ]
+  };
+
+  const surfaces = (data: FeatureCollection) =>
+    data.features.map(({ properties }) => [properties?.surface, properties?.overridden ?? false]);
+
+  describe('applySurfaceOverrides', () => {
+    it('should return the route data unchanged without overrides', () => {
+      expect(applySurfaceOverrides(routeData, [])).toBe(routeData);
+    });
+
+    it('should split lines where an override starts and ends', () => {
+      const result = applySurfaceOverrides(routeData, [{ startDistance: 500, endDistance: 1500, surface: 'dirt' }]);
+
+      expect(surfaces(result)).toEqual([
+        ['gravel', false],
+        ['dirt', true],
+        ['dirt', true],
+        ['asphalt', false]
+      ]);
+      expect(result.features.map(({ properties }) => properties?.segmentIndex)).toEqual([0, 1, 2, 3]);
+      expect(result.features[1].geometry).toEqual({
+        type: 'LineString',
+        coordinates: [[expect.closeTo(0.0045, 4), expect.closeTo(0, 6)], [0.01, 0]]
+      });
+    });
+
+    it('should let later overrides win where they overlap', () => {
+      const result = applySurfaceOverrides(routeData, [
+        { startDistance: 0, endDistance: 1000, surface: 'dirt' },
+        { startDistance: 500, endDistance: 800, surface: 'sealed' }
+      ]);
+
+      expect(surfaces(result)).toEqual([
+        ['dirt', true],
+        ['sealed', true],
+        ['dirt', true],
+        ['gravel', false],
+        ['asphalt', false]
+      ]);
+    });
+  });
+
+  describe('sliceRouteData', () => {
+    it('should join the pieces of a stretch across lines', () => {
+      const coordinates = sliceRouteData(routeData, 500, 1500);
+
+      expect(coordinates[0][0]).toBeCloseTo(0.0045, 4);
+      expect(coordinates).toContainEqual([0.01, 0]);
+      expect(coordinates[coordinates.length - 1][0]).toBeCloseTo(0.0135, 4);
+    });
+  });
+
+  describe('locateOnRouteData', () => {
+    it('should return the distance along the route and the offset from it', () => {
+      const located = locateOnRouteData(routeData, [0.015, 0.0001]);
+
+      expect(located?.distance).toBeCloseTo(1668, -1);
+      expect(located?.offset).toBeCloseTo(11, 0);
+    });
+  });
+});
@@ -0,0 +1,158 @@
+import { Climb, ClimbCategory, ElevationSample } from '../../types/gpx-types';
+
+// Minimum average grade in percent for a stretch to count as a climb
+export const CLIMB_MIN_GRADE = 3;
+
+// Minimum score per category, hardest first (see detectClimbs for the formula)
+export const CLIMB_CATEGORY_THRESHOLDS: Array<{ category: ClimbCategory; minScore: number }> = [
+  { category: 'HC', minScore: 80000 },
+  { category: '1', minScore: 64000 },
+  { category: '2', minScore: 32000 },
+  { category: '3', minScore: 16000 },
+  { category: '4', minScore: 8000 }
+];
+
+// Display colour per category, shared by the elevation chart and map markers
+export const CLIMB_CATEGORY_COLORS: Record<ClimbCategory, string> = {
+  HC: '#7f1d1d',
+  '1': '#dc2626',
+  '2': '#ea580c',
+  '3': '#f59e0b',
+  '4': '#facc15'
+};
+
+// A climb ends once the road drops this far below its highest point so far
+const CLIMB_END_DROP = 10;
+const CLIMB_END_DROP_RATIO = 0.1;
+
+// Flat run-ins and run-outs (below this grade over this distance) are trimmed off a climb
+const CLIMB_TRIM_GRADE = 2;
+const CLIMB_TRIM_DISTANCE = 100;
+
+/**
+ * Returns the display label of a climb's category, e.g. "Cat 2" or "HC".
+ */
+export function formatClimbCategory(climb: Climb): string {
+  return climb.category === 'HC' ? 'HC' : `Cat ${climb.category}`;
+}
+
+/**
+ * Returns the category for a climb score, or undefined if the climb is too small to categorise.
+ */
+export function categorizeClimb(score: number): ClimbCategory | undefined {
+  return CLIMB_CATEGORY_THRESHOLDS.find(threshold => score >= threshold.minScore)?.category;
+}
+
+/**
+ * Average grade in percent between two samples.
+ */
+const gradeBetween = (from: ElevationSample, to: ElevationSample): number => {
+  const run = to.distance - from.distance;
+  return run > 0 ? ((to.elevation - from.elevation) / run) * 100 : 0;
+};
+
+/**
+ * Moves the start of a climb forward past any flat approach, and the end back
+ * from any flat top, so length and average grade describe the climb itself.
+ */
+function trimClimb(samples: ElevationSample[], start: number, end: number): [number, number] {
+  while (start < end) {
+    let ahead = start + 1;
+    while (ahead < end && samples[ahead].distance - samples[start].distance < CLIMB_TRIM_DISTANCE) ahead++;
+    if (gradeBetween(samples[start], samples[ahead]) >= CLIMB_TRIM_GRADE) break;
+    start++;
+  }
+
+  while (end > start) {
+    let behind = end - 1;
+    while (behind > start && samples[end].distance - samples[behind].distance < CLIMB_TRIM_DISTANCE) behind--;
+    if (gradeBetween(samples[behind], samples[end]) >= CLIMB_TRIM_GRADE) break;
+    end--;
+  }
+
+  return [start, end];
+}
+
+/**
+ * Builds a climb from the samples between a low point and a summit,
+ * or returns undefined if it is not steep or big enough to be categorised.
+ */
+function createClimb(samples: ElevationSample[], low: number, summit: number): Climb | undefined {
+  const [start, end] = trimClimb(samples, low, summit);
+  const length = samples[end].distance - samples[start].distance;
+  if (length <= 0) return undefined;
+
+  const gain = samples[end].elevation - samples[start].elevation;
+  const averageGrade = (gain / length) * 100;
+  const score = length * averageGrade;
+  const category = categorizeClimb(score);
+  if (averageGrade < CLIMB_MIN_GRADE || !category) return undefined;
+
+  let maxGrade = 0;
+  for (let i = start; i <= end; i++) {
+    maxGrade = Math.max(maxGrade, samples[i].grade);
+  }
+
+  return {
+    startDistance: samples[start].distance,
+    endDistance: samples[end].distance,
+    length,
+    gain: Math.round(gain),
+    averageGrade: Math.round(averageGrade * 10) / 10,
+    maxGrade,
+    score: Math.round(score),
+    category
+  };
+}
+
+/**
+ * Detects significant climbs in an elevation profile.
+ *
+ * A climb runs from a low point to the highest point reached before the road
+ * drops by more than 10m or 10% of the climb's gain, whichever is larger.
+ * Flat approaches and tops are trimmed off, then the climb is scored as
+ *
+ *   score = length (m) × average grade (%)
+ *
+ * which is the scoring used by Strava and many route planners. Climbs averaging
+ * at least 3% are categorised by score: Cat 4 ≥ 8,000, Cat 3 ≥ 16,000,
+ * Cat 2 ≥ 32,000, Cat 1 ≥ 64,000 and HC ≥ 80,000. Since length × grade equals
+ * 100 × gain, Cat 4 starts at roughly 80m of climbing and HC at 800m.
+ *
+ * @param samples - Elevation profile samples with smoothed elevations
+ * @returns Categorised climbs in route order
+ */
+export function detectClimbs(samples: ElevationSample[]): Climb[] {
+  const climbs: Climb[] = [];
+  if (samples.length < 2) return climbs;
+
+  let low = 0;
+  let summit = 0;
+
+  for (let i = 1; i < samples.length; i++) {
+    const elevation = samples[i].elevation;
+
+    if (elevation > samples[summit].elevation) {
+      summit = i;
+    }
+
+    const gain = samples[summit].elevation - samples[low].elevation;
+    const drop = samples[summit].elevation - elevation;
+
+    if (drop > Math.max(CLIMB_END_DROP, gain * CLIMB_END_DROP_RATIO)) {
+      // The road has clearly turned downhill, close the climb and look for the next one
+      const climb = summit > low ? createClimb(samples, low, summit) : undefined;
+      if (climb) climbs.push(climb);
+      low = i;
+      summit = i;
+    } else if (elevation < samples[low].elevation) {
+      low = i;
+      summit = i;
+    }
+  }
+
+  const climb = summit > low ? createClimb(samples, low, summit) : undefined;
+  if (climb) climbs.push(climb);
+
+  return climbs;
+}
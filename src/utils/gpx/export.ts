@@ -0,0 +1,227 @@
+import { DOMParser, XMLSerializer } from '@xmldom/xmldom';
+import type { Element as XmlElement } from '@xmldom/xmldom';
+import { GpxPoint } from '../../types/gpx-types';
+import {
+  POI,
+  POIType,
+  InfrastructurePOIType,
+  ServicesPOIType,
+  AccommodationPOIType,
+  NaturalFeaturesPOIType,
+  InformationPOIType
+} from '../../types/note-types';
+import { getChildElements } from './xml';
+
+// Namespace used for Lutruwita-specific data in <extensions>
+export const GPX_EXTENSION_NAMESPACE = 'urn:lutruwita:gpx:1';
+
+/**
+ * GPX <sym> values written for each POI type.
+ * Uses Garmin symbol names where one exists so head units show a sensible icon.
+ */
+export const POI_TYPE_SYMBOLS: Record<POIType, string> = {
+  [InfrastructurePOIType.WaterPoint]: 'Drinking Water',
+  [InfrastructurePOIType.PublicToilet]: 'Restroom',
+  [InfrastructurePOIType.PublicShower]: 'Shower',
+  [InfrastructurePOIType.BikeRepairStation]: 'Repair',
+  [InfrastructurePOIType.BikeShop]: 'Bike Shop',
+  [InfrastructurePOIType.BikeStorage]: 'Parking Area',
+  [InfrastructurePOIType.Shelter]: 'Shelter',
+  [InfrastructurePOIType.Campsite]: 'Campground',
+  [InfrastructurePOIType.Parking]: 'Parking Area',
+  [InfrastructurePOIType.Viewpoint]: 'Scenic Area',
+  [InfrastructurePOIType.CaravanPark]: 'RV Park',
+  [InfrastructurePOIType.Other]: 'Flag, Blue',
+
+  [ServicesPOIType.Cafe]: 'Cafe',
+  [ServicesPOIType.Restaurant]: 'Restaurant',
+  [ServicesPOIType.PubBar]: 'Bar',
+  [ServicesPOIType.Supermarket]: 'Shopping Center',
+  [ServicesPOIType.GeneralStore]: 'Convenience Store',
+  [ServicesPOIType.PostOffice]: 'Post Office',
+  [ServicesPOIType.MedicalCenter]: 'Medical Facility',
+  [ServicesPOIType.Pharmacy]: 'Pharmacy',
+  [ServicesPOIType.FuelStation]: 'Gas Station',
+
+  [AccommodationPOIType.Campground]: 'Campground',
+  [AccommodationPOIType.HotelMotel]: 'Lodging',
+  [AccommodationPOIType.Hostel]: 'Hostel',
+  [AccommodationPOIType.FreeCamping]: 'Campground',
+  [AccommodationPOIType.HutShelter]: 'Hut',
+
+  [NaturalFeaturesPOIType.Lookout]: 'Overlook',
+  [NaturalFeaturesPOIType.Beach]: 'Beach',
+  [NaturalFeaturesPOIType.Waterfall]: 'Waterfall',
+  [NaturalFeaturesPOIType.Cave]: 'Cave',
+  [NaturalFeaturesPOIType.RiverCrossing]: 'Crossing',
+  [NaturalFeaturesPOIType.HotSpring]: 'Hot Spring',
+
+  [InformationPOIType.VisitorCenter]: 'Visitor Center',
+  [InformationPOIType.TrailHead]: 'Trail Head',
+  [InformationPOIType.ParkEntry]: 'Park',
+  [InformationPOIType.WarningPoint]: 'Danger Area',
+  [InformationPOIType.HistoricalSite]: 'Museum',
+  [InformationPOIType.InformationBoard]: 'Information',
+  [InformationPOIType.Warning]: 'Danger Area'
+};
+
+/**
+ * A continuous run of points sharing one surface, written as a <trkseg>.
+ */
+export interface GpxExportSegment {
+  surface?: string;
+  points: GpxPoint[];
+}
+
+/**
+ * A route written as a <trk>.
+ */
+export interface GpxExportTrack {
+  name: string;
+  segments: GpxExportSegment[];
+}
+
+/**
+ * A planned route written as a <rte>, keeping it apart from recorded tracks.
+ */
+export interface GpxExportRoute {
+  name: string;
+  points: GpxPoint[];
+}
+
+/**
+ * Everything written to an exported GPX file.
+ */
+export interface GpxExportDocument {
+  name: string;
+  description?: string;
+  time?: Date;
+  routes?: GpxExportRoute[];
+  tracks: GpxExportTrack[];
+  pois: POI[];
+}
+
+/**
+ * Escapes text for use inside XML element content or attribute values.
+ */
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Renames a route in a GPX document: the name in its <metadata> and the name of each track.
+ * Only those elements change, so waypoints or points sharing the old name keep theirs.
+ *
+ * @param gpxData - GPX XML, as written by buildGpx
+ * @param name - New route name
+ * @returns GPX XML string with the new name
+ */
+export function renameGpx(gpxData: string, name: string): string {
+  const xmlDoc = new DOMParser().parseFromString(gpxData, 'text/xml');
+  const root = xmlDoc.documentElement;
+  if (!root) {
+    return gpxData;
+  }
+
+  const setName = (parent: XmlElement) => {
+    const [existing] = getChildElements(parent, 'name');
+    const nameElement = existing ?? xmlDoc.createElementNS(root.namespaceURI, 'name');
+    nameElement.textContent = name;
+    if (!existing) {
+      // GPX requires <name> to come first in both <metadata> and <trk>
+      parent.insertBefore(nameElement, parent.firstChild);
+    }
+  };
+
+  getChildElements(root, 'metadata').forEach(setName);
+  getChildElements(root, 'trk').forEach(setName);
+
+  return new XMLSerializer().serializeToString(xmlDoc);
+}
+
+const element = (tag: string, value: string | undefined, indent: string): string =>
+  value ? `${indent}<${tag}>${escapeXml(value)}</${tag}>\n` : '';
+
+function buildPoint(tag: 'trkpt' | 'rtept', point: GpxPoint, indent: string): string {
+  const inner =
+    (Number.isFinite(point.ele) ? `${indent}  <ele>${point.ele}</ele>\n` : '') +
+    element('time', point.timestamp, `${indent}  `);
+
+  return inner
+    ? `${indent}<${tag} lat="${point.lat}" lon="${point.lon}">\n${inner}${indent}</${tag}>\n`
+    : `${indent}<${tag} lat="${point.lat}" lon="${point.lon}"/>\n`;
+}
+
+function buildWaypoint(poi: POI): string {
+  return (
+    `  <wpt lat="${poi.location.lat}" lon="${poi.location.lon}">\n` +
+    element('name', poi.name, '    ') +
+    element('desc', poi.description, '    ') +
+    element('sym', POI_TYPE_SYMBOLS[poi.type], '    ') +
+    element('type', poi.type, '    ') +
+    '  </wpt>\n'
+  );
+}
+
+function buildTrack(track: GpxExportTrack): string {
+  const segments = track.segments
+    .filter(segment => segment.points.length > 0)
+    .map(segment =>
+      '    <trkseg>\n' +
+      segment.points.map(point => buildPoint('trkpt', point, '      ')).join('') +
+      // GPX 1.1 requires <extensions> after the track points
+      (segment.surface
+        ? `      <extensions>\n        <lutruwita:surface>${escapeXml(segment.surface)}</lutruwita:surface>\n      </extensions>\n`
+        : '') +
+      '    </trkseg>\n'
+    )
+    .join('');
+
+  return `  <trk>\n${element('name', track.name, '    ')}${segments}  </trk>\n`;
+}
+
+function buildRoute(route: GpxExportRoute): string {
+  return (
+    '  <rte>\n' +
+    element('name', route.name, '    ') +
+    route.points.map(point => buildPoint('rtept', point, '    ')).join('') +
+    '  </rte>\n'
+  );
+}
+
+/**
+ * Serializes a map into a GPX 1.1 document.
+ * Map name/description go into <metadata>, POIs become <wpt> elements with a
+ * device-friendly <sym>, planned routes become <rte> elements and each track
+ * segment's surface is stored in <extensions>.
+ *
+ * @param doc - Tracks, POIs and metadata to export
+ * @returns GPX 1.1 XML string
+ */
+export function buildGpx(doc: GpxExportDocument): string {
+  const time = (doc.time ?? new Date()).toISOString();
+
+  return (
+    '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    '<gpx version="1.1" creator="Lutruwita"' +
+    ' xmlns="http://www.topografix.com/GPX/1/1"' +
+    ' xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"' +
+    ` xmlns:lutruwita="${GPX_EXTENSION_NAMESPACE}"` +
+    ' xsi:schemaLocation="http://www.topografix.com/GPX/1/1 http://www.topografix.com/GPX/1/1/gpx.xsd">\n' +
+    '  <metadata>\n' +
+    element('name', doc.name, '    ') +
+    element('desc', doc.description, '    ') +
+    `    <time>${time}</time>\n` +
+    '  </metadata>\n' +
+    doc.pois.map(buildWaypoint).join('') +
+    // GPX 1.1 requires routes before tracks
+    (doc.routes ?? []).map(buildRoute).join('') +
+    doc.tracks.map(buildTrack).join('') +
+    '</gpx>\n'
+  );
+}
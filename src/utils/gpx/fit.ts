@@ -0,0 +1,198 @@
+import { GpxPoint, GpxWaypoint, ParsedGpx } from '../../types/gpx-types';
+
+// Global message numbers from the FIT profile
+const FIT_MESSAGE_RECORD = 20;
+const FIT_MESSAGE_COURSE_POINT = 32;
+
+// FIT timestamps count seconds from 1989-12-31T00:00:00Z
+const FIT_EPOCH_OFFSET = 631065600;
+
+// Positions are stored as semicircles: 2^31 semicircles = 180 degrees
+const SEMICIRCLES_TO_DEGREES = 180 / 2 ** 31;
+
+interface FitFieldDefinition {
+  number: number;
+  size: number;
+  baseType: number;
+}
+
+interface FitMessageDefinition {
+  littleEndian: boolean;
+  globalMessage: number;
+  fields: FitFieldDefinition[];
+  developerDataSize: number;
+}
+
+/**
+ * Reads a numeric field value, returning undefined for the base type's "invalid" value.
+ * Only the integer types used by record and course point messages are decoded.
+ */
+function readField(view: DataView, offset: number, field: FitFieldDefinition, littleEndian: boolean): number | undefined {
+  switch (field.baseType & 0x1f) {
+    case 0x00: // enum
+    case 0x02: { // uint8
+      const value = view.getUint8(offset);
+      return value === 0xff ? undefined : value;
+    }
+    case 0x03: { // sint16
+      const value = view.getInt16(offset, littleEndian);
+      return value === 0x7fff ? undefined : value;
+    }
+    case 0x04: { // uint16
+      const value = view.getUint16(offset, littleEndian);
+      return value === 0xffff ? undefined : value;
+    }
+    case 0x05: { // sint32
+      const value = view.getInt32(offset, littleEndian);
+      return value === 0x7fffffff ? undefined : value;
+    }
+    case 0x06: { // uint32
+      const value = view.getUint32(offset, littleEndian);
+      return value === 0xffffffff ? undefined : value;
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Reads a null-terminated string field.
+ */
+function readString(file: Buffer, offset: number, size: number): string | undefined {
+  const end = file.indexOf(0, offset);
+  const text = file.toString('utf-8', offset, end >= 0 && end < offset + size ? end : offset + size).trim();
+  return text || undefined;
+}
+
+/**
+ * Converts a FIT altitude (scale 5, offset 500) to metres.
+ */
+function toAltitude(value: number | undefined): number | undefined {
+  return value === undefined ? undefined : value / 5 - 500;
+}
+
+/**
+ * Parses a Garmin FIT activity or course file.
+ * Decodes the binary record stream and extracts:
+ * - Record messages with a position as a single track, with altitude and timestamps
+ * - Course point messages (e.g. water stops on a course) as waypoints
+ *
+ * @param file - Buffer containing FIT file data
+ * @returns Promise resolving to the parsed track and waypoints
+ * @throws Error if the file header or record stream is invalid
+ */
+export async function parseFit(file: Buffer): Promise<ParsedGpx> {
+  try {
+    const view = new DataView(file.buffer, file.byteOffset, file.byteLength);
+    if (file.length < 12 || file.toString('ascii', 8, 12) !== '.FIT') {
+      throw new Error('Invalid FIT file header');
+    }
+
+    const headerSize = file.readUInt8(0);
+    const end = Math.min(headerSize + file.readUInt32LE(4), file.length);
+    const definitions = new Map<number, FitMessageDefinition>();
+    const points: GpxPoint[] = [];
+    const waypoints: GpxWaypoint[] = [];
+    let lastTimestamp: number | undefined;
+    let offset = headerSize;
+
+    while (offset < end) {
+      const header = file.readUInt8(offset++);
+
+      // Definition message: describes the layout of a local message type
+      if ((header & 0xc0) === 0x40) {
+        const littleEndian = file.readUInt8(offset + 1) === 0;
+        const globalMessage = view.getUint16(offset + 2, littleEndian);
+        const fieldCount = file.readUInt8(offset + 4);
+        offset += 5;
+
+        const fields: FitFieldDefinition[] = [];
+        for (let i = 0; i < fieldCount; i++, offset += 3) {
+          fields.push({
+            number: file.readUInt8(offset),
+            size: file.readUInt8(offset + 1),
+            baseType: file.readUInt8(offset + 2)
+          });
+        }
+
+        let developerDataSize = 0;
+        if (header & 0x20) {
+          const developerFieldCount = file.readUInt8(offset++);
+          for (let i = 0; i < developerFieldCount; i++, offset += 3) {
+            developerDataSize += file.readUInt8(offset + 1);
+          }
+        }
+
+        definitions.set(header & 0x0f, { littleEndian, globalMessage, fields, developerDataSize });
+        continue;
+      }
+
+      // Data message, optionally with a compressed timestamp header
+      const compressed = (header & 0x80) !== 0;
+      const definition = definitions.get(compressed ? (header >> 5) & 0x03 : header & 0x0f);
+      if (!definition) {
+        throw new Error(`Missing definition for message at byte ${offset - 1}`);
+      }
+
+      const values = new Map<number, number | undefined>();
+      let name: string | undefined;
+      for (const field of definition.fields) {
+        if (field.baseType === 0x07) {
+          if (field.number === 6) name = readString(file, offset, field.size);
+        } else {
+          values.set(field.number, readField(view, offset, field, definition.littleEndian));
+        }
+        offset += field.size;
+      }
+      offset += definition.developerDataSize;
+
+      let timestamp = values.get(253);
+      if (compressed && lastTimestamp !== undefined) {
+        // The header holds the low 5 bits of the timestamp, rolling over every 32 seconds
+        const timeOffset = header & 0x1f;
+        timestamp = (lastTimestamp & ~0x1f) + timeOffset + (timeOffset < (lastTimestamp & 0x1f) ? 0x20 : 0);
+      }
+      if (timestamp !== undefined) {
+        lastTimestamp = timestamp;
+      }
+
+      if (definition.globalMessage === FIT_MESSAGE_RECORD) {
+        const lat = values.get(0);
+        const lon = values.get(1);
+        if (lat === undefined || lon === undefined) continue;
+
+        const ele = toAltitude(values.get(78) ?? values.get(2));
+        points.push({
+          lat: lat * SEMICIRCLES_TO_DEGREES,
+          lon: lon * SEMICIRCLES_TO_DEGREES,
+          ele: ele ?? 0,
+          timestamp: timestamp !== undefined
+            ? new Date((timestamp + FIT_EPOCH_OFFSET) * 1000).toISOString()
+            : undefined,
+          surface: 'unknown' // Default surface type
+        });
+      } else if (definition.globalMessage === FIT_MESSAGE_COURSE_POINT) {
+        const lat = values.get(2);
+        const lon = values.get(3);
+        if (lat === undefined || lon === undefined) continue;
+
+        waypoints.push({
+          lat: lat * SEMICIRCLES_TO_DEGREES,
+          lon: lon * SEMICIRCLES_TO_DEGREES,
+          name
+        });
+      }
+    }
+
+    return {
+      tracks: points.length > 0 ? [{ segments: [{ points }] }] : [],
+      routes: [],
+      waypoints
+    };
+  } catch (error) {
+    if (error instanceof Error) {
+      throw new Error(`Failed to parse FIT file: ${error.message}`);
+    }
+    throw new Error('Failed to parse FIT file: Unknown error');
+  }
+}
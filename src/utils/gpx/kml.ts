@@ -0,0 +1,241 @@
+import { GpxPoint, GpxTrack, GpxWaypoint, ParsedGpx } from '../../types/gpx-types';
+import { DOMParser } from '@xmldom/xmldom';
+import type { Element as XmlElement } from '@xmldom/xmldom';
+import { getChildText } from './xml';
+
+const ZIP_LOCAL_FILE_HEADER = 0x04034b50;
+const ZIP_CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const ZIP_END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+
+// Largest KML document read out of a KMZ; uploads limit the archive, and a small archive can inflate to gigabytes
+export const MAX_KML_SIZE = 50 * 1024 * 1024;
+
+/**
+ * Thrown when the KML in a KMZ archive is larger than MAX_KML_SIZE, so callers can refuse the file
+ * rather than report a failure of their own.
+ */
+export class KmzTooLargeError extends Error {
+  constructor() {
+    super(`KML document in KMZ archive is larger than ${MAX_KML_SIZE / (1024 * 1024)}MB`);
+    this.name = 'KmzTooLargeError';
+  }
+}
+
+/**
+ * Returns every descendant element with the given local name, regardless of namespace prefix,
+ * so <LineString> and <gx:Track> are found the same way.
+ */
+function getDescendants(parent: XmlElement, localName: string): XmlElement[] {
+  return Array.from(parent.getElementsByTagNameNS('*', localName));
+}
+
+/**
+ * Parses a KML <coordinates> string of whitespace separated "lon,lat[,alt]" tuples.
+ */
+function parseCoordinates(text: string): GpxPoint[] {
+  return text.trim().split(/\s+/).flatMap((tuple): GpxPoint[] => {
+    const [lon, lat, ele] = tuple.split(',').map(parseFloat);
+    if (!Number.isFinite(lat) || !Number.isFinite(lon)) return [];
+
+    return [{
+      lat,
+      lon,
+      ele: Number.isFinite(ele) ? ele : 0,
+      surface: 'unknown' // Default surface type
+    }];
+  });
+}
+
+/**
+ * Parses a <gx:Track>, pairing each <when> timestamp with its "lon lat alt" <gx:coord>.
+ */
+function parseGxTrack(track: XmlElement): GpxPoint[] {
+  const times = getDescendants(track, 'when').map(when => when.textContent?.trim());
+
+  return getDescendants(track, 'coord').flatMap((coord, idx): GpxPoint[] => {
+    const [lon, lat, ele] = (coord.textContent || '').trim().split(/\s+/).map(parseFloat);
+    if (!Number.isFinite(lat) || !Number.isFinite(lon)) return [];
+
+    return [{
+      lat,
+      lon,
+      ele: Number.isFinite(ele) ? ele : 0,
+      timestamp: times[idx] || undefined,
+      surface: 'unknown' // Default surface type
+    }];
+  });
+}
+
+/**
+ * Parses a KML document, e.g. a Google My Maps or Google Earth export.
+ * - Placemarks with a LineString, MultiGeometry or gx:Track become tracks,
+ *   with each line as a separate segment
+ * - Placemarks with only a Point become waypoints
+ *
+ * @param file - Buffer containing KML data
+ * @returns Promise resolving to the parsed tracks and waypoints
+ * @throws Error if parsing fails
+ */
+export async function parseKml(file: Buffer): Promise<ParsedGpx> {
+  try {
+    const parser = new DOMParser();
+    const xmlDoc = parser.parseFromString(file.toString('utf-8'), 'text/xml');
+
+    const tracks: GpxTrack[] = [];
+    const waypoints: GpxWaypoint[] = [];
+
+    const placemarks = xmlDoc.getElementsByTagNameNS('*', 'Placemark');
+    for (let i = 0; i < placemarks.length; i++) {
+      const placemark = placemarks[i];
+      const name = getChildText(placemark, 'name');
+
+      const segments = [
+        ...getDescendants(placemark, 'LineString').map(line =>
+          parseCoordinates(getChildText(line, 'coordinates') || '')
+        ),
+        ...getDescendants(placemark, 'Track').map(parseGxTrack)
+      ]
+        .filter(points => points.length > 0)
+        .map(points => ({ points }));
+
+      if (segments.length > 0) {
+        tracks.push({ name, segments });
+        continue;
+      }
+
+      const point = getDescendants(placemark, 'Point')[0];
+      const [location] = point ? parseCoordinates(getChildText(point, 'coordinates') || '') : [];
+      if (location) {
+        waypoints.push({
+          lat: location.lat,
+          lon: location.lon,
+          ele: location.ele || undefined,
+          name,
+          desc: getChildText(placemark, 'description')
+        });
+      }
+    }
+
+    return { tracks, routes: [], waypoints };
+  } catch (error) {
+    if (error instanceof Error) {
+      throw new Error(`Failed to parse KML file: ${error.message}`);
+    }
+    throw new Error('Failed to parse KML file: Unknown error');
+  }
+}
+
+/**
+ * Inflates raw DEFLATE data, using the browser's DecompressionStream where available
+ * and Node's zlib on the server. Output past MAX_KML_SIZE stops the inflating.
+ *
+ * @throws KmzTooLargeError if the data inflates to more than MAX_KML_SIZE
+ */
+async function inflateRaw(data: Buffer): Promise<Buffer> {
+  if (typeof DecompressionStream !== 'undefined') {
+    const reader = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw')).getReader();
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    for (let result = await reader.read(); !result.done; result = await reader.read()) {
+      size += result.value.length;
+      if (size > MAX_KML_SIZE) {
+        await reader.cancel();
+        throw new KmzTooLargeError();
+      }
+      chunks.push(result.value);
+    }
+    return Buffer.concat(chunks);
+  }
+
+  const { inflateRawSync } = await import('zlib');
+  try {
+    return inflateRawSync(data, { maxOutputLength: MAX_KML_SIZE });
+  } catch (error) {
+    // zlib reports output over maxOutputLength as a RangeError with this code
+    if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+      throw new KmzTooLargeError();
+    }
+    throw error;
+  }
+}
+
+/**
+ * Extracts the main KML document from a KMZ (zip) archive.
+ * Reads the zip central directory and prefers doc.kml, falling back to the first .kml entry.
+ */
+async function extractKml(file: Buffer): Promise<Buffer> {
+  // The end of central directory record sits at the end of the file, before an optional comment
+  let eocd = -1;
+  for (let i = file.length - 22; i >= Math.max(0, file.length - 22 - 0xffff); i--) {
+    if (file.readUInt32LE(i) === ZIP_END_OF_CENTRAL_DIRECTORY) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new Error('Invalid KMZ archive');
+  }
+
+  const entries: Array<{ name: string; method: number; size: number; uncompressedSize: number; offset: number }> = [];
+  let cursor = file.readUInt32LE(eocd + 16);
+  for (let i = 0; i < file.readUInt16LE(eocd + 10); i++) {
+    if (file.readUInt32LE(cursor) !== ZIP_CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('Invalid KMZ archive');
+    }
+    const nameLength = file.readUInt16LE(cursor + 28);
+    entries.push({
+      name: file.toString('utf-8', cursor + 46, cursor + 46 + nameLength),
+      method: file.readUInt16LE(cursor + 10),
+      size: file.readUInt32LE(cursor + 20),
+      uncompressedSize: file.readUInt32LE(cursor + 24),
+      offset: file.readUInt32LE(cursor + 42)
+    });
+    cursor += 46 + nameLength + file.readUInt16LE(cursor + 30) + file.readUInt16LE(cursor + 32);
+  }
+
+  const entry = entries.find(e => e.name.toLowerCase() === 'doc.kml')
+    ?? entries.find(e => e.name.toLowerCase().endsWith('.kml'));
+  if (!entry) {
+    throw new Error('No KML document found in KMZ archive');
+  }
+  if (entry.uncompressedSize > MAX_KML_SIZE) {
+    throw new KmzTooLargeError();
+  }
+  if (file.readUInt32LE(entry.offset) !== ZIP_LOCAL_FILE_HEADER) {
+    throw new Error('Invalid KMZ archive');
+  }
+
+  const start = entry.offset + 30 + file.readUInt16LE(entry.offset + 26) + file.readUInt16LE(entry.offset + 28);
+  const data = file.subarray(start, start + entry.size);
+
+  switch (entry.method) {
+    case 0: // Stored
+      return data;
+    case 8: // Deflated
+      return inflateRaw(data);
+    default:
+      throw new Error(`Unsupported KMZ compression method: ${entry.method}`);
+  }
+}
+
+/**
+ * Parses a KMZ file, the zipped form of KML that Google Earth exports.
+ *
+ * @param file - Buffer containing the KMZ archive
+ * @returns Promise resolving to the parsed tracks and waypoints of the archived KML
+ * @throws KmzTooLargeError if the KML is larger than MAX_KML_SIZE
+ * @throws Error if the archive or the KML inside it cannot be read
+ */
+export async function parseKmz(file: Buffer): Promise<ParsedGpx> {
+  try {
+    return await parseKml(await extractKml(file));
+  } catch (error) {
+    if (error instanceof KmzTooLargeError) {
+      throw error;
+    }
+    if (error instanceof Error) {
+      throw new Error(`Failed to parse KMZ file: ${error.message}`);
+    }
+    throw new Error('Failed to parse KMZ file: Unknown error');
+  }
+}
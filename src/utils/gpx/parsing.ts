@@ -1,54 +1,104 @@
-import { GpxPoint } from '../../types/gpx-types';
+import { GpxPoint, GpxRoute, GpxTrack, GpxWaypoint, ParsedGpx } from '../../types/gpx-types';
 import { DOMParser } from '@xmldom/xmldom';
+import type { Element as XmlElement } from '@xmldom/xmldom';
+import { getChildElements, getChildText } from './xml';
 
 /**
- * Parses a GPX file buffer into an array of GpxPoint objects.
- * Extracts track points (trkpt) from the GPX XML structure, including:
- * - Latitude and longitude coordinates
- * - Elevation data (ele tag)
- * - Timestamps (time tag)
- * 
- * Each point is assigned a default surface type of 'unpaved' which can be
+ * Converts a trkpt/rtept element into a GpxPoint.
+ * Each point is assigned a default surface type of 'unknown' which can be
  * updated later during surface detection processing.
- * 
+ */
+function parsePoint(point: XmlElement): GpxPoint {
+  const lat = parseFloat(point.getAttribute('lat') || '0');
+  const lon = parseFloat(point.getAttribute('lon') || '0');
+
+  // Extract elevation data (optional in GPX format)
+  const ele = getChildText(point, 'ele');
+
+  // Extract timestamp if available (optional in GPX format)
+  const timestamp = getChildText(point, 'time');
+
+  return {
+    lat,
+    lon,
+    ele: ele ? parseFloat(ele) : 0,
+    timestamp,
+    surface: 'unknown' // Default surface type
+  };
+}
+
+/**
+ * Converts a wpt element into a GpxWaypoint, keeping the descriptive
+ * fields used to map it onto a POI type.
+ */
+function parseWaypoint(waypoint: XmlElement): GpxWaypoint {
+  const ele = getChildText(waypoint, 'ele');
+
+  return {
+    lat: parseFloat(waypoint.getAttribute('lat') || '0'),
+    lon: parseFloat(waypoint.getAttribute('lon') || '0'),
+    ele: ele ? parseFloat(ele) : undefined,
+    name: getChildText(waypoint, 'name'),
+    desc: getChildText(waypoint, 'desc'),
+    sym: getChildText(waypoint, 'sym'),
+    type: getChildText(waypoint, 'type')
+  };
+}
+
+/**
+ * Parses a GPX file buffer into its tracks, routes and waypoints.
+ * Extracts from the GPX XML structure:
+ * - Tracks (trk), each split into its track segments (trkseg) of track points (trkpt)
+ * - Routes (rte) made up of route points (rtept)
+ * - Waypoints (wpt) with their name, description, symbol and type
+ * - Latitude, longitude, elevation (ele) and timestamps (time) for every point
+ *
+ * Segment boundaries are kept so that callers can avoid drawing straight
+ * lines across gaps in the recording.
+ *
  * @param file - Buffer containing GPX file data in XML format
- * @returns Promise resolving to array of parsed GpxPoint objects
+ * @returns Promise resolving to the parsed tracks, routes and waypoints
  * @throws Error if parsing fails or GPX format is invalid
  */
-export async function parseGpx(file: Buffer): Promise<GpxPoint[]> {
+export async function parseGpx(file: Buffer): Promise<ParsedGpx> {
   try {
     const xmlStr = file.toString('utf-8');
     const parser = new DOMParser();
     const xmlDoc = parser.parseFromString(xmlStr, 'text/xml');
 
-    // Extract all track points from GPX XML
-    const trackPoints = xmlDoc.getElementsByTagName('trkpt');
-    const points: GpxPoint[] = [];
-
-    // Process each track point to extract coordinates and metadata
-    for (let i = 0; i < trackPoints.length; i++) {
-      const point = trackPoints[i];
-      const lat = parseFloat(point.getAttribute('lat') || '0');
-      const lon = parseFloat(point.getAttribute('lon') || '0');
-      
-      // Extract elevation data (optional in GPX format)
-      const eleNode = point.getElementsByTagName('ele')[0];
-      const ele = eleNode ? parseFloat(eleNode.textContent || '0') : 0;
-      
-      // Extract timestamp if available (optional in GPX format)
-      const timeNode = point.getElementsByTagName('time')[0];
-      const timestamp = timeNode ? timeNode.textContent || undefined : undefined;
-
-      points.push({
-        lat,
-        lon,
-        ele,
-        timestamp,
-        surface: 'unpaved' // Default surface type
+    const tracks: GpxTrack[] = [];
+    const trackNodes = xmlDoc.getElementsByTagName('trk');
+    for (let i = 0; i < trackNodes.length; i++) {
+      const track = trackNodes[i];
+      const segments = getChildElements(track, 'trkseg')
+        .map(segment => ({
+          points: getChildElements(segment, 'trkpt').map(parsePoint)
+        }))
+        .filter(segment => segment.points.length > 0);
+
+      tracks.push({
+        name: getChildText(track, 'name'),
+        segments
+      });
+    }
+
+    const routes: GpxRoute[] = [];
+    const routeNodes = xmlDoc.getElementsByTagName('rte');
+    for (let i = 0; i < routeNodes.length; i++) {
+      const route = routeNodes[i];
+      routes.push({
+        name: getChildText(route, 'name'),
+        points: getChildElements(route, 'rtept').map(parsePoint)
       });
     }
 
-    return points;
+    const waypoints: GpxWaypoint[] = [];
+    const waypointNodes = xmlDoc.getElementsByTagName('wpt');
+    for (let i = 0; i < waypointNodes.length; i++) {
+      waypoints.push(parseWaypoint(waypointNodes[i]));
+    }
+
+    return { tracks, routes, waypoints };
   } catch (error) {
     if (error instanceof Error) {
       throw new Error(`Failed to parse GPX file: ${error.message}`);
@@ -56,3 +106,17 @@ export async function parseGpx(file: Buffer): Promise<GpxPoint[]> {
     throw new Error('Failed to parse GPX file: Unknown error');
   }
 }
+
+/**
+ * Flattens a parsed GPX file into a single list of points,
+ * tracks first followed by routes, in document order.
+ *
+ * @param gpx - Result of parseGpx
+ * @returns Every track and route point in the file
+ */
+export function flattenGpxPoints(gpx: ParsedGpx): GpxPoint[] {
+  return [
+    ...gpx.tracks.flatMap(track => track.segments.flatMap(segment => segment.points)),
+    ...gpx.routes.flatMap(route => route.points)
+  ];
+}
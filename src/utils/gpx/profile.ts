@@ -0,0 +1,114 @@
+import { ElevationRangeStats, ElevationSample, SurfaceType } from '../../types/gpx-types';
+import { rollupSurface } from './surface';
+
+/**
+ * Returns the index of the sample closest to a distance along the route,
+ * or -1 if there are no samples. Samples must be in route order.
+ */
+export function findSampleIndexAtDistance(samples: ElevationSample[], distance: number): number {
+  if (samples.length === 0) return -1;
+
+  let low = 0;
+  let high = samples.length - 1;
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if (samples[mid].distance < distance) low = mid + 1;
+    else high = mid;
+  }
+
+  // low is the first sample at or past the distance, the previous one may be closer
+  if (low > 0 && distance - samples[low - 1].distance < samples[low].distance - distance) {
+    return low - 1;
+  }
+  return low;
+}
+
+/**
+ * Returns the index of the sample closest to a map position, or -1 if there
+ * are no samples. Uses an equirectangular approximation, which is accurate
+ * enough to match a pointer to the route at any zoom level.
+ */
+export function findNearestSampleIndex(samples: ElevationSample[], lng: number, lat: number): number {
+  const lngScale = Math.cos((lat * Math.PI) / 180);
+  let nearest = -1;
+  let nearestDistance = Infinity;
+
+  samples.forEach((sample, i) => {
+    const dx = (sample.lon - lng) * lngScale;
+    const dy = sample.lat - lat;
+    const distance = dx * dx + dy * dy;
+    if (distance < nearestDistance) {
+      nearest = i;
+      nearestDistance = distance;
+    }
+  });
+
+  return nearest;
+}
+
+/**
+ * Returns the samples between two distances along the route, inclusive.
+ * The distances may be given in either order.
+ */
+export function getSamplesInRange(samples: ElevationSample[], from: number, to: number): ElevationSample[] {
+  const start = Math.min(from, to);
+  const end = Math.max(from, to);
+  return samples.filter(sample => sample.distance >= start && sample.distance <= end);
+}
+
+/**
+ * Calculates statistics for the stretch of a profile between two distances.
+ * Ascent and descent are summed from the smoothed sample elevations.
+ *
+ * @param samples - Elevation profile samples in route order
+ * @param from - Distance along the route in meters where the range starts
+ * @param to - Distance along the route in meters where the range ends
+ * @returns Range statistics, or undefined if the range covers fewer than two samples
+ */
+export function calculateRangeStats(
+  samples: ElevationSample[],
+  from: number,
+  to: number
+): ElevationRangeStats | undefined {
+  const range = getSamplesInRange(samples, from, to);
+  if (range.length < 2) return undefined;
+
+  let ascent = 0;
+  let descent = 0;
+  let unpavedDistance = 0;
+  const surfaceDistances: Partial<Record<SurfaceType, number>> = {};
+
+  for (let i = 1; i < range.length; i++) {
+    const delta = range[i].elevation - range[i - 1].elevation;
+    if (delta > 0) ascent += delta;
+    else descent -= delta;
+
+    // Each step takes the surface of the sample it starts from
+    const { surface } = range[i - 1];
+    const step = range[i].distance - range[i - 1].distance;
+    surfaceDistances[surface] = (surfaceDistances[surface] ?? 0) + step;
+    if (rollupSurface(surface) === 'unpaved') {
+      unpavedDistance += step;
+    }
+  }
+
+  const first = range[0];
+  const last = range[range.length - 1];
+  const distance = last.distance - first.distance;
+  const elevations = range.map(sample => sample.elevation);
+
+  return {
+    startDistance: first.distance,
+    endDistance: last.distance,
+    distance,
+    ascent: Math.round(ascent),
+    descent: Math.round(descent),
+    averageGrade: distance > 0 ? Math.round(((last.elevation - first.elevation) / distance) * 1000) / 10 : 0,
+    // Reduce rather than spread, long routes exceed the argument limit of Math.max
+    maxGrade: range.map(sample => sample.grade).reduce((a, b) => Math.max(a, b)),
+    minElevation: elevations.reduce((a, b) => Math.min(a, b)),
+    maxElevation: elevations.reduce((a, b) => Math.max(a, b)),
+    unpavedDistance,
+    surfaceDistances
+  };
+}
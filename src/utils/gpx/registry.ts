@@ -0,0 +1,105 @@
+import { ParsedGpx, RouteFileFormat } from '../../types/gpx-types';
+import { parseGpx } from './parsing';
+import { parseTcx } from './tcx';
+import { parseFit } from './fit';
+import { parseKml, parseKmz } from './kml';
+
+/**
+ * A parser for one route file format.
+ * detect() inspects the file content, so a file is parsed correctly even
+ * when its extension is missing or wrong.
+ */
+export interface RouteFileParser {
+  extensions: string[];
+  detect: (file: Buffer) => boolean;
+  parse: (file: Buffer) => Promise<ParsedGpx>;
+}
+
+/**
+ * Returns the local name of the XML document's root element, skipping the
+ * XML declaration, comments and doctype.
+ */
+const getXmlRootName = (file: Buffer): string | undefined => {
+  const head = file.toString('utf-8', 0, 2048)
+    .replace(/^\uFEFF/, '')
+    .replace(/^(?:\s*(?:<\?[\s\S]*?\?>|<!--[\s\S]*?-->|<![^>]*>))*/, '');
+  return head.match(/^\s*<\s*(?:[\w-]+:)?([\w-]+)/)?.[1];
+};
+
+export const ROUTE_FILE_PARSERS: Record<RouteFileFormat, RouteFileParser> = {
+  gpx: {
+    extensions: ['.gpx'],
+    detect: file => getXmlRootName(file) === 'gpx',
+    parse: parseGpx
+  },
+  tcx: {
+    extensions: ['.tcx'],
+    detect: file => getXmlRootName(file) === 'TrainingCenterDatabase',
+    parse: parseTcx
+  },
+  fit: {
+    extensions: ['.fit'],
+    // Bytes 8-11 of every FIT file header are the ASCII signature ".FIT"
+    detect: file => file.length >= 12 && file.toString('ascii', 8, 12) === '.FIT',
+    parse: parseFit
+  },
+  kml: {
+    extensions: ['.kml'],
+    detect: file => getXmlRootName(file) === 'kml',
+    parse: parseKml
+  },
+  kmz: {
+    extensions: ['.kmz'],
+    // Zip local file header signature "PK\x03\x04"
+    detect: file => file.length >= 4 && file.readUInt32LE(0) === 0x04034b50,
+    parse: parseKmz
+  }
+};
+
+const ROUTE_FILE_FORMATS = Object.keys(ROUTE_FILE_PARSERS) as RouteFileFormat[];
+
+// Extensions accepted for upload, e.g. for multer filters and file input accept lists
+export const SUPPORTED_ROUTE_EXTENSIONS = ROUTE_FILE_FORMATS.flatMap(format => ROUTE_FILE_PARSERS[format].extensions);
+
+/**
+ * Checks whether a file name has an extension of a supported route format.
+ */
+export const isSupportedRouteFile = (fileName: string): boolean =>
+  SUPPORTED_ROUTE_EXTENSIONS.some(extension => fileName.toLowerCase().endsWith(extension));
+
+/**
+ * Detects the format of a route file from its content.
+ * The file extension is only used when the content matches no known format.
+ *
+ * @param file - Route file data
+ * @param fileName - Original file name, used as a fallback
+ * @returns The detected format, or undefined if the format is not supported
+ */
+export const detectRouteFileFormat = (file: Buffer, fileName?: string): RouteFileFormat | undefined =>
+  ROUTE_FILE_FORMATS.find(format => ROUTE_FILE_PARSERS[format].detect(file))
+  ?? ROUTE_FILE_FORMATS.find(format =>
+    ROUTE_FILE_PARSERS[format].extensions.some(extension => fileName?.toLowerCase().endsWith(extension))
+  );
+
+/**
+ * Parses a GPX, TCX, FIT, KML or KMZ file into tracks, routes and waypoints.
+ *
+ * @param file - Route file data
+ * @param fileName - Original file name, used when the content is not recognised
+ * @returns Promise resolving to the detected format and the parsed file
+ * @throws Error if the format is not supported or parsing fails
+ */
+export async function parseRouteFile(
+  file: Buffer,
+  fileName?: string
+): Promise<{ format: RouteFileFormat; gpx: ParsedGpx }> {
+  const format = detectRouteFileFormat(file, fileName);
+  if (!format) {
+    throw new Error(`Unsupported route file format. Supported formats: ${SUPPORTED_ROUTE_EXTENSIONS.join(', ')}`);
+  }
+
+  return {
+    format,
+    gpx: await ROUTE_FILE_PARSERS[format].parse(file)
+  };
+}
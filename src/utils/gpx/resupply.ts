@@ -0,0 +1,100 @@
+import type { FeatureCollection } from 'geojson';
+import { RESUPPLY_KINDS, ResupplyAnalysis, ResupplyGap, ResupplyKind, ResupplyPoint } from '../../types/gpx-types';
+import { InfrastructurePOIType, POI, ServicesPOIType } from '../../types/note-types';
+import { locateOnRouteData, routeDataLength } from './surface';
+
+// What each POI type that riders restock at provides; other POIs are left out of the analysis
+export const RESUPPLY_POI_KINDS: Partial<Record<string, ResupplyKind[]>> = {
+  [InfrastructurePOIType.WaterPoint]: ['water'],
+  [ServicesPOIType.Supermarket]: ['water', 'food'],
+  [ServicesPOIType.GeneralStore]: ['water', 'food'],
+  [ServicesPOIType.Cafe]: ['water', 'food'],
+  [ServicesPOIType.FuelStation]: ['water', 'food']
+};
+
+// POIs further than this from the route are left out unless the rider allows a wider corridor
+export const DEFAULT_RESUPPLY_CORRIDOR_METERS = 1000;
+
+// Gaps longer than these are flagged unless the rider sets their own limits
+export const DEFAULT_MAX_RESUPPLY_GAPS: Record<ResupplyKind, number> = {
+  water: 50000,
+  food: 100000
+};
+
+// Display colour per kind for flagged gaps, shared by the elevation chart and map
+export const RESUPPLY_GAP_COLORS: Record<ResupplyKind, string> = {
+  water: '#0284C7',
+  food: '#EA580C'
+};
+
+export interface ResupplyOptions {
+  corridor?: number;
+  maxGaps?: Partial<Record<ResupplyKind, number>>;
+}
+
+// Stretches between the start, each stop and the finish; stops at the same distance leave no gap between them
+const findGaps = (kind: ResupplyKind, stops: ResupplyPoint[], total: number, maxGap: number): ResupplyGap[] => {
+  const bounds: Array<{ distance: number; poiId?: string }> = [
+    { distance: 0 },
+    ...stops.map(stop => ({ distance: stop.distance, poiId: stop.poiId })),
+    { distance: total }
+  ];
+
+  return bounds.slice(1).flatMap((end, i): ResupplyGap[] => {
+    const start = bounds[i];
+    const distance = end.distance - start.distance;
+    if (distance <= 0) return [];
+
+    return [{
+      kind,
+      startDistance: start.distance,
+      endDistance: end.distance,
+      distance,
+      ...(start.poiId && { startPoiId: start.poiId }),
+      ...(end.poiId && { endPoiId: end.poiId }),
+      exceedsLimit: distance > maxGap
+    }];
+  });
+};
+
+/**
+ * Returns what a POI provides to riders, or an empty list if it is not somewhere to restock.
+ */
+export function resupplyKindsOf(poi: Pick<POI, 'type'>): ResupplyKind[] {
+  return RESUPPLY_POI_KINDS[poi.type] ?? [];
+}
+
+/**
+ * Places the water and food POIs within a corridor on the route and finds the stretches between them.
+ * Each stretch is measured along the route, from the start or a resupply point to the next one or the finish,
+ * so riding a detour does not shorten it.
+ *
+ * @param routeData - Route features in route order
+ * @param pois - POIs of any type; only those in RESUPPLY_POI_KINDS within the corridor are used
+ * @param options - Corridor width either side of the route and the longest gaps allowed, in meters
+ * @returns The resupply points in route order and the gaps for each kind, longest first
+ */
+export function analyzeResupply(routeData: FeatureCollection, pois: POI[], options: ResupplyOptions = {}): ResupplyAnalysis {
+  const corridor = options.corridor ?? DEFAULT_RESUPPLY_CORRIDOR_METERS;
+  const maxGaps = {
+    water: options.maxGaps?.water ?? DEFAULT_MAX_RESUPPLY_GAPS.water,
+    food: options.maxGaps?.food ?? DEFAULT_MAX_RESUPPLY_GAPS.food
+  };
+  const total = routeDataLength(routeData);
+
+  const points = pois.flatMap((poi): ResupplyPoint[] => {
+    const kinds = resupplyKindsOf(poi);
+    if (kinds.length === 0) return [];
+
+    const located = locateOnRouteData(routeData, [poi.location.lon, poi.location.lat]);
+    if (!located || located.offset > corridor) return [];
+
+    return [{ poiId: poi.id, name: poi.name, type: poi.type, kinds, distance: located.distance, detour: located.offset * 2 }];
+  }).sort((a, b) => a.distance - b.distance);
+
+  const gaps = total > 0
+    ? RESUPPLY_KINDS.flatMap(kind => findGaps(kind, points.filter(point => point.kinds.includes(kind)), total, maxGaps[kind]))
+    : [];
+
+  return { corridor, maxGaps, points, gaps: gaps.sort((a, b) => b.distance - a.distance) };
+}
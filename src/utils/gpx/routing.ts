@@ -0,0 +1,280 @@
+import length from '@turf/length';
+import { RouteSegment, SurfaceType } from '../../types/gpx-types';
+import type { RoutingPreferences } from '../../types/api.types';
+import { classifySurface } from './surface';
+
+/**
+ * A road loaded from the road network for routing, with its standardized surface where one exists.
+ */
+export interface RoadLine {
+  surface: string | null;
+  highway: string | null;
+  coordinates: [number, number][];
+}
+
+// Highway classes bikes cannot use, left out of the graph
+export const ROUTING_EXCLUDED_HIGHWAYS = ['motorway', 'motorway_link', 'steps', 'construction', 'proposed'];
+
+// Busy highway classes kept off when sealed highways are avoided
+export const MAJOR_HIGHWAYS = ['trunk', 'trunk_link', 'primary', 'primary_link'];
+
+// Cost per meter of each surface when gravel is preferred; unpaved roads cost their length
+export const PREFER_GRAVEL_FACTORS: Record<SurfaceType, number> = {
+  sealed: 1.6,
+  compacted_gravel: 1,
+  loose_gravel: 1,
+  dirt: 1,
+  singletrack: 1.3,
+  unknown: 1.2
+};
+
+// Cost per meter of a sealed major highway, on top of the surface preference, when they are avoided
+export const SEALED_HIGHWAY_FACTOR = 4;
+
+const METERS_PER_DEGREE = 111320;
+
+const distanceBetween = (from: [number, number], to: [number, number]): number =>
+  length({ type: 'Feature', properties: {}, geometry: { type: 'LineString', coordinates: [from, to] } }, { units: 'meters' });
+
+/**
+ * Returns how many times its length a road costs to ride with the given preferences.
+ * Never below 1, so the straight line distance stays a lower bound for the path search.
+ */
+export function roadCostFactor(surface: SurfaceType, highway: string | null, preferences: RoutingPreferences): number {
+  let factor = preferences.preferGravel ? PREFER_GRAVEL_FACTORS[surface] : 1;
+  if (preferences.avoidSealedHighways && surface === 'sealed' && highway && MAJOR_HIGHWAYS.includes(highway)) {
+    factor *= SEALED_HIGHWAY_FACTOR;
+  }
+  return factor;
+}
+
+export interface GraphEdge {
+  to: number;
+  length: number;  // Meters
+  surface: SurfaceType;
+  highway: string | null;
+}
+
+// A stretch of road between two neighbouring nodes
+interface RoadPiece {
+  from: number;
+  to: number;
+  surface: SurfaceType;
+  highway: string | null;
+}
+
+/**
+ * A path through a RoadGraph: its nodes in order, and the edge taken into each node after the first.
+ */
+export interface GraphPath {
+  nodes: number[];
+  edges: GraphEdge[];
+}
+
+/**
+ * Joins paths that each start where the one before ends, e.g. the legs between waypoints.
+ */
+export function joinPaths(paths: GraphPath[]): GraphPath {
+  return paths.reduce((joined, path, i) => ({
+    nodes: [...joined.nodes, ...(i === 0 ? path.nodes : path.nodes.slice(1))],
+    edges: [...joined.edges, ...path.edges]
+  }), { nodes: [], edges: [] } as GraphPath);
+}
+
+// Nodes waiting to be visited, lowest priority first; a node may wait more than once
+class NodeQueue {
+  private items: Array<{ node: number; priority: number }> = [];
+
+  get size() {
+    return this.items.length;
+  }
+
+  push(node: number, priority: number) {
+    const items = this.items;
+    items.push({ node, priority });
+    for (let i = items.length - 1; i > 0;) {
+      const parent = (i - 1) >> 1;
+      if (items[parent].priority <= items[i].priority) break;
+      [items[parent], items[i]] = [items[i], items[parent]];
+      i = parent;
+    }
+  }
+
+  pop(): number | undefined {
+    const items = this.items;
+    const first = items[0];
+    const last = items.pop();
+    if (items.length > 0 && last) {
+      items[0] = last;
+      for (let i = 0; ;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < items.length && items[left].priority < items[smallest].priority) smallest = left;
+        if (right < items.length && items[right].priority < items[smallest].priority) smallest = right;
+        if (smallest === i) break;
+        [items[smallest], items[i]] = [items[i], items[smallest]];
+        i = smallest;
+      }
+    }
+    return first?.node;
+  }
+}
+
+/**
+ * The roads of an area as a graph to route over. Roads meet where they share a point,
+ * as ways of the road network do at junctions. Every road can be ridden both ways.
+ */
+export class RoadGraph {
+  private coordinates: [number, number][] = [];
+  private adjacency: GraphEdge[][] = [];
+  private nodeIds = new Map<string, number>();
+  // Each stretch of road between neighbouring nodes once, for snapping
+  private pieces: RoadPiece[] = [];
+
+  static fromRoads(roads: RoadLine[]): RoadGraph {
+    const graph = new RoadGraph();
+    for (const road of roads) {
+      if (road.highway && ROUTING_EXCLUDED_HIGHWAYS.includes(road.highway)) continue;
+
+      const surface = classifySurface(road.surface, road.highway);
+      for (let i = 1; i < road.coordinates.length; i++) {
+        graph.connect(graph.nodeAt(road.coordinates[i - 1]), graph.nodeAt(road.coordinates[i]), surface, road.highway);
+      }
+    }
+    return graph;
+  }
+
+  get size(): number {
+    return this.coordinates.length;
+  }
+
+  coordinatesOf(node: number): [number, number] {
+    return this.coordinates[node];
+  }
+
+  /**
+   * Finds the nearest point on a road to the given point, splitting the road there with a new node.
+   *
+   * @returns The node, or null if no road is within maxDistance meters
+   */
+  snap(point: [number, number], maxDistance: number): number | null {
+    let nearest: { piece: RoadPiece; along: number; distance: number } | undefined;
+    for (const piece of this.pieces) {
+      const { along, distance } = this.project(point, piece.from, piece.to);
+      if (!nearest || distance < nearest.distance) {
+        nearest = { piece, along, distance };
+      }
+    }
+    if (!nearest || nearest.distance > maxDistance) return null;
+
+    const { piece, along } = nearest;
+    if (along <= 0) return piece.from;
+    if (along >= 1) return piece.to;
+
+    const [fromLon, fromLat] = this.coordinates[piece.from];
+    const [toLon, toLat] = this.coordinates[piece.to];
+    const node = this.nodeAt([fromLon + (toLon - fromLon) * along, fromLat + (toLat - fromLat) * along]);
+    this.connect(piece.from, node, piece.surface, piece.highway);
+    this.connect(node, piece.to, piece.surface, piece.highway);
+    return node;
+  }
+
+  /**
+   * Finds the cheapest path between two nodes with A*, costing each road by its length
+   * and the rider's preferences.
+   *
+   * @returns The path, or null if the nodes are not connected
+   */
+  shortestPath(from: number, to: number, preferences: RoutingPreferences): GraphPath | null {
+    const target = this.coordinates[to];
+    const costs = new Map<number, number>([[from, 0]]);
+    const reachedBy = new Map<number, { node: number; edge: GraphEdge }>();
+    const visited = new Set<number>();
+    const queue = new NodeQueue();
+    queue.push(from, distanceBetween(this.coordinates[from], target));
+
+    while (queue.size > 0) {
+      const node = queue.pop()!;
+      if (node === to) return this.tracePath(from, to, reachedBy);
+      if (visited.has(node)) continue;
+      visited.add(node);
+
+      const cost = costs.get(node)!;
+      for (const edge of this.adjacency[node]) {
+        const next = cost + edge.length * roadCostFactor(edge.surface, edge.highway, preferences);
+        if (next < (costs.get(edge.to) ?? Infinity)) {
+          costs.set(edge.to, next);
+          reachedBy.set(edge.to, { node, edge });
+          queue.push(edge.to, next + distanceBetween(this.coordinates[edge.to], target));
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Turns a path into route segments, one per stretch of the same surface.
+   */
+  segmentsOf(path: GraphPath): RouteSegment[] {
+    const segments: RouteSegment[] = [];
+    path.edges.forEach((edge, i) => {
+      const previous = segments[segments.length - 1];
+      if (previous?.surface === edge.surface) {
+        previous.geometry.coordinates.push(this.coordinates[edge.to]);
+        previous.distance += edge.length;
+      } else {
+        segments.push({
+          surface: edge.surface,
+          distance: edge.length,
+          geometry: { type: 'LineString', coordinates: [this.coordinates[path.nodes[i]], this.coordinates[edge.to]] }
+        });
+      }
+    });
+    return segments;
+  }
+
+  private nodeAt([lon, lat]: [number, number]): number {
+    const key = `${lon.toFixed(7)},${lat.toFixed(7)}`;
+    let node = this.nodeIds.get(key);
+    if (node === undefined) {
+      node = this.coordinates.length;
+      this.nodeIds.set(key, node);
+      this.coordinates.push([lon, lat]);
+      this.adjacency.push([]);
+    }
+    return node;
+  }
+
+  private connect(from: number, to: number, surface: SurfaceType, highway: string | null) {
+    if (from === to) return;
+
+    const edgeLength = distanceBetween(this.coordinates[from], this.coordinates[to]);
+    this.adjacency[from].push({ to, length: edgeLength, surface, highway });
+    this.adjacency[to].push({ to: from, length: edgeLength, surface, highway });
+    this.pieces.push({ from, to, surface, highway });
+  }
+
+  // Where the point is closest to the stretch between two nodes, as a fraction of the way along it, and how far off
+  private project([lon, lat]: [number, number], from: number, to: number): { along: number; distance: number } {
+    const scale = Math.cos(lat * Math.PI / 180) * METERS_PER_DEGREE;
+    const [fromX, fromY] = [(this.coordinates[from][0] - lon) * scale, (this.coordinates[from][1] - lat) * METERS_PER_DEGREE];
+    const [toX, toY] = [(this.coordinates[to][0] - lon) * scale, (this.coordinates[to][1] - lat) * METERS_PER_DEGREE];
+    const [dx, dy] = [toX - fromX, toY - fromY];
+    const lengthSquared = dx * dx + dy * dy;
+    const along = lengthSquared > 0 ? Math.min(1, Math.max(0, -(fromX * dx + fromY * dy) / lengthSquared)) : 0;
+    return { along, distance: Math.hypot(fromX + dx * along, fromY + dy * along) };
+  }
+
+  private tracePath(from: number, to: number, reachedBy: Map<number, { node: number; edge: GraphEdge }>): GraphPath {
+    const nodes = [to];
+    const edges: GraphEdge[] = [];
+    for (let node = to; node !== from;) {
+      const step = reachedBy.get(node)!;
+      edges.unshift(step.edge);
+      nodes.unshift(step.node);
+      node = step.node;
+    }
+    return { nodes, edges };
+  }
+}
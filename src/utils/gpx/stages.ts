@@ -0,0 +1,142 @@
+import length from '@turf/length';
+import type { Feature, FeatureCollection, LineString } from 'geojson';
+import { ElevationSample, GpxPoint, RouteStage, SurfaceType } from '../../types/gpx-types';
+import { AccommodationPOIType, POI } from '../../types/note-types';
+import { calculateRangeStats } from './profile';
+import { rollupSurface, routeDataLength, surfaceDistancesBetween } from './surface';
+
+/**
+ * Average speeds on a loaded bikepacking bike, in km/h, before climbing is added.
+ */
+export const STAGE_RIDING_SPEEDS: Record<SurfaceType, number> = {
+  sealed: 20,
+  compacted_gravel: 17,
+  loose_gravel: 14,
+  dirt: 13,
+  singletrack: 10,
+  unknown: 15
+};
+
+// Riding time added for each meter climbed, an hour for every 600 m
+export const CLIMBING_SECONDS_PER_METER = 6;
+
+// Accommodation further than this from the route cannot end a stage
+export const MAX_STAGE_POI_OFFSET_METERS = 2000;
+
+/**
+ * Where a stage ends, by distance along the route data in meters.
+ */
+export interface StageEnd {
+  distance: number;
+  name?: string;
+  poiId?: string;
+}
+
+type Position = Pick<GpxPoint, 'lat' | 'lon'>;
+
+const stepLength = (from: Position, to: Position): number => {
+  const step: Feature<LineString> = {
+    type: 'Feature',
+    properties: {},
+    geometry: { type: 'LineString', coordinates: [[from.lon, from.lat], [to.lon, to.lat]] }
+  };
+  return length(step, { units: 'meters' });
+};
+
+const ACCOMMODATION_TYPES: string[] = Object.values(AccommodationPOIType);
+
+export function isAccommodation(poi: Pick<POI, 'type'>): boolean {
+  return ACCOMMODATION_TYPES.includes(poi.type);
+}
+
+/**
+ * Estimates the time in the saddle for a stretch of route, without stops.
+ * Each surface is ridden at its STAGE_RIDING_SPEEDS speed and climbing adds CLIMBING_SECONDS_PER_METER.
+ *
+ * @param surfaceDistances - Meters ridden on each surface
+ * @param ascent - Meters climbed
+ * @returns Riding time in seconds
+ */
+export function estimateRidingTime(surfaceDistances: Partial<Record<SurfaceType, number>>, ascent: number): number {
+  const riding = (Object.entries(surfaceDistances) as [SurfaceType, number][])
+    .reduce((sum, [surface, meters]) => sum + (meters / 1000 / STAGE_RIDING_SPEEDS[surface]) * 3600, 0);
+  return Math.round(riding + ascent * CLIMBING_SECONDS_PER_METER);
+}
+
+/**
+ * Returns stage ends every stageDistance along a route. A last stage shorter than a quarter
+ * of stageDistance is joined to the one before rather than ridden as a day of its own.
+ */
+export function stageEndsEvery(totalDistance: number, stageDistance: number): StageEnd[] {
+  const ends: StageEnd[] = [];
+  for (let at = stageDistance; totalDistance - at >= stageDistance / 4; at += stageDistance) {
+    ends.push({ distance: at });
+  }
+  return ends;
+}
+
+/**
+ * Gives each point of a route's lines its distance along the route data. The points are measured
+ * along their lines, gaps between lines add no distance, and the result is scaled so the last point
+ * is at the end of the route data, as surfaces are matched to the elevation profile.
+ *
+ * @param lines - Continuous runs of points, in route order
+ * @param routeLength - Length of the route data in meters, or 0 to keep the measured distances
+ * @returns The lines with every point's distance
+ */
+export function measureAlongRoute<T extends Position>(
+  lines: T[][],
+  routeLength: number
+): Array<Array<{ point: T; distance: number }>> {
+  let offset = 0;
+  const measured = lines.map(points => points.map((point, i) => {
+    if (i > 0) offset += stepLength(points[i - 1], point);
+    return { point, distance: offset };
+  }));
+
+  const scale = offset > 0 && routeLength > 0 ? routeLength / offset : 1;
+  return measured.map(line => line.map(({ point, distance: at }) => ({ point, distance: at * scale })));
+}
+
+/**
+ * Divides a route into stages with their distance, climbing, surfaces and riding time.
+ * Ends outside the route are ignored and ends at the same distance count once.
+ *
+ * @param routeData - Route features with a surface property, in route order, with any overrides applied
+ * @param ends - Where each stage but the last ends, in any order
+ * @param samples - Elevation profile with distances along the route data; routes without one have no climbing
+ * @returns The stages in route order, covering the whole route
+ */
+export function calculateStages(routeData: FeatureCollection, ends: StageEnd[], samples: ElevationSample[] = []): RouteStage[] {
+  const total = routeDataLength(routeData);
+  const sorted = ends
+    .filter(end => end.distance > 0 && end.distance < total)
+    .sort((a, b) => a.distance - b.distance)
+    .filter((end, i, all) => i === 0 || end.distance > all[i - 1].distance);
+
+  let startDistance = 0;
+  return [...sorted, { distance: total }].map((end, i) => {
+    const surfaceDistances = surfaceDistancesBetween(routeData, startDistance, end.distance);
+    const climbing = calculateRangeStats(samples, startDistance, end.distance);
+    const ascent = climbing?.ascent ?? 0;
+
+    const stage: RouteStage = {
+      number: i + 1,
+      name: end.name ?? `Stage ${i + 1}`,
+      startDistance,
+      endDistance: end.distance,
+      distance: end.distance - startDistance,
+      ascent,
+      descent: climbing?.descent ?? 0,
+      unpavedDistance: (Object.entries(surfaceDistances) as [SurfaceType, number][])
+        .filter(([surface]) => rollupSurface(surface) === 'unpaved')
+        .reduce((sum, [, meters]) => sum + meters, 0),
+      surfaceDistances,
+      ridingTime: estimateRidingTime(surfaceDistances, ascent),
+      ...(end.poiId && { endPoiId: end.poiId })
+    };
+
+    startDistance = end.distance;
+    return stage;
+  });
+}
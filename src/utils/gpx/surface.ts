@@ -0,0 +1,368 @@
+import length from '@turf/length';
+import lineSliceAlong from '@turf/line-slice-along';
+import nearestPointOnLine from '@turf/nearest-point-on-line';
+import type { Feature, FeatureCollection, LineString } from 'geojson';
+import { RouteSegment, SURFACE_TYPES, SurfaceRollup, SurfaceRun, SurfaceType } from '../../types/gpx-types';
+
+/**
+ * Raw OSM surface tags per surface type. Surface classifications may also map
+ * raw values straight onto a SurfaceType name, and maps saved before the
+ * taxonomy use 'paved' and 'unpaved', so both are accepted as well.
+ */
+export const OSM_SURFACE_TAGS: Record<SurfaceType, string[]> = {
+  sealed: [
+    'paved',
+    'asphalt',
+    'concrete',
+    'concrete:plates',
+    'concrete:lanes',
+    'paving_stones',
+    'sett',
+    'cobblestone',
+    'metal',
+    'wood',
+    'sealed',
+    'bitumen',
+    'tar',
+    'chipseal'
+  ],
+  compacted_gravel: ['compacted', 'fine_gravel', 'fine'],
+  loose_gravel: ['gravel', 'pebblestone', 'rock', 'shells'],
+  dirt: ['dirt', 'earth', 'ground', 'mud', 'sand', 'soil', 'clay', 'grass', 'woodchips'],
+  singletrack: [],
+  // Known to be unpaved, but not what kind
+  unknown: ['unpaved']
+};
+
+// Highway classes that are trails rather than roads when they are not sealed
+export const SINGLETRACK_HIGHWAYS = ['path', 'bridleway', 'footway'];
+
+const SURFACE_BY_TAG = new Map<string, SurfaceType>([
+  ...SURFACE_TYPES.map(type => [type, type] as [string, SurfaceType]),
+  ...SURFACE_TYPES.flatMap(type => OSM_SURFACE_TAGS[type].map(tag => [tag, type] as [string, SurfaceType]))
+]);
+
+// Display colour and line dash per surface, shared by the route layer, roads layer and legend
+export const SURFACE_COLORS: Record<SurfaceType, string> = {
+  sealed: '#3498db',
+  compacted_gravel: '#f1c40f',
+  loose_gravel: '#e67e22',
+  dirt: '#a0522d',
+  singletrack: '#27ae60',
+  unknown: '#95a5a6'
+};
+
+export const SURFACE_DASH_ARRAYS: Record<SurfaceType, number[]> = {
+  sealed: [1, 0],
+  compacted_gravel: [2, 1],
+  loose_gravel: [1, 1],
+  dirt: [0.5, 1.5],
+  singletrack: [0.5, 1],
+  unknown: [0.5, 2]
+};
+
+export const SURFACE_LABELS: Record<SurfaceType, string> = {
+  sealed: 'Sealed',
+  compacted_gravel: 'Compacted gravel',
+  loose_gravel: 'Loose gravel',
+  dirt: 'Dirt',
+  singletrack: 'Singletrack',
+  unknown: 'Unknown'
+};
+
+export const SURFACE_ROLLUP_COLORS: Record<SurfaceRollup, string> = {
+  paved: SURFACE_COLORS.sealed,
+  unpaved: SURFACE_COLORS.loose_gravel
+};
+
+/**
+ * Maps an OSM surface tag, or a standardized surface, onto the route SurfaceType.
+ *
+ * @param surface - Standardized or raw OSM surface value
+ * @param highway - OSM highway class of the road, if known
+ * @returns The surface type, 'unknown' for missing or unrecognised values
+ */
+export function classifySurface(surface: string | null | undefined, highway?: string | null): SurfaceType {
+  const type = (surface && SURFACE_BY_TAG.get(surface.trim().toLowerCase())) || 'unknown';
+  if (type !== 'sealed' && highway && SINGLETRACK_HIGHWAYS.includes(highway.trim().toLowerCase())) {
+    return 'singletrack';
+  }
+  return type;
+}
+
+/**
+ * Rolls a surface type up into paved or unpaved. Unknown surfaces count as unpaved.
+ */
+export function rollupSurface(surface: SurfaceType): SurfaceRollup {
+  return surface === 'sealed' ? 'paved' : 'unpaved';
+}
+
+/**
+ * One point of a line snapped to the road network, as returned by the line
+ * matching query. Unmatched points have no road fields.
+ */
+export interface RoadMatchRow {
+  distance: number | string;  // Distance along the line in meters
+  surface: string | null;
+  highway: string | null;
+  match_distance: number | string | null;  // Meters from the point to the road, null when unmatched
+}
+
+// Runs shorter than this are GPS jitter onto a crossing or parallel road and are absorbed by the run before them
+const MIN_RUN_METERS = 25;
+
+interface RunBuilder {
+  key: string | null;
+  startDistance: number;
+  surface: string | null;
+  highway: string | null;
+  score: number;
+  points: number;
+}
+
+/**
+ * Groups the snapped points of a line into surface runs.
+ * Runs cover the line without gaps, each one ending where the next starts.
+ *
+ * @param rows - Matched points, in order along the line
+ * @param toleranceMeters - Snapping tolerance the rows were matched with
+ * @returns Runs in order along the line
+ */
+export function buildSurfaceRuns(rows: RoadMatchRow[], toleranceMeters: number): SurfaceRun[] {
+  const runs: RunBuilder[] = [];
+
+  for (const row of rows) {
+    const matchDistance = row.match_distance === null ? null : Number(row.match_distance);
+    const isMatched = matchDistance !== null && Number.isFinite(matchDistance);
+    const key = isMatched ? `${row.surface}|${row.highway}` : null;
+    const score = isMatched ? Math.max(0, 1 - matchDistance / toleranceMeters) : 0;
+    const distance = Number(row.distance) || 0;
+    const previous = runs[runs.length - 1];
+
+    // The previous run was too short to keep, so it is folded into the one before it
+    if (previous && previous.key !== key && runs.length > 1 && distance - previous.startDistance < MIN_RUN_METERS) {
+      runs.pop();
+      runs[runs.length - 1].points += previous.points;
+    }
+
+    const current = runs[runs.length - 1];
+    if (current && current.key === key) {
+      current.score += score;
+      current.points++;
+    } else {
+      runs.push({
+        key,
+        startDistance: distance,
+        surface: isMatched ? row.surface : null,
+        highway: isMatched ? row.highway : null,
+        score,
+        points: 1
+      });
+    }
+  }
+
+  const endDistance = rows.length > 0 ? Number(rows[rows.length - 1].distance) || 0 : 0;
+  return runs.map((run, i) => ({
+    startDistance: run.startDistance,
+    endDistance: i + 1 < runs.length ? runs[i + 1].startDistance : endDistance,
+    surface: run.surface,
+    highway: run.highway,
+    surfaceType: classifySurface(run.surface, run.highway),
+    confidence: Math.round((run.score / run.points) * 100) / 100
+  }));
+}
+
+/**
+ * Cuts a line into route segments where its surface runs change surface type.
+ * Run distances are scaled onto the length of the line, as the road network measures it a little differently.
+ *
+ * @param coordinates - The line the runs were matched along
+ * @param runs - Runs of the line, as from buildSurfaceRuns
+ * @returns Route segments in order along the line, with the distances of the runs
+ */
+export function buildRunSegments(coordinates: [number, number][], runs: SurfaceRun[]): RouteSegment[] {
+  const total = runs.length > 0 ? runs[runs.length - 1].endDistance : 0;
+  if (coordinates.length < 2 || total <= 0) return [];
+
+  const line: Feature<LineString> = { type: 'Feature', properties: {}, geometry: { type: 'LineString', coordinates } };
+  const scale = length(line, { units: 'meters' }) / total;
+  const segments: Array<{ surface: SurfaceType; startDistance: number; endDistance: number }> = [];
+
+  for (const run of runs) {
+    const previous = segments[segments.length - 1];
+    if (previous && previous.surface === run.surfaceType) {
+      previous.endDistance = run.endDistance;
+    } else if (run.endDistance > run.startDistance) {
+      segments.push({ surface: run.surfaceType, startDistance: run.startDistance, endDistance: run.endDistance });
+    }
+  }
+
+  return segments.map(({ surface, startDistance, endDistance }) => ({
+    surface,
+    distance: endDistance - startDistance,
+    geometry: {
+      type: 'LineString',
+      coordinates: lineSliceAlong(line, startDistance * scale, endDistance * scale, { units: 'meters' })
+        .geometry.coordinates.map(([lon, lat]) => [lon, lat] as [number, number])
+    }
+  }));
+}
+
+/**
+ * A stretch of route with a surface, by distance along the lines of a route's
+ * features in order. Gaps between lines add no distance.
+ */
+export interface SurfaceRange {
+  startDistance: number;
+  endDistance: number;
+  surface: SurfaceType;
+}
+
+// Each line feature of the route data with where it starts and ends along the route
+function measureLines(routeData: FeatureCollection) {
+  let offset = 0;
+  return routeData.features.flatMap(feature => {
+    if (feature.geometry?.type !== 'LineString' || feature.geometry.coordinates.length < 2) return [];
+
+    const line = feature as Feature<LineString>;
+    const start = offset;
+    offset += length(line, { units: 'meters' });
+    return [{ line, start, end: offset }];
+  });
+}
+
+/**
+ * Applies surface overrides on top of the detected surfaces of route data.
+ * Lines are split where an override starts or ends; later overrides win where they overlap.
+ *
+ * @param routeData - Route features with a surface property, in route order
+ * @param overrides - Stretches of route to show with another surface
+ * @returns Route data with the overridden stretches as their own features, marked with overridden: true
+ */
+export function applySurfaceOverrides(routeData: FeatureCollection, overrides: SurfaceRange[]): FeatureCollection {
+  if (overrides.length === 0) return routeData;
+
+  const features: Feature[] = [];
+  for (const { line, start, end } of measureLines(routeData)) {
+    let pieces = [{ from: start, to: end, surface: line.properties?.surface as string, overridden: false }];
+
+    for (const override of overrides) {
+      const from = Math.max(override.startDistance, start);
+      const to = Math.min(override.endDistance, end);
+      if (from >= to) continue;
+
+      pieces = pieces.flatMap(piece => [
+        ...(piece.from < from ? [{ ...piece, to: Math.min(piece.to, from) }] : []),
+        ...(piece.to > to ? [{ ...piece, from: Math.max(piece.from, to) }] : [])
+      ]);
+      pieces.push({ from, to, surface: override.surface, overridden: true });
+      pieces.sort((a, b) => a.from - b.from);
+    }
+
+    for (const piece of pieces) {
+      if (piece.to - piece.from <= 0) continue;
+      features.push({
+        ...line,
+        properties: { ...line.properties, surface: piece.surface, ...(piece.overridden && { overridden: true }) },
+        geometry: lineSliceAlong(line, piece.from - start, piece.to - start, { units: 'meters' }).geometry
+      });
+    }
+  }
+
+  return {
+    ...routeData,
+    features: features.map((feature, segmentIndex) => ({
+      ...feature,
+      properties: { ...feature.properties, segmentIndex }
+    }))
+  };
+}
+
+/**
+ * Returns the coordinates of the route between two distances along it.
+ * A stretch over a gap between lines joins the pieces on either side.
+ */
+export function sliceRouteData(routeData: FeatureCollection, startDistance: number, endDistance: number): [number, number][] {
+  return measureLines(routeData).flatMap(({ line, start, end }) => {
+    const from = Math.max(startDistance, start);
+    const to = Math.min(endDistance, end);
+    if (from >= to) return [];
+
+    return lineSliceAlong(line, from - start, to - start, { units: 'meters' })
+      .geometry.coordinates.map(([lon, lat]) => [lon, lat] as [number, number]);
+  });
+}
+
+/**
+ * Returns the length of the route data's lines together, in meters.
+ */
+export function routeDataLength(routeData: FeatureCollection): number {
+  const lines = measureLines(routeData);
+  return lines.length > 0 ? lines[lines.length - 1].end : 0;
+}
+
+/**
+ * Looks up the surface property of the route data at distances along the route.
+ * Distances past the end take the surface of the last line.
+ *
+ * @returns A function from a distance in meters to the surface of the line there, or undefined without lines
+ */
+export function createSurfaceLocator(routeData: FeatureCollection): (distance: number) => string | undefined {
+  const lines = measureLines(routeData);
+
+  return distance => {
+    // Binary search for the first line that ends past the distance
+    let low = 0;
+    let high = lines.length - 1;
+    while (low < high) {
+      const middle = Math.floor((low + high) / 2);
+      if (lines[middle].end > distance) high = middle;
+      else low = middle + 1;
+    }
+    return lines[low]?.line.properties?.surface;
+  };
+}
+
+/**
+ * Sums the distance on each surface between two distances along the route.
+ * Route data saved before the surface taxonomy is classified as it is for map summaries.
+ */
+export function surfaceDistancesBetween(
+  routeData: FeatureCollection,
+  startDistance: number,
+  endDistance: number
+): Partial<Record<SurfaceType, number>> {
+  const distances: Partial<Record<SurfaceType, number>> = {};
+
+  for (const { line, start, end } of measureLines(routeData)) {
+    const overlap = Math.min(endDistance, end) - Math.max(startDistance, start);
+    if (overlap <= 0) continue;
+
+    const surface = classifySurface(line.properties?.surface);
+    distances[surface] = (distances[surface] ?? 0) + overlap;
+  }
+
+  return distances;
+}
+
+/**
+ * Finds the point of the route nearest to a position.
+ *
+ * @returns The distance of that point along the route, and how far the position is from it, in meters;
+ * undefined if the route data has no lines
+ */
+export function locateOnRouteData(
+  routeData: FeatureCollection,
+  position: [number, number]
+): { distance: number; offset: number } | undefined {
+  let nearest: { distance: number; offset: number } | undefined;
+
+  for (const { line, start } of measureLines(routeData)) {
+    const { properties } = nearestPointOnLine(line, position, { units: 'meters' });
+    if (!nearest || properties.dist < nearest.offset) {
+      nearest = { distance: start + properties.location, offset: properties.dist };
+    }
+  }
+
+  return nearest;
+}
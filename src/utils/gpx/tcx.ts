@@ -0,0 +1,105 @@
+import { GpxPoint, GpxTrack, GpxWaypoint, ParsedGpx } from '../../types/gpx-types';
+import { DOMParser } from '@xmldom/xmldom';
+import type { Element as XmlElement } from '@xmldom/xmldom';
+import { getChildElements, getChildText } from './xml';
+
+/**
+ * Reads the <Position> of a Trackpoint or CoursePoint.
+ * Returns undefined for points recorded without a GPS fix.
+ */
+function parsePosition(parent: XmlElement): { lat: number; lon: number } | undefined {
+  const position = getChildElements(parent, 'Position')[0];
+  if (!position) return undefined;
+
+  const lat = parseFloat(getChildText(position, 'LatitudeDegrees') || '');
+  const lon = parseFloat(getChildText(position, 'LongitudeDegrees') || '');
+  return Number.isFinite(lat) && Number.isFinite(lon) ? { lat, lon } : undefined;
+}
+
+/**
+ * Converts the Trackpoints of a <Track> into GpxPoints, skipping points without a position.
+ */
+function parseTrack(track: XmlElement): GpxPoint[] {
+  return getChildElements(track, 'Trackpoint').flatMap((trackpoint): GpxPoint[] => {
+    const position = parsePosition(trackpoint);
+    if (!position) return [];
+
+    const ele = getChildText(trackpoint, 'AltitudeMeters');
+    return [{
+      ...position,
+      ele: ele ? parseFloat(ele) : 0,
+      timestamp: getChildText(trackpoint, 'Time'),
+      surface: 'unknown' // Default surface type
+    }];
+  });
+}
+
+/**
+ * Collects the <Track> elements of an Activity or Course as segments.
+ * Activities nest tracks inside laps, courses hold them directly.
+ */
+function parseSegments(parent: XmlElement): GpxTrack['segments'] {
+  const tracks = [
+    ...getChildElements(parent, 'Track'),
+    ...getChildElements(parent, 'Lap').flatMap(lap => getChildElements(lap, 'Track'))
+  ];
+
+  return tracks
+    .map(track => ({ points: parseTrack(track) }))
+    .filter(segment => segment.points.length > 0);
+}
+
+/**
+ * Parses a Garmin Training Center (TCX) file.
+ * - Activities become tracks, with each lap's <Track> as a segment
+ * - Courses become tracks named after the course
+ * - CoursePoints become waypoints, with their PointType (e.g. Water, Summit) as type
+ *
+ * @param file - Buffer containing TCX file data in XML format
+ * @returns Promise resolving to the parsed tracks and waypoints
+ * @throws Error if parsing fails
+ */
+export async function parseTcx(file: Buffer): Promise<ParsedGpx> {
+  try {
+    const parser = new DOMParser();
+    const xmlDoc = parser.parseFromString(file.toString('utf-8'), 'text/xml');
+
+    const tracks: GpxTrack[] = [];
+    const waypoints: GpxWaypoint[] = [];
+
+    const activities = xmlDoc.getElementsByTagName('Activity');
+    for (let i = 0; i < activities.length; i++) {
+      tracks.push({ segments: parseSegments(activities[i]) });
+    }
+
+    const courses = xmlDoc.getElementsByTagName('Course');
+    for (let i = 0; i < courses.length; i++) {
+      const course = courses[i];
+      tracks.push({
+        name: getChildText(course, 'Name'),
+        segments: parseSegments(course)
+      });
+
+      for (const coursePoint of getChildElements(course, 'CoursePoint')) {
+        const position = parsePosition(coursePoint);
+        if (!position) continue;
+
+        const ele = getChildText(coursePoint, 'AltitudeMeters');
+        waypoints.push({
+          ...position,
+          ele: ele ? parseFloat(ele) : undefined,
+          name: getChildText(coursePoint, 'Name'),
+          desc: getChildText(coursePoint, 'Notes'),
+          type: getChildText(coursePoint, 'PointType')
+        });
+      }
+    }
+
+    return { tracks, routes: [], waypoints };
+  } catch (error) {
+    if (error instanceof Error) {
+      throw new Error(`Failed to parse TCX file: ${error.message}`);
+    }
+    throw new Error('Failed to parse TCX file: Unknown error');
+  }
+}
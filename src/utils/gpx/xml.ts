@@ -0,0 +1,26 @@
+import type { Element as XmlElement } from '@xmldom/xmldom';
+
+/**
+ * Returns the direct child elements of a node with the given tag name.
+ * Unlike getElementsByTagName this does not descend into nested elements,
+ * so a track's <name> is not confused with the <name> of one of its points.
+ */
+export function getChildElements(parent: XmlElement, tagName: string): XmlElement[] {
+  const children: XmlElement[] = [];
+  for (let i = 0; i < parent.childNodes.length; i++) {
+    const node = parent.childNodes[i];
+    if (node.nodeType === node.ELEMENT_NODE && (node.localName || node.nodeName) === tagName) {
+      children.push(node as XmlElement);
+    }
+  }
+  return children;
+}
+
+/**
+ * Returns the trimmed text of a direct child element, if present.
+ */
+export function getChildText(parent: XmlElement, tagName: string): string | undefined {
+  const child = getChildElements(parent, tagName)[0];
+  const text = child?.textContent?.trim();
+  return text || undefined;
+}
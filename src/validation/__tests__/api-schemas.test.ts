@@ -0,0 +1,153 @@
+import { validate } from '../schema';
+import {
+  mapSchema,
+  photoUploadSchema,
+  poiSchema,
+  profileUpdateSchema,
+  surfaceDetectionSchema
+} from '../api-schemas';
+import { InfrastructurePOIType, POICategory } from '../../types/note-types';
+
+const validMap = {
+  name: 'Tasmanian Trail',
+  description: 'Devonport to Dover',
+  isPublic: true,
+  mapStyle: 'mapbox://styles/mapbox/outdoors-v12',
+  viewState: { center: [146.5, -42.0], zoom: 7, pitch: 0, bearing: 0 },
+  routes: [{ id: 'route-1', name: 'Day 1', gpxData: '<gpx></gpx>', color: '#ee5253', isVisible: true }],
+  photos: [{ id: 'photo-1', url: 'https://example.com/photo.jpg', longitude: 146.5, latitude: -42.0 }],
+  routeData: { type: 'FeatureCollection', features: [] },
+  pois: [{
+    id: 'poi-1',
+    name: 'Tank',
+    category: POICategory.Infrastructure,
+    type: InfrastructurePOIType.WaterPoint,
+    location: { lat: -42.0, lon: 146.5 }
+  }]
+};
+
+describe('validate', () => {
+  it('should accept a complete map', () => {
+    const result = validate(mapSchema, validMap);
+
+    expect(result).toEqual({ success: true, value: validMap });
+  });
+
+  it('should drop fields that are not in the schema', () => {
+    const result = validate(mapSchema, {
+      ...validMap,
+      createdBy: 'auth0|someone-else',
+      summary: { distance: 0, ascent: 0, pavedDistance: 0, unpavedDistance: 0 },
+      $where: 'sleep(1000)'
+    });
+
+    expect(result).toEqual({ success: true, value: validMap });
+  });
+
+  it('should report every invalid field by its path', () => {
+    const result = validate(mapSchema, {
+      ...validMap,
+      name: '  ',
+      isPublic: 'yes',
+      viewState: { center: [200, -42.0], zoom: 7 },
+      routes: [{ id: 'route-1', name: 'Day 1' }]
+    });
+
+    expect(result).toEqual({
+      success: false,
+      errors: [
+        { field: 'name', message: 'is required' },
+        { field: 'isPublic', message: 'must be true or false' },
+        { field: 'viewState.center[0]', message: 'must be at most 180' },
+        { field: 'routes[0].gpxData', message: 'is required' }
+      ]
+    });
+  });
+
+  it('should reject a body that is not an object', () => {
+    expect(validate(mapSchema, [])).toEqual({
+      success: false,
+      errors: [{ field: 'body', message: 'must be an object' }]
+    });
+  });
+
+  it('should make every field optional for partial updates, but still check the ones sent', () => {
+    expect(validate(mapSchema.partial(), { isPublic: false })).toEqual({ success: true, value: { isPublic: false } });
+    expect(validate(mapSchema.partial(), { routes: 'none' })).toEqual({
+      success: false,
+      errors: [{ field: 'routes', message: 'must be a list' }]
+    });
+  });
+});
+
+describe('poiSchema', () => {
+  it('should reject unknown categories and types', () => {
+    const result = validate(poiSchema, {
+      name: 'Tank',
+      category: 'Shops',
+      type: 'Vending Machine',
+      location: { lat: -42.0, lon: 146.5 }
+    });
+
+    expect(result.success).toBe(false);
+    expect(!result.success && result.errors.map(error => error.field)).toEqual(['category', 'type']);
+  });
+});
+
+describe('profileUpdateSchema', () => {
+  it('should only keep the fields users may edit', () => {
+    const result = validate(profileUpdateSchema, {
+      bioName: 'Rider',
+      website: 'https://example.com',
+      socialLinks: { strava: 'rider' },
+      isAdmin: true,
+      auth0Id: 'auth0|someone-else'
+    });
+
+    expect(result).toEqual({
+      success: true,
+      value: { bioName: 'Rider', website: 'https://example.com', socialLinks: { strava: 'rider' } }
+    });
+  });
+});
+
+describe('photoUploadSchema', () => {
+  it('should parse coordinates sent as form fields', () => {
+    expect(validate(photoUploadSchema, { longitude: '146.5', latitude: '-42' })).toEqual({
+      success: true,
+      value: { longitude: 146.5, latitude: -42 }
+    });
+  });
+
+  it('should reject missing or non-numeric coordinates', () => {
+    expect(validate(photoUploadSchema, { longitude: 'east' })).toEqual({
+      success: false,
+      errors: [
+        { field: 'longitude', message: 'must be a number' },
+        { field: 'latitude', message: 'is required' }
+      ]
+    });
+  });
+});
+
+describe('surfaceDetectionSchema', () => {
+  it('should require a line of coordinate pairs', () => {
+    expect(validate(surfaceDetectionSchema, { route: { coordinates: [[146.5, -42.0]] } })).toEqual({
+      success: false,
+      errors: [{ field: 'route.coordinates', message: 'must have at least 2 items' }]
+    });
+    expect(validate(surfaceDetectionSchema, { route: { coordinates: [[146.5], [146.6, -42.0]] } })).toEqual({
+      success: false,
+      errors: [{ field: 'route.coordinates[0]', message: 'must be a list of 2 items' }]
+    });
+  });
+
+  it('should limit the snapping tolerance', () => {
+    const route = { coordinates: [[146.5, -42.0], [146.6, -42.0]] };
+
+    expect(validate(surfaceDetectionSchema, { route, toleranceMeters: 500 })).toEqual({
+      success: false,
+      errors: [{ field: 'toleranceMeters', message: 'must be at most 50' }]
+    });
+  });
+});
@@ -0,0 +1,159 @@
+import type { FeatureCollection } from 'geojson';
+import { POICategory, POIIcons, POIType } from '../types/note-types';
+import { API_TOKEN_SCOPES, USER_ROLES } from '../types/database.types';
+import { SURFACE_TYPES } from '../types/gpx-types';
+import type {
+  ApiTokenCreateRequest,
+  MapCreateRequest,
+  PhotoUploadRequest,
+  POIRequest,
+  RouteBuildRequest,
+  StagePlanRequest,
+  SurfaceClassification,
+  SurfaceCorrectionReviewRequest,
+  SurfaceDetectionRequest,
+  SurfaceOverrideRequest,
+  UserProfileUpdateRequest,
+  UserRoleUpdateRequest
+} from '../types/api.types';
+import {
+  array,
+  boolean,
+  custom,
+  number,
+  object,
+  ObjectSchema,
+  oneOf,
+  optional,
+  string,
+  tuple
+} from './schema';
+
+// Each schema is declared with the request type it checks, so the two cannot drift apart
+
+const POI_TYPES = Object.keys(POIIcons) as POIType[];
+
+const longitude = (options: { coerce?: boolean } = {}) => number({ min: -180, max: 180, ...options });
+const latitude = (options: { coerce?: boolean } = {}) => number({ min: -90, max: 90, ...options });
+
+const isFeatureCollection = (input: unknown): input is FeatureCollection =>
+  typeof input === 'object' &&
+  input !== null &&
+  (input as FeatureCollection).type === 'FeatureCollection' &&
+  Array.isArray((input as FeatureCollection).features);
+
+const poiFields = {
+  name: string({ min: 1, max: 100 }),
+  description: optional(string({ max: 2000 })),
+  category: oneOf(Object.values(POICategory)),
+  type: oneOf(POI_TYPES),
+  location: object({
+    lat: latitude(),
+    lon: longitude()
+  }),
+  warning: optional(boolean())
+};
+
+export const poiSchema: ObjectSchema<POIRequest> = object(poiFields);
+
+export const mapSchema: ObjectSchema<MapCreateRequest> = object({
+  name: string({ min: 1, max: 100 }),
+  description: optional(string({ max: 2000 })),
+  isPublic: boolean(),
+  mapStyle: optional(string({ max: 200 })),
+  viewState: optional(object({
+    center: tuple<[number, number]>([longitude(), latitude()]),
+    zoom: number({ min: 0, max: 24 }),
+    pitch: optional(number({ min: 0, max: 90 })),
+    bearing: optional(number({ min: -360, max: 360 }))
+  })),
+  routes: array(object({
+    id: string({ min: 1 }),
+    name: string({ max: 200 }),
+    gpxData: string({ min: 1 }),
+    color: optional(string({ max: 50 })),
+    opacity: optional(number({ min: 0, max: 1 })),
+    isVisible: optional(boolean()),
+    gpxFilePath: optional(string({ max: 500 }))
+  }), { max: 50 }),
+  photos: optional(array(object({
+    id: string({ min: 1 }),
+    url: string({ min: 1, max: 2000 }),
+    caption: optional(string({ max: 500 })),
+    longitude: longitude(),
+    latitude: latitude()
+  }), { max: 500 })),
+  routeData: optional(custom(isFeatureCollection, 'must be a GeoJSON FeatureCollection')),
+  pois: optional(array(object({
+    id: string({ min: 1 }),
+    ...poiFields
+  }), { max: 1000 }))
+});
+
+export const profileUpdateSchema: ObjectSchema<UserProfileUpdateRequest> = object({
+  bioName: optional(string({ min: 1, max: 80 })),
+  socialLinks: optional(object({
+    instagram: optional(string({ max: 200 })),
+    strava: optional(string({ max: 200 })),
+    facebook: optional(string({ max: 200 }))
+  })),
+  website: optional(string({ max: 200 }))
+});
+
+export const photoUploadSchema: ObjectSchema<PhotoUploadRequest> = object({
+  longitude: longitude({ coerce: true }),
+  latitude: latitude({ coerce: true }),
+  description: optional(string({ max: 2000 }))
+});
+
+export const surfaceDetectionSchema: ObjectSchema<SurfaceDetectionRequest> = object({
+  route: object({
+    coordinates: array(tuple<[number, number]>([longitude(), latitude()]), { min: 2, max: 50000 })
+  }),
+  toleranceMeters: optional(number({ min: 1, max: 50 }))
+});
+
+export const routeBuildSchema: ObjectSchema<RouteBuildRequest> = object({
+  waypoints: array(tuple<[number, number]>([longitude(), latitude()]), { min: 2, max: 50 }),
+  name: optional(string({ min: 1, max: 200 })),
+  preferences: optional(object({
+    preferGravel: optional(boolean()),
+    avoidSealedHighways: optional(boolean())
+  }))
+});
+
+// That the range ends after it starts is checked by the route, the schema only sees one field at a time
+export const surfaceOverrideSchema: ObjectSchema<SurfaceOverrideRequest> = object({
+  startDistance: number({ min: 0 }),
+  endDistance: number({ min: 0 }),
+  surface: oneOf(SURFACE_TYPES),
+  note: optional(string({ max: 500 })),
+  suggestCorrection: optional(boolean())
+});
+
+// That each split has a distance or a POI is checked by the service, which also knows how long the route is
+export const stagePlanSchema: ObjectSchema<StagePlanRequest> = object({
+  splits: array(object({
+    distance: optional(number({ min: 0 })),
+    poiId: optional(string({ min: 1, max: 100 })),
+    name: optional(string({ min: 1, max: 100 }))
+  }), { max: 60 })
+});
+
+export const surfaceCorrectionReviewSchema: ObjectSchema<SurfaceCorrectionReviewRequest> = object({
+  status: oneOf(['accepted', 'dismissed'] as const)
+});
+
+export const userRoleUpdateSchema: ObjectSchema<UserRoleUpdateRequest> = object({
+  role: oneOf(USER_ROLES)
+});
+
+export const surfaceClassificationSchema: ObjectSchema<SurfaceClassification> = object({
+  originalSurface: string({ min: 1, max: 100 }),
+  standardizedSurface: string({ min: 1, max: 100 })
+});
+
+export const apiTokenCreateSchema: ObjectSchema<ApiTokenCreateRequest> = object({
+  name: string({ min: 1, max: 100 }),
+  scopes: array(oneOf(API_TOKEN_SCOPES), { min: 1 })
+});
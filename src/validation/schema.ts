@@ -0,0 +1,159 @@
+/**
+ * A small declarative schema library for request bodies. Schemas check a value,
+ * collect every problem with the path of the field it was found in, and return a
+ * copy of the value with unknown object fields left out, so only the fields a
+ * schema lists ever reach the database.
+ */
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+export type ValidationResult<T> =
+  | { success: true; value: T }
+  | { success: false; errors: FieldError[] };
+
+export interface Schema<T> {
+  // Returns the checked value; problems are pushed to errors and the returned value should then be ignored
+  check(input: unknown, path: string, errors: FieldError[]): T;
+  readonly optional?: boolean;
+}
+
+export interface OptionalSchema<T> extends Schema<T | undefined> {
+  readonly optional: true;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<unknown>>;
+
+type OptionalKeys<S extends Shape> = { [K in keyof S]: S[K] extends OptionalSchema<unknown> ? K : never }[keyof S];
+type RequiredKeys<S extends Shape> = Exclude<keyof S, OptionalKeys<S>>;
+
+export type ObjectOutput<S extends Shape> = {
+  [K in RequiredKeys<S>]: Infer<S[K]>;
+} & {
+  [K in OptionalKeys<S>]?: Exclude<Infer<S[K]>, undefined>;
+} extends infer O ? { [K in keyof O]: O[K] } : never;
+
+export interface ObjectSchema<T> extends Schema<T> {
+  // The same fields with every one of them optional, for partial updates
+  partial(): ObjectSchema<Partial<T>>;
+}
+
+const fieldPath = (path: string, key: string | number) =>
+  typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+const fail = <T>(errors: FieldError[], path: string, message: string): T => {
+  errors.push({ field: path || 'body', message });
+  return undefined as T;
+};
+
+/**
+ * Checks a value against a schema.
+ *
+ * @returns The checked value, or every field error found
+ */
+export const validate = <T>(schema: Schema<T>, input: unknown): ValidationResult<T> => {
+  const errors: FieldError[] = [];
+  const value = schema.check(input, '', errors);
+  return errors.length ? { success: false, errors } : { success: true, value };
+};
+
+export const optional = <T>(schema: Schema<T>): OptionalSchema<T> => ({
+  optional: true,
+  check: (input, path, errors) => input === undefined ? undefined : schema.check(input, path, errors)
+});
+
+// Strings are trimmed; min: 1 makes a field required to be non-empty
+export const string = ({ min = 0, max }: { min?: number; max?: number } = {}): Schema<string> => ({
+  check: (input, path, errors) => {
+    if (typeof input !== 'string') return fail(errors, path, 'must be a string');
+
+    const value = input.trim();
+    if (value.length < min) {
+      return fail(errors, path, min === 1 ? 'is required' : `must be at least ${min} characters`);
+    }
+    if (max !== undefined && value.length > max) {
+      return fail(errors, path, `must be at most ${max} characters`);
+    }
+    return value;
+  }
+});
+
+// Use coerce for numbers sent as form fields, which always arrive as strings
+export const number = (
+  { min, max, coerce = false }: { min?: number; max?: number; coerce?: boolean } = {}
+): Schema<number> => ({
+  check: (input, path, errors) => {
+    const value = coerce && typeof input === 'string' && input.trim() !== '' ? Number(input) : input;
+    if (typeof value !== 'number' || !Number.isFinite(value)) return fail(errors, path, 'must be a number');
+
+    if (min !== undefined && value < min) return fail(errors, path, `must be at least ${min}`);
+    if (max !== undefined && value > max) return fail(errors, path, `must be at most ${max}`);
+    return value;
+  }
+});
+
+export const boolean = (): Schema<boolean> => ({
+  check: (input, path, errors) => typeof input === 'boolean' ? input : fail(errors, path, 'must be true or false')
+});
+
+export const oneOf = <T extends string>(values: readonly T[]): Schema<T> => ({
+  check: (input, path, errors) => values.includes(input as T)
+    ? input as T
+    : fail(errors, path, `must be one of: ${values.join(', ')}`)
+});
+
+export const array = <T>(item: Schema<T>, { min = 0, max }: { min?: number; max?: number } = {}): Schema<T[]> => ({
+  check: (input, path, errors) => {
+    if (!Array.isArray(input)) return fail(errors, path, 'must be a list');
+    if (input.length < min) return fail(errors, path, `must have at least ${min} item${min === 1 ? '' : 's'}`);
+    if (max !== undefined && input.length > max) return fail(errors, path, `must have at most ${max} items`);
+
+    return input.map((value, index) => item.check(value, fieldPath(path, index), errors));
+  }
+});
+
+export const tuple = <T extends unknown[]>(items: { [K in keyof T]: Schema<T[K]> }): Schema<T> => ({
+  check: (input, path, errors) => {
+    if (!Array.isArray(input) || input.length !== items.length) {
+      return fail(errors, path, `must be a list of ${items.length} items`);
+    }
+    return items.map((item, index) => item.check(input[index], fieldPath(path, index), errors)) as T;
+  }
+});
+
+/**
+ * For values too free-form to describe field by field, such as GeoJSON.
+ * The value is kept as it was sent when the predicate accepts it.
+ */
+export const custom = <T>(isValid: (input: unknown) => input is T, message: string): Schema<T> => ({
+  check: (input, path, errors) => isValid(input) ? input : fail(errors, path, message)
+});
+
+const isPlainObject = (input: unknown): input is Record<string, unknown> =>
+  typeof input === 'object' && input !== null && !Array.isArray(input);
+
+const createObjectSchema = <T>(shape: Shape, allOptional: boolean): ObjectSchema<T> => ({
+  check: (input, path, errors) => {
+    if (!isPlainObject(input)) return fail(errors, path, 'must be an object');
+
+    const value: Record<string, unknown> = {};
+    for (const [key, schema] of Object.entries(shape)) {
+      const field = fieldPath(path, key);
+      if (input[key] === undefined) {
+        if (!schema.optional && !allOptional) fail(errors, field, 'is required');
+        continue;
+      }
+      value[key] = schema.check(input[key], field, errors);
+    }
+    return value as T;
+  },
+  partial: () => createObjectSchema<Partial<T>>(shape, true)
+});
+
+// Fields not listed in the shape are dropped from the checked value
+export const object = <S extends Shape>(shape: S): ObjectSchema<ObjectOutput<S>> =>
+  createObjectSchema<ObjectOutput<S>>(shape, false);